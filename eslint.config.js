@@ -33,7 +33,14 @@ export default defineConfig([
         {
           allowConstantExport: true,
           // Allow hook exports from files that also export components
-          allowExportNames: ['useAppStatus', 'useSearch'],
+          allowExportNames: [
+            'useAppStatus',
+            'useSearch',
+            'useCompare',
+            'useSavedTrips',
+            'usePriceWatches',
+            'usePreferences',
+          ],
         },
       ],
     },
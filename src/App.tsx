@@ -2,6 +2,10 @@ import { lazy, Suspense } from 'react'
 import { BrowserRouter, Routes, Route } from 'react-router-dom'
 import { SearchProvider } from './context/SearchContext'
 import { AppStatusProvider } from './context/AppStatusContext'
+import { CompareProvider } from './context/CompareContext'
+import { SavedTripsProvider } from './context/SavedTripsContext'
+import { PriceWatchProvider } from './context/PriceWatchContext'
+import { PreferencesProvider } from './context/PreferencesContext'
 import { Navbar, Footer } from './components/layout'
 import HeroSection from './components/HeroSection'
 import PopularDestinations from './components/PopularDestinations'
@@ -11,6 +15,9 @@ import { Loader, ErrorBoundary } from './components/common'
 const Results = lazy(() => import('./pages/Results'))
 const Deals = lazy(() => import('./pages/Deals'))
 const FlightDetails = lazy(() => import('./pages/FlightDetails'))
+const SavedTrips = lazy(() => import('./pages/SavedTrips'))
+const PriceAlerts = lazy(() => import('./pages/PriceAlerts'))
+const Settings = lazy(() => import('./pages/Settings'))
 
 /**
  * Home page component with hero section and popular destinations
@@ -34,30 +41,41 @@ function App() {
   return (
     <ErrorBoundary>
       <AppStatusProvider>
-        <SearchProvider>
-          <BrowserRouter>
-            <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex flex-col">
-              <Navbar />
-              <main className="flex-1">
-                <Suspense
-                  fallback={
-                    <div className="flex items-center justify-center min-h-[60vh]">
-                      <Loader size="lg" message="Loading..." />
+        <PreferencesProvider>
+          <SearchProvider>
+            <SavedTripsProvider>
+              <PriceWatchProvider>
+                <CompareProvider>
+                  <BrowserRouter>
+                    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex flex-col">
+                      <Navbar />
+                      <main className="flex-1">
+                        <Suspense
+                          fallback={
+                            <div className="flex items-center justify-center min-h-[60vh]">
+                              <Loader size="lg" message="Loading..." />
+                            </div>
+                          }
+                        >
+                          <Routes>
+                            <Route path="/" element={<HomePage />} />
+                            <Route path="/flights" element={<Results />} />
+                            <Route path="/flight/:id" element={<FlightDetails />} />
+                            <Route path="/deals" element={<Deals />} />
+                            <Route path="/saved" element={<SavedTrips />} />
+                            <Route path="/alerts" element={<PriceAlerts />} />
+                            <Route path="/settings" element={<Settings />} />
+                          </Routes>
+                        </Suspense>
+                      </main>
+                      <Footer />
                     </div>
-                  }
-                >
-                  <Routes>
-                    <Route path="/" element={<HomePage />} />
-                    <Route path="/flights" element={<Results />} />
-                    <Route path="/flight/:id" element={<FlightDetails />} />
-                    <Route path="/deals" element={<Deals />} />
-                  </Routes>
-                </Suspense>
-              </main>
-              <Footer />
-            </div>
-          </BrowserRouter>
-        </SearchProvider>
+                  </BrowserRouter>
+                </CompareProvider>
+              </PriceWatchProvider>
+            </SavedTripsProvider>
+          </SearchProvider>
+        </PreferencesProvider>
       </AppStatusProvider>
     </ErrorBoundary>
   )
@@ -0,0 +1,101 @@
+import type { BestScoreWeights, BestScoringConfig } from '../types/flight'
+import { DEFAULT_BEST_SCORING } from '../utils/bestScore'
+import { TIME_OF_DAY_OPTIONS } from '../utils/timeOfDay'
+
+interface BestScoringControlsProps {
+  config: BestScoringConfig
+  onChange: (config: BestScoringConfig) => void
+}
+
+// Weight slider range (0 = factor ignored)
+const MAX_WEIGHT = 5
+
+const WEIGHT_LABELS: { key: keyof BestScoreWeights; label: string }[] = [
+  { key: 'price', label: 'Price' },
+  { key: 'duration', label: 'Total duration' },
+  { key: 'stops', label: 'Number of stops' },
+  { key: 'layover', label: 'Layover length' },
+  { key: 'departureTime', label: 'Departure time' },
+]
+
+/**
+ * Controls for tuning the "Best" ranking
+ * Each factor gets a 0-5 weight; preferred departure times feed the departure-time factor
+ * @param config - Current scoring configuration
+ * @param onChange - Callback with the updated configuration
+ * @returns Weight sliders, departure-time toggles and a reset button
+ */
+function BestScoringControls({ config, onChange }: BestScoringControlsProps) {
+  const handleWeightChange = (key: keyof BestScoreWeights, value: string) => {
+    onChange({ ...config, weights: { ...config.weights, [key]: Number(value) } })
+  }
+
+  const handleDepartureTimeToggle = (timeOfDay: string) => {
+    const preferredDepartureTimes = config.preferredDepartureTimes.includes(timeOfDay)
+      ? config.preferredDepartureTimes.filter(value => value !== timeOfDay)
+      : [...config.preferredDepartureTimes, timeOfDay]
+    onChange({ ...config, preferredDepartureTimes })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
+        {WEIGHT_LABELS.map(({ key, label }) => (
+          <label key={key} className="block text-sm text-gray-600 dark:text-gray-400">
+            <span className="flex justify-between mb-1">
+              {label}
+              <span className="font-medium text-text-dark dark:text-gray-200">
+                {config.weights[key] === 0 ? 'Ignored' : config.weights[key]}
+              </span>
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={MAX_WEIGHT}
+              step={1}
+              value={config.weights[key]}
+              onChange={e => handleWeightChange(key, e.target.value)}
+              className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary-blue"
+              aria-label={`${label} weight`}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">Preferred departure times</p>
+        <div className="flex flex-wrap gap-2">
+          {TIME_OF_DAY_OPTIONS.map(option => {
+            const isActive = config.preferredDepartureTimes.includes(option.value)
+            return (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => handleDepartureTimeToggle(option.value)}
+                className={`px-3 py-1.5 rounded-lg border text-sm transition-colors focus:outline-none focus:ring-2 focus:ring-primary-blue ${
+                  isActive
+                    ? 'border-primary-blue bg-primary-blue/10 dark:bg-primary-blue/20 text-text-dark dark:text-gray-200'
+                    : 'border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'
+                }`}
+                aria-pressed={isActive}
+                aria-label={`Prefer ${option.label.toLowerCase()} departures (${option.hours})`}
+              >
+                {option.label}
+              </button>
+            )
+          })}
+        </div>
+      </div>
+
+      <button
+        type="button"
+        onClick={() => onChange(DEFAULT_BEST_SCORING)}
+        className="text-sm text-primary-blue hover:underline focus:outline-none focus:ring-2 focus:ring-primary-blue rounded"
+      >
+        Reset to defaults
+      </button>
+    </div>
+  )
+}
+
+export default BestScoringControls
@@ -2,11 +2,19 @@ import { useNavigate } from 'react-router-dom'
 import type { Destination } from '../types/flight'
 import { formatPrice } from '../utils/formatPrice'
 import { getFutureDate } from '../utils/formatDate'
+import { buildSearchQuery } from '../utils/searchUrl'
+import { formatAirportDisplay } from '../utils/formatAirport'
+import { searchAirports } from '../utils/airportSearch'
+import { toAirport } from '../data/airports'
+import { usePreferences } from '../context/PreferencesContext'
 
 interface DestinationCardProps {
   destination: Destination
 }
 
+// Departure cities used without a home airport (the first one not being the destination)
+const DEFAULT_ORIGIN_CITIES = ['New York', 'London']
+
 /**
  * Destination card with image and price
  * @param destination - Destination object with city, country, image, and price
@@ -14,22 +22,38 @@ interface DestinationCardProps {
  */
 function DestinationCard({ destination }: DestinationCardProps) {
   const navigate = useNavigate()
+  const { preferences, marketParams } = usePreferences()
+  const { homeAirport } = preferences
 
   const handleClick = () => {
-    // Navigate to search with destination pre-filled
+    // Resolve the destination's main airport from the bundled dataset (no API call - avoids
+    // rate limits), leaving from the home airport if set or else from a default city
+    const destRecord = searchAirports(destination.city, 1)[0]
+    const destAirport = destRecord ? toAirport(destRecord) : undefined
+    const originAirport =
+      homeAirport ??
+      DEFAULT_ORIGIN_CITIES.map(city => searchAirports(city, 1)[0])
+        .filter(record => record && record.iata !== destRecord?.iata)
+        .map(toAirport)[0]
+
+    // Navigate to search with the route pre-filled, so the results page runs the search
     // Default departure date: 14 days from now for popular destinations
-    navigate('/flights', {
-      state: {
-        searchParams: {
-          to: destination.city,
-          departure: getFutureDate(14),
-          return: '',
-          passengers: '1',
-          cabinClass: 'economy',
-          tripType: 'round-trip',
-        },
-      },
+    const query = buildSearchQuery({
+      from: originAirport ? formatAirportDisplay(originAirport) : '',
+      to: destAirport ? formatAirportDisplay(destAirport) : destination.city,
+      departure: getFutureDate(14),
+      passengers: '1',
+      cabinClass: preferences.defaultCabinClass,
+      tripType: 'one-way',
+      originSkyId: originAirport?.skyId,
+      destinationSkyId: destAirport?.skyId,
+      originEntityId: originAirport?.entityId,
+      destinationEntityId: destAirport?.entityId,
+      originEntityType: originAirport?.entityType,
+      destinationEntityType: destAirport?.entityType,
+      ...marketParams,
     })
+    navigate(`/flights?${query}`)
     // Removed toast - navigation and context will handle feedback
   }
 
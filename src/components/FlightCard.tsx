@@ -1,19 +1,63 @@
-import type { Flight } from '../types/flight'
-import { Clock, Plane } from 'lucide-react'
+import type { Flight, FlightScore, PassengerCounts, PriceDisplay } from '../types/flight'
+import { Bookmark, Clock, Plane } from 'lucide-react'
 import { formatPrice } from '../utils/formatPrice'
+import { formatDate } from '../utils/formatDate'
+import { formatStops, getLegLabel } from '../utils/formatLeg'
+import { formatPassengers, getSeatedPassengers } from '../utils/passengers'
+import FlightTime from './FlightTime'
 
 interface FlightCardProps {
   flight: Flight
+  bestScore?: FlightScore
   onSelect?: (flight: Flight) => void
+  isCompared?: boolean
+  compareDisabled?: boolean // Comparison tray is full
+  onToggleCompare?: (flight: Flight) => void
+  isSaved?: boolean
+  onToggleSave?: (flight: Flight) => void
+  passengers?: PassengerCounts
+  priceDisplay?: PriceDisplay
+  onPriceDisplayChange?: (display: PriceDisplay) => void
 }
 
 /**
  * Flight card component displaying flight information
+ * Round-trip and multi-city itineraries are shown leg by leg
+ * Times are local to each airport, with "+1"/"+2" badges for next-day arrivals
  * @param flight - Flight object with details
+ * @param bestScore - "Best" score; when provided the card explains its ranking and the
+ * top-ranked flight gets the BEST badge instead of the provider's flag
  * @param onSelect - Callback when user selects the flight
+ * @param isCompared - Whether the flight is in the comparison tray
+ * @param compareDisabled - Disables the compare checkbox for flights not yet compared
+ * @param onToggleCompare - Callback when the compare checkbox changes; hides it when omitted
+ * @param isSaved - Whether the flight is in the saved trips
+ * @param onToggleSave - Callback for the save button; hides it when omitted
+ * @param passengers - Travellers searched for; adds the total price when there are several
+ * @param priceDisplay - Headline price: per person or total for the party (default: 'per-person')
+ * @param onPriceDisplayChange - Callback for the per-person/total toggle; hides it when omitted
  * @returns Flight card with airline, times, duration, price, and select button
  */
-function FlightCard({ flight, onSelect }: FlightCardProps) {
+function FlightCard({
+  flight,
+  bestScore,
+  onSelect,
+  isCompared = false,
+  compareDisabled = false,
+  onToggleCompare,
+  isSaved = false,
+  onToggleSave,
+  passengers,
+  priceDisplay = 'per-person',
+  onPriceDisplayChange,
+}: FlightCardProps) {
+  const isBest = bestScore ? bestScore.rank === 1 : flight.best
+  const seatedPassengers = passengers ? getSeatedPassengers(passengers) : 1
+  const hasParty = !!passengers && (seatedPassengers > 1 || passengers.infantsOnLap > 0)
+  const showTotal = hasParty && priceDisplay === 'total'
+  const totalPrice = flight.price * seatedPassengers
+  const headlinePrice = showTotal ? totalPrice : flight.price
+
   const handleSelect = () => {
     if (onSelect) {
       onSelect(flight)
@@ -33,70 +77,194 @@ function FlightCard({ flight, onSelect }: FlightCardProps) {
             <h3 className="text-lg font-semibold text-text-dark dark:text-gray-200">
               {flight.airline}
             </h3>
-            {flight.best && (
+            {isBest && (
               <span className="bg-accent-yellow text-text-dark text-xs font-bold px-2 py-1 rounded">
                 BEST
               </span>
             )}
+            {onToggleSave && (
+              <button
+                onClick={() => onToggleSave(flight)}
+                className={`ml-auto flex items-center gap-1 px-2 py-1 rounded text-sm transition-colors focus:outline-none focus:ring-2 focus:ring-primary-blue ${
+                  isSaved
+                    ? 'text-primary-blue dark:text-blue-400'
+                    : 'text-gray-500 dark:text-gray-400 hover:text-primary-blue dark:hover:text-blue-400'
+                }`}
+                aria-pressed={isSaved}
+                aria-label={isSaved ? 'Remove from saved trips' : 'Save flight'}
+              >
+                <Bookmark className={`h-4 w-4 ${isSaved ? 'fill-current' : ''}`} />
+                {isSaved ? 'Saved' : 'Save'}
+              </button>
+            )}
           </div>
+          {bestScore && (
+            <p
+              className="-mt-3 mb-4 text-xs text-gray-500 dark:text-gray-400"
+              title={bestScore.reasons.join(' • ')}
+            >
+              {bestScore.summary}
+            </p>
+          )}
 
-          {/* Flight Times */}
-          <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-4">
-            {/* Departure */}
-            <div>
-              <div className="flex items-center gap-2 mb-1">
-                <Clock className="h-4 w-4 text-primary-blue" />
-                <span className="text-xs text-gray-500 dark:text-gray-400">Departure</span>
+          {/* Round-trip and multi-city itineraries list each leg; single flights show one time row */}
+          {flight.legs && flight.legs.length > 1 ? (
+            <ol className="space-y-3 mb-4" aria-label="Itinerary legs">
+              {flight.legs.map((leg, index) => (
+                <li
+                  key={`${leg.departureAirport}-${leg.arrivalAirport}-${index}`}
+                  className="flex items-center gap-4 border-l-2 border-primary-blue/40 pl-3"
+                >
+                  <div className="min-w-[64px]">
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {getLegLabel(leg, index)}
+                    </p>
+                    {leg.date && (
+                      <p className="text-xs text-gray-600 dark:text-gray-400">
+                        {formatDate(leg.date, 'short')}
+                      </p>
+                    )}
+                  </div>
+                  <div>
+                    <p className="font-semibold text-text-dark dark:text-gray-200">
+                      <FlightTime dateTime={leg.departureTime} airport={leg.departureAirport} />
+                    </p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {leg.departureAirport}
+                    </p>
+                  </div>
+                  <div className="flex-1 text-center text-xs text-gray-500 dark:text-gray-400">
+                    <p>{leg.duration}</p>
+                    <p>
+                      {formatStops(leg.stops)}
+                      {leg.segments &&
+                        leg.segments.length > 1 &&
+                        ` via ${leg.segments
+                          .slice(1)
+                          .map(segment => segment.departureAirport)
+                          .join(', ')}`}
+                      {leg.airline && ` • ${leg.airline}`}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-semibold text-text-dark dark:text-gray-200">
+                      <FlightTime
+                        dateTime={leg.arrivalTime}
+                        airport={leg.arrivalAirport}
+                        departureTime={leg.departureTime}
+                      />
+                    </p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">{leg.arrivalAirport}</p>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-4">
+              {/* Departure */}
+              <div>
+                <div className="flex items-center gap-2 mb-1">
+                  <Clock className="h-4 w-4 text-primary-blue" />
+                  <span className="text-xs text-gray-500 dark:text-gray-400">Departure</span>
+                </div>
+                <p className="text-lg font-semibold text-text-dark dark:text-gray-200">
+                  <FlightTime
+                    dateTime={flight.departureTime}
+                    airport={flight.departureAirport}
+                    showTimeZone
+                  />
+                </p>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {flight.departureAirport}
+                </p>
               </div>
-              <p className="text-lg font-semibold text-text-dark dark:text-gray-200">
-                {flight.departureTime}
-              </p>
-              <p className="text-sm text-gray-600 dark:text-gray-400">{flight.departureAirport}</p>
-            </div>
 
-            {/* Arrival */}
-            <div>
-              <div className="flex items-center gap-2 mb-1">
-                <Clock className="h-4 w-4 text-primary-blue" />
-                <span className="text-xs text-gray-500">Arrival</span>
+              {/* Arrival */}
+              <div>
+                <div className="flex items-center gap-2 mb-1">
+                  <Clock className="h-4 w-4 text-primary-blue" />
+                  <span className="text-xs text-gray-500">Arrival</span>
+                </div>
+                <p className="text-lg font-semibold text-text-dark dark:text-gray-200">
+                  <FlightTime
+                    dateTime={flight.arrivalTime}
+                    airport={flight.arrivalAirport}
+                    departureTime={flight.departureTime}
+                    showTimeZone
+                  />
+                </p>
+                <p className="text-sm text-gray-600 dark:text-gray-400">{flight.arrivalAirport}</p>
               </div>
-              <p className="text-lg font-semibold text-text-dark dark:text-gray-200">
-                {flight.arrivalTime}
-              </p>
-              <p className="text-sm text-gray-600 dark:text-gray-400">{flight.arrivalAirport}</p>
-            </div>
 
-            {/* Duration & Stops */}
-            <div className="col-span-2 md:col-span-1">
-              <div className="flex items-center gap-2 mb-1">
-                <Plane className="h-4 w-4 text-primary-blue" />
-                <span className="text-xs text-gray-500">Duration</span>
+              {/* Duration & Stops */}
+              <div className="col-span-2 md:col-span-1">
+                <div className="flex items-center gap-2 mb-1">
+                  <Plane className="h-4 w-4 text-primary-blue" />
+                  <span className="text-xs text-gray-500">Duration</span>
+                </div>
+                <p className="text-sm font-medium text-text-dark dark:text-gray-200">
+                  {flight.duration}
+                </p>
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  {flight.stops === 0
+                    ? 'Non-stop'
+                    : `${flight.stops} stop${flight.stops > 1 ? 's' : ''}`}
+                </p>
               </div>
-              <p className="text-sm font-medium text-text-dark dark:text-gray-200">
-                {flight.duration}
-              </p>
-              <p className="text-xs text-gray-600 dark:text-gray-400">
-                {flight.stops === 0
-                  ? 'Non-stop'
-                  : `${flight.stops} stop${flight.stops > 1 ? 's' : ''}`}
-              </p>
             </div>
-          </div>
+          )}
         </div>
 
         {/* Right Section: Price & Select Button */}
         <div className="flex flex-col items-center md:items-end justify-between gap-4 border-t md:border-t-0 md:border-l border-gray-200 dark:border-gray-700 pt-4 md:pt-0 md:pl-6">
           <div className="text-center md:text-right">
-            <p className="text-3xl font-bold text-primary-blue">{formatPrice(flight.price)}</p>
-            <p className="text-xs text-gray-500 dark:text-gray-400">per person</p>
+            <p className="text-3xl font-bold text-primary-blue">{formatPrice(headlinePrice)}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {showTotal && passengers ? `total for ${formatPassengers(passengers)}` : 'per person'}
+            </p>
+            {hasParty && passengers && (
+              <p
+                className="mt-1 text-sm font-medium text-text-dark dark:text-gray-200"
+                title={showTotal ? undefined : `Total for ${formatPassengers(passengers)}`}
+              >
+                {showTotal
+                  ? `${formatPrice(flight.price)} per person`
+                  : `${formatPrice(totalPrice)} total`}
+              </p>
+            )}
+            {hasParty && onPriceDisplayChange && (
+              <button
+                onClick={() => onPriceDisplayChange(showTotal ? 'per-person' : 'total')}
+                className="mt-1 text-xs text-primary-blue dark:text-blue-400 hover:underline focus:outline-none focus:ring-2 focus:ring-primary-blue rounded-md px-1"
+              >
+                {showTotal ? 'Show per-person prices' : 'Show total prices'}
+              </button>
+            )}
           </div>
           <button
             onClick={handleSelect}
             className="w-full md:w-auto bg-primary-blue dark:bg-blue-600 text-white font-semibold px-6 py-3 rounded-lg hover:bg-blue-600 dark:hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-primary-blue focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-all duration-200 shadow-md hover:shadow-lg"
-            aria-label={`Select ${flight.airline} flight for ${formatPrice(flight.price)}`}
+            aria-label={`Select ${flight.airline} flight for ${formatPrice(headlinePrice)}${showTotal ? ' total' : ''}`}
           >
             Select
           </button>
+          {onToggleCompare && (
+            <label
+              className={`flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 ${
+                compareDisabled && !isCompared ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'
+              }`}
+              title={compareDisabled && !isCompared ? 'Comparison tray is full' : undefined}
+            >
+              <input
+                type="checkbox"
+                checked={isCompared}
+                disabled={compareDisabled && !isCompared}
+                onChange={() => onToggleCompare(flight)}
+                className="w-4 h-4 text-primary-blue border-gray-300 rounded focus:ring-primary-blue"
+              />
+              Compare
+            </label>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,55 @@
+import { formatLocalTime, getDayOffset, getTimeZoneLabel } from '../utils/airportTime'
+
+interface FlightTimeProps {
+  dateTime: string
+  airport?: string
+  departureTime?: string
+  showTimeZone?: boolean
+  className?: string
+}
+
+/**
+ * Local departure/arrival time at an airport
+ * Arrivals on a later (or earlier) local day than departure get a "+1"/"+2"/"-1" badge
+ * @param dateTime - Local ISO datetime with UTC offset (legacy "HH:MM" is shown as-is)
+ * @param airport - IATA code of the airport the time is local to
+ * @param departureTime - Departure datetime to compare against (pass for arrival times)
+ * @param showTimeZone - Show the airport's time zone abbreviation after the time
+ * @param className - Classes for the time text
+ * @returns Time element with optional day-offset badge and time zone label
+ */
+function FlightTime({
+  dateTime,
+  airport,
+  departureTime,
+  showTimeZone = false,
+  className = '',
+}: FlightTimeProps) {
+  const dayOffset = departureTime ? getDayOffset(departureTime, dateTime) : 0
+  const timeZone = getTimeZoneLabel(dateTime, airport)
+  const localTime = formatLocalTime(dateTime)
+
+  return (
+    <span
+      className="inline-flex items-baseline gap-1"
+      title={airport ? `Local time at ${airport}${timeZone ? ` (${timeZone})` : ''}` : undefined}
+    >
+      <time dateTime={dateTime || undefined} className={className}>
+        {localTime || '--:--'}
+      </time>
+      {dayOffset !== 0 && (
+        <sup
+          className="text-xs font-semibold text-orange-600 dark:text-orange-400"
+          aria-label={`arrives ${Math.abs(dayOffset)} day${Math.abs(dayOffset) > 1 ? 's' : ''} ${dayOffset > 0 ? 'later' : 'earlier'}`}
+        >
+          {dayOffset > 0 ? `+${dayOffset}` : dayOffset}
+        </sup>
+      )}
+      {showTimeZone && timeZone && (
+        <span className="text-xs font-normal text-gray-500 dark:text-gray-400">{timeZone}</span>
+      )}
+    </span>
+  )
+}
+
+export default FlightTime
@@ -1,25 +1,36 @@
 import { useEffect, useState } from 'react'
 import { MapPin, Navigation, AlertCircle } from 'lucide-react'
-import { getNearByAirports } from '../services/flightApi'
+import { DEFAULT_NEARBY_RADIUS_KM, getNearByAirports } from '../services/flightApi'
 import { useGeolocation } from '../hooks/useGeolocation'
 import type { Airport } from '../types/airport'
-import { formatAirportDisplay } from '../utils/formatAirport'
+import { formatAirportDisplay, formatDistance } from '../utils/formatAirport'
 import { Loader } from './common'
 import { logger } from '../utils/logger'
+import { isAbortError } from '../utils/apiRetry'
 
 interface NearbyAirportsProps {
   onSelectAirport?: (airport: Airport) => void
   maxResults?: number
+  defaultRadiusKm?: number
 }
 
+// Search radius options offered in the selector (km)
+const RADIUS_OPTIONS_KM = [50, 100, 200, 500]
+
 /**
- * NearbyAirports component that displays airports near user's location
- * Uses browser geolocation API and falls back gracefully to mock data
+ * NearbyAirports component that displays airports near the user's location
+ * Uses the browser geolocation API; airports are listed nearest first with their distance,
+ * within a selectable radius
  * @param onSelectAirport - Callback when user selects an airport
  * @param maxResults - Maximum number of airports to display (default: 5)
+ * @param defaultRadiusKm - Initial search radius in kilometres (default: 100)
  * @returns NearbyAirports component with loading, error, and success states
  */
-function NearbyAirports({ onSelectAirport, maxResults = 5 }: NearbyAirportsProps) {
+function NearbyAirports({
+  onSelectAirport,
+  maxResults = 5,
+  defaultRadiusKm = DEFAULT_NEARBY_RADIUS_KM,
+}: NearbyAirportsProps) {
   const {
     latitude,
     longitude,
@@ -33,8 +44,11 @@ function NearbyAirports({ onSelectAirport, maxResults = 5 }: NearbyAirportsProps
   const [airports, setAirports] = useState<Airport[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [radiusKm, setRadiusKm] = useState(defaultRadiusKm)
 
   useEffect(() => {
+    const controller = new AbortController()
+
     const fetchNearbyAirports = async () => {
       // Only fetch if we have coordinates
       if (geoStatus === 'success' && latitude !== null && longitude !== null) {
@@ -42,15 +56,20 @@ function NearbyAirports({ onSelectAirport, maxResults = 5 }: NearbyAirportsProps
         setError(null)
 
         try {
-          const nearbyAirports = await getNearByAirports(latitude, longitude)
+          const nearbyAirports = await getNearByAirports(latitude, longitude, radiusKm, {
+            signal: controller.signal,
+          })
+          if (controller.signal.aborted) return
           setAirports(nearbyAirports.slice(0, maxResults))
         } catch (err) {
+          // Superseded by another radius or location, or unmounted
+          if (isAbortError(err)) return
           const errorMessage =
             err instanceof Error ? err.message : 'Failed to load nearby airports. Please try again.'
           setError(errorMessage)
           logger.error('NearbyAirports', 'Error fetching nearby airports', err)
         } finally {
-          setIsLoading(false)
+          if (!controller.signal.aborted) setIsLoading(false)
         }
       } else if (geoStatus === 'error') {
         // Geolocation failed, show error message
@@ -60,18 +79,37 @@ function NearbyAirports({ onSelectAirport, maxResults = 5 }: NearbyAirportsProps
     }
 
     fetchNearbyAirports()
-  }, [latitude, longitude, geoStatus, geoError, maxResults])
+
+    // A newer radius or location supersedes the pending request
+    return () => controller.abort()
+  }, [latitude, longitude, geoStatus, geoError, maxResults, radiusKm])
+
+  const header = (
+    <div className="flex items-center justify-between gap-2 mb-4">
+      <div className="flex items-center gap-2">
+        <Navigation className="h-5 w-5 text-primary-blue" />
+        <h3 className="text-lg font-semibold text-text-dark dark:text-gray-100">Nearby Airports</h3>
+      </div>
+      <select
+        value={radiusKm}
+        onChange={e => setRadiusKm(Number(e.target.value))}
+        className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-text-dark dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-primary-blue"
+        aria-label="Search radius"
+      >
+        {RADIUS_OPTIONS_KM.map(option => (
+          <option key={option} value={option}>
+            Within {option} km
+          </option>
+        ))}
+      </select>
+    </div>
+  )
 
   // Don't render if geolocation is not requested or still loading
   if (geoStatus === 'idle' || geoStatus === 'loading') {
     return (
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
-        <div className="flex items-center gap-2 mb-4">
-          <Navigation className="h-5 w-5 text-primary-blue" />
-          <h3 className="text-lg font-semibold text-text-dark dark:text-gray-100">
-            Nearby Airports
-          </h3>
-        </div>
+        {header}
         <div className="flex items-center justify-center py-8">
           <Loader message="Getting your location..." size="sm" />
         </div>
@@ -83,12 +121,7 @@ function NearbyAirports({ onSelectAirport, maxResults = 5 }: NearbyAirportsProps
   if (geoStatus === 'error' || (error && airports.length === 0)) {
     return (
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
-        <div className="flex items-center gap-2 mb-4">
-          <Navigation className="h-5 w-5 text-primary-blue" />
-          <h3 className="text-lg font-semibold text-text-dark dark:text-gray-100">
-            Nearby Airports
-          </h3>
-        </div>
+        {header}
         <div className="flex items-center gap-3 text-sm text-gray-600 dark:text-gray-400">
           <AlertCircle className="h-5 w-5 text-yellow-500" />
           <p>{error || geoError || 'Unable to find nearby airports'}</p>
@@ -101,12 +134,7 @@ function NearbyAirports({ onSelectAirport, maxResults = 5 }: NearbyAirportsProps
   if (isLoading) {
     return (
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
-        <div className="flex items-center gap-2 mb-4">
-          <Navigation className="h-5 w-5 text-primary-blue" />
-          <h3 className="text-lg font-semibold text-text-dark dark:text-gray-100">
-            Nearby Airports
-          </h3>
-        </div>
+        {header}
         <div className="flex items-center justify-center py-8">
           <Loader message="Finding nearby airports..." size="sm" />
         </div>
@@ -118,13 +146,10 @@ function NearbyAirports({ onSelectAirport, maxResults = 5 }: NearbyAirportsProps
   if (airports.length === 0) {
     return (
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
-        <div className="flex items-center gap-2 mb-4">
-          <Navigation className="h-5 w-5 text-primary-blue" />
-          <h3 className="text-lg font-semibold text-text-dark dark:text-gray-100">
-            Nearby Airports
-          </h3>
-        </div>
-        <p className="text-sm text-gray-600 dark:text-gray-400">No nearby airports found.</p>
+        {header}
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          No airports within {radiusKm} km. Try a larger radius.
+        </p>
       </div>
     )
   }
@@ -132,10 +157,7 @@ function NearbyAirports({ onSelectAirport, maxResults = 5 }: NearbyAirportsProps
   // Show airports list
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
-      <div className="flex items-center gap-2 mb-4">
-        <Navigation className="h-5 w-5 text-primary-blue" />
-        <h3 className="text-lg font-semibold text-text-dark dark:text-gray-100">Nearby Airports</h3>
-      </div>
+      {header}
 
       <div className="space-y-2">
         {airports.map(airport => (
@@ -154,6 +176,11 @@ function NearbyAirports({ onSelectAirport, maxResults = 5 }: NearbyAirportsProps
                 {airport.name}
               </div>
             </div>
+            {airport.distanceKm !== undefined && (
+              <span className="text-sm text-gray-500 dark:text-gray-400 flex-shrink-0">
+                {formatDistance(airport.distanceKm)}
+              </span>
+            )}
           </button>
         ))}
       </div>
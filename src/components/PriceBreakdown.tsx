@@ -0,0 +1,76 @@
+import type { Flight, PassengerCounts } from '../types/flight'
+import { formatPrice } from '../utils/formatPrice'
+import { formatPassengers } from '../utils/passengers'
+import { getPriceBreakdown } from '../utils/priceBreakdown'
+
+interface PriceBreakdownProps {
+  flight: Flight
+  passengers: PassengerCounts
+  className?: string
+}
+
+/**
+ * Price breakdown of a flight for the whole party
+ * Lists the fare per passenger type, the base fare and taxes/fees when the API provides them,
+ * and the grand total
+ * @param flight - Flight with a per-person price
+ * @param passengers - Travellers searched for
+ * @param className - Additional CSS classes
+ * @returns Price breakdown table
+ */
+function PriceBreakdown({ flight, passengers, className = '' }: PriceBreakdownProps) {
+  const breakdown = getPriceBreakdown(flight, passengers)
+
+  return (
+    <table className={`w-full text-sm ${className}`}>
+      <caption className="sr-only">Price breakdown for {formatPassengers(passengers)}</caption>
+      <tbody>
+        {breakdown.lines.map(line => (
+          <tr key={line.label} className="text-gray-600 dark:text-gray-400">
+            <th scope="row" className="py-1 text-left font-normal">
+              {line.label}
+            </th>
+            <td className="py-1 text-right">
+              {line.unitPrice !== null
+                ? `${line.count} × ${formatPrice(line.unitPrice)}`
+                : `${line.count} ×`}
+            </td>
+            <td className="py-1 pl-4 text-right font-medium text-text-dark dark:text-gray-200">
+              {line.subtotal !== null ? formatPrice(line.subtotal) : 'Priced at booking'}
+            </td>
+          </tr>
+        ))}
+        {breakdown.baseFare !== undefined && (
+          <tr className="border-t border-gray-100 dark:border-gray-700 text-gray-600 dark:text-gray-400">
+            <th scope="row" colSpan={2} className="py-1 text-left font-normal">
+              Base fare
+            </th>
+            <td className="py-1 pl-4 text-right">{formatPrice(breakdown.baseFare)}</td>
+          </tr>
+        )}
+        {breakdown.taxesAndFees !== undefined && (
+          <tr className="text-gray-600 dark:text-gray-400">
+            <th scope="row" colSpan={2} className="py-1 text-left font-normal">
+              Taxes and fees
+            </th>
+            <td className="py-1 pl-4 text-right">{formatPrice(breakdown.taxesAndFees)}</td>
+          </tr>
+        )}
+        <tr className="border-t border-gray-200 dark:border-gray-700">
+          <th
+            scope="row"
+            colSpan={2}
+            className="pt-2 text-left font-semibold text-text-dark dark:text-gray-100"
+          >
+            Total
+          </th>
+          <td className="pt-2 pl-4 text-right text-2xl font-bold text-text-dark dark:text-gray-100">
+            {formatPrice(breakdown.total)}
+          </td>
+        </tr>
+      </tbody>
+    </table>
+  )
+}
+
+export default PriceBreakdown
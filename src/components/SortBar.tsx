@@ -1,22 +1,51 @@
-import type { SortOption } from '../types/flight'
+import { useState } from 'react'
+import { ArrowDownUp, SlidersHorizontal } from 'lucide-react'
+import type { BestScoringConfig, SortDirection, SortOption } from '../types/flight'
+import { SORT_OPTIONS, SORT_OPTION_LABELS } from '../utils/sortFlights'
+import BestScoringControls from './BestScoringControls'
 
 interface SortBarProps {
   activeSort: SortOption
   onSortChange: (sort: SortOption) => void
+  direction?: SortDirection
+  onDirectionChange?: (direction: SortDirection) => void
+  secondarySort?: SortOption | null
+  onSecondarySortChange?: (sort: SortOption | null) => void
+  bestScoring?: BestScoringConfig
+  onBestScoringChange?: (config: BestScoringConfig) => void
 }
 
 /**
- * Sort bar with buttons for Best, Cheapest, and Fastest options
+ * Sort bar with buttons for every sort option, an ascending/descending toggle
+ * and a secondary "then by" tie-break selector
+ * and, while "Best" is active, a panel for tuning how "Best" is scored
+ * Direction, tie-break and tuning controls only render when their callbacks are provided
  * @param activeSort - Currently selected sort option
  * @param onSortChange - Callback when sort option changes
+ * @param direction - Current sort direction (default: 'asc')
+ * @param onDirectionChange - Callback when the sort direction is toggled
+ * @param secondarySort - Current tie-break sort option, or null for none
+ * @param onSecondarySortChange - Callback when the tie-break option changes
+ * @param bestScoring - Current "Best" scoring configuration
+ * @param onBestScoringChange - Callback when the "Best" scoring configuration changes
  * @returns Sort bar toolbar with toggle buttons
  */
-function SortBar({ activeSort, onSortChange }: SortBarProps) {
-  const sortOptions: { value: SortOption; label: string }[] = [
-    { value: 'best', label: 'Best' },
-    { value: 'cheapest', label: 'Cheapest' },
-    { value: 'fastest', label: 'Fastest' },
-  ]
+function SortBar({
+  activeSort,
+  onSortChange,
+  direction = 'asc',
+  onDirectionChange,
+  secondarySort = null,
+  onSecondarySortChange,
+  bestScoring,
+  onBestScoringChange,
+}: SortBarProps) {
+  const [showTuning, setShowTuning] = useState(false)
+  const activeLabels = SORT_OPTION_LABELS[activeSort]
+  // "Best" is a ranking, so it has no reverse order
+  const canReverse = activeSort !== 'best' && !!onDirectionChange
+  const canTune = activeSort === 'best' && !!bestScoring && !!onBestScoringChange
+  const secondaryOptions = SORT_OPTIONS.filter(option => option !== activeSort)
 
   return (
     <div
@@ -26,22 +55,77 @@ function SortBar({ activeSort, onSortChange }: SortBarProps) {
     >
       <div className="flex items-center gap-2 flex-wrap">
         <span className="text-sm font-medium text-text-dark dark:text-gray-200 mr-2">Sort by:</span>
-        {sortOptions.map(option => (
+        {SORT_OPTIONS.map(option => (
           <button
-            key={option.value}
-            onClick={() => onSortChange(option.value)}
+            key={option}
+            onClick={() => onSortChange(option)}
             className={`px-4 py-2 rounded-lg font-medium transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-primary-blue focus:ring-offset-2 dark:focus:ring-offset-gray-800 ${
-              activeSort === option.value
+              activeSort === option
                 ? 'bg-primary-blue dark:bg-blue-600 text-white shadow-md'
                 : 'bg-gray-100 dark:bg-gray-700 text-text-dark dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600'
             }`}
-            aria-label={`Sort by ${option.label}`}
-            aria-pressed={activeSort === option.value}
+            aria-label={`Sort by ${SORT_OPTION_LABELS[option].label}`}
+            aria-pressed={activeSort === option}
           >
-            {option.label}
+            {SORT_OPTION_LABELS[option].label}
           </button>
         ))}
       </div>
+
+      {(canReverse || canTune || onSecondarySortChange) && (
+        <div className="flex items-center gap-4 flex-wrap mt-3 pt-3 border-t border-gray-200 dark:border-gray-700">
+          {canReverse && (
+            <button
+              onClick={() => onDirectionChange?.(direction === 'asc' ? 'desc' : 'asc')}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium bg-gray-100 dark:bg-gray-700 text-text-dark dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-primary-blue transition-colors"
+              aria-label={`Sort order: ${activeLabels[direction]}. Click to reverse`}
+            >
+              <ArrowDownUp className="h-4 w-4" />
+              {activeLabels[direction]}
+            </button>
+          )}
+
+          {canTune && (
+            <button
+              onClick={() => setShowTuning(prev => !prev)}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium bg-gray-100 dark:bg-gray-700 text-text-dark dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-primary-blue transition-colors"
+              aria-expanded={showTuning}
+              aria-controls="best-scoring-controls"
+            >
+              <SlidersHorizontal className="h-4 w-4" />
+              Tune "Best"
+            </button>
+          )}
+
+          {onSecondarySortChange && (
+            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              Then by
+              <select
+                value={secondarySort ?? ''}
+                onChange={e => onSecondarySortChange((e.target.value as SortOption) || null)}
+                className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-text-dark dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-primary-blue"
+                aria-label="Secondary sort"
+              >
+                <option value="">None</option>
+                {secondaryOptions.map(option => (
+                  <option key={option} value={option}>
+                    {SORT_OPTION_LABELS[option].label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+      )}
+
+      {canTune && showTuning && (
+        <div
+          id="best-scoring-controls"
+          className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700"
+        >
+          <BestScoringControls config={bestScoring} onChange={onBestScoringChange} />
+        </div>
+      )}
     </div>
   )
 }
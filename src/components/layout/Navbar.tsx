@@ -125,6 +125,48 @@ function Navbar() {
               Deals
               <span className="absolute bottom-0 left-0 w-0 h-0.5 bg-primary-blue transition-all duration-200 group-hover:w-full"></span>
             </Link>
+            <Link
+              to="/saved"
+              role="listitem"
+              className={`font-medium focus:outline-none focus:ring-2 focus:ring-primary-blue focus:ring-offset-2 dark:focus:ring-offset-gray-900 rounded-md px-3 py-2 transition-colors duration-200 relative group ${
+                location.pathname === '/saved'
+                  ? 'text-primary-blue dark:text-blue-400'
+                  : 'text-text-dark dark:text-gray-200 hover:text-primary-blue dark:hover:text-blue-400'
+              }`}
+              aria-label="View saved trips"
+              aria-current={location.pathname === '/saved' ? 'page' : undefined}
+            >
+              Saved
+              <span className="absolute bottom-0 left-0 w-0 h-0.5 bg-primary-blue transition-all duration-200 group-hover:w-full"></span>
+            </Link>
+            <Link
+              to="/alerts"
+              role="listitem"
+              className={`font-medium focus:outline-none focus:ring-2 focus:ring-primary-blue focus:ring-offset-2 dark:focus:ring-offset-gray-900 rounded-md px-3 py-2 transition-colors duration-200 relative group ${
+                location.pathname === '/alerts'
+                  ? 'text-primary-blue dark:text-blue-400'
+                  : 'text-text-dark dark:text-gray-200 hover:text-primary-blue dark:hover:text-blue-400'
+              }`}
+              aria-label="View price alerts"
+              aria-current={location.pathname === '/alerts' ? 'page' : undefined}
+            >
+              Alerts
+              <span className="absolute bottom-0 left-0 w-0 h-0.5 bg-primary-blue transition-all duration-200 group-hover:w-full"></span>
+            </Link>
+            <Link
+              to="/settings"
+              role="listitem"
+              className={`font-medium focus:outline-none focus:ring-2 focus:ring-primary-blue focus:ring-offset-2 dark:focus:ring-offset-gray-900 rounded-md px-3 py-2 transition-colors duration-200 relative group ${
+                location.pathname === '/settings'
+                  ? 'text-primary-blue dark:text-blue-400'
+                  : 'text-text-dark dark:text-gray-200 hover:text-primary-blue dark:hover:text-blue-400'
+              }`}
+              aria-label="Edit travel preferences"
+              aria-current={location.pathname === '/settings' ? 'page' : undefined}
+            >
+              Settings
+              <span className="absolute bottom-0 left-0 w-0 h-0.5 bg-primary-blue transition-all duration-200 group-hover:w-full"></span>
+            </Link>
           </div>
         </div>
       </nav>
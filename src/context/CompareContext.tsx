@@ -0,0 +1,97 @@
+import { createContext, useContext, useState, useCallback } from 'react'
+import type { ReactNode } from 'react'
+import type { Flight } from '../types/flight'
+import { logger } from '../utils/logger'
+
+// Maximum number of flights in the comparison tray
+const MAX_COMPARE_FLIGHTS = 4
+
+interface CompareContextType {
+  compareFlights: Flight[]
+  maxFlights: number
+  isFull: boolean
+
+  // Actions
+  toggleCompare: (flight: Flight) => void
+  removeFromCompare: (flightId: string) => void
+  clearCompare: () => void
+}
+
+const CompareContext = createContext<CompareContextType | undefined>(undefined)
+
+/**
+ * CompareContext provider component managing the flight comparison tray
+ * Lives above the router so the tray survives visits to flight details and new searches
+ * @param children - Child components
+ * @returns CompareContext provider with compared flights and actions
+ */
+export function CompareProvider({ children }: { children: ReactNode }) {
+  const [compareFlights, setCompareFlights] = useState<Flight[]>([])
+
+  // Add a flight, or remove it if already in the tray; ignored once the tray is full
+  const toggleCompare = useCallback((flight: Flight) => {
+    setCompareFlights(prev => {
+      if (prev.some(f => f.id === flight.id)) return prev.filter(f => f.id !== flight.id)
+      if (prev.length >= MAX_COMPARE_FLIGHTS) {
+        logger.warn('CompareProvider', 'Comparison tray is full', { flightId: flight.id })
+        return prev
+      }
+      return [...prev, flight]
+    })
+  }, [])
+
+  const removeFromCompare = useCallback((flightId: string) => {
+    setCompareFlights(prev => prev.filter(f => f.id !== flightId))
+  }, [])
+
+  const clearCompare = useCallback(() => {
+    setCompareFlights([])
+  }, [])
+
+  return (
+    <CompareContext.Provider
+      value={{
+        compareFlights,
+        maxFlights: MAX_COMPARE_FLIGHTS,
+        isFull: compareFlights.length >= MAX_COMPARE_FLIGHTS,
+        toggleCompare,
+        removeFromCompare,
+        clearCompare,
+      }}
+    >
+      {children}
+    </CompareContext.Provider>
+  )
+}
+
+/**
+ * Creates default context value for graceful fallback
+ * Called fresh each time to avoid stale closures during Fast Refresh
+ */
+function getDefaultCompareContextValue(): CompareContextType {
+  return {
+    compareFlights: [],
+    maxFlights: MAX_COMPARE_FLIGHTS,
+    isFull: false,
+    toggleCompare: () => {},
+    removeFromCompare: () => {},
+    clearCompare: () => {},
+  }
+}
+
+/**
+ * Hook to access CompareContext from components
+ * Returns default values if context is not available (e.g., during React Fast Refresh)
+ * @returns CompareContext with compared flights and actions
+ */
+export function useCompare() {
+  const context = useContext(CompareContext)
+  // Return default values instead of throwing to handle React Fast Refresh gracefully
+  if (context === undefined) {
+    logger.warn('useCompare', 'Called outside CompareProvider, using default values', {
+      note: 'May occur during React Fast Refresh',
+    })
+    return getDefaultCompareContextValue()
+  }
+  return context
+}
@@ -0,0 +1,97 @@
+import { createContext, useContext, useCallback, useMemo } from 'react'
+import type { ReactNode } from 'react'
+import type { MarketParams, TravelPreferences } from '../types/preferences'
+import { usePersistentState } from '../utils/storage'
+import { DEFAULT_PREFERENCES, getMarketParams } from '../utils/preferences'
+import { logger } from '../utils/logger'
+
+// localStorage key of the travel preferences
+const STORAGE_KEY = 'preferences'
+
+interface PreferencesContextType {
+  preferences: TravelPreferences
+  marketParams: MarketParams
+
+  // Actions
+  updatePreferences: (changes: Partial<TravelPreferences>) => void
+  resetPreferences: () => void
+}
+
+const PreferencesContext = createContext<PreferencesContextType | undefined>(undefined)
+
+/**
+ * Fills preference fields added since the stored ones were saved with defaults
+ */
+function withDefaultPreferences(stored: TravelPreferences): TravelPreferences {
+  return { ...DEFAULT_PREFERENCES, ...stored }
+}
+
+/**
+ * PreferencesContext provider component managing the traveller's preferences
+ * Persists to localStorage and picks up changes made in other tabs
+ * @param children - Child components
+ * @returns PreferencesContext provider with preferences and actions
+ */
+export function PreferencesProvider({ children }: { children: ReactNode }) {
+  const [preferences, setPreferences] = usePersistentState<TravelPreferences>(
+    STORAGE_KEY,
+    DEFAULT_PREFERENCES,
+    withDefaultPreferences
+  )
+
+  const updatePreferences = useCallback(
+    (changes: Partial<TravelPreferences>) => {
+      setPreferences(prev => ({ ...prev, ...changes }))
+    },
+    [setPreferences]
+  )
+
+  const resetPreferences = useCallback(() => {
+    setPreferences(DEFAULT_PREFERENCES)
+  }, [setPreferences])
+
+  const marketParams = useMemo(() => getMarketParams(preferences), [preferences])
+
+  return (
+    <PreferencesContext.Provider
+      value={{
+        preferences,
+        marketParams,
+        updatePreferences,
+        resetPreferences,
+      }}
+    >
+      {children}
+    </PreferencesContext.Provider>
+  )
+}
+
+/**
+ * Creates default context value for graceful fallback
+ * Called fresh each time to avoid stale closures during Fast Refresh
+ */
+function getDefaultPreferencesContextValue(): PreferencesContextType {
+  return {
+    preferences: DEFAULT_PREFERENCES,
+    marketParams: getMarketParams(DEFAULT_PREFERENCES),
+    updatePreferences: () => {},
+    resetPreferences: () => {},
+  }
+}
+
+/**
+ * Hook to access PreferencesContext from components
+ * Returns default values if context is not available (e.g., during React Fast Refresh)
+ * @returns PreferencesContext with preferences and actions
+ */
+export function usePreferences() {
+  const context = useContext(PreferencesContext)
+  // Return default values instead of throwing to handle React Fast Refresh gracefully
+  if (context === undefined) {
+    logger.warn('usePreferences', 'Called outside PreferencesProvider, using default values', {
+      note: 'May occur during React Fast Refresh',
+    })
+    return getDefaultPreferencesContextValue()
+  }
+  return context
+}
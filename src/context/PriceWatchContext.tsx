@@ -0,0 +1,201 @@
+import { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react'
+import type { ReactNode } from 'react'
+import toast from 'react-hot-toast'
+import type { PriceWatch, PriceWatchInput } from '../types/priceWatch'
+import { checkPriceWatch } from '../services/priceWatch'
+import { usePersistentState } from '../utils/storage'
+import { addPricePoint, hasReachedTarget, isPriceWatchDue } from '../utils/priceWatch'
+import { formatPrice } from '../utils/formatPrice'
+import { logger } from '../utils/logger'
+
+// localStorage key of the price watches
+const STORAGE_KEY = 'price-watches'
+
+// How often the scheduler looks for due watches (each watch has its own check interval)
+const SCHEDULER_TICK_MS = 60 * 1000
+
+interface PriceWatchContextType {
+  watches: PriceWatch[]
+  checkingIds: string[]
+
+  // Actions
+  addWatch: (input: PriceWatchInput) => void
+  removeWatch: (id: string) => void
+  checkWatch: (id: string) => Promise<void>
+}
+
+const PriceWatchContext = createContext<PriceWatchContextType | undefined>(undefined)
+
+/**
+ * Raises a toast, and a browser notification when enabled, for a watch that met its target
+ */
+function announceTargetReached(watch: PriceWatch, price: number) {
+  const message = `${watch.from} → ${watch.to} is now ${formatPrice(price, watch.currency)} (target ${formatPrice(watch.targetPrice, watch.currency)})`
+  toast.success(`Price drop! ${message}`, { duration: 8000 })
+
+  if (watch.notify && 'Notification' in window && Notification.permission === 'granted') {
+    try {
+      new Notification('Price drop', { body: message, tag: `price-watch-${watch.id}` })
+    } catch (err) {
+      logger.warn('PriceWatchProvider', 'Failed to show browser notification', err)
+    }
+  }
+}
+
+/**
+ * PriceWatchContext provider component managing price-drop alerts
+ * Persists watches to localStorage and re-checks them in the background: due watches are
+ * checked at launch and every check interval while the app stays open
+ * @param children - Child components
+ * @returns PriceWatchContext provider with watches and actions
+ */
+export function PriceWatchProvider({ children }: { children: ReactNode }) {
+  const [watches, updateWatches] = usePersistentState<PriceWatch[]>(STORAGE_KEY, [])
+  const [checkingIds, setCheckingIds] = useState<string[]>([])
+
+  // Latest watches for the scheduler, which runs outside the render cycle
+  const watchesRef = useRef(watches)
+  const inFlightRef = useRef(new Set<string>())
+
+  useEffect(() => {
+    watchesRef.current = watches
+  }, [watches])
+
+  // Check one watch, record the result and alert when the target is reached
+  const runCheck = useCallback(
+    async (watch: PriceWatch) => {
+      if (inFlightRef.current.has(watch.id)) return
+      inFlightRef.current.add(watch.id)
+      setCheckingIds(prev => [...prev, watch.id])
+
+      try {
+        const point = await checkPriceWatch(watch)
+        updateWatches(prev =>
+          prev.map(entry => (entry.id === watch.id ? addPricePoint(entry, point) : entry))
+        )
+        if (point.price !== null && hasReachedTarget(watch, point)) {
+          announceTargetReached(watch, point.price)
+        }
+      } catch (err) {
+        logger.error('PriceWatchProvider', 'Price watch check failed', err)
+        const message = err instanceof Error ? err.message : 'Price check failed'
+        updateWatches(prev =>
+          prev.map(entry =>
+            entry.id === watch.id
+              ? { ...entry, lastCheckedAt: Date.now(), lastError: message }
+              : entry
+          )
+        )
+      } finally {
+        inFlightRef.current.delete(watch.id)
+        setCheckingIds(prev => prev.filter(id => id !== watch.id))
+      }
+    },
+    [updateWatches]
+  )
+
+  // Scheduler: check due watches one at a time (at launch, then on every tick)
+  useEffect(() => {
+    let cancelled = false
+
+    const checkDueWatches = async () => {
+      const due = watchesRef.current.filter(watch => isPriceWatchDue(watch))
+      for (const watch of due) {
+        if (cancelled) return
+        await runCheck(watch)
+      }
+    }
+
+    checkDueWatches()
+    const timer = window.setInterval(checkDueWatches, SCHEDULER_TICK_MS)
+    return () => {
+      cancelled = true
+      window.clearInterval(timer)
+    }
+  }, [runCheck])
+
+  const addWatch = useCallback(
+    (input: PriceWatchInput) => {
+      const watch: PriceWatch = {
+        ...input,
+        id: `watch-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        createdAt: Date.now(),
+        history: [],
+      }
+      updateWatches(prev => [...prev, watch])
+      toast.success(`Watching ${watch.from} → ${watch.to}`)
+
+      // Ask for notification permission up front so the alert can be delivered later
+      if (watch.notify && 'Notification' in window && Notification.permission === 'default') {
+        Notification.requestPermission().catch(err =>
+          logger.warn('PriceWatchProvider', 'Notification permission request failed', err)
+        )
+      }
+
+      // First check right away rather than waiting for the next tick
+      runCheck(watch)
+    },
+    [updateWatches, runCheck]
+  )
+
+  const removeWatch = useCallback(
+    (id: string) => {
+      updateWatches(prev => prev.filter(watch => watch.id !== id))
+    },
+    [updateWatches]
+  )
+
+  // Manual "check now"
+  const checkWatch = useCallback(
+    async (id: string) => {
+      const watch = watchesRef.current.find(entry => entry.id === id)
+      if (watch) await runCheck(watch)
+    },
+    [runCheck]
+  )
+
+  return (
+    <PriceWatchContext.Provider
+      value={{
+        watches,
+        checkingIds,
+        addWatch,
+        removeWatch,
+        checkWatch,
+      }}
+    >
+      {children}
+    </PriceWatchContext.Provider>
+  )
+}
+
+/**
+ * Creates default context value for graceful fallback
+ * Called fresh each time to avoid stale closures during Fast Refresh
+ */
+function getDefaultPriceWatchContextValue(): PriceWatchContextType {
+  return {
+    watches: [],
+    checkingIds: [],
+    addWatch: () => {},
+    removeWatch: () => {},
+    checkWatch: async () => {},
+  }
+}
+
+/**
+ * Hook to access PriceWatchContext from components
+ * Returns default values if context is not available (e.g., during React Fast Refresh)
+ * @returns PriceWatchContext with watches and actions
+ */
+export function usePriceWatches() {
+  const context = useContext(PriceWatchContext)
+  // Return default values instead of throwing to handle React Fast Refresh gracefully
+  if (context === undefined) {
+    logger.warn('usePriceWatches', 'Called outside PriceWatchProvider, using default values', {
+      note: 'May occur during React Fast Refresh',
+    })
+    return getDefaultPriceWatchContextValue()
+  }
+  return context
+}
@@ -0,0 +1,163 @@
+import { createContext, useContext, useCallback } from 'react'
+import type { ReactNode } from 'react'
+import toast from 'react-hot-toast'
+import type { Flight, FlightSearchParams } from '../types/flight'
+import type { SavedFlight } from '../types/savedTrip'
+import { searchFlights } from '../services/flightApi'
+import { usePersistentState } from '../utils/storage'
+import { findSavedFlightInResults, getSavedFlightId, getTripKey } from '../utils/savedTrips'
+import { logger } from '../utils/logger'
+
+// localStorage key of the watchlist
+const STORAGE_KEY = 'saved-trips'
+
+interface SavedTripsContextType {
+  savedFlights: SavedFlight[]
+
+  // Actions
+  toggleSaved: (flight: Flight, params: FlightSearchParams) => void
+  removeSaved: (id: string) => void
+  updateNote: (id: string, note: string) => void
+  recheckPrice: (id: string) => Promise<void>
+  isSaved: (flight: Flight, params: FlightSearchParams) => boolean
+}
+
+const SavedTripsContext = createContext<SavedTripsContextType | undefined>(undefined)
+
+/**
+ * SavedTripsContext provider component managing the saved flights watchlist
+ * Persists to localStorage and picks up changes made in other tabs
+ * @param children - Child components
+ * @returns SavedTripsContext provider with saved flights and actions
+ */
+export function SavedTripsProvider({ children }: { children: ReactNode }) {
+  const [savedFlights, updateSavedFlights] = usePersistentState<SavedFlight[]>(STORAGE_KEY, [])
+
+  // Save a flight, or remove it if it is already saved from the same search
+  const toggleSaved = useCallback(
+    (flight: Flight, params: FlightSearchParams) => {
+      const id = getSavedFlightId(flight, params)
+      const alreadySaved = savedFlights.some(saved => saved.id === id)
+      updateSavedFlights(prev =>
+        alreadySaved
+          ? prev.filter(saved => saved.id !== id)
+          : [
+              ...prev.filter(saved => saved.id !== id),
+              {
+                id,
+                tripKey: getTripKey(params),
+                flight,
+                searchParams: params,
+                savedAt: Date.now(),
+                note: '',
+              },
+            ]
+      )
+      toast.success(alreadySaved ? 'Removed from saved trips' : 'Saved to your trips')
+    },
+    [savedFlights, updateSavedFlights]
+  )
+
+  const removeSaved = useCallback(
+    (id: string) => {
+      updateSavedFlights(prev => prev.filter(saved => saved.id !== id))
+    },
+    [updateSavedFlights]
+  )
+
+  const updateNote = useCallback(
+    (id: string, note: string) => {
+      updateSavedFlights(prev => prev.map(saved => (saved.id === id ? { ...saved, note } : saved)))
+    },
+    [updateSavedFlights]
+  )
+
+  // Re-run the original search and record the flight's current price
+  const recheckPrice = useCallback(
+    async (id: string) => {
+      const saved = savedFlights.find(entry => entry.id === id)
+      if (!saved) return
+
+      try {
+        // A re-check asks for current fares rather than a cached response
+        const results = await searchFlights(saved.searchParams, { skipCache: true })
+        // Sample flights (mock mode, or the API failing over to them) say nothing about the
+        // saved fare, so a re-check without live results fails
+        const liveResults = results.filter(flight => !flight.isMock)
+        if (liveResults.length === 0) {
+          throw new Error('No live fares returned')
+        }
+        const match = findSavedFlightInResults(saved.flight, liveResults)
+        updateSavedFlights(prev =>
+          prev.map(entry =>
+            entry.id === id
+              ? {
+                  ...entry,
+                  priceCheck: { price: match ? match.price : null, checkedAt: Date.now() },
+                }
+              : entry
+          )
+        )
+      } catch (err) {
+        logger.error('SavedTripsProvider', 'Price re-check failed', err)
+        toast.error('Could not re-check the price. Please try again.')
+      }
+    },
+    [savedFlights, updateSavedFlights]
+  )
+
+  const isSaved = useCallback(
+    (flight: Flight, params: FlightSearchParams) => {
+      const id = getSavedFlightId(flight, params)
+      return savedFlights.some(saved => saved.id === id)
+    },
+    [savedFlights]
+  )
+
+  return (
+    <SavedTripsContext.Provider
+      value={{
+        savedFlights,
+        toggleSaved,
+        removeSaved,
+        updateNote,
+        recheckPrice,
+        isSaved,
+      }}
+    >
+      {children}
+    </SavedTripsContext.Provider>
+  )
+}
+
+/**
+ * Creates default context value for graceful fallback
+ * Called fresh each time to avoid stale closures during Fast Refresh
+ */
+function getDefaultSavedTripsContextValue(): SavedTripsContextType {
+  return {
+    savedFlights: [],
+    toggleSaved: () => {},
+    removeSaved: () => {},
+    updateNote: () => {},
+    recheckPrice: async () => {},
+    isSaved: () => false,
+  }
+}
+
+/**
+ * Hook to access SavedTripsContext from components
+ * Returns default values if context is not available (e.g., during React Fast Refresh)
+ * @returns SavedTripsContext with saved flights and actions
+ */
+export function useSavedTrips() {
+  const context = useContext(SavedTripsContext)
+  // Return default values instead of throwing to handle React Fast Refresh gracefully
+  if (context === undefined) {
+    logger.warn('useSavedTrips', 'Called outside SavedTripsProvider, using default values', {
+      note: 'May occur during React Fast Refresh',
+    })
+    return getDefaultSavedTripsContextValue()
+  }
+  return context
+}
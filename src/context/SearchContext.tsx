@@ -1,11 +1,30 @@
-import { createContext, useContext, useState, useCallback } from 'react'
+import { createContext, useContext, useState, useCallback, useEffect, useMemo, useRef } from 'react'
 import type { ReactNode } from 'react'
 import toast from 'react-hot-toast'
-import type { FlightSearchParams, Flight, FlightFilters, SortOption } from '../types/flight'
+import type {
+  BestScoringConfig,
+  FlightScore,
+  FlightSearchParams,
+  Flight,
+  FlightFilters,
+  PriceDisplay,
+  SortDirection,
+  SortOption,
+} from '../types/flight'
+import type { ApiRequestOptions } from '../types/api'
 import { searchFlights } from '../services/flightApi'
 import { parseDuration } from '../utils/parseDuration'
+import { getTimeOfDay } from '../utils/timeOfDay'
+import { sortFlights } from '../utils/sortFlights'
+import { DEFAULT_BEST_SCORING, scoreFlights } from '../utils/bestScore'
+import { getLongestLayoverMinutes, hasOvernightLayover } from '../utils/layovers'
 import { calculatePriceRange } from '../utils/calculatePriceRange'
+import { getFlightCarriers, getPreferenceFilters, isAirlineListed } from '../utils/preferences'
+import { getPassengerCounts } from '../utils/passengers'
+import { getPriceMultiplier } from '../utils/priceBreakdown'
+import { usePreferences } from './PreferencesContext'
 import { logger } from '../utils/logger'
+import { isAbortError } from '../utils/apiRetry'
 
 interface SearchContextType {
   // Search state
@@ -13,21 +32,62 @@ interface SearchContextType {
   flights: Flight[]
   isLoading: boolean
   error: string | null
+  searchCompletedAt: number | null // When the current results arrived (ms); null without results
 
   // Filters state
   filters: FlightFilters
   sortOption: SortOption
+  sortDirection: SortDirection
+  secondarySort: SortOption | null
+  bestScoring: BestScoringConfig
+  priceDisplay: PriceDisplay
 
   // Actions
   setSearchParams: (params: FlightSearchParams | null) => void
-  performSearch: (params: FlightSearchParams) => Promise<void>
+  performSearch: (
+    params: FlightSearchParams,
+    options?: SearchOptions,
+    requestOptions?: SearchRequestOptions
+  ) => Promise<void>
   setFilters: (filters: Partial<FlightFilters>) => void
   setSortOption: (sort: SortOption) => void
+  setSortDirection: (direction: SortDirection) => void
+  setSecondarySort: (sort: SortOption | null) => void
+  setBestScoring: (config: BestScoringConfig) => void
+  setPriceDisplay: (display: PriceDisplay) => void
   clearSearch: () => void
   clearFilters: () => void
 
   // Computed
   filteredFlights: Flight[]
+  bestScores: Map<string, FlightScore> // "Best" scores of the filtered flights, keyed by flight id
+  priceMultiplier: number // Turns per-person prices (and the price filter) into displayed prices
+}
+
+/**
+ * Options applied once search results arrive
+ * Used to restore filters and sorting from a shared results URL
+ */
+export interface SearchOptions {
+  filters?: Partial<FlightFilters>
+  sortOption?: SortOption | null
+  sortDirection?: SortDirection | null
+  secondarySort?: SortOption | null
+}
+
+/**
+ * How a search fetches its results (skipCache for explicit retries)
+ */
+type SearchRequestOptions = Pick<ApiRequestOptions, 'skipCache'>
+
+/**
+ * Search being fetched, kept so it can be aborted (and restarted after StrictMode's remount)
+ */
+interface RunningSearch {
+  controller: AbortController
+  params: FlightSearchParams
+  options?: SearchOptions
+  requestOptions?: SearchRequestOptions
 }
 
 const SearchContext = createContext<SearchContextType | undefined>(undefined)
@@ -40,9 +100,15 @@ const defaultFilters: FlightFilters = {
   },
   stops: [],
   airlines: [],
+  excludedAirlines: [],
+  originAirports: [],
+  destinationAirports: [],
   departureTimes: [],
   arrivalTimes: [],
   duration: 0,
+  maxLayoverMinutes: 0,
+  excludedLayoverAirports: [],
+  noOvernightLayovers: false,
 }
 
 /**
@@ -54,10 +120,42 @@ const defaultFilters: FlightFilters = {
 export function SearchProvider({ children }: { children: ReactNode }) {
   const [searchParams, setSearchParams] = useState<FlightSearchParams | null>(null)
   const [flights, setFlights] = useState<Flight[]>([])
+  const [searchCompletedAt, setSearchCompletedAt] = useState<number | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [filters, setFiltersState] = useState<FlightFilters>(defaultFilters)
-  const [sortOption, setSortOption] = useState<SortOption>('best')
+  const [sortOption, setSortOptionState] = useState<SortOption>('best')
+  const [sortDirection, setSortDirection] = useState<SortDirection>('asc')
+  const [secondarySort, setSecondarySort] = useState<SortOption | null>(null)
+  const [bestScoring, setBestScoring] = useState<BestScoringConfig>(DEFAULT_BEST_SCORING)
+  const [priceDisplay, setPriceDisplay] = useState<PriceDisplay>('per-person')
+  const { preferences } = usePreferences()
+
+  // Latest preferences for performSearch, which keeps a stable identity
+  const preferencesRef = useRef(preferences)
+
+  useEffect(() => {
+    preferencesRef.current = preferences
+  }, [preferences])
+
+  // Search being fetched; a new search aborts it
+  const runningSearchRef = useRef<RunningSearch | null>(null)
+  // Search aborted by an unmount, restarted if the provider mounts again
+  const interruptedSearchRef = useRef<RunningSearch | null>(null)
+
+  // Reset sorting to its default (best first, no tie-break)
+  const resetSort = useCallback(() => {
+    setSortOptionState('best')
+    setSortDirection('asc')
+    setSecondarySort(null)
+  }, [])
+
+  // Changing the primary sort starts from its natural direction and drops a matching tie-break
+  const setSortOption = useCallback((sort: SortOption) => {
+    setSortOptionState(sort)
+    setSortDirection('asc')
+    setSecondarySort(prev => (prev === sort ? null : prev))
+  }, [])
 
   // Helper function to calculate price range from flights
   const calculatePriceRangeFromFlights = useCallback(() => {
@@ -69,38 +167,108 @@ export function SearchProvider({ children }: { children: ReactNode }) {
   }, [flights])
 
   // Perform flight search
-  const performSearch = useCallback(async (params: FlightSearchParams) => {
-    setIsLoading(true)
-    setError(null)
-    setSearchParams(params)
-
-    try {
-      const results = await searchFlights(params)
-      setFlights(results)
-
-      // Auto-update price range filter based on results
-      if (results.length > 0) {
-        const prices = results.map(f => f.price)
-        const priceRange = calculatePriceRange(prices)
-        setFiltersState(prev => ({
-          ...prev,
-          priceRange,
-        }))
+  const performSearch = useCallback(
+    async (
+      params: FlightSearchParams,
+      options?: SearchOptions,
+      requestOptions?: SearchRequestOptions
+    ) => {
+      // A new search supersedes the running one
+      runningSearchRef.current?.controller.abort()
+      const search: RunningSearch = {
+        controller: new AbortController(),
+        params,
+        options,
+        requestOptions,
+      }
+      runningSearchRef.current = search
+
+      setIsLoading(true)
+      setError(null)
+      setSearchParams(params)
+
+      try {
+        const results = await searchFlights(params, {
+          ...requestOptions,
+          signal: search.controller.signal,
+        })
+        // Mock data doesn't observe the signal
+        search.controller.signal.throwIfAborted()
+        setFlights(results)
+        setSearchCompletedAt(Date.now())
+
+        // Auto-update price range filter based on results
+        if (results.length > 0) {
+          const prices = results.map(f => f.price)
+          const priceRange = calculatePriceRange(prices)
+          setFiltersState(prev => ({
+            ...prev,
+            priceRange,
+          }))
+        }
+
+        // Restore filters and sorting requested by the caller (e.g., from the URL)
+        // Filters not mentioned are reset so the caller's state fully replaces the previous one,
+        // falling back to the traveller's preferences (blocked airlines, max stops)
+        // Price range is narrowed within the result set's range rather than replacing it
+        if (options) {
+          const { priceRange: requestedRange, ...otherFilters } = options.filters || {}
+          const preferenceFilters = getPreferenceFilters(results, preferencesRef.current)
+          setFiltersState(prev => ({
+            ...defaultFilters,
+            ...preferenceFilters,
+            ...otherFilters,
+            priceRange: requestedRange
+              ? {
+                  min: Math.max(prev.priceRange.min, requestedRange.min),
+                  max: Math.min(prev.priceRange.max, requestedRange.max),
+                }
+              : prev.priceRange,
+          }))
+          setSortOptionState(options.sortOption || 'best')
+          setSortDirection(options.sortDirection || 'asc')
+          setSecondarySort(options.secondarySort || null)
+        }
+        // Only show success toast for results found, silently handle empty results in UI
+        if (results.length > 0) {
+          toast.success(`Found ${results.length} flight${results.length !== 1 ? 's' : ''}`)
+        }
+        // Removed error toast for empty results - UI will display "No flights found" message
+      } catch (err) {
+        // Superseded by a newer search or unmounted - nothing to report
+        if (isAbortError(err)) return
+        const errorMessage = err instanceof Error ? err.message : 'Failed to search flights'
+        setError(errorMessage)
+        setFlights([])
+        setSearchCompletedAt(null)
+        logger.error('SearchContext', 'Flight search error', err)
+      } finally {
+        if (runningSearchRef.current === search) {
+          runningSearchRef.current = null
+          setIsLoading(false)
+        }
       }
-      // Only show success toast for results found, silently handle empty results in UI
-      if (results.length > 0) {
-        toast.success(`Found ${results.length} flight${results.length !== 1 ? 's' : ''}`)
+    },
+    []
+  )
+
+  // Abort a running search on unmount
+  // StrictMode unmounts and remounts once in development; the aborted search is restarted then
+  useEffect(() => {
+    const interrupted = interruptedSearchRef.current
+    if (interrupted) {
+      interruptedSearchRef.current = null
+      performSearch(interrupted.params, interrupted.options, interrupted.requestOptions)
+    }
+
+    return () => {
+      const running = runningSearchRef.current
+      if (running) {
+        running.controller.abort()
+        interruptedSearchRef.current = running
       }
-      // Removed error toast for empty results - UI will display "No flights found" message
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to search flights'
-      setError(errorMessage)
-      setFlights([])
-      logger.error('SearchContext', 'Flight search error', err)
-    } finally {
-      setIsLoading(false)
     }
-  }, [])
+  }, [performSearch])
 
   // Update filters
   const setFilters = useCallback((newFilters: Partial<FlightFilters>) => {
@@ -112,12 +280,16 @@ export function SearchProvider({ children }: { children: ReactNode }) {
 
   // Clear search
   const clearSearch = useCallback(() => {
+    runningSearchRef.current?.controller.abort()
+    runningSearchRef.current = null
+    setIsLoading(false)
     setSearchParams(null)
     setFlights([])
+    setSearchCompletedAt(null)
     setError(null)
     setFiltersState(defaultFilters)
-    setSortOption('best')
-  }, [])
+    resetSort()
+  }, [resetSort])
 
   // Clear filters - resets to default or recalculated price range
   const clearFilters = useCallback(() => {
@@ -126,11 +298,11 @@ export function SearchProvider({ children }: { children: ReactNode }) {
       ...defaultFilters,
       priceRange,
     })
-    setSortOption('best')
-  }, [calculatePriceRangeFromFlights])
+    resetSort()
+  }, [calculatePriceRangeFromFlights, resetSort])
 
-  // Apply filters and sorting
-  const getFilteredFlights = useCallback((): Flight[] => {
+  // Apply filters
+  const matchingFlights = useMemo((): Flight[] => {
     if (flights.length === 0) return []
 
     let filtered = [...flights]
@@ -149,33 +321,39 @@ export function SearchProvider({ children }: { children: ReactNode }) {
     if (filters.airlines.length > 0) {
       filtered = filtered.filter(flight => filters.airlines.includes(flight.airline))
     }
+    if (filters.excludedAirlines.length > 0) {
+      filtered = filtered.filter(
+        flight =>
+          !getFlightCarriers(flight).some(carrier =>
+            isAirlineListed(carrier, filters.excludedAirlines)
+          )
+      )
+    }
+
+    // Apply airport filters (searched airport, falling back to the flight's own airport)
+    if (filters.originAirports.length > 0) {
+      filtered = filtered.filter(flight =>
+        filters.originAirports.includes(flight.searchOrigin || flight.departureAirport)
+      )
+    }
+    if (filters.destinationAirports.length > 0) {
+      filtered = filtered.filter(flight =>
+        filters.destinationAirports.includes(flight.searchDestination || flight.arrivalAirport)
+      )
+    }
 
     // Apply departure time filter
     if (filters.departureTimes.length > 0) {
-      filtered = filtered.filter(flight => {
-        const hour = parseInt(flight.departureTime.split(':')[0])
-        return filters.departureTimes.some(timeRange => {
-          if (timeRange === 'morning') return hour >= 6 && hour < 12
-          if (timeRange === 'afternoon') return hour >= 12 && hour < 18
-          if (timeRange === 'evening') return hour >= 18 && hour < 24
-          if (timeRange === 'night') return hour >= 0 && hour < 6
-          return false
-        })
-      })
+      filtered = filtered.filter(flight =>
+        filters.departureTimes.includes(getTimeOfDay(flight.departureTime))
+      )
     }
 
     // Apply arrival time filter
     if (filters.arrivalTimes.length > 0) {
-      filtered = filtered.filter(flight => {
-        const hour = parseInt(flight.arrivalTime.split(':')[0])
-        return filters.arrivalTimes.some(timeRange => {
-          if (timeRange === 'morning') return hour >= 6 && hour < 12
-          if (timeRange === 'afternoon') return hour >= 12 && hour < 18
-          if (timeRange === 'evening') return hour >= 18 && hour < 24
-          if (timeRange === 'night') return hour >= 0 && hour < 6
-          return false
-        })
-      })
+      filtered = filtered.filter(flight =>
+        filters.arrivalTimes.includes(getTimeOfDay(flight.arrivalTime))
+      )
     }
 
     // Apply duration filter (if set)
@@ -183,26 +361,45 @@ export function SearchProvider({ children }: { children: ReactNode }) {
       filtered = filtered.filter(flight => parseDuration(flight.duration) <= filters.duration)
     }
 
-    // Apply sorting
-    switch (sortOption) {
-      case 'cheapest':
-        return filtered.sort((a, b) => a.price - b.price)
-      case 'fastest':
-        return filtered.sort((a, b) => parseDuration(a.duration) - parseDuration(b.duration))
-      case 'best':
-      default:
-        // Best: prioritize non-stop flights marked as best, then by price
-        return filtered.sort((a, b) => {
-          if (a.best && !b.best) return -1
-          if (!a.best && b.best) return 1
-          if (a.stops === 0 && b.stops > 0) return -1
-          if (a.stops > 0 && b.stops === 0) return 1
-          return a.price - b.price
-        })
+    // Apply layover filters
+    if (filters.maxLayoverMinutes > 0) {
+      filtered = filtered.filter(
+        flight => getLongestLayoverMinutes(flight) <= filters.maxLayoverMinutes
+      )
     }
-  }, [flights, filters, sortOption])
+    if (filters.excludedLayoverAirports.length > 0) {
+      filtered = filtered.filter(
+        flight =>
+          !(flight.layover || []).some(layover =>
+            filters.excludedLayoverAirports.includes(layover.airport)
+          )
+      )
+    }
+    if (filters.noOvernightLayovers) {
+      filtered = filtered.filter(flight => !hasOvernightLayover(flight))
+    }
+
+    return filtered
+  }, [flights, filters])
 
-  const filteredFlights = getFilteredFlights()
+  // Score the flights left after filtering so "Best" ranks within what the user sees
+  const bestScores = useMemo(
+    () => scoreFlights(matchingFlights, bestScoring),
+    [matchingFlights, bestScoring]
+  )
+
+  // Prices and the price filter stay per person; totals only rescale what is displayed
+  const priceMultiplier = useMemo(
+    () =>
+      getPriceMultiplier(priceDisplay, searchParams ? getPassengerCounts(searchParams) : undefined),
+    [priceDisplay, searchParams]
+  )
+
+  // Apply sorting
+  const filteredFlights = useMemo(
+    () => sortFlights(matchingFlights, sortOption, sortDirection, secondarySort, bestScores),
+    [matchingFlights, sortOption, sortDirection, secondarySort, bestScores]
+  )
 
   return (
     <SearchContext.Provider
@@ -211,15 +408,26 @@ export function SearchProvider({ children }: { children: ReactNode }) {
         flights,
         isLoading,
         error,
+        searchCompletedAt,
         filters,
         sortOption,
         setSearchParams,
         performSearch,
         setFilters,
         setSortOption,
+        sortDirection,
+        setSortDirection,
+        secondarySort,
+        setSecondarySort,
+        bestScoring,
+        setBestScoring,
+        priceDisplay,
+        setPriceDisplay,
         clearSearch,
         clearFilters,
         filteredFlights,
+        bestScores,
+        priceMultiplier,
       }}
     >
       {children}
@@ -238,6 +446,7 @@ function getDefaultSearchContextValue(): SearchContextType {
     flights: [],
     isLoading: false,
     error: null,
+    searchCompletedAt: null,
     filters: defaultFilters,
     sortOption: 'best',
     filteredFlights: [],
@@ -245,6 +454,16 @@ function getDefaultSearchContextValue(): SearchContextType {
     performSearch: async () => {},
     setFilters: () => {},
     setSortOption: () => {},
+    sortDirection: 'asc',
+    setSortDirection: () => {},
+    secondarySort: null,
+    setSecondarySort: () => {},
+    bestScoring: DEFAULT_BEST_SCORING,
+    setBestScoring: () => {},
+    bestScores: new Map(),
+    priceDisplay: 'per-person',
+    setPriceDisplay: () => {},
+    priceMultiplier: 1,
     clearSearch: () => {},
     clearFilters: () => {},
   }
@@ -0,0 +1,310 @@
+import type { Airport, AirportRecord, MetroAreaRecord } from '../types/airport'
+
+/**
+ * Compact row format for the bundled dataset:
+ * [IATA, ICAO, name, city, country, ISO country code, latitude, longitude, IANA time zone, entityId]
+ */
+type AirportRow = [string, string, string, string, string, string, number, number, string, string]
+
+/**
+ * Bundled airport dataset used offline (mock mode, API fallbacks, time zone lookups)
+ * Rows are ordered by region and, within a city, by traffic, so ties in search
+ * results favour the main airport
+ * entityId values are stable placeholders for mock mode - live searches use the ids
+ * returned by the API
+ */
+// prettier-ignore
+const AIRPORT_ROWS: AirportRow[] = [
+  ['JFK', 'KJFK', 'John F. Kennedy International', 'New York', 'United States', 'US', 40.6413, -73.7781, 'America/New_York', '95565058'],
+  ['LGA', 'KLGA', 'LaGuardia Airport', 'New York', 'United States', 'US', 40.7769, -73.874, 'America/New_York', '95565072'],
+  ['EWR', 'KEWR', 'Newark Liberty International', 'Newark', 'United States', 'US', 40.6895, -74.1745, 'America/New_York', '95565073'],
+  ['BOS', 'KBOS', 'Boston Logan International', 'Boston', 'United States', 'US', 42.3656, -71.0096, 'America/New_York', '95565070'],
+  ['PHL', 'KPHL', 'Philadelphia International', 'Philadelphia', 'United States', 'US', 39.8744, -75.2424, 'America/New_York', '95565074'],
+  ['IAD', 'KIAD', 'Washington Dulles International', 'Washington', 'United States', 'US', 38.9531, -77.4565, 'America/New_York', '95565075'],
+  ['DCA', 'KDCA', 'Ronald Reagan Washington National', 'Washington', 'United States', 'US', 38.8512, -77.0402, 'America/New_York', '95565076'],
+  ['BWI', 'KBWI', 'Baltimore/Washington International', 'Baltimore', 'United States', 'US', 39.1774, -76.6684, 'America/New_York', '95565077'],
+  ['ATL', 'KATL', 'Hartsfield-Jackson Atlanta International', 'Atlanta', 'United States', 'US', 33.6407, -84.4277, 'America/New_York', '95565078'],
+  ['CLT', 'KCLT', 'Charlotte Douglas International', 'Charlotte', 'United States', 'US', 35.214, -80.9431, 'America/New_York', '95565079'],
+  ['MIA', 'KMIA', 'Miami International', 'Miami', 'United States', 'US', 25.7959, -80.287, 'America/New_York', '95565068'],
+  ['FLL', 'KFLL', 'Fort Lauderdale-Hollywood International', 'Fort Lauderdale', 'United States', 'US', 26.0742, -80.1506, 'America/New_York', '95565080'],
+  ['MCO', 'KMCO', 'Orlando International', 'Orlando', 'United States', 'US', 28.4312, -81.3081, 'America/New_York', '95565081'],
+  ['TPA', 'KTPA', 'Tampa International', 'Tampa', 'United States', 'US', 27.9755, -82.5332, 'America/New_York', '95565082'],
+  ['DTW', 'KDTW', 'Detroit Metropolitan Wayne County', 'Detroit', 'United States', 'US', 42.2162, -83.3554, 'America/Detroit', '95565083'],
+  ['ORD', 'KORD', 'Chicago O\'Hare International', 'Chicago', 'United States', 'US', 41.9742, -87.9073, 'America/Chicago', '95565066'],
+  ['MDW', 'KMDW', 'Chicago Midway International', 'Chicago', 'United States', 'US', 41.7868, -87.7522, 'America/Chicago', '95565084'],
+  ['MSP', 'KMSP', 'Minneapolis-Saint Paul International', 'Minneapolis', 'United States', 'US', 44.8848, -93.2223, 'America/Chicago', '95565085'],
+  ['DFW', 'KDFW', 'Dallas/Fort Worth International', 'Dallas', 'United States', 'US', 32.8998, -97.0403, 'America/Chicago', '95565086'],
+  ['DAL', 'KDAL', 'Dallas Love Field', 'Dallas', 'United States', 'US', 32.8471, -96.8518, 'America/Chicago', '95565087'],
+  ['IAH', 'KIAH', 'George Bush Intercontinental', 'Houston', 'United States', 'US', 29.9902, -95.3368, 'America/Chicago', '95565088'],
+  ['HOU', 'KHOU', 'William P. Hobby', 'Houston', 'United States', 'US', 29.6454, -95.2789, 'America/Chicago', '95565089'],
+  ['AUS', 'KAUS', 'Austin-Bergstrom International', 'Austin', 'United States', 'US', 30.1975, -97.6664, 'America/Chicago', '95565090'],
+  ['MSY', 'KMSY', 'Louis Armstrong New Orleans International', 'New Orleans', 'United States', 'US', 29.9934, -90.258, 'America/Chicago', '95565091'],
+  ['DEN', 'KDEN', 'Denver International', 'Denver', 'United States', 'US', 39.8561, -104.6737, 'America/Denver', '95565092'],
+  ['SLC', 'KSLC', 'Salt Lake City International', 'Salt Lake City', 'United States', 'US', 40.7899, -111.9791, 'America/Denver', '95565093'],
+  ['PHX', 'KPHX', 'Phoenix Sky Harbor International', 'Phoenix', 'United States', 'US', 33.4352, -112.0101, 'America/Phoenix', '95565094'],
+  ['LAS', 'KLAS', 'Harry Reid International', 'Las Vegas', 'United States', 'US', 36.084, -115.1537, 'America/Los_Angeles', '95565095'],
+  ['LAX', 'KLAX', 'Los Angeles International', 'Los Angeles', 'United States', 'US', 33.9416, -118.4085, 'America/Los_Angeles', '95565060'],
+  ['BUR', 'KBUR', 'Hollywood Burbank Airport', 'Burbank', 'United States', 'US', 34.2007, -118.3585, 'America/Los_Angeles', '95565096'],
+  ['LGB', 'KLGB', 'Long Beach Airport', 'Long Beach', 'United States', 'US', 33.8177, -118.1516, 'America/Los_Angeles', '95565097'],
+  ['SNA', 'KSNA', 'John Wayne Airport', 'Santa Ana', 'United States', 'US', 33.6762, -117.8675, 'America/Los_Angeles', '95565098'],
+  ['ONT', 'KONT', 'Ontario International', 'Ontario', 'United States', 'US', 34.056, -117.6012, 'America/Los_Angeles', '95565099'],
+  ['SAN', 'KSAN', 'San Diego International', 'San Diego', 'United States', 'US', 32.7338, -117.1933, 'America/Los_Angeles', '95565100'],
+  ['SFO', 'KSFO', 'San Francisco International', 'San Francisco', 'United States', 'US', 37.6213, -122.379, 'America/Los_Angeles', '95565069'],
+  ['OAK', 'KOAK', 'Oakland International', 'Oakland', 'United States', 'US', 37.7126, -122.2197, 'America/Los_Angeles', '95565101'],
+  ['SJC', 'KSJC', 'San Jose Mineta International', 'San Jose', 'United States', 'US', 37.3639, -121.9289, 'America/Los_Angeles', '95565102'],
+  ['SEA', 'KSEA', 'Seattle-Tacoma International', 'Seattle', 'United States', 'US', 47.4502, -122.3088, 'America/Los_Angeles', '95565103'],
+  ['PDX', 'KPDX', 'Portland International', 'Portland', 'United States', 'US', 45.5898, -122.5951, 'America/Los_Angeles', '95565104'],
+  ['ANC', 'PANC', 'Ted Stevens Anchorage International', 'Anchorage', 'United States', 'US', 61.1743, -149.9963, 'America/Anchorage', '95565105'],
+  ['HNL', 'PHNL', 'Daniel K. Inouye International', 'Honolulu', 'United States', 'US', 21.3187, -157.9225, 'Pacific/Honolulu', '95565106'],
+  ['OGG', 'PHOG', 'Kahului Airport', 'Maui', 'United States', 'US', 20.8986, -156.4305, 'Pacific/Honolulu', '95565107'],
+  ['YYZ', 'CYYZ', 'Toronto Pearson International', 'Toronto', 'Canada', 'CA', 43.6777, -79.6248, 'America/Toronto', '95565108'],
+  ['YUL', 'CYUL', 'Montréal-Trudeau International', 'Montreal', 'Canada', 'CA', 45.4706, -73.7408, 'America/Toronto', '95565109'],
+  ['YOW', 'CYOW', 'Ottawa Macdonald-Cartier International', 'Ottawa', 'Canada', 'CA', 45.3225, -75.6692, 'America/Toronto', '95565110'],
+  ['YYC', 'CYYC', 'Calgary International', 'Calgary', 'Canada', 'CA', 51.1215, -114.0076, 'America/Edmonton', '95565111'],
+  ['YEG', 'CYEG', 'Edmonton International', 'Edmonton', 'Canada', 'CA', 53.3097, -113.5801, 'America/Edmonton', '95565112'],
+  ['YVR', 'CYVR', 'Vancouver International', 'Vancouver', 'Canada', 'CA', 49.1967, -123.1815, 'America/Vancouver', '95565113'],
+  ['MEX', 'MMMX', 'Mexico City International', 'Mexico City', 'Mexico', 'MX', 19.4361, -99.0719, 'America/Mexico_City', '95565114'],
+  ['CUN', 'MMUN', 'Cancún International', 'Cancun', 'Mexico', 'MX', 21.0365, -86.877, 'America/Cancun', '95565115'],
+  ['GDL', 'MMGL', 'Guadalajara International', 'Guadalajara', 'Mexico', 'MX', 20.5218, -103.3112, 'America/Mexico_City', '95565116'],
+  ['PTY', 'MPTO', 'Tocumen International', 'Panama City', 'Panama', 'PA', 9.0714, -79.3835, 'America/Panama', '95565117'],
+  ['SJO', 'MROC', 'Juan Santamaría International', 'San Jose', 'Costa Rica', 'CR', 9.9939, -84.2088, 'America/Costa_Rica', '95565118'],
+  ['SJU', 'TJSJ', 'Luis Muñoz Marín International', 'San Juan', 'Puerto Rico', 'PR', 18.4394, -66.0018, 'America/Puerto_Rico', '95565119'],
+  ['HAV', 'MUHA', 'José Martí International', 'Havana', 'Cuba', 'CU', 22.9892, -82.4091, 'America/Havana', '95565120'],
+  ['BOG', 'SKBO', 'El Dorado International', 'Bogota', 'Colombia', 'CO', 4.7016, -74.1469, 'America/Bogota', '95565121'],
+  ['MDE', 'SKRG', 'José María Córdova International', 'Medellin', 'Colombia', 'CO', 6.1645, -75.4231, 'America/Bogota', '95565122'],
+  ['LIM', 'SPJC', 'Jorge Chávez International', 'Lima', 'Peru', 'PE', -12.0219, -77.1143, 'America/Lima', '95565123'],
+  ['UIO', 'SEQM', 'Mariscal Sucre International', 'Quito', 'Ecuador', 'EC', -0.1292, -78.3575, 'America/Guayaquil', '95565124'],
+  ['SCL', 'SCEL', 'Arturo Merino Benítez International', 'Santiago', 'Chile', 'CL', -33.393, -70.7858, 'America/Santiago', '95565125'],
+  ['EZE', 'SAEZ', 'Ministro Pistarini International', 'Buenos Aires', 'Argentina', 'AR', -34.8222, -58.5358, 'America/Argentina/Buenos_Aires', '95565126'],
+  ['AEP', 'SABE', 'Jorge Newbery Airfield', 'Buenos Aires', 'Argentina', 'AR', -34.5592, -58.4156, 'America/Argentina/Buenos_Aires', '95565127'],
+  ['GRU', 'SBGR', 'São Paulo/Guarulhos International', 'Sao Paulo', 'Brazil', 'BR', -23.4356, -46.4731, 'America/Sao_Paulo', '95565128'],
+  ['CGH', 'SBSP', 'São Paulo-Congonhas', 'Sao Paulo', 'Brazil', 'BR', -23.6261, -46.6564, 'America/Sao_Paulo', '95565129'],
+  ['GIG', 'SBGL', 'Rio de Janeiro/Galeão International', 'Rio de Janeiro', 'Brazil', 'BR', -22.809, -43.2506, 'America/Sao_Paulo', '95565130'],
+  ['LHR', 'EGLL', 'London Heathrow', 'London', 'United Kingdom', 'GB', 51.47, -0.4543, 'Europe/London', '95565059'],
+  ['LGW', 'EGKK', 'London Gatwick', 'London', 'United Kingdom', 'GB', 51.1537, -0.1821, 'Europe/London', '95565131'],
+  ['STN', 'EGSS', 'London Stansted', 'London', 'United Kingdom', 'GB', 51.886, 0.2389, 'Europe/London', '95565132'],
+  ['LTN', 'EGGW', 'London Luton', 'London', 'United Kingdom', 'GB', 51.8747, -0.3683, 'Europe/London', '95565133'],
+  ['LCY', 'EGLC', 'London City', 'London', 'United Kingdom', 'GB', 51.5048, 0.0495, 'Europe/London', '95565134'],
+  ['MAN', 'EGCC', 'Manchester Airport', 'Manchester', 'United Kingdom', 'GB', 53.3588, -2.2727, 'Europe/London', '95565135'],
+  ['BHX', 'EGBB', 'Birmingham Airport', 'Birmingham', 'United Kingdom', 'GB', 52.4539, -1.748, 'Europe/London', '95565136'],
+  ['EDI', 'EGPH', 'Edinburgh Airport', 'Edinburgh', 'United Kingdom', 'GB', 55.95, -3.3725, 'Europe/London', '95565137'],
+  ['GLA', 'EGPF', 'Glasgow Airport', 'Glasgow', 'United Kingdom', 'GB', 55.8719, -4.4331, 'Europe/London', '95565138'],
+  ['DUB', 'EIDW', 'Dublin Airport', 'Dublin', 'Ireland', 'IE', 53.4264, -6.2499, 'Europe/Dublin', '95565139'],
+  ['CDG', 'LFPG', 'Charles de Gaulle', 'Paris', 'France', 'FR', 49.0097, 2.5479, 'Europe/Paris', '95565061'],
+  ['ORY', 'LFPO', 'Paris Orly', 'Paris', 'France', 'FR', 48.7262, 2.3652, 'Europe/Paris', '95565140'],
+  ['BVA', 'LFOB', 'Paris Beauvais', 'Paris', 'France', 'FR', 49.4544, 2.1128, 'Europe/Paris', '95565141'],
+  ['NCE', 'LFMN', 'Nice Côte d\'Azur', 'Nice', 'France', 'FR', 43.6584, 7.2159, 'Europe/Paris', '95565142'],
+  ['LYS', 'LFLL', 'Lyon-Saint Exupéry', 'Lyon', 'France', 'FR', 45.7256, 5.0811, 'Europe/Paris', '95565143'],
+  ['MRS', 'LFML', 'Marseille Provence', 'Marseille', 'France', 'FR', 43.4393, 5.2214, 'Europe/Paris', '95565144'],
+  ['AMS', 'EHAM', 'Amsterdam Schiphol', 'Amsterdam', 'Netherlands', 'NL', 52.3105, 4.7683, 'Europe/Amsterdam', '95565145'],
+  ['BRU', 'EBBR', 'Brussels Airport', 'Brussels', 'Belgium', 'BE', 50.901, 4.4844, 'Europe/Brussels', '95565146'],
+  ['LUX', 'ELLX', 'Luxembourg Airport', 'Luxembourg', 'Luxembourg', 'LU', 49.6233, 6.2044, 'Europe/Luxembourg', '95565147'],
+  ['FRA', 'EDDF', 'Frankfurt Airport', 'Frankfurt', 'Germany', 'DE', 50.0379, 8.5622, 'Europe/Berlin', '95565065'],
+  ['MUC', 'EDDM', 'Munich Airport', 'Munich', 'Germany', 'DE', 48.3538, 11.7861, 'Europe/Berlin', '95565148'],
+  ['BER', 'EDDB', 'Berlin Brandenburg', 'Berlin', 'Germany', 'DE', 52.3667, 13.5033, 'Europe/Berlin', '95565149'],
+  ['HAM', 'EDDH', 'Hamburg Airport', 'Hamburg', 'Germany', 'DE', 53.6304, 9.9882, 'Europe/Berlin', '95565150'],
+  ['DUS', 'EDDL', 'Düsseldorf Airport', 'Dusseldorf', 'Germany', 'DE', 51.2895, 6.7668, 'Europe/Berlin', '95565151'],
+  ['CGN', 'EDDK', 'Cologne Bonn Airport', 'Cologne', 'Germany', 'DE', 50.8659, 7.1427, 'Europe/Berlin', '95565152'],
+  ['ZRH', 'LSZH', 'Zurich Airport', 'Zurich', 'Switzerland', 'CH', 47.4582, 8.5555, 'Europe/Zurich', '95565153'],
+  ['GVA', 'LSGG', 'Geneva Airport', 'Geneva', 'Switzerland', 'CH', 46.2381, 6.109, 'Europe/Zurich', '95565154'],
+  ['VIE', 'LOWW', 'Vienna International', 'Vienna', 'Austria', 'AT', 48.1103, 16.5697, 'Europe/Vienna', '95565155'],
+  ['PRG', 'LKPR', 'Václav Havel Airport Prague', 'Prague', 'Czech Republic', 'CZ', 50.1008, 14.26, 'Europe/Prague', '95565156'],
+  ['BUD', 'LHBP', 'Budapest Ferenc Liszt International', 'Budapest', 'Hungary', 'HU', 47.4298, 19.2611, 'Europe/Budapest', '95565157'],
+  ['WAW', 'EPWA', 'Warsaw Chopin', 'Warsaw', 'Poland', 'PL', 52.1657, 20.9671, 'Europe/Warsaw', '95565158'],
+  ['KRK', 'EPKK', 'Kraków John Paul II International', 'Krakow', 'Poland', 'PL', 50.0777, 19.7848, 'Europe/Warsaw', '95565159'],
+  ['CPH', 'EKCH', 'Copenhagen Airport', 'Copenhagen', 'Denmark', 'DK', 55.618, 12.656, 'Europe/Copenhagen', '95565160'],
+  ['ARN', 'ESSA', 'Stockholm Arlanda', 'Stockholm', 'Sweden', 'SE', 59.6498, 17.9238, 'Europe/Stockholm', '95565161'],
+  ['OSL', 'ENGM', 'Oslo Gardermoen', 'Oslo', 'Norway', 'NO', 60.1976, 11.1004, 'Europe/Oslo', '95565162'],
+  ['HEL', 'EFHK', 'Helsinki-Vantaa', 'Helsinki', 'Finland', 'FI', 60.3172, 24.9633, 'Europe/Helsinki', '95565163'],
+  ['KEF', 'BIKF', 'Keflavík International', 'Reykjavik', 'Iceland', 'IS', 63.985, -22.6056, 'Atlantic/Reykjavik', '95565164'],
+  ['MAD', 'LEMD', 'Adolfo Suárez Madrid-Barajas', 'Madrid', 'Spain', 'ES', 40.4983, -3.5676, 'Europe/Madrid', '95565165'],
+  ['BCN', 'LEBL', 'Barcelona El Prat', 'Barcelona', 'Spain', 'ES', 41.2974, 2.0833, 'Europe/Madrid', '95565067'],
+  ['PMI', 'LEPA', 'Palma de Mallorca', 'Palma de Mallorca', 'Spain', 'ES', 39.5517, 2.7388, 'Europe/Madrid', '95565166'],
+  ['AGP', 'LEMG', 'Málaga-Costa del Sol', 'Malaga', 'Spain', 'ES', 36.6749, -4.4991, 'Europe/Madrid', '95565167'],
+  ['LIS', 'LPPT', 'Lisbon Humberto Delgado', 'Lisbon', 'Portugal', 'PT', 38.7742, -9.1342, 'Europe/Lisbon', '95565168'],
+  ['OPO', 'LPPR', 'Porto Francisco Sá Carneiro', 'Porto', 'Portugal', 'PT', 41.2481, -8.6814, 'Europe/Lisbon', '95565169'],
+  ['FCO', 'LIRF', 'Rome Fiumicino', 'Rome', 'Italy', 'IT', 41.8003, 12.2389, 'Europe/Rome', '95565071'],
+  ['CIA', 'LIRA', 'Rome Ciampino', 'Rome', 'Italy', 'IT', 41.7994, 12.5949, 'Europe/Rome', '95565170'],
+  ['MXP', 'LIMC', 'Milan Malpensa', 'Milan', 'Italy', 'IT', 45.6306, 8.7281, 'Europe/Rome', '95565171'],
+  ['LIN', 'LIML', 'Milan Linate', 'Milan', 'Italy', 'IT', 45.4451, 9.2767, 'Europe/Rome', '95565172'],
+  ['VCE', 'LIPZ', 'Venice Marco Polo', 'Venice', 'Italy', 'IT', 45.5053, 12.3519, 'Europe/Rome', '95565173'],
+  ['NAP', 'LIRN', 'Naples International', 'Naples', 'Italy', 'IT', 40.886, 14.2908, 'Europe/Rome', '95565174'],
+  ['ATH', 'LGAV', 'Athens International', 'Athens', 'Greece', 'GR', 37.9364, 23.9445, 'Europe/Athens', '95565175'],
+  ['IST', 'LTFM', 'Istanbul Airport', 'Istanbul', 'Turkey', 'TR', 41.2753, 28.7519, 'Europe/Istanbul', '95565176'],
+  ['SAW', 'LTFJ', 'Istanbul Sabiha Gökçen', 'Istanbul', 'Turkey', 'TR', 40.8986, 29.3092, 'Europe/Istanbul', '95565177'],
+  ['OTP', 'LROP', 'Bucharest Henri Coandă', 'Bucharest', 'Romania', 'RO', 44.5711, 26.085, 'Europe/Bucharest', '95565178'],
+  ['DXB', 'OMDB', 'Dubai International', 'Dubai', 'United Arab Emirates', 'AE', 25.2532, 55.3657, 'Asia/Dubai', '95565063'],
+  ['DWC', 'OMDW', 'Al Maktoum International', 'Dubai', 'United Arab Emirates', 'AE', 24.8963, 55.1614, 'Asia/Dubai', '95565179'],
+  ['AUH', 'OMAA', 'Zayed International', 'Abu Dhabi', 'United Arab Emirates', 'AE', 24.433, 54.6511, 'Asia/Dubai', '95565180'],
+  ['DOH', 'OTHH', 'Hamad International', 'Doha', 'Qatar', 'QA', 25.2731, 51.6081, 'Asia/Qatar', '95565181'],
+  ['RUH', 'OERK', 'King Khalid International', 'Riyadh', 'Saudi Arabia', 'SA', 24.9576, 46.6988, 'Asia/Riyadh', '95565182'],
+  ['JED', 'OEJN', 'King Abdulaziz International', 'Jeddah', 'Saudi Arabia', 'SA', 21.6796, 39.1565, 'Asia/Riyadh', '95565183'],
+  ['TLV', 'LLBG', 'Ben Gurion Airport', 'Tel Aviv', 'Israel', 'IL', 32.0055, 34.8854, 'Asia/Jerusalem', '95565184'],
+  ['AMM', 'OJAI', 'Queen Alia International', 'Amman', 'Jordan', 'JO', 31.7226, 35.9932, 'Asia/Amman', '95565185'],
+  ['CAI', 'HECA', 'Cairo International', 'Cairo', 'Egypt', 'EG', 30.1219, 31.4056, 'Africa/Cairo', '95565186'],
+  ['CMN', 'GMMN', 'Mohammed V International', 'Casablanca', 'Morocco', 'MA', 33.3675, -7.5898, 'Africa/Casablanca', '95565187'],
+  ['RAK', 'GMMX', 'Marrakesh Menara', 'Marrakesh', 'Morocco', 'MA', 31.6069, -8.0363, 'Africa/Casablanca', '95565188'],
+  ['ADD', 'HAAB', 'Addis Ababa Bole International', 'Addis Ababa', 'Ethiopia', 'ET', 8.9779, 38.7993, 'Africa/Addis_Ababa', '95565189'],
+  ['NBO', 'HKJK', 'Jomo Kenyatta International', 'Nairobi', 'Kenya', 'KE', -1.3192, 36.9278, 'Africa/Nairobi', '95565190'],
+  ['LOS', 'DNMM', 'Murtala Muhammed International', 'Lagos', 'Nigeria', 'NG', 6.5774, 3.3212, 'Africa/Lagos', '95565191'],
+  ['ACC', 'DGAA', 'Kotoka International', 'Accra', 'Ghana', 'GH', 5.6052, -0.1668, 'Africa/Accra', '95565192'],
+  ['JNB', 'FAOR', 'O. R. Tambo International', 'Johannesburg', 'South Africa', 'ZA', -26.1392, 28.246, 'Africa/Johannesburg', '95565193'],
+  ['CPT', 'FACT', 'Cape Town International', 'Cape Town', 'South Africa', 'ZA', -33.9715, 18.6021, 'Africa/Johannesburg', '95565194'],
+  ['DEL', 'VIDP', 'Indira Gandhi International', 'Delhi', 'India', 'IN', 28.5562, 77.1, 'Asia/Kolkata', '95565195'],
+  ['BOM', 'VABB', 'Chhatrapati Shivaji Maharaj International', 'Mumbai', 'India', 'IN', 19.0896, 72.8656, 'Asia/Kolkata', '95565196'],
+  ['BLR', 'VOBL', 'Kempegowda International', 'Bengaluru', 'India', 'IN', 13.1986, 77.7066, 'Asia/Kolkata', '95565197'],
+  ['MAA', 'VOMM', 'Chennai International', 'Chennai', 'India', 'IN', 12.9941, 80.1709, 'Asia/Kolkata', '95565198'],
+  ['HYD', 'VOHS', 'Rajiv Gandhi International', 'Hyderabad', 'India', 'IN', 17.2403, 78.4294, 'Asia/Kolkata', '95565199'],
+  ['CMB', 'VCBI', 'Bandaranaike International', 'Colombo', 'Sri Lanka', 'LK', 7.1808, 79.8841, 'Asia/Colombo', '95565200'],
+  ['KTM', 'VNKT', 'Tribhuvan International', 'Kathmandu', 'Nepal', 'NP', 27.6966, 85.3591, 'Asia/Kathmandu', '95565201'],
+  ['DAC', 'VGHS', 'Hazrat Shahjalal International', 'Dhaka', 'Bangladesh', 'BD', 23.8433, 90.3978, 'Asia/Dhaka', '95565202'],
+  ['SIN', 'WSSS', 'Singapore Changi', 'Singapore', 'Singapore', 'SG', 1.3644, 103.9915, 'Asia/Singapore', '95565064'],
+  ['KUL', 'WMKK', 'Kuala Lumpur International', 'Kuala Lumpur', 'Malaysia', 'MY', 2.7456, 101.7099, 'Asia/Kuala_Lumpur', '95565203'],
+  ['BKK', 'VTBS', 'Suvarnabhumi Airport', 'Bangkok', 'Thailand', 'TH', 13.69, 100.7501, 'Asia/Bangkok', '95565204'],
+  ['DMK', 'VTBD', 'Don Mueang International', 'Bangkok', 'Thailand', 'TH', 13.9126, 100.6068, 'Asia/Bangkok', '95565205'],
+  ['HKT', 'VTSP', 'Phuket International', 'Phuket', 'Thailand', 'TH', 8.1132, 98.3169, 'Asia/Bangkok', '95565206'],
+  ['CGK', 'WIII', 'Soekarno-Hatta International', 'Jakarta', 'Indonesia', 'ID', -6.1256, 106.6559, 'Asia/Jakarta', '95565207'],
+  ['DPS', 'WADD', 'Ngurah Rai International', 'Denpasar', 'Indonesia', 'ID', -8.7482, 115.1672, 'Asia/Makassar', '95565208'],
+  ['MNL', 'RPLL', 'Ninoy Aquino International', 'Manila', 'Philippines', 'PH', 14.5086, 121.0194, 'Asia/Manila', '95565209'],
+  ['SGN', 'VVTS', 'Tan Son Nhat International', 'Ho Chi Minh City', 'Vietnam', 'VN', 10.8188, 106.6519, 'Asia/Ho_Chi_Minh', '95565210'],
+  ['HAN', 'VVNB', 'Noi Bai International', 'Hanoi', 'Vietnam', 'VN', 21.2212, 105.8072, 'Asia/Ho_Chi_Minh', '95565211'],
+  ['HKG', 'VHHH', 'Hong Kong International', 'Hong Kong', 'Hong Kong', 'HK', 22.308, 113.9185, 'Asia/Hong_Kong', '95565212'],
+  ['MFM', 'VMMC', 'Macau International', 'Macau', 'Macau', 'MO', 22.1496, 113.5915, 'Asia/Macau', '95565213'],
+  ['TPE', 'RCTP', 'Taiwan Taoyuan International', 'Taipei', 'Taiwan', 'TW', 25.0797, 121.2342, 'Asia/Taipei', '95565214'],
+  ['PEK', 'ZBAA', 'Beijing Capital International', 'Beijing', 'China', 'CN', 40.0799, 116.6031, 'Asia/Shanghai', '95565215'],
+  ['PKX', 'ZBAD', 'Beijing Daxing International', 'Beijing', 'China', 'CN', 39.5098, 116.4105, 'Asia/Shanghai', '95565216'],
+  ['PVG', 'ZSPD', 'Shanghai Pudong International', 'Shanghai', 'China', 'CN', 31.1443, 121.8083, 'Asia/Shanghai', '95565217'],
+  ['SHA', 'ZSSS', 'Shanghai Hongqiao International', 'Shanghai', 'China', 'CN', 31.1979, 121.3363, 'Asia/Shanghai', '95565218'],
+  ['CAN', 'ZGGG', 'Guangzhou Baiyun International', 'Guangzhou', 'China', 'CN', 23.3924, 113.2988, 'Asia/Shanghai', '95565219'],
+  ['SZX', 'ZGSZ', 'Shenzhen Bao\'an International', 'Shenzhen', 'China', 'CN', 22.6393, 113.8107, 'Asia/Shanghai', '95565220'],
+  ['CTU', 'ZUUU', 'Chengdu Shuangliu International', 'Chengdu', 'China', 'CN', 30.5785, 103.9471, 'Asia/Shanghai', '95565221'],
+  ['ICN', 'RKSI', 'Incheon International', 'Seoul', 'South Korea', 'KR', 37.4602, 126.4407, 'Asia/Seoul', '95565222'],
+  ['GMP', 'RKSS', 'Gimpo International', 'Seoul', 'South Korea', 'KR', 37.5583, 126.7906, 'Asia/Seoul', '95565223'],
+  ['NRT', 'RJAA', 'Narita International', 'Tokyo', 'Japan', 'JP', 35.772, 140.3929, 'Asia/Tokyo', '95565062'],
+  ['HND', 'RJTT', 'Tokyo Haneda', 'Tokyo', 'Japan', 'JP', 35.5494, 139.7798, 'Asia/Tokyo', '95565224'],
+  ['KIX', 'RJBB', 'Kansai International', 'Osaka', 'Japan', 'JP', 34.4347, 135.244, 'Asia/Tokyo', '95565225'],
+  ['ITM', 'RJOO', 'Osaka Itami', 'Osaka', 'Japan', 'JP', 34.7855, 135.4382, 'Asia/Tokyo', '95565226'],
+  ['CTS', 'RJCC', 'New Chitose Airport', 'Sapporo', 'Japan', 'JP', 42.7752, 141.6923, 'Asia/Tokyo', '95565227'],
+  ['FUK', 'RJFF', 'Fukuoka Airport', 'Fukuoka', 'Japan', 'JP', 33.5859, 130.4511, 'Asia/Tokyo', '95565228'],
+  ['SYD', 'YSSY', 'Sydney Kingsford Smith', 'Sydney', 'Australia', 'AU', -33.9399, 151.1753, 'Australia/Sydney', '95565229'],
+  ['MEL', 'YMML', 'Melbourne Airport', 'Melbourne', 'Australia', 'AU', -37.669, 144.841, 'Australia/Melbourne', '95565230'],
+  ['BNE', 'YBBN', 'Brisbane Airport', 'Brisbane', 'Australia', 'AU', -27.3842, 153.1175, 'Australia/Brisbane', '95565231'],
+  ['PER', 'YPPH', 'Perth Airport', 'Perth', 'Australia', 'AU', -31.9385, 115.9672, 'Australia/Perth', '95565232'],
+  ['ADL', 'YPAD', 'Adelaide Airport', 'Adelaide', 'Australia', 'AU', -34.945, 138.5306, 'Australia/Adelaide', '95565233'],
+  ['AKL', 'NZAA', 'Auckland Airport', 'Auckland', 'New Zealand', 'NZ', -37.0082, 174.785, 'Pacific/Auckland', '95565234'],
+  ['CHC', 'NZCH', 'Christchurch Airport', 'Christchurch', 'New Zealand', 'NZ', -43.4894, 172.5322, 'Pacific/Auckland', '95565235'],
+  ['NAN', 'NFFN', 'Nadi International', 'Nadi', 'Fiji', 'FJ', -17.7554, 177.4431, 'Pacific/Fiji', '95565236'],
+]
+
+export const airports: AirportRecord[] = AIRPORT_ROWS.map(
+  ([iata, icao, name, city, country, countryCode, latitude, longitude, timeZone, entityId]) => ({
+    iata,
+    icao,
+    name,
+    city,
+    country,
+    countryCode,
+    latitude,
+    longitude,
+    timeZone,
+    entityId,
+  })
+)
+
+const airportsByIata = new Map(airports.map(airport => [airport.iata, airport]))
+
+/**
+ * Metropolitan areas served by more than one bundled airport
+ * Only cities whose metro code differs from every airport code are listed, so a code
+ * always means either a single airport or a whole city
+ */
+// prettier-ignore
+export const metroAreas: MetroAreaRecord[] = [
+  { code: 'NYC', city: 'New York', country: 'United States', countryCode: 'US', entityId: '95565237', airports: ['JFK', 'LGA', 'EWR'] },
+  { code: 'WAS', city: 'Washington', country: 'United States', countryCode: 'US', entityId: '95565238', airports: ['IAD', 'DCA', 'BWI'] },
+  { code: 'CHI', city: 'Chicago', country: 'United States', countryCode: 'US', entityId: '95565239', airports: ['ORD', 'MDW'] },
+  { code: 'BUE', city: 'Buenos Aires', country: 'Argentina', countryCode: 'AR', entityId: '95565240', airports: ['EZE', 'AEP'] },
+  { code: 'SAO', city: 'Sao Paulo', country: 'Brazil', countryCode: 'BR', entityId: '95565241', airports: ['GRU', 'CGH'] },
+  { code: 'LON', city: 'London', country: 'United Kingdom', countryCode: 'GB', entityId: '95565242', airports: ['LHR', 'LGW', 'STN', 'LTN', 'LCY'] },
+  { code: 'PAR', city: 'Paris', country: 'France', countryCode: 'FR', entityId: '95565243', airports: ['CDG', 'ORY', 'BVA'] },
+  { code: 'ROM', city: 'Rome', country: 'Italy', countryCode: 'IT', entityId: '95565244', airports: ['FCO', 'CIA'] },
+  { code: 'MIL', city: 'Milan', country: 'Italy', countryCode: 'IT', entityId: '95565245', airports: ['MXP', 'LIN'] },
+  { code: 'BJS', city: 'Beijing', country: 'China', countryCode: 'CN', entityId: '95565246', airports: ['PEK', 'PKX'] },
+  { code: 'SEL', city: 'Seoul', country: 'South Korea', countryCode: 'KR', entityId: '95565247', airports: ['ICN', 'GMP'] },
+  { code: 'TYO', city: 'Tokyo', country: 'Japan', countryCode: 'JP', entityId: '95565248', airports: ['HND', 'NRT'] },
+  { code: 'OSA', city: 'Osaka', country: 'Japan', countryCode: 'JP', entityId: '95565249', airports: ['KIX', 'ITM'] },
+]
+
+const metroAreasByCode = new Map(metroAreas.map(metro => [metro.code, metro]))
+
+/**
+ * Looks up a bundled airport by IATA code
+ * @param iata - IATA airport code (case-insensitive)
+ * @returns Airport record, or undefined if not in the dataset
+ */
+export function getAirportByIata(iata?: string): AirportRecord | undefined {
+  if (!iata) return undefined
+  return airportsByIata.get(iata.trim().toUpperCase())
+}
+
+/**
+ * Looks up a metropolitan area by its city code
+ * @param code - IATA metropolitan area code (case-insensitive)
+ * @returns Metro area record, or undefined if the code is not a known city
+ */
+export function getMetroArea(code?: string): MetroAreaRecord | undefined {
+  if (!code) return undefined
+  return metroAreasByCode.get(code.trim().toUpperCase())
+}
+
+/**
+ * Gets the bundled airports belonging to a metropolitan area
+ * @param code - IATA metropolitan area code (e.g., "LON")
+ * @returns Member airports, or an empty array if the code is not a known city
+ */
+export function getMetroAirports(code?: string): AirportRecord[] {
+  const metro = getMetroArea(code)
+  if (!metro) return []
+  return metro.airports
+    .map(iata => getAirportByIata(iata))
+    .filter((airport): airport is AirportRecord => !!airport)
+}
+
+/**
+ * Converts a bundled airport record to the Airport shape used by search and autocomplete
+ * @param record - Bundled airport record
+ * @returns Airport with skyId set to the IATA code
+ */
+export function toAirport(record: AirportRecord): Airport {
+  return {
+    iata: record.iata,
+    icao: record.icao,
+    skyId: record.iata,
+    entityId: record.entityId,
+    name: record.name,
+    city: record.city,
+    country: record.country,
+    countryCode: record.countryCode,
+    latitude: record.latitude,
+    longitude: record.longitude,
+    entityType: 'AIRPORT',
+  }
+}
+
+/**
+ * Converts a metropolitan area to a CITY Airport entity for search and autocomplete
+ * @param metro - Metro area record
+ * @returns Airport with entityType 'CITY' and skyId set to the city code
+ */
+export function metroAreaToAirport(metro: MetroAreaRecord): Airport {
+  return {
+    iata: metro.code,
+    skyId: metro.code,
+    entityId: metro.entityId,
+    name: `All airports (${metro.airports.join(', ')})`,
+    city: metro.city,
+    country: metro.country,
+    countryCode: metro.countryCode,
+    entityType: 'CITY',
+  }
+}
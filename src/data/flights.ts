@@ -1,4 +1,6 @@
-import type { Flight } from '../types/flight'
+import type { Flight, FlightLeg } from '../types/flight'
+import { addMinutesAtAirport, formatLocalTime, toAirportDateTime } from '../utils/airportTime'
+import { formatDuration, parseDuration } from '../utils/parseDuration'
 
 /**
  * Generates mock flight data for a given route
@@ -28,6 +30,11 @@ function generateMockFlightsForRoute(
   ]
   const stopsOptions = [0, 1]
   const departures = ['06:00', '08:00', '10:00', '12:00', '14:00', '16:00', '18:00', '20:00']
+  // One-stop options connect through a hub (never the route's own airports)
+  const hubs = ['ORD', 'ATL', 'AMS', 'IST', 'DOH', 'DFW', 'MUC', 'HKG'].filter(
+    hub => hub !== origin && hub !== destination
+  )
+  const layoverDurations = ['1h 10m', '2h 25m', '4h 50m', '9h 30m']
 
   return Array.from({ length: 8 }, (_, i) => {
     const stops = stopsOptions[Math.floor(i / 4) % stopsOptions.length]
@@ -37,9 +44,19 @@ function generateMockFlightsForRoute(
     const durationMatch = baseDuration.match(/(\d+)h\s*(\d*)m?/)
     const durationHours = durationMatch ? parseInt(durationMatch[1]) : parseInt(baseDuration)
     const durationMins = durationMatch && durationMatch[2] ? parseInt(durationMatch[2]) : 0
+    // One-stop options add their layover on top of the flying time
+    const layover =
+      stops > 0
+        ? {
+            airport: hubs[i % hubs.length],
+            duration: layoverDurations[i % layoverDurations.length],
+          }
+        : undefined
+    const durationMinutes =
+      durationHours * 60 + durationMins + (layover ? parseDuration(layover.duration) : 0)
 
     const [hours, mins] = departure.split(':').map(Number)
-    const totalMinutes = hours * 60 + mins + durationHours * 60 + durationMins
+    const totalMinutes = hours * 60 + mins + durationMinutes
     const arrivalHours = Math.floor(totalMinutes / 60) % 24
     const arrivalMinutes = totalMinutes % 60
     const arrival = `${arrivalHours.toString().padStart(2, '0')}:${arrivalMinutes.toString().padStart(2, '0')}`
@@ -56,10 +73,11 @@ function generateMockFlightsForRoute(
       arrivalTime: arrival,
       departureAirport: origin,
       arrivalAirport: destination,
-      duration: baseDuration,
+      duration: layover ? formatDuration(durationMinutes) : baseDuration,
       stops,
       price,
       best: i === 0 && stops === 0,
+      layover: layover ? [layover] : undefined,
     }
   })
 }
@@ -109,3 +127,161 @@ export const mockFlights: Flight[] = [
   ...generateMockFlightsForRoute('DXB', 'FRA', 580, '6h 30m'),
   ...generateMockFlightsForRoute('SIN', 'DXB', 420, '7h 15m'),
 ]
+
+/**
+ * Places a mock "HH:MM" schedule on a date in airport-local time
+ * Arrival is derived from departure + duration in the destination's time zone,
+ * so eastbound and long-haul flights land on the correct local day
+ * Returns the item unchanged if the departure airport's time zone is unknown
+ */
+function scheduleOnDate<
+  T extends Pick<
+    Flight,
+    'departureTime' | 'arrivalTime' | 'departureAirport' | 'arrivalAirport' | 'duration'
+  >,
+>(item: T, date: string): T {
+  const departureTime = toAirportDateTime(
+    `${date}T${formatLocalTime(item.departureTime)}`,
+    item.departureAirport
+  )
+  const arrivalTime = addMinutesAtAirport(
+    departureTime,
+    parseDuration(item.duration),
+    item.arrivalAirport
+  )
+  return arrivalTime ? { ...item, departureTime, arrivalTime } : item
+}
+
+/**
+ * Schedules a mock flight on a departure date with zoned local times
+ * A single layover is placed midway through the flying time, in the hub's local time
+ * @param flight - Mock flight with "HH:MM" times
+ * @param date - Departure date (YYYY-MM-DD)
+ * @returns Flight with ISO departure/arrival (and layover) times carrying each airport's UTC offset
+ */
+export function scheduleMockFlight(flight: Flight, date: string): Flight {
+  const scheduled = scheduleOnDate(flight, date)
+  if (scheduled.layover?.length !== 1 || scheduled.departureTime === flight.departureTime) {
+    return scheduled
+  }
+
+  const [layover] = scheduled.layover
+  const layoverMinutes = parseDuration(layover.duration)
+  const firstFlightMinutes = Math.round((parseDuration(scheduled.duration) - layoverMinutes) / 2)
+  const arrivalTime = addMinutesAtAirport(
+    scheduled.departureTime,
+    firstFlightMinutes,
+    layover.airport
+  )
+  const departureTime = addMinutesAtAirport(arrivalTime, layoverMinutes, layover.airport)
+
+  return {
+    ...scheduled,
+    layover: [{ ...layover, arrivalTime, departureTime }],
+  }
+}
+
+/**
+ * Generates mock multi-city itineraries by combining per-leg mock flights
+ * Uses existing mock routes when available and generates generic options otherwise
+ * @param legs - Ordered legs with origin/destination IATA codes and dates
+ * @returns Combined itineraries with one flight per leg
+ */
+export function generateMockMultiCityFlights(
+  legs: { origin: string; destination: string; date: string }[]
+): Flight[] {
+  if (legs.length === 0) return []
+
+  // Options for each leg: known mock route or a generated generic route
+  const optionsPerLeg = legs.map(leg => {
+    const known = mockFlights.filter(
+      flight => flight.departureAirport === leg.origin && flight.arrivalAirport === leg.destination
+    )
+    return known.length > 0
+      ? known
+      : generateMockFlightsForRoute(leg.origin, leg.destination, 300, '3h 00m')
+  })
+
+  const itineraryCount = Math.min(...optionsPerLeg.map(options => options.length))
+
+  return Array.from({ length: itineraryCount }, (_, i) => {
+    // Offset the option per leg so itineraries mix departure times and airlines
+    const legFlights = optionsPerLeg.map((options, legIndex) =>
+      scheduleOnDate(options[(i + legIndex) % options.length], legs[legIndex].date)
+    )
+    const totalMinutes = legFlights.reduce((sum, flight) => {
+      const match = flight.duration.match(/(\d+)h\s*(\d*)m?/)
+      return sum + (match ? parseInt(match[1]) * 60 + parseInt(match[2] || '0') : 0)
+    }, 0)
+    const airlines = Array.from(new Set(legFlights.map(flight => flight.airline)))
+    const first = legFlights[0]
+    const last = legFlights[legFlights.length - 1]
+
+    return {
+      id: `multi-${legs.map(leg => `${leg.origin}-${leg.destination}`).join('-')}-${i + 1}`,
+      airline: airlines.length === 1 ? airlines[0] : 'Multiple airlines',
+      departureTime: first.departureTime,
+      arrivalTime: last.arrivalTime,
+      departureAirport: first.departureAirport,
+      arrivalAirport: last.arrivalAirport,
+      duration: `${Math.floor(totalMinutes / 60)}h ${totalMinutes % 60}m`,
+      stops: legFlights.reduce((sum, flight) => sum + flight.stops, 0),
+      price: legFlights.reduce((sum, flight) => sum + flight.price, 0),
+      best: i === 0,
+      legs: legFlights.map((flight, legIndex) => ({
+        departureAirport: flight.departureAirport,
+        arrivalAirport: flight.arrivalAirport,
+        departureTime: flight.departureTime,
+        arrivalTime: flight.arrivalTime,
+        duration: flight.duration,
+        stops: flight.stops,
+        airline: flight.airline,
+        date: legs[legIndex].date,
+      })),
+    }
+  })
+}
+
+/**
+ * Builds outbound and return legs for a mock round trip
+ * The return leg uses a mock flight on the reverse route (same airline when available),
+ * or mirrors the outbound flight when the reverse route has no mock data
+ * @param flight - Outbound mock flight
+ * @param departureDate - Outbound date (YYYY-MM-DD)
+ * @param returnDate - Return date (YYYY-MM-DD)
+ * @returns Outbound and return legs
+ */
+export function generateMockRoundTripLegs(
+  flight: Flight,
+  departureDate: string,
+  returnDate: string
+): FlightLeg[] {
+  const reverseOptions = mockFlights.filter(
+    option =>
+      option.departureAirport === flight.arrivalAirport &&
+      option.arrivalAirport === flight.departureAirport
+  )
+  const inbound = reverseOptions.find(option => option.airline === flight.airline) ||
+    reverseOptions[0] || {
+      ...flight,
+      departureAirport: flight.arrivalAirport,
+      arrivalAirport: flight.departureAirport,
+    }
+
+  const toLeg = (source: Flight, date: string, direction: FlightLeg['direction']): FlightLeg => {
+    const scheduled = scheduleOnDate(source, date)
+    return {
+      departureAirport: scheduled.departureAirport,
+      arrivalAirport: scheduled.arrivalAirport,
+      departureTime: scheduled.departureTime,
+      arrivalTime: scheduled.arrivalTime,
+      duration: scheduled.duration,
+      stops: scheduled.stops,
+      airline: scheduled.airline,
+      date,
+      direction,
+    }
+  }
+
+  return [toLeg(flight, departureDate, 'outbound'), toLeg(inbound, returnDate, 'return')]
+}
@@ -0,0 +1,192 @@
+import { RefreshCw, Trash2 } from 'lucide-react'
+import type { PriceWatch, PriceWatchStatus } from '../../types/priceWatch'
+import { formatPrice } from '../../utils/formatPrice'
+import { formatDate } from '../../utils/formatDate'
+import { getLatestPricePoint, getPriceWatchStatus } from '../../utils/priceWatch'
+
+interface PriceWatchCardProps {
+  watch: PriceWatch
+  isChecking?: boolean
+  onCheck: (id: string) => void
+  onRemove: (id: string) => void
+}
+
+const STATUS_STYLES: Record<PriceWatchStatus, { label: string; className: string }> = {
+  pending: {
+    label: 'Checking soon',
+    className: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  },
+  watching: {
+    label: 'Above target',
+    className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300',
+  },
+  'below-target': {
+    label: 'Target reached',
+    className: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+  },
+  unavailable: {
+    label: 'No fares found',
+    className: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/40 dark:text-yellow-300',
+  },
+  expired: {
+    label: 'Expired',
+    className: 'bg-gray-100 text-gray-500 dark:bg-gray-700 dark:text-gray-400',
+  },
+}
+
+// Sparkline size (SVG user units)
+const CHART_WIDTH = 240
+const CHART_HEIGHT = 48
+
+// History rows listed under the chart
+const RECENT_CHECKS = 5
+
+/**
+ * Price history sparkline with the target price as a dashed line
+ */
+function PriceHistorySparkline({ watch }: { watch: PriceWatch }) {
+  const prices = watch.history
+    .map(point => point.price)
+    .filter((price): price is number => price !== null)
+  if (prices.length < 2) return null
+
+  const min = Math.min(...prices, watch.targetPrice)
+  const max = Math.max(...prices, watch.targetPrice)
+  const range = max - min || 1
+  const toY = (price: number) => CHART_HEIGHT - ((price - min) / range) * CHART_HEIGHT
+  const points = prices
+    .map((price, index) => `${(index / (prices.length - 1)) * CHART_WIDTH},${toY(price)}`)
+    .join(' ')
+
+  return (
+    <svg
+      viewBox={`0 -2 ${CHART_WIDTH} ${CHART_HEIGHT + 4}`}
+      className="w-full h-12"
+      role="img"
+      aria-label={`Price history: ${prices.length} checks from ${formatPrice(prices[0], watch.currency)} to ${formatPrice(prices[prices.length - 1], watch.currency)}`}
+      preserveAspectRatio="none"
+    >
+      <line
+        x1={0}
+        x2={CHART_WIDTH}
+        y1={toY(watch.targetPrice)}
+        y2={toY(watch.targetPrice)}
+        className="stroke-green-500"
+        strokeDasharray="4 4"
+        vectorEffect="non-scaling-stroke"
+      />
+      <polyline
+        points={points}
+        fill="none"
+        className="stroke-primary-blue"
+        strokeWidth={2}
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  )
+}
+
+/**
+ * Price watch summary with status, latest price, price history and actions
+ * @param watch - Price watch
+ * @param isChecking - Whether a check is running (default: false)
+ * @param onCheck - Callback to check the price now
+ * @param onRemove - Callback to delete the watch
+ * @returns Price watch card
+ */
+function PriceWatchCard({ watch, isChecking = false, onCheck, onRemove }: PriceWatchCardProps) {
+  const status = getPriceWatchStatus(watch)
+  const latest = getLatestPricePoint(watch)
+  const recentChecks = watch.history.slice(-RECENT_CHECKS).reverse()
+
+  return (
+    <article
+      className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700"
+      aria-label={`Price alert for ${watch.from} to ${watch.to}`}
+    >
+      <div className="flex items-start justify-between flex-wrap gap-4 mb-4">
+        <div>
+          <div className="flex items-center gap-2 mb-1">
+            <h3 className="text-lg font-semibold text-text-dark dark:text-gray-200">
+              {watch.from} → {watch.to}
+            </h3>
+            <span
+              className={`px-2 py-0.5 text-xs font-medium rounded ${STATUS_STYLES[status].className}`}
+            >
+              {STATUS_STYLES[status].label}
+            </span>
+          </div>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Departing {formatDate(watch.windowStart, 'short')} -{' '}
+            {formatDate(watch.windowEnd, 'short')} • Target{' '}
+            {formatPrice(watch.targetPrice, watch.currency)}
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="text-2xl font-bold text-primary-blue">
+            {latest?.price != null ? formatPrice(latest.price, watch.currency) : '—'}
+          </p>
+          {latest?.date && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              on {formatDate(latest.date, 'short')}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <PriceHistorySparkline watch={watch} />
+
+      {recentChecks.length > 0 && (
+        <table className="w-full text-sm mt-3">
+          <caption className="sr-only">Recent price checks</caption>
+          <tbody>
+            {recentChecks.map(point => (
+              <tr
+                key={point.checkedAt}
+                className="border-t border-gray-100 dark:border-gray-700 text-gray-600 dark:text-gray-400"
+              >
+                <td className="py-1">{new Date(point.checkedAt).toLocaleString()}</td>
+                <td
+                  className={`py-1 text-right font-medium ${
+                    point.price !== null && point.price <= watch.targetPrice
+                      ? 'text-green-600 dark:text-green-400'
+                      : 'text-text-dark dark:text-gray-200'
+                  }`}
+                >
+                  {point.price !== null ? formatPrice(point.price, watch.currency) : 'No fares'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {watch.lastError && (
+        <p className="mt-3 text-sm text-red-500 dark:text-red-400" role="alert">
+          Last check failed: {watch.lastError}
+        </p>
+      )}
+
+      <div className="flex items-center justify-end gap-3 mt-4">
+        <button
+          onClick={() => onCheck(watch.id)}
+          disabled={isChecking || status === 'expired'}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium bg-gray-100 dark:bg-gray-700 text-text-dark dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-primary-blue disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <RefreshCw className={`h-4 w-4 ${isChecking ? 'animate-spin' : ''}`} />
+          {isChecking ? 'Checking...' : 'Check now'}
+        </button>
+        <button
+          onClick={() => onRemove(watch.id)}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 focus:outline-none focus:ring-2 focus:ring-red-500 transition-colors"
+          aria-label={`Delete price alert for ${watch.from} to ${watch.to}`}
+        >
+          <Trash2 className="h-4 w-4" />
+          Delete
+        </button>
+      </div>
+    </article>
+  )
+}
+
+export default PriceWatchCard
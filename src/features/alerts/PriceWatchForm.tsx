@@ -0,0 +1,194 @@
+import { useState, type FormEvent } from 'react'
+import { Plane, MapPin, BellPlus } from 'lucide-react'
+import type { Airport } from '../../types/airport'
+import type { PriceWatchInput } from '../../types/priceWatch'
+import AutocompleteInput from '../search/AutocompleteInput'
+import { Button, Input } from '../../components/common'
+import { formatAirportDisplay } from '../../utils/formatAirport'
+import { getFutureDate, getTodayDate } from '../../utils/formatDate'
+
+interface PriceWatchFormProps {
+  onSubmit: (input: PriceWatchInput) => void
+  initialValues?: Partial<PriceWatchInput>
+}
+
+interface RouteEnd {
+  label: string
+  skyId?: string
+  entityId?: string
+}
+
+interface FormErrors {
+  from?: string
+  to?: string
+  windowStart?: string
+  windowEnd?: string
+  targetPrice?: string
+}
+
+// Default date window length for new watches
+const DEFAULT_WINDOW_DAYS = 30
+
+/**
+ * Form for creating a price watch: route, departure date window and target price
+ * @param onSubmit - Callback with the validated watch fields
+ * @param initialValues - Prefilled fields (e.g., from the current search)
+ * @returns Price watch form
+ */
+function PriceWatchForm({ onSubmit, initialValues = {} }: PriceWatchFormProps) {
+  const [from, setFrom] = useState<RouteEnd>({
+    label: initialValues.from || '',
+    skyId: initialValues.originSkyId,
+    entityId: initialValues.originEntityId,
+  })
+  const [to, setTo] = useState<RouteEnd>({
+    label: initialValues.to || '',
+    skyId: initialValues.destinationSkyId,
+    entityId: initialValues.destinationEntityId,
+  })
+  const [windowStart, setWindowStart] = useState(initialValues.windowStart || getFutureDate(7))
+  const [windowEnd, setWindowEnd] = useState(
+    initialValues.windowEnd || getFutureDate(7 + DEFAULT_WINDOW_DAYS)
+  )
+  const [targetPrice, setTargetPrice] = useState(
+    initialValues.targetPrice ? String(initialValues.targetPrice) : ''
+  )
+  const [notify, setNotify] = useState(initialValues.notify ?? false)
+  const [errors, setErrors] = useState<FormErrors>({})
+
+  // Typing invalidates the previously selected airport
+  const handleRouteChange = (setter: (end: RouteEnd) => void) => (value: string) => {
+    setter({ label: value })
+  }
+
+  const handleRouteSelect = (setter: (end: RouteEnd) => void) => (airport: Airport | null) => {
+    if (airport) {
+      setter({
+        label: formatAirportDisplay(airport),
+        skyId: airport.skyId,
+        entityId: airport.entityId,
+      })
+    }
+  }
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+
+    const price = Number(targetPrice)
+    const nextErrors: FormErrors = {
+      from: from.skyId ? undefined : 'Please select an airport from the suggestions',
+      to: to.skyId ? undefined : 'Please select an airport from the suggestions',
+      windowStart: windowStart ? undefined : 'Start date is required',
+      windowEnd:
+        !windowEnd || windowEnd < windowStart
+          ? 'End date must be on or after the start'
+          : undefined,
+      targetPrice: price > 0 ? undefined : 'Enter a target price above 0',
+    }
+    setErrors(nextErrors)
+    if (Object.values(nextErrors).some(Boolean) || !from.skyId || !to.skyId) return
+
+    onSubmit({
+      from: from.label,
+      to: to.label,
+      originSkyId: from.skyId,
+      destinationSkyId: to.skyId,
+      originEntityId: from.entityId,
+      destinationEntityId: to.entityId,
+      windowStart,
+      windowEnd,
+      targetPrice: price,
+      currency: initialValues.currency || 'USD',
+      notify,
+    })
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6"
+      aria-label="Create price alert"
+      noValidate
+    >
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <AutocompleteInput
+          label="From"
+          value={from.label}
+          onChange={handleRouteChange(setFrom)}
+          onSelect={handleRouteSelect(setFrom)}
+          error={errors.from}
+          icon={<Plane className="inline h-4 w-4 mr-1 text-primary-blue" />}
+          id="watch-from"
+          required
+        />
+        <AutocompleteInput
+          label="To"
+          value={to.label}
+          onChange={handleRouteChange(setTo)}
+          onSelect={handleRouteSelect(setTo)}
+          error={errors.to}
+          icon={<MapPin className="inline h-4 w-4 mr-1 text-primary-blue" />}
+          id="watch-to"
+          required
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <Input
+          type="date"
+          label="Departing from"
+          id="watch-window-start"
+          value={windowStart}
+          min={getTodayDate()}
+          onChange={e => setWindowStart(e.target.value)}
+          error={errors.windowStart}
+          fullWidth
+          required
+        />
+        <Input
+          type="date"
+          label="Departing by"
+          id="watch-window-end"
+          value={windowEnd}
+          min={windowStart || getTodayDate()}
+          onChange={e => setWindowEnd(e.target.value)}
+          error={errors.windowEnd}
+          fullWidth
+          required
+        />
+        <Input
+          type="number"
+          label="Target price"
+          id="watch-target-price"
+          value={targetPrice}
+          min={1}
+          step={1}
+          placeholder="e.g., 350"
+          onChange={e => setTargetPrice(e.target.value)}
+          error={errors.targetPrice}
+          helperText="Per person, one way"
+          fullWidth
+          required
+        />
+      </div>
+
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={notify}
+            onChange={e => setNotify(e.target.checked)}
+            className="w-4 h-4 text-primary-blue border-gray-300 rounded focus:ring-primary-blue"
+          />
+          Also send a browser notification
+        </label>
+        <Button type="submit" variant="primary" className="gap-2">
+          <BellPlus className="h-5 w-5" />
+          Create alert
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+export default PriceWatchForm
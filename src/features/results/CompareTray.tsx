@@ -0,0 +1,86 @@
+import { useState } from 'react'
+import { X } from 'lucide-react'
+import type { Flight } from '../../types/flight'
+import { useCompare } from '../../context/CompareContext'
+import { formatPrice } from '../../utils/formatPrice'
+import FlightComparison from './FlightComparison'
+
+interface CompareTrayProps {
+  onSelectFlight?: (flight: Flight) => void
+}
+
+/**
+ * Tray pinned to the bottom of the screen listing flights picked for comparison
+ * Hidden while empty; opens the side-by-side comparison once two or more flights are picked
+ * @param onSelectFlight - Callback to open a flight's details from the comparison
+ * @returns Comparison tray and, when open, the comparison dialog
+ */
+function CompareTray({ onSelectFlight }: CompareTrayProps) {
+  const { compareFlights, maxFlights, removeFromCompare, clearCompare } = useCompare()
+  const [showComparison, setShowComparison] = useState(false)
+
+  if (compareFlights.length === 0) return null
+
+  const canCompare = compareFlights.length >= 2
+
+  return (
+    <>
+      <div
+        className="fixed bottom-0 inset-x-0 z-40 bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 shadow-lg"
+        role="region"
+        aria-label="Flights to compare"
+      >
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 max-w-7xl py-3 flex items-center gap-3 flex-wrap">
+          <span className="text-sm font-medium text-text-dark dark:text-gray-200">
+            Compare ({compareFlights.length}/{maxFlights})
+          </span>
+          <ul className="flex items-center gap-2 flex-wrap flex-1">
+            {compareFlights.map(flight => (
+              <li
+                key={flight.id}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-gray-100 dark:bg-gray-700 text-sm text-text-dark dark:text-gray-200"
+              >
+                <span>
+                  {flight.airline} • {flight.departureAirport}-{flight.arrivalAirport} •{' '}
+                  {formatPrice(flight.price)}
+                </span>
+                <button
+                  onClick={() => removeFromCompare(flight.id)}
+                  className="rounded hover:text-red-500 focus:outline-none focus:ring-2 focus:ring-primary-blue"
+                  aria-label={`Remove ${flight.airline} flight from comparison`}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={clearCompare}
+            className="text-sm text-gray-600 dark:text-gray-400 hover:underline focus:outline-none focus:ring-2 focus:ring-primary-blue rounded"
+          >
+            Clear
+          </button>
+          <button
+            onClick={() => setShowComparison(true)}
+            disabled={!canCompare}
+            className="px-4 py-2 rounded-lg bg-primary-blue dark:bg-blue-600 text-white font-medium hover:bg-blue-600 dark:hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-primary-blue focus:ring-offset-2 dark:focus:ring-offset-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            title={canCompare ? undefined : 'Pick at least two flights to compare'}
+          >
+            Compare
+          </button>
+        </div>
+      </div>
+
+      {showComparison && canCompare && (
+        <FlightComparison
+          flights={compareFlights}
+          onClose={() => setShowComparison(false)}
+          onRemove={removeFromCompare}
+          onSelectFlight={onSelectFlight}
+        />
+      )}
+    </>
+  )
+}
+
+export default CompareTray
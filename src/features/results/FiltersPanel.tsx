@@ -1,6 +1,18 @@
 import { useMemo } from 'react'
-import { X, DollarSign, Plane } from 'lucide-react'
+import { X, DollarSign, Plane, MapPin, Clock, Timer, Hourglass } from 'lucide-react'
 import { useSearch } from '../../context/SearchContext'
+import { usePreferences } from '../../context/PreferencesContext'
+import type { Flight } from '../../types/flight'
+import PriceRangeFilter from './PriceRangeFilter'
+import { calculatePriceRange } from '../../utils/calculatePriceRange'
+import { formatDuration, parseDuration } from '../../utils/parseDuration'
+import { TIME_OF_DAY_OPTIONS, getTimeOfDay } from '../../utils/timeOfDay'
+import { getLayoverMinutes, hasOvernightLayover } from '../../utils/layovers'
+import type { TimeOfDay } from '../../utils/timeOfDay'
+import { getPreferenceFilters, isAirlineListed } from '../../utils/preferences'
+
+// Max-duration and max-layover slider step (minutes)
+const DURATION_STEP = 5
 
 interface FiltersPanelProps {
   isOpen?: boolean
@@ -10,20 +22,119 @@ interface FiltersPanelProps {
 
 /**
  * Filters panel component for refining flight search results
- * Includes price range, stops, and airline filters
+ * Includes price range, stops, departure/arrival time, max duration, layover, airline and
+ * (for multi-airport searches) airport filters
  * @param isOpen - Panel visibility state (default: true)
  * @param onClose - Callback when panel is closed (mobile only)
  * @param clearFiltersOverride - Override function for clearing filters
  * @returns Filters panel with price, stops, and airline filters
  */
 function FiltersPanel({ isOpen = true, onClose, clearFiltersOverride }: FiltersPanelProps) {
-  const { flights, filters, setFilters, clearFilters } = useSearch()
+  const { flights, searchParams, filters, setFilters, clearFilters, priceMultiplier } = useSearch()
+  const { preferences } = usePreferences()
+  const currency = searchParams?.currency || preferences.currency
+
+  // Price slider bounds come from the result set (rounded to the nearest 100)
+  const prices = useMemo(() => flights.map(flight => flight.price), [flights])
+  const priceBounds = useMemo(() => calculatePriceRange(prices), [prices])
 
-  // Get unique airlines from flights
+  // The price filter is stored per person but shown in the selected pricing (per person or total)
+  const displayedPrices = useMemo(
+    () => prices.map(price => price * priceMultiplier),
+    [prices, priceMultiplier]
+  )
+  const toDisplayedRange = (range: { min: number; max: number }) => ({
+    min: range.min * priceMultiplier,
+    max: range.max * priceMultiplier,
+  })
+  const handlePriceRangeChange = (range: { min: number; max: number }) => {
+    setFilters({
+      priceRange: {
+        min: Math.floor(range.min / priceMultiplier),
+        max: Math.ceil(range.max / priceMultiplier),
+      },
+    })
+  }
+
+  // Get unique airlines from flights, preferred airlines first
   const availableAirlines = useMemo(() => {
     const airlines = new Set<string>()
     flights.forEach(flight => airlines.add(flight.airline))
-    return Array.from(airlines).sort()
+    const isPreferred = (airline: string) => isAirlineListed(airline, preferences.preferredAirlines)
+    return Array.from(airlines).sort(
+      (a, b) => Number(isPreferred(b)) - Number(isPreferred(a)) || a.localeCompare(b)
+    )
+  }, [flights, preferences.preferredAirlines])
+
+  // Filters the preferences would apply (blocked airlines, max stops)
+  const preferenceFilters = useMemo(
+    () => getPreferenceFilters(flights, preferences),
+    [flights, preferences]
+  )
+  const canApplyPreferences =
+    (preferenceFilters.excludedAirlines &&
+      preferenceFilters.excludedAirlines.join() !== [...filters.excludedAirlines].sort().join()) ||
+    (preferenceFilters.stops &&
+      preferenceFilters.stops.join() !== [...filters.stops].sort((a, b) => a - b).join())
+
+  // Airports searched on each side - the facet only shows when a side has several
+  const availableAirports = useMemo(() => {
+    const origins = new Set<string>()
+    const destinations = new Set<string>()
+    flights.forEach(flight => {
+      origins.add(flight.searchOrigin || flight.departureAirport)
+      destinations.add(flight.searchDestination || flight.arrivalAirport)
+    })
+    return {
+      originAirports: Array.from(origins).sort(),
+      destinationAirports: Array.from(destinations).sort(),
+    }
+  }, [flights])
+
+  // Flight counts per time-of-day bucket, in the departure and arrival airports' local time
+  const timeOfDayCounts = useMemo(() => {
+    const counts = {
+      departureTimes: {} as Partial<Record<TimeOfDay, number>>,
+      arrivalTimes: {} as Partial<Record<TimeOfDay, number>>,
+    }
+    flights.forEach(flight => {
+      const departure = getTimeOfDay(flight.departureTime)
+      const arrival = getTimeOfDay(flight.arrivalTime)
+      counts.departureTimes[departure] = (counts.departureTimes[departure] || 0) + 1
+      counts.arrivalTimes[arrival] = (counts.arrivalTimes[arrival] || 0) + 1
+    })
+    return counts
+  }, [flights])
+
+  // Shortest and longest duration in the result set (minutes), bounding the slider
+  const durationBounds = useMemo(() => {
+    const durations = flights.map(flight => parseDuration(flight.duration)).filter(d => d > 0)
+    if (durations.length === 0) return null
+    return { min: Math.min(...durations), max: Math.max(...durations) }
+  }, [flights])
+
+  // Connection airports (with flight counts) and layover length bounds of the result set
+  const layoverStats = useMemo(() => {
+    const airportCounts = new Map<string, number>()
+    const layoverMinutes: number[] = []
+    let overnightCount = 0
+    flights.forEach(flight => {
+      const layovers = flight.layover || []
+      new Set(layovers.map(layover => layover.airport)).forEach(airport =>
+        airportCounts.set(airport, (airportCounts.get(airport) || 0) + 1)
+      )
+      layovers.forEach(layover => {
+        const minutes = getLayoverMinutes(layover)
+        if (minutes > 0) layoverMinutes.push(minutes)
+      })
+      if (hasOvernightLayover(flight)) overnightCount += 1
+    })
+    return {
+      airports: Array.from(airportCounts.entries()).sort(([a], [b]) => a.localeCompare(b)),
+      minMinutes: layoverMinutes.length > 0 ? Math.min(...layoverMinutes) : 0,
+      maxMinutes: layoverMinutes.length > 0 ? Math.max(...layoverMinutes) : 0,
+      overnightCount,
+    }
   }, [flights])
 
   // Get unique stop counts
@@ -33,16 +144,6 @@ function FiltersPanel({ isOpen = true, onClose, clearFiltersOverride }: FiltersP
     return Array.from(stops).sort((a, b) => a - b)
   }, [flights])
 
-  const handlePriceRangeChange = (type: 'min' | 'max', value: string) => {
-    const numValue = parseInt(value) || 0
-    setFilters({
-      priceRange: {
-        ...filters.priceRange,
-        [type]: numValue,
-      },
-    })
-  }
-
   const handleStopsToggle = (stops: number) => {
     const currentStops = filters.stops || []
     const newStops = currentStops.includes(stops)
@@ -59,11 +160,80 @@ function FiltersPanel({ isOpen = true, onClose, clearFiltersOverride }: FiltersP
     setFilters({ airlines: newAirlines })
   }
 
+  const handleTimeOfDayToggle = (field: 'departureTimes' | 'arrivalTimes', value: TimeOfDay) => {
+    const currentTimes = filters[field] || []
+    const newTimes = currentTimes.includes(value)
+      ? currentTimes.filter(t => t !== value)
+      : [...currentTimes, value]
+    setFilters({ [field]: newTimes })
+  }
+
+  const handleDurationChange = (value: string) => {
+    if (!durationBounds) return
+    const minutes = parseInt(value) || 0
+    // The top of the slider means "any duration"
+    setFilters({ duration: minutes > durationBounds.max - DURATION_STEP ? 0 : minutes })
+  }
+
+  const handleMaxLayoverChange = (value: string) => {
+    const minutes = parseInt(value) || 0
+    // The top of the slider means "any layover length"
+    setFilters({
+      maxLayoverMinutes: minutes > layoverStats.maxMinutes - DURATION_STEP ? 0 : minutes,
+    })
+  }
+
+  const handleLayoverAirportToggle = (airport: string) => {
+    const currentExcluded = filters.excludedLayoverAirports || []
+    const newExcluded = currentExcluded.includes(airport)
+      ? currentExcluded.filter(a => a !== airport)
+      : [...currentExcluded, airport]
+    setFilters({ excludedLayoverAirports: newExcluded })
+  }
+
+  const timeFilters = [
+    { field: 'departureTimes' as const, title: 'Departure time' },
+    { field: 'arrivalTimes' as const, title: 'Arrival time' },
+  ]
+
+  const handleAirportToggle = (
+    field: 'originAirports' | 'destinationAirports',
+    airport: string
+  ) => {
+    const currentAirports = filters[field] || []
+    const newAirports = currentAirports.includes(airport)
+      ? currentAirports.filter(a => a !== airport)
+      : [...currentAirports, airport]
+    setFilters({ [field]: newAirports })
+  }
+
+  const airportFacets = [
+    {
+      field: 'originAirports' as const,
+      title: 'From',
+      getAirport: (f: Flight) => f.searchOrigin || f.departureAirport,
+    },
+    {
+      field: 'destinationAirports' as const,
+      title: 'To',
+      getAirport: (f: Flight) => f.searchDestination || f.arrivalAirport,
+    },
+  ].filter(facet => availableAirports[facet.field].length > 1)
+
   const hasActiveFilters =
     (filters.stops && filters.stops.length > 0) ||
     (filters.airlines && filters.airlines.length > 0) ||
-    filters.priceRange.min > 0 ||
-    filters.priceRange.max < 10000
+    (filters.excludedAirlines && filters.excludedAirlines.length > 0) ||
+    (filters.departureTimes && filters.departureTimes.length > 0) ||
+    (filters.arrivalTimes && filters.arrivalTimes.length > 0) ||
+    filters.duration > 0 ||
+    filters.maxLayoverMinutes > 0 ||
+    (filters.excludedLayoverAirports && filters.excludedLayoverAirports.length > 0) ||
+    filters.noOvernightLayovers ||
+    (filters.originAirports && filters.originAirports.length > 0) ||
+    (filters.destinationAirports && filters.destinationAirports.length > 0) ||
+    filters.priceRange.min > priceBounds.min ||
+    filters.priceRange.max < priceBounds.max
 
   return (
     <div
@@ -95,51 +265,33 @@ function FiltersPanel({ isOpen = true, onClose, clearFiltersOverride }: FiltersP
       </div>
 
       <div className="space-y-6">
+        {/* Re-apply the preferences after the filters were changed or cleared */}
+        {canApplyPreferences && (
+          <button
+            onClick={() => setFilters(preferenceFilters)}
+            className="text-sm text-primary-blue dark:text-blue-400 hover:underline focus:outline-none focus:ring-2 focus:ring-primary-blue rounded-md px-1"
+          >
+            Apply my preferences
+          </button>
+        )}
+
         {/* Price Range Filter */}
         <div>
           <div className="flex items-center gap-2 mb-3">
             <DollarSign className="h-5 w-5 text-primary-blue" />
             <h3 className="font-medium text-text-dark dark:text-gray-200">Price Range</h3>
           </div>
-          <div className="space-y-3">
-            <div className="flex items-center gap-4">
-              <label className="text-sm text-gray-600 dark:text-gray-400 min-w-[60px]">Min:</label>
-              <input
-                type="number"
-                min="0"
-                max={filters.priceRange.max}
-                value={filters.priceRange.min}
-                onChange={e => handlePriceRangeChange('min', e.target.value)}
-                className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-text-dark dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-primary-blue"
-                aria-label="Minimum price"
-              />
-              <span className="text-sm text-gray-500">$</span>
-            </div>
-            <div className="flex items-center gap-4">
-              <label className="text-sm text-gray-600 dark:text-gray-400 min-w-[60px]">Max:</label>
-              <input
-                type="number"
-                min={filters.priceRange.min}
-                max="10000"
-                value={filters.priceRange.max}
-                onChange={e => handlePriceRangeChange('max', e.target.value)}
-                className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-text-dark dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-primary-blue"
-                aria-label="Maximum price"
-              />
-              <span className="text-sm text-gray-500">$</span>
-            </div>
-            {/* Range Slider */}
-            <input
-              type="range"
-              min="0"
-              max="10000"
-              step="100"
-              value={filters.priceRange.max}
-              onChange={e => handlePriceRangeChange('max', e.target.value)}
-              className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary-blue"
-              aria-label="Price range slider"
+          {flights.length > 0 ? (
+            <PriceRangeFilter
+              prices={displayedPrices}
+              bounds={toDisplayedRange(priceBounds)}
+              value={toDisplayedRange(filters.priceRange)}
+              currency={currency}
+              onChange={handlePriceRangeChange}
             />
-          </div>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No prices to filter yet.</p>
+          )}
         </div>
 
         {/* Stops Filter */}
@@ -175,6 +327,218 @@ function FiltersPanel({ isOpen = true, onClose, clearFiltersOverride }: FiltersP
           </div>
         </div>
 
+        {/* Departure / Arrival Time Filters */}
+        {flights.length > 0 &&
+          timeFilters.map(timeFilter => (
+            <div key={timeFilter.field}>
+              <div className="flex items-center gap-2 mb-3">
+                <Clock className="h-5 w-5 text-primary-blue" />
+                <h3 className="font-medium text-text-dark dark:text-gray-200">
+                  {timeFilter.title}
+                </h3>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {TIME_OF_DAY_OPTIONS.map(option => {
+                  const isActive = filters[timeFilter.field]?.includes(option.value) || false
+                  const count = timeOfDayCounts[timeFilter.field][option.value] || 0
+                  return (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => handleTimeOfDayToggle(timeFilter.field, option.value)}
+                      disabled={count === 0 && !isActive}
+                      className={`p-2 rounded-lg border text-left transition-colors focus:outline-none focus:ring-2 focus:ring-primary-blue disabled:opacity-50 disabled:cursor-not-allowed ${
+                        isActive
+                          ? 'border-primary-blue bg-primary-blue/10 dark:bg-primary-blue/20'
+                          : 'border-gray-200 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
+                      }`}
+                      aria-pressed={isActive}
+                      aria-label={`${timeFilter.title} ${option.label} (${option.hours}), ${count} flights`}
+                    >
+                      <span className="block text-sm font-medium text-text-dark dark:text-gray-200">
+                        {option.label}
+                      </span>
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">
+                        {option.hours} ({count})
+                      </span>
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+          ))}
+
+        {/* Max Duration Filter */}
+        {durationBounds && durationBounds.max > durationBounds.min && (
+          <div>
+            <div className="flex items-center gap-2 mb-3">
+              <Timer className="h-5 w-5 text-primary-blue" />
+              <h3 className="font-medium text-text-dark dark:text-gray-200">Max duration</h3>
+            </div>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+              {filters.duration > 0
+                ? `Up to ${formatDuration(Math.min(filters.duration, durationBounds.max))}`
+                : 'Any duration'}
+            </p>
+            <input
+              type="range"
+              min={durationBounds.min}
+              max={durationBounds.max}
+              step={DURATION_STEP}
+              value={filters.duration > 0 ? filters.duration : durationBounds.max}
+              onChange={e => handleDurationChange(e.target.value)}
+              className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary-blue"
+              aria-label="Maximum flight duration"
+              aria-valuetext={
+                filters.duration > 0 ? `Up to ${formatDuration(filters.duration)}` : 'Any duration'
+              }
+            />
+            <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+              <span>{formatDuration(durationBounds.min)}</span>
+              <span>{formatDuration(durationBounds.max)}</span>
+            </div>
+          </div>
+        )}
+
+        {/* Layover Filters */}
+        {layoverStats.airports.length > 0 && (
+          <div>
+            <div className="flex items-center gap-2 mb-3">
+              <Hourglass className="h-5 w-5 text-primary-blue" />
+              <h3 className="font-medium text-text-dark dark:text-gray-200">Layovers</h3>
+            </div>
+            <div className="space-y-4">
+              {/* Max layover length */}
+              {layoverStats.maxMinutes > layoverStats.minMinutes && (
+                <div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+                    {filters.maxLayoverMinutes > 0
+                      ? `Layovers up to ${formatDuration(filters.maxLayoverMinutes)}`
+                      : 'Any layover length'}
+                  </p>
+                  <input
+                    type="range"
+                    min={layoverStats.minMinutes}
+                    max={layoverStats.maxMinutes}
+                    step={DURATION_STEP}
+                    value={
+                      filters.maxLayoverMinutes > 0
+                        ? filters.maxLayoverMinutes
+                        : layoverStats.maxMinutes
+                    }
+                    onChange={e => handleMaxLayoverChange(e.target.value)}
+                    className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer accent-primary-blue"
+                    aria-label="Maximum layover duration"
+                    aria-valuetext={
+                      filters.maxLayoverMinutes > 0
+                        ? `Up to ${formatDuration(filters.maxLayoverMinutes)}`
+                        : 'Any layover length'
+                    }
+                  />
+                  <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    <span>{formatDuration(layoverStats.minMinutes)}</span>
+                    <span>{formatDuration(layoverStats.maxMinutes)}</span>
+                  </div>
+                </div>
+              )}
+
+              {/* Overnight layovers */}
+              <label className="flex items-center gap-2 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 p-2 rounded transition-colors">
+                <input
+                  type="checkbox"
+                  checked={filters.noOvernightLayovers}
+                  onChange={e => setFilters({ noOvernightLayovers: e.target.checked })}
+                  className="w-4 h-4 text-primary-blue border-gray-300 rounded focus:ring-primary-blue focus:ring-2"
+                  aria-label="No overnight layovers"
+                />
+                <span className="text-sm text-text-dark dark:text-gray-200 flex-1">
+                  No overnight layovers
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  ({layoverStats.overnightCount} overnight)
+                </span>
+              </label>
+
+              {/* Connection airports to avoid */}
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">
+                  Avoid connecting in
+                </p>
+                <div className="space-y-2 max-h-48 overflow-y-auto">
+                  {layoverStats.airports.map(([airport, count]) => {
+                    const isExcluded = filters.excludedLayoverAirports?.includes(airport) || false
+                    return (
+                      <label
+                        key={airport}
+                        className="flex items-center gap-2 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 p-2 rounded transition-colors"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={isExcluded}
+                          onChange={() => handleLayoverAirportToggle(airport)}
+                          className="w-4 h-4 text-primary-blue border-gray-300 rounded focus:ring-primary-blue focus:ring-2"
+                          aria-label={`Avoid connections in ${airport}`}
+                        />
+                        <span className="text-sm text-text-dark dark:text-gray-200 flex-1">
+                          {airport}
+                        </span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">({count})</span>
+                      </label>
+                    )
+                  })}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Airport Filter (city-level and nearby-airport searches) */}
+        {airportFacets.length > 0 && (
+          <div>
+            <div className="flex items-center gap-2 mb-3">
+              <MapPin className="h-5 w-5 text-primary-blue" />
+              <h3 className="font-medium text-text-dark dark:text-gray-200">Airports</h3>
+            </div>
+            <div className="space-y-4">
+              {airportFacets.map(facet => (
+                <div key={facet.field}>
+                  <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">
+                    {facet.title}
+                  </p>
+                  <div className="space-y-2">
+                    {availableAirports[facet.field].map(airport => {
+                      const isChecked = filters[facet.field]?.includes(airport) || false
+                      const airportCount = flights.filter(
+                        f => facet.getAirport(f) === airport
+                      ).length
+                      return (
+                        <label
+                          key={airport}
+                          className="flex items-center gap-2 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 p-2 rounded transition-colors"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={isChecked}
+                            onChange={() => handleAirportToggle(facet.field, airport)}
+                            className="w-4 h-4 text-primary-blue border-gray-300 rounded focus:ring-primary-blue focus:ring-2"
+                            aria-label={`Filter by ${facet.title.toLowerCase()} airport ${airport}`}
+                          />
+                          <span className="text-sm text-text-dark dark:text-gray-200 flex-1">
+                            {airport}
+                          </span>
+                          <span className="text-xs text-gray-500 dark:text-gray-400">
+                            ({airportCount})
+                          </span>
+                        </label>
+                      )
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Airline Filter */}
         {availableAirlines.length > 0 && (
           <div>
@@ -182,6 +546,17 @@ function FiltersPanel({ isOpen = true, onClose, clearFiltersOverride }: FiltersP
               <Plane className="h-5 w-5 text-primary-blue" />
               <h3 className="font-medium text-text-dark dark:text-gray-200">Airlines</h3>
             </div>
+            {filters.excludedAirlines.length > 0 && (
+              <p className="mb-2 text-xs text-gray-600 dark:text-gray-400">
+                Hiding itineraries with {filters.excludedAirlines.join(', ')} on any flight.{' '}
+                <button
+                  onClick={() => setFilters({ excludedAirlines: [] })}
+                  className="text-primary-blue dark:text-blue-400 hover:underline focus:outline-none focus:ring-2 focus:ring-primary-blue rounded"
+                >
+                  Show them
+                </button>
+              </p>
+            )}
             <div className="space-y-2 max-h-48 overflow-y-auto">
               {availableAirlines.map(airline => {
                 const isChecked = filters.airlines?.includes(airline) || false
@@ -200,6 +575,16 @@ function FiltersPanel({ isOpen = true, onClose, clearFiltersOverride }: FiltersP
                     />
                     <span className="text-sm text-text-dark dark:text-gray-200 flex-1">
                       {airline}
+                      {isAirlineListed(airline, preferences.preferredAirlines) && (
+                        <span className="ml-2 px-1.5 py-0.5 text-xs font-medium rounded bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300">
+                          Preferred
+                        </span>
+                      )}
+                      {isAirlineListed(airline, preferences.blockedAirlines) && (
+                        <span className="ml-2 px-1.5 py-0.5 text-xs font-medium rounded bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300">
+                          Blocked
+                        </span>
+                      )}
                     </span>
                     <span className="text-xs text-gray-500 dark:text-gray-400">
                       ({airlineCount})
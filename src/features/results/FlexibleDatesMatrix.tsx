@@ -0,0 +1,225 @@
+import { useEffect, useMemo, useState } from 'react'
+import { CalendarRange } from 'lucide-react'
+import type { PriceCalendarDay } from '../../types/flight'
+import { getPriceCalendar } from '../../services/flightApi'
+import { Loader } from '../../components/common'
+import { formatPrice } from '../../utils/formatPrice'
+import { formatDate } from '../../utils/formatDate'
+import { buildDatePriceMatrix, getFlexibleDates } from '../../utils/flexibleDates'
+import { logger } from '../../utils/logger'
+
+interface FlexibleDatesMatrixProps {
+  originSkyId: string
+  destinationSkyId: string
+  departure: string
+  returnDate?: string
+  flexibleDays: number
+  currency?: string
+  onSelect: (departure: string, returnDate?: string) => void
+}
+
+/**
+ * Flexible-date fare matrix for the days around the searched dates
+ * Loads the price calendar of the outbound (and return) window and shows one row per departure
+ * date and one column per return date, with the cheapest combination highlighted
+ * @param originSkyId - Origin airport skyId
+ * @param destinationSkyId - Destination airport skyId
+ * @param departure - Searched departure date
+ * @param returnDate - Searched return date (round trips only)
+ * @param flexibleDays - Days shown either side of each date
+ * @param currency - Currency code (default: 'USD')
+ * @param onSelect - Callback with the dates of the clicked cell
+ * @returns Date × price matrix
+ */
+function FlexibleDatesMatrix({
+  originSkyId,
+  destinationSkyId,
+  departure,
+  returnDate,
+  flexibleDays,
+  currency = 'USD',
+  onSelect,
+}: FlexibleDatesMatrixProps) {
+  const [outbound, setOutbound] = useState<PriceCalendarDay[]>([])
+  const [inbound, setInbound] = useState<PriceCalendarDay[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const departureDates = useMemo(
+    () => getFlexibleDates(departure, flexibleDays),
+    [departure, flexibleDays]
+  )
+  // Returns can't be before the earliest departure of the window
+  const returnDates = useMemo(
+    () => (returnDate ? getFlexibleDates(returnDate, flexibleDays, departureDates[0]) : []),
+    [returnDate, flexibleDays, departureDates]
+  )
+
+  useEffect(() => {
+    if (departureDates.length === 0) {
+      setIsLoading(false)
+      return
+    }
+    const controller = new AbortController()
+
+    const fetchCalendars = async () => {
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        const [outboundData, inboundData] = await Promise.all([
+          getPriceCalendar(originSkyId, destinationSkyId, departureDates[0], currency, {
+            signal: controller.signal,
+          }),
+          returnDates.length > 0
+            ? getPriceCalendar(destinationSkyId, originSkyId, returnDates[0], currency, {
+                signal: controller.signal,
+              })
+            : Promise.resolve(null),
+        ])
+        if (controller.signal.aborted) return
+        setOutbound(outboundData?.calendar || [])
+        setInbound(inboundData?.calendar || [])
+      } catch (err) {
+        if (controller.signal.aborted) return
+        setError(err instanceof Error ? err.message : 'Failed to load flexible-date prices.')
+        logger.error('FlexibleDatesMatrix', 'Error fetching price calendars', err)
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false)
+      }
+    }
+
+    fetchCalendars()
+    return () => controller.abort()
+  }, [originSkyId, destinationSkyId, departureDates, returnDates, currency])
+
+  const matrix = useMemo(
+    () => buildDatePriceMatrix(departureDates, returnDates, outbound, inbound),
+    [departureDates, returnDates, outbound, inbound]
+  )
+  const isRoundTrip = returnDates.length > 0
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4 gap-2">
+        <div className="flex items-center gap-2">
+          <CalendarRange className="h-5 w-5 text-primary-blue" />
+          <h3 className="text-lg font-semibold text-text-dark dark:text-gray-100">
+            Flexible dates (±{flexibleDays} days)
+          </h3>
+        </div>
+        {matrix.cheapest?.price != null && (
+          <p className="text-sm text-green-600 dark:text-green-400">
+            Lowest:{' '}
+            <span className="font-bold">{formatPrice(matrix.cheapest.price, currency)}</span>
+          </p>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader message="Loading flexible-date prices..." />
+        </div>
+      ) : error || !matrix.cheapest ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {error || 'Flexible-date prices are not available for this route.'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs sm:text-sm border-separate border-spacing-1">
+            <caption className="sr-only">
+              Estimated fares per person by departure{isRoundTrip ? ' and return' : ''} date
+            </caption>
+            <thead>
+              <tr>
+                <th
+                  scope="col"
+                  className="text-left font-semibold text-gray-500 dark:text-gray-400"
+                >
+                  {isRoundTrip ? 'Depart / Return' : 'Depart'}
+                </th>
+                {isRoundTrip ? (
+                  returnDates.map(date => (
+                    <th
+                      key={date}
+                      scope="col"
+                      className={`font-semibold ${
+                        date === returnDate
+                          ? 'text-primary-blue dark:text-blue-400'
+                          : 'text-gray-500 dark:text-gray-400'
+                      }`}
+                    >
+                      {formatDate(date, 'short')}
+                    </th>
+                  ))
+                ) : (
+                  <th scope="col" className="font-semibold text-gray-500 dark:text-gray-400">
+                    Fare
+                  </th>
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {matrix.rows.map((row, rowIndex) => {
+                const rowDate = matrix.departureDates[rowIndex]
+                return (
+                  <tr key={rowDate}>
+                    <th
+                      scope="row"
+                      className={`text-left font-semibold whitespace-nowrap ${
+                        rowDate === departure
+                          ? 'text-primary-blue dark:text-blue-400'
+                          : 'text-gray-500 dark:text-gray-400'
+                      }`}
+                    >
+                      {formatDate(rowDate, 'short')}
+                    </th>
+                    {row.map(cell => {
+                      const isSearched = cell.departure === departure && cell.return === returnDate
+                      let cellClass =
+                        'w-full px-2 py-2 rounded-md border-2 transition-colors focus:outline-none focus:ring-2 focus:ring-primary-blue '
+                      if (cell.price === null) {
+                        cellClass +=
+                          'bg-gray-100 dark:bg-gray-800 text-gray-400 border-gray-200 dark:border-gray-700 cursor-not-allowed'
+                      } else if (cell.isCheapest) {
+                        cellClass += isSearched
+                          ? 'bg-green-600 border-green-600 text-white font-bold'
+                          : 'bg-green-50 dark:bg-green-900/20 border-green-300 dark:border-green-700 text-green-700 dark:text-green-400 font-bold hover:bg-green-100 dark:hover:bg-green-900/40'
+                      } else if (isSearched) {
+                        cellClass += 'bg-primary-blue border-primary-blue text-white'
+                      } else {
+                        cellClass +=
+                          'bg-gray-50 dark:bg-gray-900/50 border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                      }
+
+                      return (
+                        <td key={`${cell.departure}-${cell.return ?? ''}`}>
+                          <button
+                            onClick={() => onSelect(cell.departure, cell.return)}
+                            disabled={cell.price === null || isSearched}
+                            className={cellClass}
+                            aria-current={isSearched ? 'true' : undefined}
+                            aria-label={`Search ${formatDate(cell.departure)}${
+                              cell.return ? ` to ${formatDate(cell.return)}` : ''
+                            }${cell.price !== null ? ` from ${formatPrice(cell.price, currency)}` : ''}`}
+                          >
+                            {cell.price !== null ? formatPrice(cell.price, currency) : '—'}
+                          </button>
+                        </td>
+                      )
+                    })}
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+          <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+            Estimated fares per person from the price calendar. Pick a cell to search those dates.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default FlexibleDatesMatrix
@@ -0,0 +1,237 @@
+import { useEffect } from 'react'
+import { X } from 'lucide-react'
+import type { Flight } from '../../types/flight'
+import FlightTime from '../../components/FlightTime'
+import { formatPrice } from '../../utils/formatPrice'
+import { formatStops } from '../../utils/formatLeg'
+import { parseDuration } from '../../utils/parseDuration'
+import { getTotalLayoverMinutes } from '../../utils/layovers'
+
+interface FlightComparisonProps {
+  flights: Flight[]
+  onClose: () => void
+  onRemove?: (flightId: string) => void
+  onSelectFlight?: (flight: Flight) => void
+}
+
+interface ComparisonRow {
+  label: string
+  render: (flight: Flight) => string
+  // Comparable value (null when unknown); rows without one are never highlighted
+  getValue?: (flight: Flight) => number | null
+  higherIsBetter?: boolean
+}
+
+// Cabins from lowest to highest
+const CABIN_ORDER = ['economy', 'premium-economy', 'business', 'first']
+
+const COMPARISON_ROWS: ComparisonRow[] = [
+  {
+    label: 'Price',
+    render: flight => formatPrice(flight.price),
+    getValue: flight => flight.price,
+  },
+  {
+    label: 'Duration',
+    render: flight => flight.duration,
+    getValue: flight => parseDuration(flight.duration) || null,
+  },
+  {
+    label: 'Stops',
+    render: flight => formatStops(flight.stops),
+    getValue: flight => flight.stops,
+  },
+  {
+    label: 'Layovers',
+    render: flight =>
+      flight.layover && flight.layover.length > 0
+        ? flight.layover.map(layover => `${layover.airport} (${layover.duration})`).join(', ')
+        : 'None',
+    getValue: getTotalLayoverMinutes,
+  },
+  {
+    label: 'Baggage',
+    render: flight => {
+      if (!flight.baggage) return 'Not listed'
+      const checked = flight.baggage.checked || 0
+      return [
+        flight.baggage.carryOn !== false ? 'Carry-on' : 'No carry-on',
+        checked > 0 ? `${checked} checked bag${checked > 1 ? 's' : ''}` : 'No checked bags',
+      ].join(' • ')
+    },
+    // Checked bags count most; carry-on breaks ties
+    getValue: flight =>
+      flight.baggage
+        ? (flight.baggage.checked || 0) * 2 + (flight.baggage.carryOn !== false ? 1 : 0)
+        : null,
+    higherIsBetter: true,
+  },
+  {
+    label: 'Aircraft',
+    render: flight => flight.aircraft || 'Not listed',
+  },
+  {
+    label: 'Cabin',
+    render: flight =>
+      flight.cabinClass
+        ? flight.cabinClass.charAt(0).toUpperCase() + flight.cabinClass.slice(1).replace('-', ' ')
+        : 'Not listed',
+    getValue: flight => {
+      const index = CABIN_ORDER.indexOf(flight.cabinClass || '')
+      return index >= 0 ? index : null
+    },
+    higherIsBetter: true,
+  },
+]
+
+/**
+ * Finds the flights holding the best value of a row
+ * Nothing is highlighted when every known value is the same
+ * @param row - Comparison row
+ * @param flights - Compared flights
+ * @returns Ids of the flights to highlight
+ */
+function getBestFlightIds(row: ComparisonRow, flights: Flight[]): Set<string> {
+  const { getValue } = row
+  if (!getValue) return new Set()
+  const values = flights
+    .map(flight => ({ id: flight.id, value: getValue(flight) }))
+    .filter((entry): entry is { id: string; value: number } => entry.value !== null)
+  if (values.length === 0) return new Set()
+  const known = values.map(entry => entry.value)
+  const best = row.higherIsBetter ? Math.max(...known) : Math.min(...known)
+  if (known.every(value => value === best)) return new Set()
+  return new Set(values.filter(entry => entry.value === best).map(entry => entry.id))
+}
+
+/**
+ * Side-by-side comparison of up to four flights, shown as a modal dialog
+ * Each row highlights the flight(s) with the best value (lowest price, shortest trip, etc.)
+ * @param flights - Flights to compare, one column each
+ * @param onClose - Callback when the dialog is dismissed (close button, backdrop or Escape)
+ * @param onRemove - Callback to drop a flight from the comparison
+ * @param onSelectFlight - Callback to open a flight's details
+ * @returns Comparison dialog with a column per flight
+ */
+function FlightComparison({ flights, onClose, onRemove, onSelectFlight }: FlightComparisonProps) {
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] overflow-auto"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="flight-comparison-title"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2
+            id="flight-comparison-title"
+            className="text-xl font-semibold text-text-dark dark:text-gray-100"
+          >
+            Compare flights
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-primary-blue"
+            aria-label="Close comparison"
+          >
+            <X className="h-5 w-5 text-gray-500 dark:text-gray-400" />
+          </button>
+        </div>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-700">
+              <th scope="col" className="p-3 text-left sr-only">
+                Detail
+              </th>
+              {flights.map(flight => (
+                <th key={flight.id} scope="col" className="p-3 text-left align-top font-normal">
+                  <p className="font-semibold text-text-dark dark:text-gray-200">
+                    {flight.airline}
+                  </p>
+                  <p className="text-gray-600 dark:text-gray-400">
+                    {flight.departureAirport} → {flight.arrivalAirport}
+                  </p>
+                  <p className="text-gray-600 dark:text-gray-400">
+                    <FlightTime dateTime={flight.departureTime} airport={flight.departureAirport} />
+                    {' - '}
+                    <FlightTime
+                      dateTime={flight.arrivalTime}
+                      airport={flight.arrivalAirport}
+                      departureTime={flight.departureTime}
+                    />
+                  </p>
+                  <div className="flex gap-3 mt-2">
+                    {onSelectFlight && (
+                      <button
+                        onClick={() => onSelectFlight(flight)}
+                        className="text-primary-blue hover:underline focus:outline-none focus:ring-2 focus:ring-primary-blue rounded"
+                      >
+                        Details
+                      </button>
+                    )}
+                    {onRemove && (
+                      <button
+                        onClick={() => onRemove(flight.id)}
+                        className="text-gray-500 dark:text-gray-400 hover:underline focus:outline-none focus:ring-2 focus:ring-primary-blue rounded"
+                        aria-label={`Remove ${flight.airline} flight from comparison`}
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {COMPARISON_ROWS.map(row => {
+              const bestIds = getBestFlightIds(row, flights)
+              return (
+                <tr key={row.label} className="border-b border-gray-100 dark:border-gray-700">
+                  <th
+                    scope="row"
+                    className="p-3 text-left font-medium text-gray-600 dark:text-gray-400 whitespace-nowrap"
+                  >
+                    {row.label}
+                  </th>
+                  {flights.map(flight => {
+                    const isBest = bestIds.has(flight.id)
+                    return (
+                      <td
+                        key={flight.id}
+                        className={`p-3 ${
+                          isBest
+                            ? 'bg-green-50 dark:bg-green-900/20 font-semibold text-green-700 dark:text-green-400'
+                            : 'text-text-dark dark:text-gray-200'
+                        }`}
+                      >
+                        {row.render(flight)}
+                        {isBest && <span className="sr-only"> (best)</span>}
+                      </td>
+                    )
+                  })}
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+export default FlightComparison
@@ -0,0 +1,124 @@
+import { useMemo } from 'react'
+import { formatPrice } from '../../utils/formatPrice'
+
+interface PriceRangeFilterProps {
+  prices: number[]
+  bounds: { min: number; max: number }
+  value: { min: number; max: number }
+  currency?: string
+  onChange: (range: { min: number; max: number }) => void
+}
+
+// Number of histogram bars and slider step (in currency units)
+const HISTOGRAM_BUCKETS = 12
+const PRICE_STEP = 10
+
+/**
+ * Dual-handle price slider with a histogram of the result set's price distribution
+ * Bars inside the selected range are highlighted
+ * @param prices - Prices of all flights in the result set
+ * @param bounds - Slider bounds (the result set's price range)
+ * @param value - Selected price range
+ * @param currency - Currency code used for labels (default: 'USD')
+ * @param onChange - Callback with the new range when either handle moves
+ * @returns Price histogram and two-thumb slider with currency labels
+ */
+function PriceRangeFilter({
+  prices,
+  bounds,
+  value,
+  currency = 'USD',
+  onChange,
+}: PriceRangeFilterProps) {
+  const span = Math.max(bounds.max - bounds.min, 1)
+
+  // Selected range clamped to the bounds (URL-restored ranges may exceed them)
+  const selectedMin = Math.min(Math.max(value.min, bounds.min), bounds.max)
+  const selectedMax = Math.max(Math.min(value.max, bounds.max), selectedMin)
+
+  const histogram = useMemo(() => {
+    const counts = new Array<number>(HISTOGRAM_BUCKETS).fill(0)
+    prices.forEach(price => {
+      const bucket = Math.floor(((price - bounds.min) / span) * HISTOGRAM_BUCKETS)
+      counts[Math.min(Math.max(bucket, 0), HISTOGRAM_BUCKETS - 1)] += 1
+    })
+    return counts
+  }, [prices, bounds.min, span])
+  const tallestBar = Math.max(...histogram, 1)
+
+  const handleMinChange = (newMin: number) => {
+    onChange({ min: Math.min(newMin, selectedMax), max: selectedMax })
+  }
+
+  const handleMaxChange = (newMax: number) => {
+    onChange({ min: selectedMin, max: Math.max(newMax, selectedMin) })
+  }
+
+  return (
+    <div>
+      {/* Histogram */}
+      <div className="flex items-end gap-0.5 h-12 mb-2" aria-hidden="true">
+        {histogram.map((count, index) => {
+          const bucketStart = bounds.min + (span / HISTOGRAM_BUCKETS) * index
+          const bucketEnd = bucketStart + span / HISTOGRAM_BUCKETS
+          const isSelected = bucketEnd > selectedMin && bucketStart < selectedMax
+          return (
+            <div
+              key={index}
+              className={`flex-1 rounded-t-sm transition-colors ${
+                isSelected ? 'bg-primary-blue/70' : 'bg-gray-200 dark:bg-gray-700'
+              }`}
+              style={{ height: count > 0 ? `${Math.max((count / tallestBar) * 100, 8)}%` : 0 }}
+            />
+          )
+        })}
+      </div>
+
+      {/* Dual-handle slider */}
+      <div className="relative h-5 flex items-center">
+        <div className="absolute inset-x-0 h-2 rounded-lg bg-gray-200 dark:bg-gray-700" />
+        <div
+          className="absolute h-2 rounded-lg bg-primary-blue"
+          style={{
+            left: `${((selectedMin - bounds.min) / span) * 100}%`,
+            right: `${((bounds.max - selectedMax) / span) * 100}%`,
+          }}
+        />
+        <input
+          type="range"
+          min={bounds.min}
+          max={bounds.max}
+          step={PRICE_STEP}
+          value={selectedMin}
+          onChange={e => handleMinChange(Number(e.target.value))}
+          className="range-overlay"
+          aria-label="Minimum price"
+          aria-valuetext={formatPrice(selectedMin, currency)}
+        />
+        <input
+          type="range"
+          min={bounds.min}
+          max={bounds.max}
+          step={PRICE_STEP}
+          value={selectedMax}
+          onChange={e => handleMaxChange(Number(e.target.value))}
+          className="range-overlay"
+          aria-label="Maximum price"
+          aria-valuetext={formatPrice(selectedMax, currency)}
+        />
+      </div>
+
+      {/* Labels */}
+      <div className="flex justify-between mt-2 text-sm">
+        <span className="text-text-dark dark:text-gray-200 font-medium">
+          {formatPrice(selectedMin, currency)}
+        </span>
+        <span className="text-text-dark dark:text-gray-200 font-medium">
+          {formatPrice(selectedMax, currency)}
+        </span>
+      </div>
+    </div>
+  )
+}
+
+export default PriceRangeFilter
@@ -1,13 +1,22 @@
-import type { Flight } from '../../types/flight'
+import type { Flight, FlightScore, PassengerCounts, PriceDisplay } from '../../types/flight'
 import FlightCard from '../../components/FlightCard'
 import { Loader, SkeletonLoader } from '../../components/common'
 import { AlertCircle, Search, RefreshCw } from 'lucide-react'
 
 interface ResultsListProps {
   flights: Flight[]
+  bestScores?: Map<string, FlightScore>
   isLoading?: boolean
   error?: string | null
   onSelectFlight?: (flight: Flight) => void
+  comparedFlightIds?: string[]
+  compareDisabled?: boolean
+  onToggleCompare?: (flight: Flight) => void
+  isFlightSaved?: (flight: Flight) => boolean
+  onToggleSave?: (flight: Flight) => void
+  passengers?: PassengerCounts
+  priceDisplay?: PriceDisplay
+  onPriceDisplayChange?: (display: PriceDisplay) => void
   onRetry?: () => void
 }
 
@@ -15,17 +24,35 @@ interface ResultsListProps {
  * Results list component displaying flight search results
  * Shows loading skeletons, error states, empty states, and flight cards
  * @param flights - Array of flight results
+ * @param bestScores - "Best" scores keyed by flight id, shown on each card when provided
  * @param isLoading - Loading state flag (default: false)
  * @param error - Error message to display
  * @param onSelectFlight - Callback when user selects a flight
+ * @param comparedFlightIds - Ids of flights in the comparison tray
+ * @param compareDisabled - Whether the comparison tray is full
+ * @param onToggleCompare - Callback when a flight's compare checkbox changes
+ * @param isFlightSaved - Whether a flight is in the saved trips
+ * @param onToggleSave - Callback when a flight's save button is pressed
+ * @param passengers - Travellers searched for, used for total prices
+ * @param priceDisplay - Whether cards show per-person or total prices
+ * @param onPriceDisplayChange - Callback for the cards' per-person/total toggle
  * @param onRetry - Callback for retry button in error state
  * @returns Results list with loading/error/empty states and flight cards
  */
 function ResultsList({
   flights,
+  bestScores,
   isLoading = false,
   error = null,
   onSelectFlight,
+  comparedFlightIds = [],
+  compareDisabled = false,
+  onToggleCompare,
+  isFlightSaved,
+  onToggleSave,
+  passengers,
+  priceDisplay,
+  onPriceDisplayChange,
   onRetry,
 }: ResultsListProps) {
   if (isLoading) {
@@ -101,11 +128,32 @@ function ResultsList({
     )
   }
 
+  // Multi-city results are combined itineraries priced as a whole
+  const firstLegs = flights[0]?.legs ?? []
+  const itineraryLegCount = firstLegs.some(leg => leg.direction) ? 0 : firstLegs.length
+
   return (
     <div className="space-y-4" role="list" aria-label="Flight results">
+      {itineraryLegCount > 1 && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Showing combined itineraries - each price covers all {itineraryLegCount} flights.
+        </p>
+      )}
       {flights.map((flight: Flight) => (
         <div key={flight.id} role="listitem">
-          <FlightCard flight={flight} onSelect={onSelectFlight} />
+          <FlightCard
+            flight={flight}
+            bestScore={bestScores?.get(flight.id)}
+            onSelect={onSelectFlight}
+            isCompared={comparedFlightIds.includes(flight.id)}
+            compareDisabled={compareDisabled}
+            onToggleCompare={onToggleCompare}
+            isSaved={isFlightSaved?.(flight)}
+            onToggleSave={onToggleSave}
+            passengers={passengers}
+            priceDisplay={priceDisplay}
+            onPriceDisplayChange={onPriceDisplayChange}
+          />
         </div>
       ))}
     </div>
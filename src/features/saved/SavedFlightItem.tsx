@@ -0,0 +1,118 @@
+import { useState } from 'react'
+import { RefreshCw, TrendingDown, TrendingUp } from 'lucide-react'
+import type { Flight } from '../../types/flight'
+import type { SavedFlight } from '../../types/savedTrip'
+import FlightCard from '../../components/FlightCard'
+import { formatPrice } from '../../utils/formatPrice'
+
+interface SavedFlightItemProps {
+  saved: SavedFlight
+  onSelect?: (flight: Flight) => void
+  onRemove: (id: string) => void
+  onNoteChange: (id: string, note: string) => void
+  onRecheck: (id: string) => Promise<void>
+}
+
+/**
+ * Saved flight with its note and the latest price check
+ * The note is stored when the field loses focus
+ * @param saved - Saved flight entry
+ * @param onSelect - Callback to open the flight's details
+ * @param onRemove - Callback to remove the flight from saved trips
+ * @param onNoteChange - Callback with the edited note
+ * @param onRecheck - Re-runs the flight's search and records its current price
+ * @returns Flight card with note field, re-check button and price change
+ */
+function SavedFlightItem({
+  saved,
+  onSelect,
+  onRemove,
+  onNoteChange,
+  onRecheck,
+}: SavedFlightItemProps) {
+  const [note, setNote] = useState(saved.note)
+  const [isChecking, setIsChecking] = useState(false)
+  const { priceCheck } = saved
+  const priceDelta =
+    priceCheck && priceCheck.price !== null ? priceCheck.price - saved.flight.price : null
+  const isCheaper = priceDelta !== null && priceDelta < 0
+
+  const handleRecheck = async () => {
+    setIsChecking(true)
+    try {
+      await onRecheck(saved.id)
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  const handleNoteBlur = () => {
+    if (note !== saved.note) onNoteChange(saved.id, note)
+  }
+
+  return (
+    <div>
+      <FlightCard
+        flight={saved.flight}
+        onSelect={onSelect}
+        isSaved
+        onToggleSave={() => onRemove(saved.id)}
+      />
+      <div className="mt-2 flex flex-col md:flex-row md:items-start gap-3 px-1">
+        <textarea
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          onBlur={handleNoteBlur}
+          rows={2}
+          placeholder="Add a note (e.g., seat preference, who's travelling)"
+          className="flex-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-text-dark dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-primary-blue resize-y"
+          aria-label={`Note for ${saved.flight.airline} flight`}
+        />
+        <div className="flex flex-col items-start md:items-end gap-1 md:min-w-[200px]">
+          <button
+            onClick={handleRecheck}
+            disabled={isChecking}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium bg-gray-100 dark:bg-gray-700 text-text-dark dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-primary-blue disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <RefreshCw className={`h-4 w-4 ${isChecking ? 'animate-spin' : ''}`} />
+            {isChecking ? 'Checking...' : 'Re-check price'}
+          </button>
+          {priceCheck && (
+            <p className="text-sm" role="status">
+              {priceCheck.price === null ? (
+                <span className="text-gray-600 dark:text-gray-400">No longer offered</span>
+              ) : priceDelta === 0 ? (
+                <span className="text-gray-600 dark:text-gray-400">
+                  Unchanged at {formatPrice(priceCheck.price)}
+                </span>
+              ) : (
+                <span
+                  className={`flex items-center gap-1 font-medium ${
+                    isCheaper
+                      ? 'text-green-600 dark:text-green-400'
+                      : 'text-red-600 dark:text-red-400'
+                  }`}
+                >
+                  {isCheaper ? (
+                    <TrendingDown className="h-4 w-4" />
+                  ) : (
+                    <TrendingUp className="h-4 w-4" />
+                  )}
+                  Now {formatPrice(priceCheck.price)} ({isCheaper ? '-' : '+'}
+                  {formatPrice(Math.abs(priceDelta ?? 0))} since saved)
+                </span>
+              )}
+            </p>
+          )}
+          {priceCheck && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Checked {new Date(priceCheck.checkedAt).toLocaleString()}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default SavedFlightItem
@@ -6,7 +6,7 @@ import useDebounce from '../../hooks/useDebounce'
 import { Loader } from '../../components/common'
 import { formatAirportDisplay, formatAirportDetail } from '../../utils/formatAirport'
 import { logger } from '../../utils/logger'
-import { useStrictModeDeduplication } from '../../hooks/useStrictModeDeduplication'
+import { isAbortError } from '../../utils/apiRetry'
 
 interface AutocompleteInputProps {
   label: string
@@ -19,6 +19,8 @@ interface AutocompleteInputProps {
   fullWidth?: boolean
   id?: string
   required?: boolean
+  labelAction?: React.ReactNode
+  recentAirports?: Airport[]
 }
 
 /**
@@ -34,6 +36,8 @@ interface AutocompleteInputProps {
  * @param fullWidth - Makes input full width (default: true)
  * @param id - Input id attribute
  * @param required - Marks input as required
+ * @param labelAction - Optional action rendered beside the label (e.g., "Use my location")
+ * @param recentAirports - Airports offered in the dropdown before the user types (default: none)
  * @returns Autocomplete input with airport suggestions dropdown
  */
 function AutocompleteInput({
@@ -47,69 +51,65 @@ function AutocompleteInput({
   fullWidth = true,
   id,
   required = false,
+  labelAction,
+  recentAirports = [],
 }: AutocompleteInputProps) {
   const [suggestions, setSuggestions] = useState<Airport[]>([])
   const [isOpen, setIsOpen] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [selectedAirport, setSelectedAirport] = useState<Airport | null>(null)
   const [highlightedIndex, setHighlightedIndex] = useState(-1)
+  // Recent airports dropdown, shown on focus while the input is empty
+  const [isRecentOpen, setIsRecentOpen] = useState(false)
   const inputRef = useRef<HTMLInputElement>(null)
   const dropdownRef = useRef<HTMLDivElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
 
   const debouncedValue = useDebounce(value, 500)
 
-  // Use hook to prevent duplicate searches in StrictMode
-  const { shouldExecute, markExecuted } = useStrictModeDeduplication()
-  const searchAbortRef = useRef<(() => void) | null>(null)
+  // Last query searched, so a re-run of the effect (e.g., after auto-selecting a match)
+  // doesn't search the same query again
+  const lastQueryRef = useRef<string | null>(null)
+  // Latest onSelect, read from the search effect so a new callback doesn't restart the search
+  const onSelectRef = useRef(onSelect)
 
-  // Search airports when debounced value changes
   useEffect(() => {
-    let cancelled = false
-
-    const fetchAirports = async () => {
-      // Cancel any previous search
-      if (searchAbortRef.current) {
-        searchAbortRef.current()
-      }
+    onSelectRef.current = onSelect
+  }, [onSelect])
 
-      // Reset state if input is too short
-      if (!debouncedValue || debouncedValue.trim().length < 2) {
-        setSuggestions([])
-        setIsOpen(false)
-        setHighlightedIndex(-1)
-        searchAbortRef.current = null
-        return
-      }
+  // Search airports when debounced value changes
+  useEffect(() => {
+    // Reset state if input is too short
+    if (!debouncedValue || debouncedValue.trim().length < 2) {
+      setSuggestions([])
+      setIsOpen(false)
+      setHighlightedIndex(-1)
+      setIsLoading(false)
+      lastQueryRef.current = null
+      return
+    }
 
-      // Only skip search if the value exactly matches the selected airport display format
-      // This allows re-searching if user edits the value
-      const selectedDisplay = selectedAirport ? formatAirportDisplay(selectedAirport) : ''
-      if (selectedAirport && debouncedValue.trim() === selectedDisplay) {
-        // If value matches selected, keep suggestions but don't re-search
-        return
-      }
+    // An airport is chosen: keep the suggestions and don't search the (possibly older)
+    // debounced text again. Editing the value clears the selection, which allows re-searching
+    if (selectedAirport) {
+      return
+    }
 
-      // Prevent duplicate searches from StrictMode double mounting
-      const currentSearchValue = debouncedValue.trim()
-      if (!shouldExecute(currentSearchValue)) {
-        // Already performing this search, skip
-        return
-      }
+    // Already searched this query, skip
+    const currentSearchValue = debouncedValue.trim()
+    if (lastQueryRef.current === currentSearchValue) {
+      return
+    }
+    lastQueryRef.current = currentSearchValue
 
-      // Mark as searching
-      markExecuted(currentSearchValue)
-      searchAbortRef.current = () => {
-        cancelled = true
-      }
+    const controller = new AbortController()
+    let settled = false
 
+    const fetchAirports = async () => {
       setIsLoading(true)
       try {
-        const results = await searchAirport(debouncedValue.trim())
-        // Check if search was cancelled before updating state
-        if (cancelled) {
-          return
-        }
+        const results = await searchAirport(currentSearchValue, { signal: controller.signal })
+        if (controller.signal.aborted) return
         setSuggestions(results)
 
         // Auto-select if there's exactly one match and it matches the input format
@@ -125,9 +125,7 @@ function AutocompleteInput({
             (matchedAirport.iata && inputLower.includes(matchedAirport.iata.toLowerCase()))
           ) {
             setSelectedAirport(matchedAirport)
-            if (onSelect) {
-              onSelect(matchedAirport)
-            }
+            onSelectRef.current?.(matchedAirport)
             setIsOpen(false)
           } else {
             // Show dropdown with single result
@@ -154,9 +152,7 @@ function AutocompleteInput({
               exactMatch
             )
             setSelectedAirport(exactMatch)
-            if (onSelect) {
-              onSelect(exactMatch)
-            }
+            onSelectRef.current?.(exactMatch)
             setIsOpen(false)
           } else {
             // Show dropdown with multiple results
@@ -172,6 +168,10 @@ function AutocompleteInput({
         }
         setHighlightedIndex(-1)
       } catch (err) {
+        // Superseded by a newer search or unmounted
+        if (isAbortError(err)) {
+          return
+        }
         logger.error('AutocompleteInput', 'Error fetching airports', err)
         setSuggestions([])
         // Show "no results" or close based on input length
@@ -181,25 +181,31 @@ function AutocompleteInput({
           setIsOpen(false)
         }
       } finally {
-        setIsLoading(false)
+        settled = true
+        if (!controller.signal.aborted) {
+          setIsLoading(false)
+        }
       }
     }
 
     fetchAirports()
 
-    // Cleanup: abort any pending search on unmount or new search
+    // Cleanup: abort a pending search on unmount, a new search or a selection, so its query
+    // can run again
     return () => {
-      if (searchAbortRef.current) {
-        searchAbortRef.current()
+      if (!settled) {
+        controller.abort()
+        lastQueryRef.current = null
       }
     }
-  }, [debouncedValue, selectedAirport, onSelect, shouldExecute, markExecuted])
+  }, [debouncedValue, selectedAirport])
 
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
         setIsOpen(false)
+        setIsRecentOpen(false)
       }
     }
 
@@ -212,6 +218,8 @@ function AutocompleteInput({
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newValue = e.target.value
     onChange(newValue)
+    setIsRecentOpen(!newValue.trim())
+    setHighlightedIndex(-1)
 
     // Clear selection if user starts typing and value doesn't match selected airport
     const selectedDisplay = selectedAirport ? formatAirportDisplay(selectedAirport) : ''
@@ -243,6 +251,7 @@ function AutocompleteInput({
     onChange(displayValue)
     setSelectedAirport(airport)
     setIsOpen(false)
+    setIsRecentOpen(false)
     setSuggestions([])
     setHighlightedIndex(-1)
 
@@ -262,13 +271,18 @@ function AutocompleteInput({
     inputRef.current?.focus()
   }
 
+  // Recent airports stand in for suggestions until the user types
+  const showRecent = isRecentOpen && !value.trim() && recentAirports.length > 0
+  const options = showRecent ? recentAirports : suggestions
+  const isListOpen = showRecent || (isOpen && suggestions.length > 0)
+
   const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
-    if (!isOpen || suggestions.length === 0) return
+    if (!isListOpen) return
 
     switch (e.key) {
       case 'ArrowDown':
         e.preventDefault()
-        setHighlightedIndex(prev => (prev < suggestions.length - 1 ? prev + 1 : prev))
+        setHighlightedIndex(prev => (prev < options.length - 1 ? prev + 1 : prev))
         break
       case 'ArrowUp':
         e.preventDefault()
@@ -276,12 +290,13 @@ function AutocompleteInput({
         break
       case 'Enter':
         e.preventDefault()
-        if (highlightedIndex >= 0 && highlightedIndex < suggestions.length) {
-          handleSelectAirport(suggestions[highlightedIndex])
+        if (highlightedIndex >= 0 && highlightedIndex < options.length) {
+          handleSelectAirport(options[highlightedIndex])
         }
         break
       case 'Escape':
         setIsOpen(false)
+        setIsRecentOpen(false)
         setHighlightedIndex(-1)
         break
     }
@@ -292,14 +307,17 @@ function AutocompleteInput({
   return (
     <div ref={containerRef} className={fullWidth ? 'w-full' : ''}>
       {label && (
-        <label
-          htmlFor={inputId}
-          className="block text-sm font-medium text-text-dark dark:text-gray-200 mb-2"
-        >
-          {icon}
-          {label}
-          {required && <span className="text-red-500 ml-1">*</span>}
-        </label>
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <label
+            htmlFor={inputId}
+            className="block text-sm font-medium text-text-dark dark:text-gray-200"
+          >
+            {icon}
+            {label}
+            {required && <span className="text-red-500 ml-1">*</span>}
+          </label>
+          {labelAction}
+        </div>
       )}
       <div className="relative">
         {/* Input Field */}
@@ -317,8 +335,13 @@ function AutocompleteInput({
             onChange={handleInputChange}
             onKeyDown={handleKeyDown}
             onFocus={() => {
+              // Offer recent airports before the user types
+              if (!value.trim()) {
+                setIsRecentOpen(true)
+                setHighlightedIndex(-1)
+              }
               // If there are suggestions, show dropdown
-              if (suggestions.length > 0) {
+              else if (suggestions.length > 0) {
                 setIsOpen(true)
               }
               // If value is long enough, trigger search to show dropdown
@@ -336,7 +359,10 @@ function AutocompleteInput({
             {...(error && { 'aria-invalid': true })}
             {...(error && { 'aria-describedby': `${inputId}-error` })}
             aria-autocomplete="list"
-            {...(isOpen && { 'aria-expanded': true, 'aria-controls': `${inputId}-suggestions` })}
+            {...(isListOpen && {
+              'aria-expanded': true,
+              'aria-controls': `${inputId}-suggestions`,
+            })}
           />
 
           {/* Loading Indicator */}
@@ -360,15 +386,23 @@ function AutocompleteInput({
         </div>
 
         {/* Dropdown Suggestions */}
-        {isOpen && suggestions.length > 0 && (
+        {isListOpen && (
           <div
             ref={dropdownRef}
             id={`${inputId}-suggestions`}
             className="absolute z-50 w-full mt-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg max-h-60 overflow-y-auto"
             role="listbox"
-            aria-label={`${label} suggestions`}
+            aria-label={showRecent ? `Recent ${label} airports` : `${label} suggestions`}
           >
-            {suggestions.map((airport, index) => (
+            {showRecent && (
+              <div
+                className="px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400"
+                aria-hidden="true"
+              >
+                Recent
+              </div>
+            )}
+            {options.map((airport, index) => (
               <button
                 key={`${airport.iata}-${airport.city}-${index}`}
                 type="button"
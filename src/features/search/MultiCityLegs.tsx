@@ -0,0 +1,155 @@
+import { Calendar, Plane, Plus, Trash2 } from 'lucide-react'
+import type { Airport } from '../../types/airport'
+import AutocompleteInput from './AutocompleteInput'
+
+export interface MultiCityLegState {
+  id: string
+  from: string
+  to: string
+  date: string
+  fromAirport: Airport | null
+  toAirport: Airport | null
+}
+
+export interface MultiCityLegErrors {
+  from?: string
+  to?: string
+  date?: string
+}
+
+interface MultiCityLegsProps {
+  legs: MultiCityLegState[]
+  errors: Record<string, MultiCityLegErrors>
+  minDate: string
+  maxLegs: number
+  minLegs: number
+  onLegChange: (id: string, changes: Partial<MultiCityLegState>) => void
+  onAddLeg: () => void
+  onRemoveLeg: (id: string) => void
+}
+
+/**
+ * Editable list of multi-city legs for the search form
+ * Each leg has its own origin/destination autocomplete and departure date
+ * @param legs - Current legs in travel order
+ * @param errors - Validation errors keyed by leg id
+ * @param minDate - Earliest selectable date (today)
+ * @param maxLegs - Maximum number of legs allowed
+ * @param minLegs - Minimum number of legs (remove is disabled at this count)
+ * @param onLegChange - Callback with partial updates for a leg
+ * @param onAddLeg - Callback to append a new leg
+ * @param onRemoveLeg - Callback to remove a leg
+ * @returns List of leg rows with add/remove controls
+ */
+function MultiCityLegs({
+  legs,
+  errors,
+  minDate,
+  maxLegs,
+  minLegs,
+  onLegChange,
+  onAddLeg,
+  onRemoveLeg,
+}: MultiCityLegsProps) {
+  return (
+    <div className="space-y-4" aria-label="Multi-city flights">
+      {legs.map((leg, index) => {
+        const legErrors = errors[leg.id] || {}
+        // Each leg must depart on or after the previous leg's date
+        const legMinDate = (index > 0 && legs[index - 1].date) || minDate
+
+        return (
+          <fieldset
+            key={leg.id}
+            className="border border-gray-200 dark:border-gray-700 rounded-lg p-4"
+          >
+            <div className="flex items-center justify-between mb-3">
+              <legend className="text-sm font-semibold text-text-dark dark:text-gray-200">
+                Flight {index + 1}
+              </legend>
+              {legs.length > minLegs && (
+                <button
+                  type="button"
+                  onClick={() => onRemoveLeg(leg.id)}
+                  className="p-1.5 rounded-lg text-gray-500 hover:text-red-500 hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-primary-blue transition-colors"
+                  aria-label={`Remove flight ${index + 1}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <AutocompleteInput
+                label="From"
+                value={leg.from}
+                onChange={value => onLegChange(leg.id, { from: value })}
+                onSelect={airport => onLegChange(leg.id, { fromAirport: airport })}
+                placeholder="City or airport"
+                error={legErrors.from}
+                icon={<Plane className="inline h-4 w-4 mr-1 text-primary-blue" />}
+                id={`${leg.id}-from`}
+                required
+              />
+              <AutocompleteInput
+                label="To"
+                value={leg.to}
+                onChange={value => onLegChange(leg.id, { to: value })}
+                onSelect={airport => onLegChange(leg.id, { toAirport: airport })}
+                placeholder="City or airport"
+                error={legErrors.to}
+                icon={<Plane className="inline h-4 w-4 mr-1 text-primary-blue" />}
+                id={`${leg.id}-to`}
+                required
+              />
+              <div>
+                <label
+                  htmlFor={`${leg.id}-date`}
+                  className="block text-sm font-medium text-text-dark dark:text-gray-200 mb-2"
+                >
+                  <Calendar className="inline h-4 w-4 mr-1 text-primary-blue" />
+                  Date
+                  <span className="text-red-500 ml-1">*</span>
+                </label>
+                <input
+                  type="date"
+                  id={`${leg.id}-date`}
+                  value={leg.date}
+                  onChange={e => onLegChange(leg.id, { date: e.target.value })}
+                  min={legMinDate}
+                  className={`w-full px-4 py-3 border rounded-lg bg-white dark:bg-gray-700 text-text-dark dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-primary-blue focus:border-transparent transition-all ${
+                    legErrors.date
+                      ? 'border-red-500 dark:border-red-400'
+                      : 'border-gray-300 dark:border-gray-600'
+                  }`}
+                  aria-label={`Flight ${index + 1} date`}
+                  {...(legErrors.date && { 'aria-invalid': true })}
+                  aria-describedby={legErrors.date ? `${leg.id}-date-error` : undefined}
+                  required
+                />
+                {legErrors.date && (
+                  <p id={`${leg.id}-date-error`} className="mt-1 text-sm text-red-500" role="alert">
+                    {legErrors.date}
+                  </p>
+                )}
+              </div>
+            </div>
+          </fieldset>
+        )
+      })}
+
+      {legs.length < maxLegs && (
+        <button
+          type="button"
+          onClick={onAddLeg}
+          className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-primary-blue dark:text-blue-400 border border-dashed border-primary-blue/50 rounded-lg hover:bg-primary-blue/5 focus:outline-none focus:ring-2 focus:ring-primary-blue transition-colors"
+        >
+          <Plus className="h-4 w-4" />
+          Add another flight
+        </button>
+      )}
+    </div>
+  )
+}
+
+export default MultiCityLegs
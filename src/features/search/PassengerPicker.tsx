@@ -0,0 +1,159 @@
+import { useEffect, useRef, useState } from 'react'
+import { ChevronDown, Minus, Plus } from 'lucide-react'
+import type { PassengerCounts } from '../../types/flight'
+import { MAX_PASSENGERS, formatPassengers, getTotalPassengers } from '../../utils/passengers'
+import { validatePassengers } from '../../utils/validation/searchValidation'
+
+interface PassengerPickerProps {
+  value: PassengerCounts
+  onChange: (counts: PassengerCounts) => void
+  error?: string
+  id?: string
+}
+
+const PASSENGER_TYPES: Array<{
+  field: keyof PassengerCounts
+  label: string
+  description: string
+}> = [
+  { field: 'adults', label: 'Adults', description: 'Age 12+' },
+  { field: 'children', label: 'Children', description: 'Age 2-11' },
+  { field: 'infantsInSeat', label: 'Infants in seat', description: 'Under 2, own seat' },
+  { field: 'infantsOnLap', label: 'Infants on lap', description: 'Under 2, on an adult’s lap' },
+]
+
+/**
+ * Passenger selector with a popover of adult, child and infant counters
+ * Counters that would break the booking rules (see validatePassengers) are disabled
+ * @param value - Current passenger counts
+ * @param onChange - Callback with the updated counts
+ * @param error - Error message to display
+ * @param id - Id of the toggle button (default: 'passengers')
+ * @returns Passenger summary button with a counters popover
+ */
+function PassengerPicker({ value, onChange, error, id = 'passengers' }: PassengerPickerProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Close popover when clicking outside
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [isOpen])
+
+  // A step is allowed when the resulting mix still follows the booking rules
+  const getStepped = (field: keyof PassengerCounts, step: number): PassengerCounts | null => {
+    const next = { ...value, [field]: value[field] + step }
+    if (next[field] < 0) return null
+    return validatePassengers(next) ? null : next
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative"
+      onKeyDown={e => {
+        if (e.key === 'Escape') setIsOpen(false)
+      }}
+    >
+      <button
+        type="button"
+        id={id}
+        onClick={() => setIsOpen(prev => !prev)}
+        className={`w-full flex items-center justify-between gap-2 px-4 py-3 border rounded-lg bg-white dark:bg-gray-700 text-left text-text-dark dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-primary-blue focus:border-transparent transition-all ${
+          error ? 'border-red-500 dark:border-red-400' : 'border-gray-300 dark:border-gray-600'
+        }`}
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+        aria-controls={`${id}-popover`}
+        {...(error && { 'aria-invalid': true, 'aria-describedby': `${id}-error` })}
+      >
+        <span className="truncate">{formatPassengers(value)}</span>
+        <ChevronDown
+          className={`h-5 w-5 text-gray-400 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+          aria-hidden="true"
+        />
+      </button>
+
+      {isOpen && (
+        <div
+          id={`${id}-popover`}
+          role="dialog"
+          aria-label="Select passengers"
+          className="absolute z-50 w-full min-w-72 mt-1 p-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg"
+        >
+          <ul className="space-y-3">
+            {PASSENGER_TYPES.map(({ field, label, description }) => {
+              const decreased = getStepped(field, -1)
+              const increased = getStepped(field, 1)
+              return (
+                <li key={field} className="flex items-center justify-between gap-4">
+                  <div>
+                    <p className="font-medium text-text-dark dark:text-gray-200">{label}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{description}</p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <button
+                      type="button"
+                      onClick={() => decreased && onChange(decreased)}
+                      disabled={!decreased}
+                      className="p-1.5 rounded-full border border-gray-300 dark:border-gray-600 text-primary-blue dark:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-primary-blue disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                      aria-label={`Remove one ${label.toLowerCase()}`}
+                    >
+                      <Minus className="h-4 w-4" />
+                    </button>
+                    <span
+                      className="w-5 text-center font-semibold text-text-dark dark:text-gray-200"
+                      aria-live="polite"
+                      aria-label={`${value[field]} ${label.toLowerCase()}`}
+                    >
+                      {value[field]}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => increased && onChange(increased)}
+                      disabled={!increased}
+                      className="p-1.5 rounded-full border border-gray-300 dark:border-gray-600 text-primary-blue dark:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-primary-blue disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                      aria-label={`Add one ${label.toLowerCase()}`}
+                    >
+                      <Plus className="h-4 w-4" />
+                    </button>
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+          <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+            Up to {MAX_PASSENGERS} travellers ({getTotalPassengers(value)} selected). Each infant
+            must travel with an adult.
+          </p>
+          <div className="mt-3 flex justify-end">
+            <button
+              type="button"
+              onClick={() => setIsOpen(false)}
+              className="px-4 py-1.5 rounded-lg text-sm font-medium bg-primary-blue dark:bg-blue-600 text-white hover:bg-blue-600 dark:hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-primary-blue focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p id={`${id}-error`} className="mt-1 text-sm text-red-500" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default PassengerPicker
@@ -1,11 +1,25 @@
-import { useEffect, useState, useMemo } from 'react'
-import { Calendar as CalendarIcon, TrendingDown, TrendingUp } from 'lucide-react'
-import type { PriceCalendarData, PriceCalendarDay } from '../../types/flight'
+import { useEffect, useState, useMemo, useRef } from 'react'
+import {
+  Calendar as CalendarIcon,
+  ChevronLeft,
+  ChevronRight,
+  TrendingDown,
+  TrendingUp,
+} from 'lucide-react'
+import type { PriceCalendarDay } from '../../types/flight'
 import { getPriceCalendar } from '../../services/flightApi'
-import { Loader } from '../../components/common'
 import { formatPrice } from '../../utils/formatPrice'
-import { formatDate } from '../../utils/formatDate'
+import { addDays, formatDate, getTodayDate } from '../../utils/formatDate'
+import {
+  PRICE_HEAT_LEVELS,
+  getFirstMissingDate,
+  getMonthGrid,
+  getMonthKey,
+  getPriceHeatLevel,
+  shiftMonth,
+} from '../../utils/priceCalendar'
 import { logger } from '../../utils/logger'
+import { isAbortError } from '../../utils/apiRetry'
 
 interface PriceCalendarProps {
   originSkyId: string
@@ -16,16 +30,35 @@ interface PriceCalendarProps {
   selectedDate?: string
 }
 
+// Days covered by one getPriceCalendar response
+const CALENDAR_WINDOW_DAYS = 30
+
+// How far ahead the calendar can be browsed
+const MAX_MONTHS_AHEAD = 11
+
+const WEEKDAYS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa']
+
+// Heatmap colours from cheapest to most expensive (PRICE_HEAT_LEVELS steps)
+const HEAT_CLASSES = [
+  'bg-green-100 dark:bg-green-900/40 border-green-200 dark:border-green-800 text-green-800 dark:text-green-300',
+  'bg-lime-100 dark:bg-lime-900/40 border-lime-200 dark:border-lime-800 text-lime-800 dark:text-lime-300',
+  'bg-yellow-100 dark:bg-yellow-900/40 border-yellow-200 dark:border-yellow-800 text-yellow-800 dark:text-yellow-300',
+  'bg-orange-100 dark:bg-orange-900/40 border-orange-200 dark:border-orange-800 text-orange-800 dark:text-orange-300',
+  'bg-red-100 dark:bg-red-900/40 border-red-200 dark:border-red-800 text-red-800 dark:text-red-300',
+]
+
 /**
- * Price calendar component displaying fare trends by date
- * Shows price variations across dates with cheapest/most expensive highlights
+ * Price calendar component displaying fares on a weekday-aligned month grid
+ * Opens on the month of fromDate; other months load lazily as the user navigates, and days
+ * are coloured on a heatmap between the month's lowest and highest price
+ * Remount it (e.g., with a key) when the route or currency changes
  * @param originSkyId - Origin airport skyId
  * @param destinationSkyId - Destination airport skyId
- * @param fromDate - Starting date for calendar display
+ * @param fromDate - Date whose month is shown first
  * @param currency - Currency code (default: 'USD')
  * @param onDateSelect - Callback when user selects a date (receives date and price)
  * @param selectedDate - Currently selected date
- * @returns Price calendar with grouped monthly view and legend
+ * @returns Price calendar with month navigation and heatmap legend
  */
 function PriceCalendar({
   originSkyId,
@@ -35,95 +68,99 @@ function PriceCalendar({
   onDateSelect,
   selectedDate,
 }: PriceCalendarProps) {
-  const [calendarData, setCalendarData] = useState<PriceCalendarData | null>(null)
-  const [isLoading, setIsLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const today = getTodayDate()
+  const firstMonth = getMonthKey(today)
+  const lastMonth = shiftMonth(firstMonth, MAX_MONTHS_AHEAD)
+  const [visibleMonth, setVisibleMonth] = useState(() => {
+    const month = getMonthKey(fromDate || today)
+    return month < firstMonth ? firstMonth : month
+  })
+  const [days, setDays] = useState<Map<string, PriceCalendarDay>>(() => new Map())
+  // Load errors keyed by the first date of the failed window
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  // Windows already requested, so navigating back and forth doesn't refetch them
+  const requestedRef = useRef(new Set<string>())
 
-  useEffect(() => {
-    const fetchCalendar = async () => {
-      if (!originSkyId || !destinationSkyId || !fromDate) {
-        setIsLoading(false)
-        return
-      }
+  const missingFrom = useMemo(
+    () => getFirstMissingDate(visibleMonth, days, today),
+    [visibleMonth, days, today]
+  )
+  const error = missingFrom ? errors[missingFrom] : undefined
+  const isLoading = missingFrom !== null && !error
 
-      setIsLoading(true)
-      setError(null)
+  // Lazily load the window starting at the first day of the visible month without a price
+  useEffect(() => {
+    const requested = requestedRef.current
+    if (!missingFrom || requested.has(missingFrom)) return
+    requested.add(missingFrom)
+    const controller = new AbortController()
+    let settled = false
 
+    const fetchWindow = async () => {
       try {
-        const data = await getPriceCalendar(originSkyId, destinationSkyId, fromDate, currency)
-        setCalendarData(data)
+        const data = await getPriceCalendar(originSkyId, destinationSkyId, missingFrom, currency, {
+          signal: controller.signal,
+        })
+        if (controller.signal.aborted) return
+        setDays(prev => {
+          const next = new Map(prev)
+          data?.calendar.forEach(day => next.set(day.date, day))
+          // Days of the window the API left out have no fares
+          for (let offset = 0; offset < CALENDAR_WINDOW_DAYS; offset++) {
+            const date = addDays(missingFrom, offset)
+            if (!next.has(date)) next.set(date, { date, price: 0, isUnavailable: true })
+          }
+          return next
+        })
       } catch (err) {
+        if (isAbortError(err)) return
         const errorMessage =
           err instanceof Error ? err.message : 'Failed to load price calendar. Please try again.'
-        setError(errorMessage)
+        setErrors(prev => ({ ...prev, [missingFrom]: errorMessage }))
         logger.error('PriceCalendar', 'Error fetching price calendar', err)
       } finally {
-        setIsLoading(false)
+        settled = true
       }
     }
 
-    fetchCalendar()
-  }, [originSkyId, destinationSkyId, fromDate, currency])
-
-  // Group calendar days by month for better display
-  const groupedByMonth = useMemo(() => {
-    if (!calendarData || calendarData.calendar.length === 0) return []
+    fetchWindow()
 
-    const groups: { month: string; days: PriceCalendarDay[] }[] = []
-    let currentMonth = ''
-
-    calendarData.calendar.forEach(day => {
-      const date = new Date(day.date)
-      const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
-      const monthLabel = date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
-
-      if (monthKey !== currentMonth) {
-        currentMonth = monthKey
-        groups.push({ month: monthLabel, days: [] })
+    // Abort a pending window on unmount or when another month is shown; it is requested again
+    // when its month is shown next
+    return () => {
+      if (!settled) {
+        controller.abort()
+        requested.delete(missingFrom)
       }
+    }
+  }, [missingFrom, originSkyId, destinationSkyId, currency])
 
-      groups[groups.length - 1].days.push(day)
-    })
+  const grid = useMemo(() => getMonthGrid(visibleMonth), [visibleMonth])
 
-    return groups
-  }, [calendarData])
+  // Lowest and highest bookable price of the visible month (heatmap bounds)
+  const monthStats = useMemo(() => {
+    const prices = grid
+      .map(date => (date && date >= today ? days.get(date) : undefined))
+      .filter((day): day is PriceCalendarDay => !!day && !day.isUnavailable && day.price > 0)
+      .map(day => day.price)
+    return prices.length > 0
+      ? { minPrice: Math.min(...prices), maxPrice: Math.max(...prices) }
+      : { minPrice: 0, maxPrice: 0 }
+  }, [grid, days, today])
 
-  // Calculate savings if selected date is not cheapest
+  // Calculate savings if selected date is not the month's cheapest
   const savings = useMemo(() => {
-    if (!calendarData || !selectedDate) return 0
-    const selectedDay = calendarData.calendar.find(day => day.date === selectedDate)
-    if (selectedDay && calendarData.minPrice > 0) {
-      return selectedDay.price - calendarData.minPrice
-    }
-    return 0
-  }, [calendarData, selectedDate])
-
-  if (isLoading) {
-    return (
-      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
-        <div className="flex items-center justify-center py-12">
-          <Loader message="Loading price calendar..." />
-        </div>
-      </div>
-    )
-  }
+    const selectedDay = selectedDate ? days.get(selectedDate) : undefined
+    if (!selectedDay || selectedDay.isUnavailable || monthStats.minPrice <= 0) return 0
+    if (getMonthKey(selectedDay.date) !== visibleMonth) return 0
+    return selectedDay.price - monthStats.minPrice
+  }, [days, selectedDate, monthStats, visibleMonth])
 
-  if (error || !calendarData || calendarData.calendar.length === 0) {
-    return (
-      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 sm:p-6">
-        <div className="flex items-center gap-2 mb-3 sm:mb-4">
-          <CalendarIcon className="h-5 w-5 text-primary-blue" />
-          <h3 className="text-base sm:text-lg font-semibold text-text-dark dark:text-gray-100">
-            Price Calendar
-          </h3>
-        </div>
-        <div className="flex items-start gap-2 text-sm sm:text-base text-gray-600 dark:text-gray-400">
-          <CalendarIcon className="h-4 w-4 text-gray-400 dark:text-gray-500 mt-0.5 flex-shrink-0" />
-          <p>{error || 'Price calendar data not available for this route.'}</p>
-        </div>
-      </div>
-    )
-  }
+  const monthLabel = new Date(`${visibleMonth}-01T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  })
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 sm:p-6">
@@ -134,19 +171,20 @@ function PriceCalendar({
             Price Calendar
           </h3>
         </div>
-        {calendarData.minPrice > 0 && calendarData.maxPrice > 0 && (
+        {monthStats.minPrice > 0 && (
           <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 text-sm">
             <div className="flex items-center gap-1 text-green-600 dark:text-green-400">
               <TrendingDown className="h-4 w-4" />
               <span>
-                Lowest: <span className="font-bold">{formatPrice(calendarData.minPrice)}</span>
+                Lowest:{' '}
+                <span className="font-bold">{formatPrice(monthStats.minPrice, currency)}</span>
               </span>
             </div>
             {savings > 0 && (
               <div className="flex items-center gap-1 text-orange-600 dark:text-orange-400">
                 <TrendingUp className="h-4 w-4" />
                 <span>
-                  Save: <span className="font-bold">{formatPrice(savings)}</span>
+                  Save: <span className="font-bold">{formatPrice(savings, currency)}</span>
                 </span>
               </div>
             )}
@@ -154,92 +192,115 @@ function PriceCalendar({
         )}
       </div>
 
-      <div className="space-y-6 md:space-y-8">
-        {groupedByMonth.map((group, groupIndex) => (
-          <div key={groupIndex}>
-            <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3 px-1">
-              {group.month}
-            </h4>
-            <div className="grid grid-cols-7 gap-1 sm:gap-2">
-              {/* Day headers */}
-              {['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'].map(day => (
-                <div
-                  key={day}
-                  className="text-center text-xs font-semibold text-gray-500 dark:text-gray-400 py-1 px-1"
-                >
-                  <span className="hidden sm:inline">{day}</span>
-                  <span className="sm:hidden">{day[0]}</span>
-                </div>
-              ))}
+      {/* Month navigation */}
+      <div className="flex items-center justify-between mb-3">
+        <button
+          onClick={() => setVisibleMonth(prev => shiftMonth(prev, -1))}
+          disabled={visibleMonth <= firstMonth}
+          className="p-2 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-primary-blue disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          aria-label="Previous month"
+        >
+          <ChevronLeft className="h-5 w-5" />
+        </button>
+        <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300" aria-live="polite">
+          {monthLabel}
+        </h4>
+        <button
+          onClick={() => setVisibleMonth(prev => shiftMonth(prev, 1))}
+          disabled={visibleMonth >= lastMonth}
+          className="p-2 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-primary-blue disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          aria-label="Next month"
+        >
+          <ChevronRight className="h-5 w-5" />
+        </button>
+      </div>
 
-              {/* Calendar days */}
-              {group.days.map(day => {
-                const isSelected = selectedDate === day.date
-                const dateObj = new Date(day.date)
-                const dayNumber = dateObj.getDate()
-
-                // Color coding based on price
-                let dayClass =
-                  'text-center py-1.5 sm:py-2 px-0.5 sm:px-1 rounded-md sm:rounded-lg transition-all cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 border-2 text-xs sm:text-sm '
-                if (day.isUnavailable) {
-                  dayClass +=
-                    'bg-gray-100 dark:bg-gray-800 text-gray-400 border-gray-200 dark:border-gray-700 cursor-not-allowed'
-                } else if (day.isCheapest) {
-                  dayClass += isSelected
-                    ? 'bg-green-600 border-green-600 text-white'
-                    : 'bg-green-50 dark:bg-green-900/20 border-green-300 dark:border-green-700 text-green-700 dark:text-green-400 font-bold'
-                } else if (day.isMostExpensive) {
-                  dayClass += isSelected
-                    ? 'bg-red-600 border-red-600 text-white'
-                    : 'bg-red-50 dark:bg-red-900/20 border-red-300 dark:border-red-700 text-red-700 dark:text-red-400'
-                } else if (isSelected) {
-                  dayClass += 'bg-primary-blue border-primary-blue text-white'
-                } else {
-                  dayClass +=
-                    'bg-gray-50 dark:bg-gray-900/50 border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300'
-                }
-
-                return (
-                  <button
-                    key={day.date}
-                    onClick={() =>
-                      !day.isUnavailable && onDateSelect && onDateSelect(day.date, day.price)
-                    }
-                    disabled={day.isUnavailable || !onDateSelect}
-                    className={dayClass}
-                    aria-label={`Select ${formatDate(day.date)} for ${formatPrice(day.price)}`}
-                  >
-                    <div className="text-xs sm:text-sm font-semibold mb-0.5 sm:mb-1">
-                      {dayNumber}
-                    </div>
-                    <div className="text-[10px] sm:text-xs leading-tight">
-                      {day.isUnavailable ? (
-                        <span className="text-gray-400">—</span>
-                      ) : (
-                        <span className="font-bold">{formatPrice(day.price)}</span>
-                      )}
-                    </div>
-                  </button>
-                )
-              })}
-            </div>
+      {error && (
+        <p className="mb-3 text-sm text-gray-600 dark:text-gray-400" role="alert">
+          {error}
+        </p>
+      )}
+
+      <div className="grid grid-cols-7 gap-1 sm:gap-2" aria-busy={isLoading}>
+        {/* Day headers */}
+        {WEEKDAYS.map(day => (
+          <div
+            key={day}
+            className="text-center text-xs font-semibold text-gray-500 dark:text-gray-400 py-1 px-1"
+          >
+            <span className="hidden sm:inline">{day}</span>
+            <span className="sm:hidden">{day[0]}</span>
           </div>
         ))}
+
+        {/* Calendar days */}
+        {grid.map((date, index) => {
+          if (!date) return <div key={`blank-${index}`} aria-hidden="true" />
+
+          const day = days.get(date)
+          const isPast = date < today
+          const isSelected = selectedDate === date
+          const isAvailable = !isPast && !!day && !day.isUnavailable && day.price > 0
+          const dayNumber = Number(date.slice(8))
+
+          let dayClass =
+            'text-center py-1.5 sm:py-2 px-0.5 sm:px-1 rounded-md sm:rounded-lg transition-all border-2 text-xs sm:text-sm '
+          if (isAvailable) {
+            dayClass += `${HEAT_CLASSES[getPriceHeatLevel(day.price, monthStats.minPrice, monthStats.maxPrice)]} cursor-pointer hover:brightness-95`
+          } else {
+            dayClass +=
+              'bg-gray-50 dark:bg-gray-900/50 text-gray-400 border-gray-200 dark:border-gray-700 cursor-not-allowed'
+          }
+          if (isSelected) {
+            dayClass += ' ring-2 ring-primary-blue ring-offset-1 dark:ring-offset-gray-800'
+          }
+
+          return (
+            <button
+              key={date}
+              onClick={() => isAvailable && onDateSelect && onDateSelect(date, day.price)}
+              disabled={!isAvailable || !onDateSelect}
+              className={dayClass}
+              aria-pressed={isSelected}
+              aria-label={
+                isAvailable
+                  ? `Search ${formatDate(date)} from ${formatPrice(day.price, currency)}`
+                  : `${formatDate(date)}: no fares`
+              }
+            >
+              <div className="text-xs sm:text-sm font-semibold mb-0.5 sm:mb-1">{dayNumber}</div>
+              <div className="text-[10px] sm:text-xs leading-tight">
+                {isAvailable ? (
+                  <span className="font-bold">{formatPrice(day.price, currency)}</span>
+                ) : !isPast && !day && isLoading ? (
+                  <span className="inline-block h-3 w-8 rounded bg-gray-200 dark:bg-gray-700 animate-pulse" />
+                ) : (
+                  <span className="text-gray-400">—</span>
+                )}
+              </div>
+            </button>
+          )
+        })}
       </div>
 
-      {/* Legend */}
+      {/* Heatmap legend */}
       <div className="mt-4 sm:mt-6 pt-4 sm:pt-6 border-t border-gray-200 dark:border-gray-700">
         <div className="flex flex-wrap items-center gap-3 sm:gap-4 text-xs text-gray-600 dark:text-gray-400">
           <div className="flex items-center gap-2">
-            <div className="w-3 h-3 sm:w-4 sm:h-4 bg-green-50 border-2 border-green-300 rounded"></div>
-            <span>Cheapest</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 sm:w-4 sm:h-4 bg-red-50 border-2 border-red-300 rounded"></div>
-            <span>Most Expensive</span>
+            <span>
+              {monthStats.minPrice > 0 ? formatPrice(monthStats.minPrice, currency) : 'Low'}
+            </span>
+            <div className="flex" aria-hidden="true">
+              {HEAT_CLASSES.slice(0, PRICE_HEAT_LEVELS).map(heatClass => (
+                <div key={heatClass} className={`w-4 h-3 sm:w-6 sm:h-4 border ${heatClass}`} />
+              ))}
+            </div>
+            <span>
+              {monthStats.maxPrice > 0 ? formatPrice(monthStats.maxPrice, currency) : 'High'}
+            </span>
           </div>
           <div className="flex items-center gap-2">
-            <div className="w-3 h-3 sm:w-4 sm:h-4 bg-gray-100 border-2 border-gray-200 rounded"></div>
+            <div className="w-3 h-3 sm:w-4 sm:h-4 bg-gray-50 border-2 border-gray-200 rounded"></div>
             <span>Unavailable</span>
           </div>
         </div>
@@ -0,0 +1,334 @@
+import { useEffect, useState, useMemo } from 'react'
+import { LineChart, TrendingDown, TrendingUp, Minus } from 'lucide-react'
+import type { PriceCalendarData } from '../../types/flight'
+import type { PriceObservation, PriceTrend } from '../../types/priceHistory'
+import { getPriceCalendar } from '../../services/flightApi'
+import { Loader } from '../../components/common'
+import { formatPrice } from '../../utils/formatPrice'
+import { formatDate } from '../../utils/formatDate'
+import {
+  MIN_TREND_OBSERVATIONS,
+  getDepartureObservations,
+  getMedianPrice,
+  getPriceTrend,
+} from '../../utils/priceHistory'
+import { logger } from '../../utils/logger'
+import { isAbortError } from '../../utils/apiRetry'
+
+interface PriceTrendChartProps {
+  originSkyId: string
+  destinationSkyId: string
+  fromDate: string
+  currency?: string
+  selectedDate?: string
+  observations: PriceObservation[]
+}
+
+// Chart size and padding (SVG user units)
+const CHART_WIDTH = 600
+const CHART_HEIGHT = 180
+const PADDING = { top: 12, right: 12, bottom: 24, left: 56 }
+
+const TREND_HINTS: Record<
+  PriceTrend['direction'],
+  { icon: typeof TrendingUp; title: string; advice: string; className: string }
+> = {
+  rising: {
+    icon: TrendingUp,
+    title: 'Prices are rising for these dates',
+    advice: 'Booking now is likely cheaper than waiting.',
+    className: 'bg-orange-50 dark:bg-orange-900/20 text-orange-700 dark:text-orange-300',
+  },
+  falling: {
+    icon: TrendingDown,
+    title: 'Prices are falling for these dates',
+    advice: 'Waiting a little may get you a better fare.',
+    className: 'bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300',
+  },
+  stable: {
+    icon: Minus,
+    title: 'Prices are stable for these dates',
+    advice: 'No need to rush, but fares are unlikely to drop much.',
+    className: 'bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300',
+  },
+}
+
+/**
+ * "Buy now vs wait" hint from the fares recorded on previous searches of the route
+ * Only searches departing around the viewed date are fitted
+ */
+function PriceTrendHint({
+  observations,
+  departure,
+}: {
+  observations: PriceObservation[]
+  departure?: string
+}) {
+  const departureObservations = useMemo(
+    () => (departure ? getDepartureObservations(observations, departure) : []),
+    [observations, departure]
+  )
+  const trend = useMemo(() => getPriceTrend(departureObservations), [departureObservations])
+
+  if (!trend) {
+    const missing = MIN_TREND_OBSERVATIONS - departureObservations.length
+    return (
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Not enough data yet: search these dates {missing} more time{missing !== 1 ? 's' : ''} to see
+        whether prices are rising or falling.
+      </p>
+    )
+  }
+
+  const hint = TREND_HINTS[trend.direction]
+  const Icon = hint.icon
+  return (
+    <div className={`flex items-start gap-2 rounded-lg p-3 text-sm ${hint.className}`}>
+      <Icon className="h-4 w-4 mt-0.5 flex-shrink-0" />
+      <div>
+        <p className="font-semibold">{hint.title}</p>
+        <p>
+          {hint.advice}{' '}
+          <span className="text-xs opacity-80">
+            {trend.changePercent > 0 ? '+' : ''}
+            {trend.changePercent}% over {trend.sampleSize} searches • {trend.confidence} confidence
+          </span>
+        </p>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Price trend chart of a route's calendar fares
+ * Plots the price calendar from fromDate as a line with the median and the selected date
+ * marked, plus a rising/falling hint from the fares recorded locally on previous searches
+ * @param originSkyId - Origin airport skyId
+ * @param destinationSkyId - Destination airport skyId
+ * @param fromDate - First date of the plotted window
+ * @param currency - Currency code (default: 'USD')
+ * @param selectedDate - Date to mark on the chart (e.g., the searched departure)
+ * @param observations - Locally recorded fares of the route; those departing around
+ * selectedDate give the trend hint
+ * @returns SVG line chart with median line and trend hint
+ */
+function PriceTrendChart({
+  originSkyId,
+  destinationSkyId,
+  fromDate,
+  currency = 'USD',
+  selectedDate,
+  observations,
+}: PriceTrendChartProps) {
+  const [calendarData, setCalendarData] = useState<PriceCalendarData | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+
+    const fetchCalendar = async () => {
+      if (!originSkyId || !destinationSkyId || !fromDate) {
+        setIsLoading(false)
+        return
+      }
+
+      setIsLoading(true)
+      setError(null)
+
+      try {
+        const data = await getPriceCalendar(originSkyId, destinationSkyId, fromDate, currency, {
+          signal: controller.signal,
+        })
+        if (controller.signal.aborted) return
+        setCalendarData(data)
+      } catch (err) {
+        if (isAbortError(err)) return
+        const errorMessage =
+          err instanceof Error ? err.message : 'Failed to load price trend. Please try again.'
+        setError(errorMessage)
+        logger.error('PriceTrendChart', 'Error fetching price calendar', err)
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false)
+      }
+    }
+
+    fetchCalendar()
+    return () => controller.abort()
+  }, [originSkyId, destinationSkyId, fromDate, currency])
+
+  // Chart geometry: days keep their position on the time axis, unavailable days leave gaps
+  const chart = useMemo(() => {
+    const calendar = calendarData?.calendar || []
+    const prices = calendar.filter(day => !day.isUnavailable && day.price > 0).map(day => day.price)
+    if (prices.length < 2) return null
+
+    const min = Math.min(...prices)
+    const max = Math.max(...prices)
+    const range = max - min || 1
+    const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right
+    const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom
+    const toX = (index: number) => PADDING.left + (index / (calendar.length - 1)) * plotWidth
+    const toY = (price: number) => PADDING.top + plotHeight - ((price - min) / range) * plotHeight
+
+    const points = calendar
+      .map((day, index) =>
+        !day.isUnavailable && day.price > 0 ? `${toX(index)},${toY(day.price)}` : null
+      )
+      .filter(Boolean)
+      .join(' ')
+    const median = getMedianPrice(prices)
+    const selectedIndex = calendar.findIndex(day => day.date === selectedDate)
+    const selectedDay = selectedIndex >= 0 ? calendar[selectedIndex] : undefined
+
+    return {
+      calendar,
+      min,
+      max,
+      median,
+      points,
+      toX,
+      toY,
+      medianY: toY(median),
+      selected:
+        selectedDay && !selectedDay.isUnavailable && selectedDay.price > 0
+          ? { x: toX(selectedIndex), y: toY(selectedDay.price), day: selectedDay }
+          : null,
+    }
+  }, [calendarData, selectedDate])
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 sm:p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <LineChart className="h-5 w-5 text-primary-blue" />
+        <h3 className="text-lg font-semibold text-text-dark dark:text-gray-100">Price Trend</h3>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader message="Loading price trend..." />
+        </div>
+      ) : error || !chart ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {error || 'Not enough fare data to chart this route.'}
+        </p>
+      ) : (
+        <>
+          <svg
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+            className="w-full h-auto"
+            role="img"
+            aria-label={`Fares from ${formatDate(chart.calendar[0].date, 'short')} to ${formatDate(chart.calendar[chart.calendar.length - 1].date, 'short')}: ${formatPrice(chart.min, currency)} to ${formatPrice(chart.max, currency)}, median ${formatPrice(chart.median, currency)}`}
+          >
+            {/* Price axis */}
+            <text
+              x={PADDING.left - 8}
+              y={chart.toY(chart.max) + 4}
+              textAnchor="end"
+              className="fill-gray-500 dark:fill-gray-400 text-[11px]"
+            >
+              {formatPrice(chart.max, currency)}
+            </text>
+            <text
+              x={PADDING.left - 8}
+              y={chart.toY(chart.min) + 4}
+              textAnchor="end"
+              className="fill-gray-500 dark:fill-gray-400 text-[11px]"
+            >
+              {formatPrice(chart.min, currency)}
+            </text>
+
+            {/* Date axis */}
+            <text
+              x={PADDING.left}
+              y={CHART_HEIGHT - 6}
+              className="fill-gray-500 dark:fill-gray-400 text-[11px]"
+            >
+              {formatDate(chart.calendar[0].date, 'short')}
+            </text>
+            <text
+              x={CHART_WIDTH - PADDING.right}
+              y={CHART_HEIGHT - 6}
+              textAnchor="end"
+              className="fill-gray-500 dark:fill-gray-400 text-[11px]"
+            >
+              {formatDate(chart.calendar[chart.calendar.length - 1].date, 'short')}
+            </text>
+
+            {/* Median */}
+            <line
+              x1={PADDING.left}
+              x2={CHART_WIDTH - PADDING.right}
+              y1={chart.medianY}
+              y2={chart.medianY}
+              className="stroke-gray-400 dark:stroke-gray-500"
+              strokeDasharray="4 4"
+            />
+            <text
+              x={CHART_WIDTH - PADDING.right}
+              y={chart.medianY - 4}
+              textAnchor="end"
+              className="fill-gray-500 dark:fill-gray-400 text-[11px]"
+            >
+              Median {formatPrice(chart.median, currency)}
+            </text>
+
+            {/* Fares */}
+            <polyline
+              points={chart.points}
+              fill="none"
+              className="stroke-primary-blue"
+              strokeWidth={2}
+              strokeLinejoin="round"
+            />
+
+            {/* Selected date */}
+            {chart.selected && (
+              <g>
+                <line
+                  x1={chart.selected.x}
+                  x2={chart.selected.x}
+                  y1={PADDING.top}
+                  y2={CHART_HEIGHT - PADDING.bottom}
+                  className="stroke-accent-yellow"
+                  strokeWidth={2}
+                />
+                <circle
+                  cx={chart.selected.x}
+                  cy={chart.selected.y}
+                  r={5}
+                  className="fill-accent-yellow stroke-white dark:stroke-gray-800"
+                  strokeWidth={2}
+                >
+                  <title>
+                    {formatDate(chart.selected.day.date)}:{' '}
+                    {formatPrice(chart.selected.day.price, currency)}
+                  </title>
+                </circle>
+              </g>
+            )}
+          </svg>
+          {chart.selected && (
+            <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+              Your date: {formatDate(chart.selected.day.date, 'short')} at{' '}
+              <span className="font-semibold">
+                {formatPrice(chart.selected.day.price, currency)}
+              </span>
+              {chart.selected.day.price < chart.median
+                ? ' (below median)'
+                : chart.selected.day.price > chart.median
+                  ? ' (above median)'
+                  : ' (at median)'}
+            </p>
+          )}
+        </>
+      )}
+
+      <div className="mt-4">
+        <PriceTrendHint observations={observations} departure={selectedDate} />
+      </div>
+    </div>
+  )
+}
+
+export default PriceTrendChart
@@ -0,0 +1,82 @@
+import { History, X } from 'lucide-react'
+import type { RecentSearch } from '../../types/recentSearch'
+import { formatDate } from '../../utils/formatDate'
+import { hasPastDates } from '../../utils/recentSearches'
+
+interface RecentSearchesProps {
+  searches: RecentSearch[]
+  onSelect: (search: RecentSearch) => void
+  onClear: () => void
+  className?: string
+}
+
+/**
+ * Gets the chip label of a search (e.g., "JFK → LHR · Mar 8 - Mar 15")
+ * Multi-city searches list every stop
+ */
+function getSearchLabel({ params }: RecentSearch): string {
+  const dates = params.return
+    ? `${formatDate(params.departure, 'short')} - ${formatDate(params.return, 'short')}`
+    : formatDate(params.departure, 'short')
+  const route = params.legs?.length
+    ? [params.legs[0].from, ...params.legs.map(leg => leg.to)].join(' → ')
+    : `${params.from} → ${params.to}`
+  return `${route} · ${dates}`
+}
+
+/**
+ * Recent search chips that re-run a previous search in one click
+ * @param searches - Recent searches, newest first
+ * @param onSelect - Callback to re-run a search
+ * @param onClear - Callback to clear the history
+ * @param className - Additional CSS classes
+ * @returns Recent search chips with a "Clear history" control, or null when there is no history
+ */
+function RecentSearches({ searches, onSelect, onClear, className = '' }: RecentSearchesProps) {
+  if (searches.length === 0) return null
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <h2 className="flex items-center gap-1 text-sm font-medium text-gray-600 dark:text-gray-400">
+          <History className="h-4 w-4" aria-hidden="true" />
+          Recent searches
+        </h2>
+        <button
+          type="button"
+          onClick={onClear}
+          className="flex items-center gap-1 text-xs font-medium text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 focus:outline-none focus:ring-2 focus:ring-primary-blue rounded"
+        >
+          <X className="h-3.5 w-3.5" aria-hidden="true" />
+          Clear history
+        </button>
+      </div>
+      <ul className="flex flex-wrap gap-2">
+        {searches.map(search => {
+          const label = getSearchLabel(search)
+          const isStale = hasPastDates(search.params)
+          return (
+            <li key={search.id}>
+              <button
+                type="button"
+                onClick={() => onSelect(search)}
+                className="px-3 py-1.5 rounded-full text-sm bg-gray-100 dark:bg-gray-700 text-text-dark dark:text-gray-200 hover:bg-primary-blue/10 dark:hover:bg-blue-600/20 focus:outline-none focus:ring-2 focus:ring-primary-blue transition-colors"
+                title={
+                  isStale ? 'These dates have passed, so the search runs on new dates' : undefined
+                }
+                aria-label={`Search again: ${label}${isStale ? ' (new dates)' : ''}`}
+              >
+                {label}
+                {isStale && (
+                  <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">(new dates)</span>
+                )}
+              </button>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
+
+export default RecentSearches
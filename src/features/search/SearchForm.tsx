@@ -1,16 +1,30 @@
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useRef } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { Calendar, Users, Briefcase, Plane, ArrowLeftRight } from 'lucide-react'
+import { Calendar, Users, Briefcase, Plane, ArrowLeftRight, LocateFixed } from 'lucide-react'
 import toast from 'react-hot-toast'
 import type { Airport } from '../../types/airport'
-import type { FlightSearchParams, TripType } from '../../types/flight'
+import type { FlightSearchParams, PassengerCounts, SearchLeg, TripType } from '../../types/flight'
+import type { RecentSearch } from '../../types/recentSearch'
 import AutocompleteInput from './AutocompleteInput'
 import TripTypeToggle from './TripTypeToggle'
+import MultiCityLegs from './MultiCityLegs'
+import type { MultiCityLegErrors, MultiCityLegState } from './MultiCityLegs'
+import RecentSearches from './RecentSearches'
+import PassengerPicker from './PassengerPicker'
 import { Select } from '../../components/common'
 import { Button } from '../../components/common'
+import NearbyAirports from '../../components/NearbyAirports'
+import { DEFAULT_NEARBY_RADIUS_KM } from '../../services/flightApi'
 import { formatAirportDisplay } from '../../utils/formatAirport'
 import { getTodayDate, isValidReturnDate } from '../../utils/formatDate'
+import { buildSearchQuery } from '../../utils/searchUrl'
+import { getRecentAirports, refreshSearchDates } from '../../utils/recentSearches'
+import { DEFAULT_PASSENGER_COUNTS, toPassengerParams } from '../../utils/passengers'
+import { FLEXIBLE_DAYS } from '../../utils/flexibleDates'
+import { validatePassengers } from '../../utils/validation/searchValidation'
 import { useSearch } from '../../context/SearchContext'
+import { usePreferences } from '../../context/PreferencesContext'
+import { useRecentSearches } from '../../hooks/useRecentSearches'
 import { logger } from '../../utils/logger'
 
 interface FormData {
@@ -18,42 +32,77 @@ interface FormData {
   to: string
   departure: string
   return: string
-  passengers: string
   cabinClass: string
   tripType: TripType
 }
 
+type FormErrors = Partial<Record<keyof FormData | 'passengers', string>>
+
 interface AirportData {
   from: Airport | null
   to: Airport | null
 }
 
+// Multi-city searches support between 2 and 6 legs
+const MIN_MULTI_CITY_LEGS = 2
+const MAX_MULTI_CITY_LEGS = 6
+
 /**
  * Main search form component for flight search
  * Includes airport autocomplete, date pickers, passenger/class selection, and trip type toggle
+ * Submitted searches are remembered and offered as one-click re-runs under the form
  * @returns Search form with validation and submission handling
  */
 function SearchForm() {
   const navigate = useNavigate()
-  const { performSearch, isLoading } = useSearch()
-  const [formData, setFormData] = useState<FormData>({
-    from: '',
+  const { isLoading } = useSearch()
+  const { preferences, marketParams } = usePreferences()
+  const { recentSearches, addSearch, clearSearches } = useRecentSearches()
+  const recentAirports = useMemo(() => getRecentAirports(recentSearches), [recentSearches])
+  // New searches start from the home airport and default cabin in the preferences
+  const [formData, setFormData] = useState<FormData>(() => ({
+    from: preferences.homeAirport ? formatAirportDisplay(preferences.homeAirport) : '',
     to: '',
     departure: '',
     return: '',
-    passengers: '1',
-    cabinClass: 'economy',
+    cabinClass: preferences.defaultCabinClass,
     tripType: 'round-trip',
-  })
+  }))
 
-  const [airportData, setAirportData] = useState<AirportData>({
-    from: null,
+  const [airportData, setAirportData] = useState<AirportData>(() => ({
+    from: preferences.homeAirport,
     to: null,
-  })
+  }))
 
-  const [errors, setErrors] = useState<Partial<FormData>>({})
+  const [passengerCounts, setPassengerCounts] = useState<PassengerCounts>(DEFAULT_PASSENGER_COUNTS)
+  const [errors, setErrors] = useState<FormErrors>({})
   const [isSubmitting, setIsSubmitting] = useState(false)
 
+  // "Near me" origin picker and nearby-origin fan-out
+  const [showNearby, setShowNearby] = useState(false)
+  const [includeNearby, setIncludeNearby] = useState(false)
+
+  // Flexible dates: show the fares of the days around the chosen dates with the results
+  const [flexibleDates, setFlexibleDates] = useState(false)
+
+  // Multi-city legs (only used when tripType is 'multi-city')
+  const [legs, setLegs] = useState<MultiCityLegState[]>([])
+  const [legErrors, setLegErrors] = useState<Record<string, MultiCityLegErrors>>({})
+  const legIdRef = useRef(0)
+
+  const createLeg = (overrides: Partial<MultiCityLegState> = {}): MultiCityLegState => {
+    legIdRef.current += 1
+    return {
+      id: `leg-${legIdRef.current}`,
+      from: '',
+      to: '',
+      date: '',
+      fromAirport: null,
+      toAirport: null,
+      ...overrides,
+    }
+  }
+
   const handleSwapAirports = () => {
     setFormData(prev => ({
       ...prev,
@@ -97,6 +146,14 @@ function SearchForm() {
     }
   }
 
+  const handleNearbySelect = (airport: Airport) => {
+    handleAirportSelect('from')(airport)
+    setShowNearby(false)
+    if (errors.from) {
+      setErrors(prev => ({ ...prev, from: undefined }))
+    }
+  }
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target
     setFormData(prev => {
@@ -120,13 +177,131 @@ function SearchForm() {
 
   const handleTripTypeChange = (tripType: TripType) => {
     setFormData(prev => {
-      const newData = { ...prev, tripType, return: tripType === 'one-way' ? '' : prev.return }
+      const newData = { ...prev, tripType, return: tripType === 'round-trip' ? prev.return : '' }
       return newData
     })
+
+    // Seed multi-city legs from the current origin/destination the first time
+    if (tripType === 'multi-city' && legs.length === 0) {
+      setLegs([
+        createLeg({
+          from: formData.from,
+          to: formData.to,
+          date: formData.departure,
+          fromAirport: airportData.from,
+          toAirport: airportData.to,
+        }),
+        createLeg({ from: formData.to, fromAirport: airportData.to }),
+      ])
+    }
+  }
+
+  const handleLegChange = (id: string, changes: Partial<MultiCityLegState>) => {
+    setLegs(prev =>
+      prev.map(leg => {
+        if (leg.id !== id) return leg
+        const updated = { ...leg, ...changes }
+        // Keep display values in sync with selected airports
+        if (changes.fromAirport) updated.from = formatAirportDisplay(changes.fromAirport)
+        if (changes.toAirport) updated.to = formatAirportDisplay(changes.toAirport)
+        return updated
+      })
+    )
+
+    // Clear errors for the fields being edited
+    if (legErrors[id]) {
+      setLegErrors(prev => ({
+        ...prev,
+        [id]: {
+          from: 'from' in changes ? undefined : prev[id]?.from,
+          to: 'to' in changes ? undefined : prev[id]?.to,
+          date: 'date' in changes ? undefined : prev[id]?.date,
+        },
+      }))
+    }
+  }
+
+  const handleAddLeg = () => {
+    setLegs(prev => {
+      if (prev.length >= MAX_MULTI_CITY_LEGS) return prev
+      const last = prev[prev.length - 1]
+      // Next leg starts where the previous one ended
+      return [...prev, createLeg({ from: last?.to || '', fromAirport: last?.toAirport || null })]
+    })
+  }
+
+  const handleRemoveLeg = (id: string) => {
+    setLegs(prev => (prev.length <= MIN_MULTI_CITY_LEGS ? prev : prev.filter(leg => leg.id !== id)))
+    setLegErrors(prev => {
+      const next = { ...prev }
+      delete next[id]
+      return next
+    })
+  }
+
+  const validateLegs = (): boolean => {
+    const newLegErrors: Record<string, MultiCityLegErrors> = {}
+
+    legs.forEach((leg, index) => {
+      const legError: MultiCityLegErrors = {}
+      if (!leg.from.trim()) {
+        legError.from = 'Origin is required'
+      } else if (!leg.fromAirport?.skyId || !leg.fromAirport?.entityId) {
+        legError.from = 'Please select an airport from the suggestions'
+      }
+      if (!leg.to.trim()) {
+        legError.to = 'Destination is required'
+      } else if (!leg.toAirport?.skyId || !leg.toAirport?.entityId) {
+        legError.to = 'Please select an airport from the suggestions'
+      } else if (leg.from.trim() === leg.to.trim()) {
+        legError.to = 'Origin and destination must be different'
+      }
+      if (!leg.date) {
+        legError.date = 'Date is required'
+      } else if (index > 0 && legs[index - 1].date && leg.date < legs[index - 1].date) {
+        legError.date = 'Date must be on or after the previous flight'
+      }
+      if (Object.keys(legError).length > 0) {
+        newLegErrors[leg.id] = legError
+      }
+    })
+
+    setLegErrors(newLegErrors)
+    return Object.keys(newLegErrors).length === 0
+  }
+
+  const buildMultiCityParams = (): FlightSearchParams => {
+    const searchLegs: SearchLeg[] = legs.map(leg => ({
+      from: leg.fromAirport?.iata || leg.fromAirport?.skyId || leg.from,
+      to: leg.toAirport?.iata || leg.toAirport?.skyId || leg.to,
+      date: leg.date,
+      originSkyId: leg.fromAirport?.skyId,
+      destinationSkyId: leg.toAirport?.skyId,
+      originEntityId: leg.fromAirport?.entityId,
+      destinationEntityId: leg.toAirport?.entityId,
+    }))
+    const first = searchLegs[0]
+    const last = searchLegs[searchLegs.length - 1]
+
+    return {
+      // Top-level fields describe the overall trip (first origin -> last destination)
+      from: first.from,
+      to: last.to,
+      departure: first.date,
+      ...toPassengerParams(passengerCounts),
+      cabinClass: formData.cabinClass,
+      tripType: 'multi-city',
+      originSkyId: first.originSkyId,
+      destinationSkyId: last.destinationSkyId,
+      originEntityId: first.originEntityId,
+      destinationEntityId: last.destinationEntityId,
+      ...marketParams,
+      legs: searchLegs,
+    }
   }
 
   const validateForm = (): boolean => {
-    const newErrors: Partial<FormData> = {}
+    const newErrors: FormErrors = {}
 
     if (!formData.from.trim()) {
       newErrors.from = 'Origin is required'
@@ -155,13 +330,32 @@ function SearchForm() {
     return Object.keys(newErrors).length === 0
   }
 
-  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault()
 
     if (isSubmitting || isLoading) {
       return // Prevent multiple submissions
     }
 
+    // The picker prevents invalid mixes, but check again before searching
+    const passengerError = validatePassengers(passengerCounts)
+    if (passengerError) {
+      setErrors(prev => ({ ...prev, passengers: passengerError }))
+      return
+    }
+
+    if (formData.tripType === 'multi-city') {
+      if (validateLegs()) {
+        const params = buildMultiCityParams()
+        addSearch(params, {
+          from: legs[0]?.fromAirport || null,
+          to: legs[legs.length - 1]?.toAirport || null,
+        })
+        navigate(`/flights?${buildSearchQuery(params)}`)
+      }
+      return
+    }
+
     if (!validateForm()) {
       return
     }
@@ -202,7 +396,7 @@ function SearchForm() {
         to: toAirport.iata || toAirport.skyId || formData.to,
         departure: formData.departure,
         return: formData.tripType === 'round-trip' ? formData.return : undefined,
-        passengers: formData.passengers,
+        ...toPassengerParams(passengerCounts),
         cabinClass: formData.cabinClass,
         tripType: formData.tripType,
         // Sky Scrapper API required fields
@@ -210,21 +404,17 @@ function SearchForm() {
         destinationSkyId: toAirport.skyId,
         originEntityId: fromAirport.entityId,
         destinationEntityId: toAirport.entityId,
-        adults: parseInt(formData.passengers, 10) || 1,
-        currency: 'USD',
-        market: 'en-US',
-        countryCode: 'US',
-        locale: 'en-US',
+        originEntityType: fromAirport.entityType,
+        destinationEntityType: toAirport.entityType,
+        ...marketParams,
+        nearbyRadiusKm: includeNearby ? DEFAULT_NEARBY_RADIUS_KM : undefined,
+        flexibleDays: flexibleDates ? FLEXIBLE_DAYS : undefined,
       }
 
-      // Perform search and navigate to results page
-      navigate('/flights')
-      if (performSearch) {
-        await performSearch(searchParams)
-        // Removed success toast - context will handle result notifications
-      } else {
-        toast.error('Search service not available. Please try again.')
-      }
+      addSearch(searchParams, { from: fromAirport, to: toAirport })
+
+      // Navigate to results page - the search is driven from the URL so it can be shared
+      navigate(`/flights?${buildSearchQuery(searchParams)}`)
     } catch (err) {
       const errorMessage =
         err instanceof Error ? err.message : 'Failed to search flights. Please try again.'
@@ -235,18 +425,24 @@ function SearchForm() {
     }
   }
 
+  // Re-run a previous search, moving its dates forward if they have passed
+  const handleRecentSearchSelect = (search: RecentSearch) => {
+    if (isSubmitting || isLoading) return
+
+    const params = refreshSearchDates(search.params)
+    addSearch(params, { from: search.fromAirport, to: search.toAirport }, search.id)
+    navigate(`/flights?${buildSearchQuery(params)}`)
+  }
+
   // Get minimum date (today) for date inputs - memoized
   const today = useMemo(() => getTodayDate(), [])
 
-  // Memoize passenger options
-  const passengerOptions = useMemo(
-    () =>
-      [1, 2, 3, 4, 5, 6, 7, 8, 9].map(num => ({
-        value: num.toString(),
-        label: `${num} ${num === 1 ? 'Passenger' : 'Passengers'}`,
-      })),
-    []
-  )
+  const handlePassengersChange = (counts: PassengerCounts) => {
+    setPassengerCounts(counts)
+    if (errors.passengers) {
+      setErrors(prev => ({ ...prev, passengers: undefined }))
+    }
+  }
 
   // Memoize cabin class options
   const cabinClassOptions = useMemo(
@@ -271,118 +467,174 @@ function SearchForm() {
         <TripTypeToggle value={formData.tripType} onChange={handleTripTypeChange} />
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
-        {/* From Input with Autocomplete */}
-        <div className="md:col-span-1">
-          <AutocompleteInput
-            label="From"
-            value={formData.from}
-            onChange={handleFromChange}
-            onSelect={handleAirportSelect('from')}
-            placeholder="City or airport"
-            error={errors.from}
-            icon={<Plane className="inline h-4 w-4 mr-1 text-primary-blue" />}
-            id="from"
-            required
-          />
-        </div>
-
-        {/* To Input with Autocomplete */}
-        <div className="md:col-span-1 relative">
-          <AutocompleteInput
-            label="To"
-            value={formData.to}
-            onChange={handleToChange}
-            onSelect={handleAirportSelect('to')}
-            placeholder="City or airport"
-            error={errors.to}
-            icon={<Plane className="inline h-4 w-4 mr-1 text-primary-blue" />}
-            id="to"
-            required
-          />
-          {/* Swap Button */}
-          <button
-            type="button"
-            onClick={handleSwapAirports}
-            className="absolute top-8 right-2 p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-primary-blue transition-colors"
-            aria-label="Swap origin and destination"
-            title="Swap origin and destination"
-          >
-            <ArrowLeftRight className="h-5 w-5 text-gray-600 dark:text-gray-400" />
-          </button>
-        </div>
-
-        {/* Departure Date */}
-        <div className="md:col-span-1">
-          <label
-            htmlFor="departure"
-            className="block text-sm font-medium text-text-dark dark:text-gray-200 mb-2"
-          >
-            <Calendar className="inline h-4 w-4 mr-1 text-primary-blue" />
-            Departure
-            <span className="text-red-500 ml-1">*</span>
-          </label>
-          <input
-            type="date"
-            id="departure"
-            name="departure"
-            value={formData.departure}
-            onChange={handleChange}
-            min={today}
-            className={`w-full px-4 py-3 border rounded-lg bg-white dark:bg-gray-700 text-text-dark dark:text-gray-200 placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-blue focus:border-transparent transition-all ${
-              errors.departure
-                ? 'border-red-500 dark:border-red-400'
-                : 'border-gray-300 dark:border-gray-600'
-            }`}
-            aria-label="Departure date"
-            {...(errors.departure && { 'aria-invalid': true })}
-            aria-describedby={errors.departure ? 'departure-error' : undefined}
-            required
+      {/* Multi-city legs replace the single From/To/Dates inputs */}
+      {formData.tripType === 'multi-city' && (
+        <div className="mb-4 md:mb-6">
+          <MultiCityLegs
+            legs={legs}
+            errors={legErrors}
+            minDate={today}
+            maxLegs={MAX_MULTI_CITY_LEGS}
+            minLegs={MIN_MULTI_CITY_LEGS}
+            onLegChange={handleLegChange}
+            onAddLeg={handleAddLeg}
+            onRemoveLeg={handleRemoveLeg}
           />
-          {errors.departure && (
-            <p id="departure-error" className="mt-1 text-sm text-red-500" role="alert">
-              {errors.departure}
-            </p>
-          )}
         </div>
+      )}
 
-        {/* Return Date (only show for round-trip) */}
-        {formData.tripType === 'round-trip' && (
-          <div className="md:col-span-1">
-            <label
-              htmlFor="return"
-              className="block text-sm font-medium text-text-dark dark:text-gray-200 mb-2"
-            >
-              <Calendar className="inline h-4 w-4 mr-1 text-primary-blue" />
-              Return
-              <span className="text-red-500 ml-1">*</span>
-            </label>
-            <input
-              type="date"
-              id="return"
-              name="return"
-              value={formData.return}
-              onChange={handleChange}
-              min={formData.departure || today}
-              className={`w-full px-4 py-3 border rounded-lg bg-white dark:bg-gray-700 text-text-dark dark:text-gray-200 placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-blue focus:border-transparent transition-all ${
-                errors.return
-                  ? 'border-red-500 dark:border-red-400'
-                  : 'border-gray-300 dark:border-gray-600'
-              }`}
-              aria-label="Return date"
-              {...(errors.return && { 'aria-invalid': true })}
-              aria-describedby={errors.return ? 'return-error' : undefined}
-              required
-            />
-            {errors.return && (
-              <p id="return-error" className="mt-1 text-sm text-red-500" role="alert">
-                {errors.return}
-              </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
+        {formData.tripType !== 'multi-city' && (
+          <>
+            {/* From Input with Autocomplete */}
+            <div className="md:col-span-1">
+              <AutocompleteInput
+                label="From"
+                value={formData.from}
+                onChange={handleFromChange}
+                onSelect={handleAirportSelect('from')}
+                placeholder="City or airport"
+                error={errors.from}
+                icon={<Plane className="inline h-4 w-4 mr-1 text-primary-blue" />}
+                id="from"
+                required
+                recentAirports={recentAirports}
+                labelAction={
+                  <button
+                    type="button"
+                    onClick={() => setShowNearby(prev => !prev)}
+                    className="flex items-center gap-1 text-xs font-medium text-primary-blue dark:text-blue-400 hover:underline focus:outline-none focus:ring-2 focus:ring-primary-blue rounded"
+                    aria-expanded={showNearby}
+                    aria-controls="from-nearby-airports"
+                  >
+                    <LocateFixed className="h-3.5 w-3.5" />
+                    {showNearby ? 'Hide nearby airports' : 'Use my location'}
+                  </button>
+                }
+              />
+              {showNearby && (
+                <div id="from-nearby-airports" className="mt-2">
+                  <NearbyAirports onSelectAirport={handleNearbySelect} />
+                </div>
+              )}
+              <label className="mt-2 flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={includeNearby}
+                  onChange={e => setIncludeNearby(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300 text-primary-blue focus:ring-primary-blue"
+                />
+                Include airports within {DEFAULT_NEARBY_RADIUS_KM} km of origin
+              </label>
+            </div>
+
+            {/* To Input with Autocomplete */}
+            <div className="md:col-span-1 relative">
+              <AutocompleteInput
+                label="To"
+                value={formData.to}
+                onChange={handleToChange}
+                onSelect={handleAirportSelect('to')}
+                placeholder="City or airport"
+                error={errors.to}
+                icon={<Plane className="inline h-4 w-4 mr-1 text-primary-blue" />}
+                id="to"
+                required
+                recentAirports={recentAirports}
+              />
+              {/* Swap Button */}
+              <button
+                type="button"
+                onClick={handleSwapAirports}
+                className="absolute top-8 right-2 p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-primary-blue transition-colors"
+                aria-label="Swap origin and destination"
+                title="Swap origin and destination"
+              >
+                <ArrowLeftRight className="h-5 w-5 text-gray-600 dark:text-gray-400" />
+              </button>
+            </div>
+
+            {/* Departure Date */}
+            <div className="md:col-span-1">
+              <label
+                htmlFor="departure"
+                className="block text-sm font-medium text-text-dark dark:text-gray-200 mb-2"
+              >
+                <Calendar className="inline h-4 w-4 mr-1 text-primary-blue" />
+                Departure
+                <span className="text-red-500 ml-1">*</span>
+              </label>
+              <input
+                type="date"
+                id="departure"
+                name="departure"
+                value={formData.departure}
+                onChange={handleChange}
+                min={today}
+                className={`w-full px-4 py-3 border rounded-lg bg-white dark:bg-gray-700 text-text-dark dark:text-gray-200 placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-blue focus:border-transparent transition-all ${
+                  errors.departure
+                    ? 'border-red-500 dark:border-red-400'
+                    : 'border-gray-300 dark:border-gray-600'
+                }`}
+                aria-label="Departure date"
+                {...(errors.departure && { 'aria-invalid': true })}
+                aria-describedby={errors.departure ? 'departure-error' : undefined}
+                required
+              />
+              {errors.departure && (
+                <p id="departure-error" className="mt-1 text-sm text-red-500" role="alert">
+                  {errors.departure}
+                </p>
+              )}
+              <label className="mt-2 flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={flexibleDates}
+                  onChange={e => setFlexibleDates(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300 text-primary-blue focus:ring-primary-blue"
+                />
+                My dates are flexible (±{FLEXIBLE_DAYS} days)
+              </label>
+            </div>
+
+            {/* Return Date (only show for round-trip) */}
+            {formData.tripType === 'round-trip' && (
+              <div className="md:col-span-1">
+                <label
+                  htmlFor="return"
+                  className="block text-sm font-medium text-text-dark dark:text-gray-200 mb-2"
+                >
+                  <Calendar className="inline h-4 w-4 mr-1 text-primary-blue" />
+                  Return
+                  <span className="text-red-500 ml-1">*</span>
+                </label>
+                <input
+                  type="date"
+                  id="return"
+                  name="return"
+                  value={formData.return}
+                  onChange={handleChange}
+                  min={formData.departure || today}
+                  className={`w-full px-4 py-3 border rounded-lg bg-white dark:bg-gray-700 text-text-dark dark:text-gray-200 placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-blue focus:border-transparent transition-all ${
+                    errors.return
+                      ? 'border-red-500 dark:border-red-400'
+                      : 'border-gray-300 dark:border-gray-600'
+                  }`}
+                  aria-label="Return date"
+                  {...(errors.return && { 'aria-invalid': true })}
+                  aria-describedby={errors.return ? 'return-error' : undefined}
+                  required
+                />
+                {errors.return && (
+                  <p id="return-error" className="mt-1 text-sm text-red-500" role="alert">
+                    {errors.return}
+                  </p>
+                )}
+              </div>
             )}
-          </div>
+          </>
         )}
-
-        {/* Passengers Dropdown */}
+        {/* Passengers Picker */}
         <div className="md:col-span-1">
           <label
             htmlFor="passengers"
@@ -391,12 +643,10 @@ function SearchForm() {
             <Users className="inline h-4 w-4 mr-1 text-primary-blue" />
             Passengers
           </label>
-          <Select
-            name="passengers"
-            value={formData.passengers}
-            onChange={handleChange}
-            options={passengerOptions}
-            fullWidth
+          <PassengerPicker
+            value={passengerCounts}
+            onChange={handlePassengersChange}
+            error={errors.passengers}
             id="passengers"
           />
         </div>
@@ -435,6 +685,14 @@ function SearchForm() {
           {isSubmitting || isLoading ? 'Searching...' : 'Search Flights'}
         </Button>
       </div>
+
+      {/* Recent searches re-run in one click */}
+      <RecentSearches
+        searches={recentSearches}
+        onSelect={handleRecentSearchSelect}
+        onClear={clearSearches}
+        className="mt-6"
+      />
     </form>
   )
 }
@@ -1,4 +1,4 @@
-import { PlaneTakeoff, PlaneLanding } from 'lucide-react'
+import { PlaneTakeoff, PlaneLanding, Route } from 'lucide-react'
 import type { TripType } from '../../types/flight'
 
 interface TripTypeToggleProps {
@@ -8,7 +8,7 @@ interface TripTypeToggleProps {
 }
 
 /**
- * Radio group toggle for selecting round-trip or one-way flights
+ * Radio group toggle for selecting round-trip, one-way, or multi-city flights
  * @param value - Current trip type selection
  * @param onChange - Callback when trip type changes
  * @param className - Additional CSS classes
@@ -49,6 +49,20 @@ function TripTypeToggle({ value, onChange, className = '' }: TripTypeToggleProps
         <PlaneLanding className="h-4 w-4" aria-hidden="true" />
         <span>One Way</span>
       </button>
+      <button
+        type="button"
+        onClick={() => onChange('multi-city')}
+        className={`flex-1 flex items-center justify-center gap-2 px-4 py-2.5 rounded-md font-medium transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-primary-blue focus:ring-offset-2 dark:focus:ring-offset-gray-800 ${
+          value === 'multi-city'
+            ? 'bg-primary-blue dark:bg-blue-600 text-white shadow-md'
+            : 'text-gray-600 dark:text-gray-300 hover:text-text-dark dark:hover:text-gray-100 hover:bg-gray-50 dark:hover:bg-gray-600'
+        }`}
+        aria-pressed={value === 'multi-city'}
+        aria-label="Multi-city"
+      >
+        <Route className="h-4 w-4" aria-hidden="true" />
+        <span>Multi-City</span>
+      </button>
     </div>
   )
 }
@@ -0,0 +1,100 @@
+import { useState, type KeyboardEvent } from 'react'
+import { Plus, X } from 'lucide-react'
+import { isAirlineListed } from '../../utils/preferences'
+
+interface AirlineListInputProps {
+  label: string
+  id: string
+  airlines: string[]
+  onChange: (airlines: string[]) => void
+  helperText?: string
+}
+
+/**
+ * Editable list of airline names shown as removable chips
+ * @param label - Input label text
+ * @param id - Input id attribute
+ * @param airlines - Current airline names
+ * @param onChange - Callback with the updated list
+ * @param helperText - Helper text below the input
+ * @returns Text input with an add button and one chip per airline
+ */
+function AirlineListInput({ label, id, airlines, onChange, helperText }: AirlineListInputProps) {
+  const [draft, setDraft] = useState('')
+
+  const handleAdd = () => {
+    const name = draft.trim()
+    if (name && !isAirlineListed(name, airlines)) {
+      onChange([...airlines, name])
+    }
+    setDraft('')
+  }
+
+  // Enter adds the airline instead of submitting the form
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      handleAdd()
+    }
+  }
+
+  return (
+    <div>
+      <label
+        htmlFor={id}
+        className="block text-sm font-medium text-text-dark dark:text-gray-200 mb-2"
+      >
+        {label}
+      </label>
+      <div className="flex gap-2">
+        <input
+          id={id}
+          type="text"
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="e.g., Delta Airlines"
+          className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-text-dark dark:text-gray-200 placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-blue focus:border-transparent"
+          aria-describedby={helperText ? `${id}-helper` : undefined}
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={!draft.trim()}
+          className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-medium bg-gray-100 dark:bg-gray-700 text-text-dark dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-primary-blue disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          aria-label={`Add to ${label}`}
+        >
+          <Plus className="h-4 w-4" />
+          Add
+        </button>
+      </div>
+      {helperText && (
+        <p id={`${id}-helper`} className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          {helperText}
+        </p>
+      )}
+      {airlines.length > 0 && (
+        <ul className="flex flex-wrap gap-2 mt-3" aria-label={label}>
+          {airlines.map(airline => (
+            <li
+              key={airline}
+              className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full text-sm bg-gray-100 dark:bg-gray-700 text-text-dark dark:text-gray-200"
+            >
+              {airline}
+              <button
+                type="button"
+                onClick={() => onChange(airlines.filter(entry => entry !== airline))}
+                className="p-0.5 rounded-full text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400 focus:outline-none focus:ring-2 focus:ring-primary-blue"
+                aria-label={`Remove ${airline}`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default AirlineListInput
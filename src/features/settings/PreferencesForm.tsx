@@ -0,0 +1,177 @@
+import { useState, type FormEvent } from 'react'
+import { Home, RotateCcw, Save } from 'lucide-react'
+import type { Airport } from '../../types/airport'
+import type { CabinClass } from '../../types/flight'
+import type { TravelPreferences } from '../../types/preferences'
+import AutocompleteInput from '../search/AutocompleteInput'
+import AirlineListInput from './AirlineListInput'
+import { Button, Select } from '../../components/common'
+import { formatAirportDisplay } from '../../utils/formatAirport'
+import { CURRENCY_OPTIONS, LOCALE_OPTIONS, isAirlineListed } from '../../utils/preferences'
+
+interface PreferencesFormProps {
+  initialValues: TravelPreferences
+  onSubmit: (preferences: TravelPreferences) => void
+  onReset: () => void
+}
+
+const CABIN_CLASS_OPTIONS = [
+  { value: 'economy', label: 'Economy' },
+  { value: 'premium-economy', label: 'Premium Economy' },
+  { value: 'business', label: 'Business' },
+  { value: 'first', label: 'First Class' },
+]
+
+// '' stands for "any number of stops" (select values are strings)
+const MAX_STOPS_OPTIONS = [
+  { value: '', label: 'Any number of stops' },
+  { value: '0', label: 'Non-stop only' },
+  { value: '1', label: 'Up to 1 stop' },
+  { value: '2', label: 'Up to 2 stops' },
+]
+
+/**
+ * Form for editing travel preferences: home airport, currency, locale, default cabin,
+ * preferred and blocked airlines and max stops
+ * @param initialValues - Current preferences
+ * @param onSubmit - Callback with the edited preferences
+ * @param onReset - Callback to restore the default preferences
+ * @returns Preferences form
+ */
+function PreferencesForm({ initialValues, onSubmit, onReset }: PreferencesFormProps) {
+  const [draft, setDraft] = useState<TravelPreferences>(initialValues)
+  const [homeAirportLabel, setHomeAirportLabel] = useState(
+    initialValues.homeAirport ? formatAirportDisplay(initialValues.homeAirport) : ''
+  )
+  const [error, setError] = useState<string | undefined>()
+
+  const update = (changes: Partial<TravelPreferences>) => {
+    setDraft(prev => ({ ...prev, ...changes }))
+  }
+
+  // Typing invalidates the previously selected airport; an empty field clears it
+  const handleHomeAirportChange = (value: string) => {
+    setHomeAirportLabel(value)
+    update({ homeAirport: null })
+    setError(undefined)
+  }
+
+  const handleHomeAirportSelect = (airport: Airport | null) => {
+    if (airport) {
+      setHomeAirportLabel(formatAirportDisplay(airport))
+      update({ homeAirport: airport })
+    }
+  }
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+
+    if (homeAirportLabel.trim() && !draft.homeAirport) {
+      setError('Please select an airport from the suggestions')
+      return
+    }
+    onSubmit(draft)
+  }
+
+  // An airline cannot be both preferred and blocked - the latest list wins
+  const handleAirlinesChange =
+    (field: 'preferredAirlines' | 'blockedAirlines') => (airlines: string[]) => {
+      const other = field === 'preferredAirlines' ? 'blockedAirlines' : 'preferredAirlines'
+      update({
+        [field]: airlines,
+        [other]: draft[other].filter(airline => !isAirlineListed(airline, airlines)),
+      })
+    }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 space-y-8"
+      aria-label="Travel preferences"
+      noValidate
+    >
+      <section className="space-y-4">
+        <h2 className="text-lg font-semibold text-text-dark dark:text-gray-200">Searching</h2>
+        <AutocompleteInput
+          label="Home airport"
+          value={homeAirportLabel}
+          onChange={handleHomeAirportChange}
+          onSelect={handleHomeAirportSelect}
+          error={error}
+          icon={<Home className="inline h-4 w-4 mr-1 text-primary-blue" />}
+          id="home-airport"
+        />
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Select
+            label="Currency"
+            id="preferred-currency"
+            value={draft.currency}
+            onChange={e => update({ currency: e.target.value })}
+            options={CURRENCY_OPTIONS}
+            fullWidth
+          />
+          <Select
+            label="Language and region"
+            id="preferred-locale"
+            value={draft.locale}
+            onChange={e => update({ locale: e.target.value })}
+            options={LOCALE_OPTIONS}
+            fullWidth
+          />
+          <Select
+            label="Default cabin"
+            id="preferred-cabin"
+            value={draft.defaultCabinClass}
+            onChange={e => update({ defaultCabinClass: e.target.value as CabinClass })}
+            options={CABIN_CLASS_OPTIONS}
+            fullWidth
+          />
+        </div>
+      </section>
+
+      <section className="space-y-4">
+        <h2 className="text-lg font-semibold text-text-dark dark:text-gray-200">Results</h2>
+        <Select
+          label="Maximum stops"
+          id="preferred-max-stops"
+          value={draft.maxStops === null ? '' : String(draft.maxStops)}
+          onChange={e =>
+            update({ maxStops: e.target.value === '' ? null : Number(e.target.value) })
+          }
+          options={MAX_STOPS_OPTIONS}
+          helperText="Flights with more stops are filtered out of new searches"
+          fullWidth
+        />
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <AirlineListInput
+            label="Preferred airlines"
+            id="preferred-airlines"
+            airlines={draft.preferredAirlines}
+            onChange={handleAirlinesChange('preferredAirlines')}
+            helperText="Listed first in the airline filter"
+          />
+          <AirlineListInput
+            label="Blocked airlines"
+            id="blocked-airlines"
+            airlines={draft.blockedAirlines}
+            onChange={handleAirlinesChange('blockedAirlines')}
+            helperText="Filtered out of new searches"
+          />
+        </div>
+      </section>
+
+      <div className="flex items-center justify-end flex-wrap gap-3">
+        <Button type="button" variant="outline" className="gap-2" onClick={onReset}>
+          <RotateCcw className="h-4 w-4" />
+          Reset to defaults
+        </Button>
+        <Button type="submit" variant="primary" className="gap-2">
+          <Save className="h-5 w-5" />
+          Save preferences
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+export default PreferencesForm
@@ -0,0 +1,177 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Database, RefreshCw, Trash2 } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { Button } from '../../components/common'
+import { clearRequestCache, getCacheEntries } from '../../utils/requestCache'
+import type { CacheEntrySummary } from '../../utils/requestCache'
+import { logger } from '../../utils/logger'
+
+// Readable names of the cached endpoints
+const ENDPOINT_LABELS: Record<string, string> = {
+  '/v1/flights/searchAirport': 'Airport search',
+  '/v1/flights/getNearByAirports': 'Nearby airports',
+  '/v1/flights/getPriceCalendar': 'Price calendars',
+  '/v2/flights/searchFlightsComplete': 'Flight searches',
+  '/v2/flights/searchFlightsMultiStops': 'Multi-city searches',
+  '/v1/flights/getFlightDetails': 'Flight details',
+}
+
+interface EndpointSummary {
+  endpoint: string
+  entries: number
+  stale: number
+  sizeBytes: number
+}
+
+/**
+ * Formats a byte count for display
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * Settings panel listing the cached API responses per endpoint, with a button to clear them
+ * @returns Cache summary table with refresh and clear actions
+ */
+function RequestCachePanel() {
+  const [entries, setEntries] = useState<CacheEntrySummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setEntries(await getCacheEntries())
+    } catch (err) {
+      logger.error('RequestCachePanel', 'Failed to read the response cache', err)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadEntries()
+  }, [loadEntries])
+
+  const handleClear = async () => {
+    await clearRequestCache()
+    toast.success('Cached responses cleared')
+    loadEntries()
+  }
+
+  const summaries = useMemo(() => {
+    const now = Date.now()
+    const byEndpoint = new Map<string, EndpointSummary>()
+    entries.forEach(entry => {
+      const summary = byEndpoint.get(entry.endpoint) || {
+        endpoint: entry.endpoint,
+        entries: 0,
+        stale: 0,
+        sizeBytes: 0,
+      }
+      summary.entries += 1
+      summary.stale += now >= entry.freshUntil ? 1 : 0
+      summary.sizeBytes += entry.sizeBytes
+      byEndpoint.set(entry.endpoint, summary)
+    })
+    return [...byEndpoint.values()].sort((a, b) => b.entries - a.entries)
+  }, [entries])
+
+  const totalSize = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0)
+
+  return (
+    <section
+      className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6"
+      aria-labelledby="request-cache-heading"
+    >
+      <div className="flex items-center gap-2 mb-2">
+        <Database className="h-5 w-5 text-primary-blue dark:text-blue-400" />
+        <h2
+          id="request-cache-heading"
+          className="text-lg font-semibold text-text-dark dark:text-gray-200"
+        >
+          Cached responses
+        </h2>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Airports, price calendars and flight searches are kept on this device so repeated searches
+        don't count against the API quota. Stale responses are shown right away and refreshed in the
+        background.
+      </p>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Reading cache...</p>
+      ) : summaries.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Nothing cached yet.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <caption className="sr-only">Cached responses per endpoint</caption>
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-gray-400">
+              <th scope="col" className="py-1 font-medium">
+                Type
+              </th>
+              <th scope="col" className="py-1 font-medium text-right">
+                Responses
+              </th>
+              <th scope="col" className="py-1 font-medium text-right">
+                Stale
+              </th>
+              <th scope="col" className="py-1 font-medium text-right">
+                Size
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {summaries.map(summary => (
+              <tr
+                key={summary.endpoint}
+                className="border-t border-gray-100 dark:border-gray-700 text-text-dark dark:text-gray-200"
+              >
+                <td className="py-1">{ENDPOINT_LABELS[summary.endpoint] || summary.endpoint}</td>
+                <td className="py-1 text-right">{summary.entries}</td>
+                <td className="py-1 text-right">{summary.stale}</td>
+                <td className="py-1 text-right">{formatBytes(summary.sizeBytes)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="border-t border-gray-200 dark:border-gray-600 font-semibold text-text-dark dark:text-gray-100">
+              <td className="py-1">Total</td>
+              <td className="py-1 text-right">{entries.length}</td>
+              <td />
+              <td className="py-1 text-right">{formatBytes(totalSize)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      )}
+
+      <div className="flex items-center justify-end gap-3 mt-4">
+        <Button
+          type="button"
+          variant="outline"
+          className="gap-2"
+          onClick={loadEntries}
+          disabled={isLoading}
+        >
+          <RefreshCw className="h-4 w-4" />
+          Refresh
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          className="gap-2"
+          onClick={handleClear}
+          disabled={isLoading || entries.length === 0}
+        >
+          <Trash2 className="h-4 w-4" />
+          Clear cache
+        </Button>
+      </div>
+    </section>
+  )
+}
+
+export default RequestCachePanel
@@ -0,0 +1,42 @@
+import { useCallback } from 'react'
+import type { PriceHistory, PriceObservation } from '../types/priceHistory'
+import { usePersistentState } from '../utils/storage'
+import { addPriceObservation } from '../utils/priceHistory'
+
+// localStorage key of the observed route prices
+const STORAGE_KEY = 'price-history'
+
+// Stable empty list for routes without observations
+const NO_OBSERVATIONS: PriceObservation[] = []
+
+/**
+ * Price history hook result
+ */
+interface PriceHistoryResult {
+  observations: PriceObservation[]
+  recordObservation: (observation: PriceObservation) => void
+}
+
+/**
+ * Custom hook for the locally recorded lowest fares of a route
+ * Observations are kept in localStorage and in sync across tabs
+ * @param routeKey - Route key (see getPriceHistoryRouteKey), or null when there is no route
+ * @returns Observations of the route, oldest first, and an action to record a new one
+ */
+export function usePriceHistory(routeKey: string | null): PriceHistoryResult {
+  const [history, setHistory] = usePersistentState<PriceHistory>(STORAGE_KEY, {})
+
+  // An observation already recorded leaves the history (and storage) unchanged
+  const recordObservation = useCallback(
+    (observation: PriceObservation) => {
+      if (!routeKey) return
+      setHistory(prev => addPriceObservation(prev, routeKey, observation))
+    },
+    [routeKey, setHistory]
+  )
+
+  return {
+    observations: (routeKey && history[routeKey]) || NO_OBSERVATIONS,
+    recordObservation,
+  }
+}
@@ -0,0 +1,61 @@
+import { useCallback } from 'react'
+import type { Airport } from '../types/airport'
+import type { FlightSearchParams } from '../types/flight'
+import type { RecentSearch } from '../types/recentSearch'
+import { usePersistentState } from '../utils/storage'
+import { addRecentSearch, getRecentSearchId } from '../utils/recentSearches'
+
+// localStorage key of the search history
+const STORAGE_KEY = 'recent-searches'
+
+/**
+ * Recent searches hook result
+ */
+interface RecentSearchesResult {
+  recentSearches: RecentSearch[]
+  addSearch: (
+    params: FlightSearchParams,
+    airports: { from: Airport | null; to: Airport | null },
+    replaceId?: string
+  ) => void
+  clearSearches: () => void
+}
+
+/**
+ * Custom hook for the persisted history of submitted searches
+ * Keeps the last searches (with their selected airports) in localStorage and in sync across tabs
+ * @returns Recent searches, newest first, with actions to add a search and clear the history
+ */
+export function useRecentSearches(): RecentSearchesResult {
+  const [recentSearches, updateSearches] = usePersistentState<RecentSearch[]>(STORAGE_KEY, [])
+
+  // replaceId drops the entry a re-run came from (its dates may have been refreshed)
+  const addSearch = useCallback(
+    (
+      params: FlightSearchParams,
+      airports: { from: Airport | null; to: Airport | null },
+      replaceId?: string
+    ) => {
+      const search: RecentSearch = {
+        id: getRecentSearchId(params),
+        params,
+        fromAirport: airports.from,
+        toAirport: airports.to,
+        searchedAt: Date.now(),
+      }
+      updateSearches(prev =>
+        addRecentSearch(
+          prev.filter(entry => entry.id !== replaceId),
+          search
+        )
+      )
+    },
+    [updateSearches]
+  )
+
+  const clearSearches = useCallback(() => {
+    updateSearches(() => [])
+  }, [updateSearches])
+
+  return { recentSearches, addSearch, clearSearches }
+}
@@ -4,31 +4,12 @@ import DealCard from '../components/DealCard'
 import { featuredDeals } from '../data/deals'
 import type { Deal } from '../types/flight'
 import { getFutureDate } from '../utils/formatDate'
+import { buildSearchQuery } from '../utils/searchUrl'
+import { searchAirports } from '../utils/airportSearch'
+import { toAirport } from '../data/airports'
+import { usePreferences } from '../context/PreferencesContext'
 import { Tag, Sparkles } from 'lucide-react'
 
-/**
- * City to Airport mapping for deals
- * Maps city names to airport information for deals navigation
- * This avoids API calls when clicking deals and prevents rate limits
- */
-const cityToAirportMap: Record<
-  string,
-  { iata: string; skyId: string; entityId: string; city: string }
-> = {
-  'New York': { iata: 'JFK', skyId: 'JFK', entityId: '95565058', city: 'New York' },
-  Paris: { iata: 'CDG', skyId: 'CDG', entityId: '95565061', city: 'Paris' },
-  'Los Angeles': { iata: 'LAX', skyId: 'LAX', entityId: '95565060', city: 'Los Angeles' },
-  Tokyo: { iata: 'NRT', skyId: 'NRT', entityId: '95565062', city: 'Tokyo' },
-  Chicago: { iata: 'ORD', skyId: 'ORD', entityId: '95565066', city: 'Chicago' },
-  London: { iata: 'LHR', skyId: 'LHR', entityId: '95565059', city: 'London' },
-  Miami: { iata: 'MIA', skyId: 'MIA', entityId: '95565068', city: 'Miami' },
-  Barcelona: { iata: 'BCN', skyId: 'BCN', entityId: '95565067', city: 'Barcelona' },
-  'San Francisco': { iata: 'SFO', skyId: 'SFO', entityId: '95565069', city: 'San Francisco' },
-  Dubai: { iata: 'DXB', skyId: 'DXB', entityId: '95565063', city: 'Dubai' },
-  Boston: { iata: 'BOS', skyId: 'BOS', entityId: '95565070', city: 'Boston' },
-  Rome: { iata: 'FCO', skyId: 'FCO', entityId: '95565071', city: 'Rome' },
-}
-
 /**
  * Deals page displaying featured flight deals
  * Includes category filter and deal cards with navigation
@@ -36,6 +17,7 @@ const cityToAirportMap: Record<
  */
 function Deals() {
   const navigate = useNavigate()
+  const { preferences, marketParams } = usePreferences()
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null)
 
   const categories = [
@@ -54,34 +36,30 @@ function Deals() {
   const handleSelectDeal = (dealId: string) => {
     const deal = featuredDeals.find(d => d.id === dealId)
     if (deal) {
-      // Get airport info from city mapping (no API call needed - avoids rate limits)
-      const originAirport = cityToAirportMap[deal.origin]
-      const destAirport = cityToAirportMap[deal.destination]
+      // Resolve each city's main airport from the bundled dataset (no API call - avoids rate limits)
+      const originRecord = searchAirports(deal.origin, 1)[0]
+      const destRecord = searchAirports(deal.destination, 1)[0]
+      const originAirport = originRecord ? toAirport(originRecord) : undefined
+      const destAirport = destRecord ? toAirport(destRecord) : undefined
 
       // Navigate to search with deal parameters pre-filled
       // Default departure date: 7 days from now for deals
-      // This will trigger a search automatically via the Results page useEffect
-      navigate('/flights', {
-        state: {
-          searchParams: {
-            from: originAirport ? `${originAirport.city} (${originAirport.iata})` : deal.origin,
-            to: destAirport ? `${destAirport.city} (${destAirport.iata})` : deal.destination,
-            departure: getFutureDate(7),
-            return: '',
-            passengers: '1',
-            cabinClass: 'economy',
-            tripType: 'round-trip',
-            // Add API required parameters if airports found
-            originSkyId: originAirport?.skyId,
-            destinationSkyId: destAirport?.skyId,
-            originEntityId: originAirport?.entityId,
-            destinationEntityId: destAirport?.entityId,
-            // Add deal context for potential special handling
-            dealId: deal.id,
-            dealPrice: deal.discountedPrice,
-          },
-        },
+      // This will trigger a search automatically via the Results page URL handling
+      const query = buildSearchQuery({
+        from: originAirport ? `${originAirport.city} (${originAirport.iata})` : deal.origin,
+        to: destAirport ? `${destAirport.city} (${destAirport.iata})` : deal.destination,
+        departure: getFutureDate(7),
+        passengers: '1',
+        cabinClass: preferences.defaultCabinClass,
+        tripType: 'one-way',
+        // Add API required parameters if airports found
+        originSkyId: originAirport?.skyId,
+        destinationSkyId: destAirport?.skyId,
+        originEntityId: originAirport?.entityId,
+        destinationEntityId: destAirport?.entityId,
+        ...marketParams,
       })
+      navigate(`/flights?${query}`)
       // Removed toast - navigation and context will handle feedback
     }
   }
@@ -1,17 +1,29 @@
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { useParams, useNavigate, useLocation } from 'react-router-dom'
-import { ArrowLeft, Clock, Plane, MapPin, Briefcase, Luggage } from 'lucide-react'
+import { ArrowLeft, Bookmark, Clock, Plane, MapPin, Briefcase, Luggage } from 'lucide-react'
 import { Button, Loader, HeroBackground } from '../components/common'
 import { formatPrice } from '../utils/formatPrice'
+import { isOvernightLayover } from '../utils/layovers'
 import { formatDate } from '../utils/formatDate'
+import { isAbortError } from '../utils/apiRetry'
+import { formatStops, getLegLabel } from '../utils/formatLeg'
+import { getLocalDate } from '../utils/airportTime'
+import {
+  getPassengerCounts,
+  getPassengerRequestParams,
+  getSeatedPassengers,
+} from '../utils/passengers'
+import FlightTime from '../components/FlightTime'
+import PriceBreakdown from '../components/PriceBreakdown'
 import { getFlightDetails } from '../services/flightApi'
-import type { Flight } from '../types/flight'
+import type { Flight, FlightSearchParams } from '../types/flight'
 import toast from 'react-hot-toast'
-import { useStrictModeDeduplication } from '../hooks/useStrictModeDeduplication'
+import { useSavedTrips } from '../context/SavedTripsContext'
 
 /**
  * Flight details page displaying comprehensive flight information
- * Shows itinerary, duration, pricing, baggage, and booking options
+ * Shows itinerary (outbound/return legs and their segments), duration, pricing, baggage,
+ * and booking options
  * @returns Flight details page with hero background and detailed information
  */
 function FlightDetails() {
@@ -21,26 +33,38 @@ function FlightDetails() {
   const [flight, setFlight] = useState<Flight | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const { isSaved, toggleSaved } = useSavedTrips()
 
-  // Use hook to prevent duplicate fetches in StrictMode
-  const { shouldExecute, markExecuted } = useStrictModeDeduplication()
+  // Saving needs the search the flight came from (missing when the page is opened directly)
+  const stateSearch = location.state?.searchParams as FlightSearchParams | undefined
+  const originSearch =
+    stateSearch?.from && stateSearch.to && stateSearch.departure ? stateSearch : null
+
+  // Fares are per person; the total covers every traveller with a seat
+  const passengerCounts = getPassengerCounts(stateSearch || {})
+  const seatedPassengers = getSeatedPassengers(passengerCounts)
+  const hasSeveralPassengers = seatedPassengers > 1 || passengerCounts.infantsOnLap > 0
+
+  // Flight whose details were requested, so re-runs of the effect don't fetch them again
+  const requestedIdRef = useRef<string | null>(null)
 
   useEffect(() => {
-    const fetchFlightDetails = async () => {
-      if (!id) {
-        setError('Flight ID is required')
-        setIsLoading(false)
-        return
-      }
+    if (!id) {
+      setError('Flight ID is required')
+      setIsLoading(false)
+      return
+    }
 
-      // Prevent duplicate fetches from StrictMode double mounting
-      if (!shouldExecute(id)) {
-        return
-      }
+    // Already fetching (or fetched) this flight
+    if (requestedIdRef.current === id) {
+      return
+    }
+    requestedIdRef.current = id
 
-      // Mark as fetched
-      markExecuted(id)
+    const controller = new AbortController()
+    let settled = false
 
+    const fetchFlightDetails = async () => {
       setIsLoading(true)
       setError(null)
 
@@ -48,9 +72,46 @@ function FlightDetails() {
         // Get flight object and search params from location state
         const flightFromState = location.state?.flight
         const searchParams = location.state?.searchParams
+        // Travellers by fare type, in the API's terms (adults, childrens, infants)
+        const passengerRequestParams = getPassengerRequestParams(
+          getPassengerCounts(searchParams || {})
+        )
+
+        // Priority 1a: Multi-city itineraries carry their own legs
+        const itineraryLegs = (flightFromState?.legs as Flight['legs']) || []
+        const isMultiCity = itineraryLegs.length > 1 && itineraryLegs.every(leg => !leg.direction)
+        if (
+          isMultiCity &&
+          itineraryLegs.every(leg => leg.originSkyId && leg.destinationSkyId && leg.date)
+        ) {
+          const flightDetails = await getFlightDetails(
+            itineraryLegs.map(leg => ({
+              origin: leg.originSkyId as string,
+              destination: leg.destinationSkyId as string,
+              date: leg.date as string,
+            })),
+            {
+              ...passengerRequestParams,
+              currency: searchParams?.currency || 'USD',
+              locale: searchParams?.locale || 'en-US',
+              market: searchParams?.market || 'en-US',
+              cabinClass: searchParams?.cabinClass || 'economy',
+              countryCode: searchParams?.countryCode || 'US',
+            },
+            { signal: controller.signal }
+          )
+
+          if (controller.signal.aborted) return
+          if (flightDetails) {
+            setFlight({ ...flightDetails, legs: flightDetails.legs || itineraryLegs })
+            setIsLoading(false)
+            return
+          }
+        }
 
         // Priority 1: Use flight metadata if available (most reliable) - for API calls
         if (
+          !isMultiCity &&
           flightFromState?.originSkyId &&
           flightFromState?.destinationSkyId &&
           flightFromState?.departureDate
@@ -72,17 +133,23 @@ function FlightDetails() {
             })
           }
 
-          const flightDetails = await getFlightDetails(legs, {
-            adults: parseInt(searchParams?.passengers || '1', 10),
-            currency: searchParams?.currency || 'USD',
-            locale: searchParams?.locale || 'en-US',
-            market: searchParams?.market || 'en-US',
-            cabinClass: searchParams?.cabinClass || 'economy',
-            countryCode: searchParams?.countryCode || 'US',
-          })
+          const flightDetails = await getFlightDetails(
+            legs,
+            {
+              ...passengerRequestParams,
+              currency: searchParams?.currency || 'USD',
+              locale: searchParams?.locale || 'en-US',
+              market: searchParams?.market || 'en-US',
+              cabinClass: searchParams?.cabinClass || 'economy',
+              countryCode: searchParams?.countryCode || 'US',
+            },
+            { signal: controller.signal }
+          )
 
+          if (controller.signal.aborted) return
           if (flightDetails) {
-            setFlight(flightDetails)
+            // Keep the legs from the results if the details response has none
+            setFlight({ ...flightDetails, legs: flightDetails.legs || flightFromState.legs })
             setIsLoading(false)
             return
           }
@@ -111,15 +178,20 @@ function FlightDetails() {
             })
           }
 
-          const flightDetails = await getFlightDetails(legs, {
-            adults: parseInt(searchParams.passengers || '1', 10),
-            currency: searchParams.currency || 'USD',
-            locale: searchParams.locale || 'en-US',
-            market: searchParams.market || 'en-US',
-            cabinClass: searchParams.cabinClass || 'economy',
-            countryCode: searchParams.countryCode || 'US',
-          })
+          const flightDetails = await getFlightDetails(
+            legs,
+            {
+              ...passengerRequestParams,
+              currency: searchParams.currency || 'USD',
+              locale: searchParams.locale || 'en-US',
+              market: searchParams.market || 'en-US',
+              cabinClass: searchParams.cabinClass || 'economy',
+              countryCode: searchParams.countryCode || 'US',
+            },
+            { signal: controller.signal }
+          )
 
+          if (controller.signal.aborted) return
           if (flightDetails) {
             setFlight(flightDetails)
             setIsLoading(false)
@@ -146,17 +218,28 @@ function FlightDetails() {
           )
         }
       } catch (err) {
+        // Left the page or opened another flight
+        if (isAbortError(err)) return
         const errorMessage =
           err instanceof Error ? err.message : 'Failed to load flight details. Please try again.'
         setError(errorMessage)
         toast.error(errorMessage)
       } finally {
-        setIsLoading(false)
+        settled = true
+        if (!controller.signal.aborted) setIsLoading(false)
       }
     }
 
     fetchFlightDetails()
-  }, [id, location.state, shouldExecute, markExecuted])
+
+    // Abort a pending request on unmount or when another flight is opened, so it can run again
+    return () => {
+      if (!settled) {
+        controller.abort()
+        requestedIdRef.current = null
+      }
+    }
+  }, [id, location.state])
 
   const handleBookNow = () => {
     if (flight) {
@@ -236,6 +319,11 @@ function FlightDetails() {
                 <div className="text-right">
                   <p className="text-4xl font-bold mb-1">{formatPrice(flight.price)}</p>
                   <p className="text-sm text-blue-100">per person</p>
+                  {hasSeveralPassengers && (
+                    <p className="text-sm text-blue-100">
+                      {formatPrice(flight.price * seatedPassengers)} total
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -253,7 +341,11 @@ function FlightDetails() {
                     </span>
                   </div>
                   <p className="text-3xl font-bold text-text-dark dark:text-gray-100 mb-2">
-                    {flight.departureTime}
+                    <FlightTime
+                      dateTime={flight.departureTime}
+                      airport={flight.departureAirport}
+                      showTimeZone
+                    />
                   </p>
                   <p className="text-lg text-gray-700 dark:text-gray-300 mb-1">
                     {flight.departureAirport}
@@ -277,12 +369,22 @@ function FlightDetails() {
                     </span>
                   </div>
                   <p className="text-3xl font-bold text-text-dark dark:text-gray-100 mb-2">
-                    {flight.arrivalTime}
+                    <FlightTime
+                      dateTime={flight.arrivalTime}
+                      airport={flight.arrivalAirport}
+                      departureTime={flight.departureTime}
+                      showTimeZone
+                    />
                   </p>
                   <p className="text-lg text-gray-700 dark:text-gray-300 mb-1">
                     {flight.arrivalAirport}
                   </p>
-                  {(flight.returnDate || location.state?.searchParams?.return) &&
+                  {getLocalDate(flight.arrivalTime) ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      {formatDate(getLocalDate(flight.arrivalTime), 'long')}
+                    </p>
+                  ) : (
+                    (flight.returnDate || location.state?.searchParams?.return) &&
                     (location.state?.searchParams?.tripType === 'round-trip' ||
                       location.state?.searchParams?.return) && (
                       <p className="text-sm text-gray-500 dark:text-gray-400">
@@ -291,7 +393,8 @@ function FlightDetails() {
                           'long'
                         )}
                       </p>
-                    )}
+                    )
+                  )}
                 </div>
               </div>
 
@@ -382,6 +485,101 @@ function FlightDetails() {
                   )}
                 </div>
 
+                {/* Itinerary: each leg with its segments */}
+                {flight.legs &&
+                  (flight.legs.length > 1 || flight.legs.some(leg => leg.segments)) && (
+                    <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+                      <h3 className="text-lg font-semibold text-text-dark dark:text-gray-100 mb-4">
+                        Itinerary
+                      </h3>
+                      <ol className="space-y-4">
+                        {flight.legs.map((leg, index) => (
+                          <li
+                            key={`${leg.departureAirport}-${leg.arrivalAirport}-${index}`}
+                            className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4"
+                          >
+                            <p className="font-medium text-text-dark dark:text-gray-100">
+                              {getLegLabel(leg, index)}: {leg.departureAirport} →{' '}
+                              {leg.arrivalAirport}
+                            </p>
+                            <p className="text-sm text-gray-600 dark:text-gray-400">
+                              {leg.date && `${formatDate(leg.date, 'long')} • `}
+                              {leg.departureTime && leg.arrivalTime && (
+                                <>
+                                  <FlightTime
+                                    dateTime={leg.departureTime}
+                                    airport={leg.departureAirport}
+                                  />
+                                  {' - '}
+                                  <FlightTime
+                                    dateTime={leg.arrivalTime}
+                                    airport={leg.arrivalAirport}
+                                    departureTime={leg.departureTime}
+                                  />
+                                  {' • '}
+                                </>
+                              )}
+                              {leg.duration && `${leg.duration} • `}
+                              {formatStops(leg.stops)}
+                              {leg.airline && ` • ${leg.airline}`}
+                            </p>
+
+                            {/* Segments */}
+                            {leg.segments && leg.segments.length > 0 && (
+                              <ol
+                                className="mt-3 space-y-3 border-l-2 border-primary-blue/40 pl-4"
+                                aria-label={`${getLegLabel(leg, index)} segments`}
+                              >
+                                {leg.segments.map((segment, segmentIndex) => (
+                                  <li
+                                    key={`${segment.flightNumber || segment.departureAirport}-${segmentIndex}`}
+                                    className="text-sm"
+                                  >
+                                    <p className="font-medium text-text-dark dark:text-gray-100">
+                                      <FlightTime
+                                        dateTime={segment.departureTime}
+                                        airport={segment.departureAirport}
+                                        showTimeZone
+                                      />{' '}
+                                      {segment.departureAirport}
+                                      {segment.departureTerminal &&
+                                        ` (Terminal ${segment.departureTerminal})`}{' '}
+                                      →{' '}
+                                      <FlightTime
+                                        dateTime={segment.arrivalTime}
+                                        airport={segment.arrivalAirport}
+                                        departureTime={segment.departureTime}
+                                        showTimeZone
+                                      />{' '}
+                                      {segment.arrivalAirport}
+                                      {segment.arrivalTerminal &&
+                                        ` (Terminal ${segment.arrivalTerminal})`}
+                                    </p>
+                                    <p className="text-gray-600 dark:text-gray-400">
+                                      {[
+                                        segment.marketingCarrier,
+                                        segment.flightNumber,
+                                        segment.aircraft,
+                                        segment.duration,
+                                      ]
+                                        .filter(Boolean)
+                                        .join(' • ')}
+                                    </p>
+                                    {segment.operatingCarrier && (
+                                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                                        Operated by {segment.operatingCarrier}
+                                      </p>
+                                    )}
+                                  </li>
+                                ))}
+                              </ol>
+                            )}
+                          </li>
+                        ))}
+                      </ol>
+                    </div>
+                  )}
+
                 {/* Layovers */}
                 {flight.layover && Array.isArray(flight.layover) && flight.layover.length > 0 && (
                   <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
@@ -393,6 +591,11 @@ function FlightDetails() {
                         <div key={index} className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4">
                           <p className="font-medium text-text-dark dark:text-gray-100">
                             {layover.airport}
+                            {isOvernightLayover(layover) && (
+                              <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded bg-indigo-100 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300">
+                                Overnight
+                              </span>
+                            )}
                           </p>
                           <p className="text-sm text-gray-600 dark:text-gray-400">
                             Layover duration: {layover.duration}
@@ -406,21 +609,39 @@ function FlightDetails() {
 
               {/* Booking Button */}
               <div className="mt-8 pt-8 border-t border-gray-200 dark:border-gray-700">
-                <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
-                  <div>
-                    <p className="text-2xl font-bold text-text-dark dark:text-gray-100 mb-1">
-                      {formatPrice(flight.price)}
-                    </p>
-                    <p className="text-sm text-gray-600 dark:text-gray-400">Total per person</p>
+                <div className="flex flex-col sm:flex-row items-center sm:items-end justify-between gap-4">
+                  <div className="w-full sm:max-w-sm">
+                    <PriceBreakdown flight={flight} passengers={passengerCounts} />
+                    {passengerCounts.infantsOnLap > 0 && (
+                      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                        Lap infant fees are charged by the airline at booking
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
+                    {originSearch && (
+                      <Button
+                        onClick={() => toggleSaved(flight, originSearch)}
+                        variant="outline"
+                        size="lg"
+                        className="w-full sm:w-auto gap-2"
+                        aria-pressed={isSaved(flight, originSearch)}
+                      >
+                        <Bookmark
+                          className={`h-5 w-5 ${isSaved(flight, originSearch) ? 'fill-current' : ''}`}
+                        />
+                        {isSaved(flight, originSearch) ? 'Saved' : 'Save'}
+                      </Button>
+                    )}
+                    <Button
+                      onClick={handleBookNow}
+                      variant="primary"
+                      size="lg"
+                      className="w-full sm:w-auto min-w-[200px]"
+                    >
+                      Book Now
+                    </Button>
                   </div>
-                  <Button
-                    onClick={handleBookNow}
-                    variant="primary"
-                    size="lg"
-                    className="w-full sm:w-auto min-w-[200px]"
-                  >
-                    Book Now
-                  </Button>
                 </div>
               </div>
             </div>
@@ -0,0 +1,75 @@
+import { useState } from 'react'
+import { useLocation } from 'react-router-dom'
+import { Bell } from 'lucide-react'
+import type { PriceWatchInput } from '../types/priceWatch'
+import { usePriceWatches } from '../context/PriceWatchContext'
+import PriceWatchForm from '../features/alerts/PriceWatchForm'
+import PriceWatchCard from '../features/alerts/PriceWatchCard'
+
+/**
+ * Price alerts page for creating route watches and following their price history
+ * Accepts a prefilled watch in the navigation state (e.g., from the results page)
+ * @returns Price alerts page with a creation form and one card per watch
+ */
+function PriceAlerts() {
+  const location = useLocation()
+  const { watches, checkingIds, addWatch, removeWatch, checkWatch } = usePriceWatches()
+  const prefill = location.state?.priceWatch as Partial<PriceWatchInput> | undefined
+  // Remount the form after each submit to reset its fields
+  const [formKey, setFormKey] = useState(0)
+
+  const handleSubmit = (input: PriceWatchInput) => {
+    addWatch(input)
+    setFormKey(prev => prev + 1)
+  }
+
+  return (
+    <div className="py-8 md:py-12 bg-gray-50 dark:bg-gray-900 min-h-screen">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 max-w-5xl">
+        {/* Page Header */}
+        <div className="mb-8">
+          <div className="flex items-center gap-2 mb-2">
+            <Bell className="h-8 w-8 text-primary-blue dark:text-blue-400" />
+            <h1 className="text-3xl md:text-4xl font-bold text-text-dark dark:text-gray-100">
+              Price Alerts
+            </h1>
+          </div>
+          <p className="text-gray-600 dark:text-gray-400">
+            Watch a route and get alerted when the lowest fare in your dates drops to your target.
+            Prices are re-checked while the app is open and each time you come back.
+          </p>
+        </div>
+
+        <div className="mb-10">
+          <PriceWatchForm
+            key={formKey}
+            onSubmit={handleSubmit}
+            initialValues={formKey === 0 ? prefill : undefined}
+          />
+        </div>
+
+        {watches.length === 0 ? (
+          <p className="text-center text-gray-600 dark:text-gray-400 py-8">
+            No price alerts yet. Create one above to start tracking a route.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            {[...watches]
+              .sort((a, b) => b.createdAt - a.createdAt)
+              .map(watch => (
+                <PriceWatchCard
+                  key={watch.id}
+                  watch={watch}
+                  isChecking={checkingIds.includes(watch.id)}
+                  onCheck={checkWatch}
+                  onRemove={removeWatch}
+                />
+              ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default PriceAlerts
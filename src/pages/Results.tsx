@@ -1,129 +1,192 @@
 import { useEffect, useState, useMemo } from 'react'
-import { useLocation, useNavigate } from 'react-router-dom'
+import { useNavigate, useSearchParams } from 'react-router-dom'
 import SortBar from '../components/SortBar'
 import { useSearch } from '../context/SearchContext'
 import ResultsList from '../features/results/ResultsList'
+import CompareTray from '../features/results/CompareTray'
+import { useCompare } from '../context/CompareContext'
+import { useSavedTrips } from '../context/SavedTripsContext'
 import FiltersPanel from '../features/results/FiltersPanel'
 import PriceCalendar from '../features/search/PriceCalendar'
-import type { TripType, Flight } from '../types/flight'
-import { formatDate } from '../utils/formatDate'
-import { Filter, Calendar as CalendarIcon } from 'lucide-react'
+import PriceTrendChart from '../features/search/PriceTrendChart'
+import FlexibleDatesMatrix from '../features/results/FlexibleDatesMatrix'
+import type { Flight, FlightSearchParams } from '../types/flight'
+import { addDays, formatDate, getDaysBetween, getTodayDate } from '../utils/formatDate'
+import { calculatePriceRange } from '../utils/calculatePriceRange'
+import { buildResultsQuery, buildSearchQuery, parseSearchQuery } from '../utils/searchUrl'
+import { formatPassengers, getPassengerCounts } from '../utils/passengers'
+import { getPriceHistoryRouteKey } from '../utils/priceHistory'
+import { Bell, Filter, Calendar as CalendarIcon } from 'lucide-react'
 import { useStrictModeDeduplication } from '../hooks/useStrictModeDeduplication'
-
-interface SearchParams {
-  from?: string
-  to?: string
-  departure?: string
-  return?: string
-  passengers?: string
-  cabinClass?: string
-  originSkyId?: string
-  destinationSkyId?: string
-  originEntityId?: string
-  destinationEntityId?: string
-  currency?: string
-  tripType?: TripType
-}
+import { usePriceHistory } from '../hooks/usePriceHistory'
 
 /**
  * Flight results page displaying search results
- * Includes sort bar, filters panel, price calendar, and results list
+ * Search parameters, filters and sorting are read from and mirrored to the URL query string,
+ * so results pages can be refreshed, bookmarked and shared
+ * Includes sort bar, filters panel, price calendar and trend, flexible-date matrix, and results
+ * list; the lowest fare of each search is recorded locally for the route's price trend
  * @returns Results page with filtering, sorting, and flight cards
  */
 function Results() {
-  const location = useLocation()
   const navigate = useNavigate()
-  const locationSearchParams = useMemo(
-    () => (location.state?.searchParams as SearchParams) || {},
-    [location.state]
-  )
+  const [urlSearchParams, setUrlSearchParams] = useSearchParams()
+  const parsedUrl = useMemo(() => parseSearchQuery(urlSearchParams), [urlSearchParams])
   const [showFilters, setShowFilters] = useState(true)
   const [showPriceCalendar, setShowPriceCalendar] = useState(false)
-  const [selectedCalendarDate, setSelectedCalendarDate] = useState<string | undefined>(undefined)
 
   const {
     searchParams,
+    flights,
     isLoading,
     error,
+    searchCompletedAt,
+    filters,
     filteredFlights,
     sortOption,
     setSortOption,
+    sortDirection,
+    setSortDirection,
+    secondarySort,
+    setSecondarySort,
+    bestScoring,
+    setBestScoring,
+    bestScores,
+    priceDisplay,
+    setPriceDisplay,
     performSearch,
-    setFilters,
-    clearFilters,
   } = useSearch()
+  const { compareFlights, isFull: isCompareFull, toggleCompare } = useCompare()
+  const { isSaved, toggleSaved } = useSavedTrips()
+  const passengerCounts = useMemo(
+    () => (searchParams ? getPassengerCounts(searchParams) : undefined),
+    [searchParams]
+  )
 
-  // Handle calendar date selection
-  const handleCalendarDateSelect = (date: string, price: number) => {
-    // Update price filter to match the selected calendar price with a small range
-    const minPrice = Math.max(0, Math.floor(price * 0.95)) // 5% tolerance below
-    const maxPrice = Math.ceil(price * 1.05) // 5% tolerance above
+  const { observations: priceObservations, recordObservation } = usePriceHistory(
+    searchParams ? getPriceHistoryRouteKey(searchParams) : null
+  )
 
-    setSelectedCalendarDate(date)
-    setFilters({
-      priceRange: {
-        min: minPrice,
-        max: maxPrice,
-      },
+  // Record the lowest fare of each completed search for the route's price trend
+  // Keyed on the search's completion time, so showing the same results again (e.g., coming
+  // back from flight details) doesn't record them twice
+  // Sample flights (mock mode, or the API failing over to them) are never recorded
+  useEffect(() => {
+    if (isLoading || !searchParams || !searchCompletedAt) return
+    const liveFlights = flights.filter(f => !f.isMock)
+    if (liveFlights.length === 0) return
+    recordObservation({
+      observedAt: searchCompletedAt,
+      departure: searchParams.departure,
+      price: Math.min(...liveFlights.map(f => f.price)),
     })
+  }, [flights, isLoading, searchParams, searchCompletedAt, recordObservation])
+
+  // Search-only portions of the URL and context, used to detect when a new search is needed
+  const urlSearchKey = parsedUrl.searchParams ? buildSearchQuery(parsedUrl.searchParams) : ''
+  const contextSearchKey = searchParams ? buildSearchQuery(searchParams) : ''
+
+  // Search other dates, keeping the other search parameters, filters (the price range follows
+  // the new results) and sorting
+  // The URL is updated too so the URL-driven search doesn't switch back to the previous dates
+  const searchDates = (departure: string, returnDate?: string) => {
+    if (!searchParams) return
+    const nextParams: FlightSearchParams = { ...searchParams, departure, return: returnDate }
+    performSearch(nextParams, {
+      filters: { ...filters, priceRange: undefined },
+      sortOption,
+      sortDirection,
+      secondarySort,
+    })
+    setUrlSearchParams(buildSearchQuery(nextParams))
   }
 
-  // Wrap clearFilters to also clear calendar selection
-  const handleClearFilters = () => {
-    clearFilters()
-    setSelectedCalendarDate(undefined)
+  // Calendar days move the departure; round trips keep their length
+  const handleCalendarDateSelect = (date: string) => {
+    if (!searchParams) return
+    const returnDate =
+      searchParams.tripType === 'round-trip' && searchParams.return
+        ? addDays(date, getDaysBetween(searchParams.departure, searchParams.return))
+        : undefined
+    searchDates(date, returnDate)
   }
 
   // Use hook to prevent duplicate calls in StrictMode
   const { shouldExecute, markExecuted, reset } = useStrictModeDeduplication()
 
-  // If searchParams exist from location but not in context, trigger search
+  // Drive the search from the URL: run it when the URL describes a different search
   useEffect(() => {
-    // Skip if already searched for these exact params or if we don't have required params
-    if (
-      locationSearchParams.from &&
-      locationSearchParams.to &&
-      locationSearchParams.departure &&
-      (!searchParams || searchParams.from !== locationSearchParams.from)
-    ) {
-      // Create a unique key for this search to prevent duplicates
-      const currentSearchKey = `${locationSearchParams.from}-${locationSearchParams.to}-${locationSearchParams.departure}`
+    const urlParams = parsedUrl.searchParams
+    if (!urlParams) {
+      reset()
+      return
+    }
 
-      // Prevent duplicate searches from StrictMode double mounting
-      if (!shouldExecute(currentSearchKey)) {
-        // Already performed this search, skip
-        return
-      }
+    // Context already holds results for this search (e.g., navigating back from details)
+    if (urlSearchKey === contextSearchKey) {
+      return
+    }
 
-      // Only perform search if we have the required API parameters from SearchForm
-      // The Results page should not be calling performSearch without proper params from SearchForm
-      if (
-        locationSearchParams.originSkyId &&
-        locationSearchParams.destinationSkyId &&
-        locationSearchParams.originEntityId &&
-        locationSearchParams.destinationEntityId
-      ) {
-        const params = {
-          from: locationSearchParams.from,
-          to: locationSearchParams.to,
-          departure: locationSearchParams.departure,
-          return: locationSearchParams.return,
-          passengers: locationSearchParams.passengers || '1',
-          cabinClass: locationSearchParams.cabinClass || 'economy',
-          tripType: (locationSearchParams.return ? 'round-trip' : 'one-way') as TripType,
-          originSkyId: locationSearchParams.originSkyId,
-          destinationSkyId: locationSearchParams.destinationSkyId,
-          originEntityId: locationSearchParams.originEntityId,
-          destinationEntityId: locationSearchParams.destinationEntityId,
-        }
-        performSearch(params)
-        markExecuted(currentSearchKey)
-      }
-    } else {
-      // Reset when params change (user navigates with new search)
-      reset()
+    // Prevent duplicate searches from StrictMode double mounting
+    if (!shouldExecute(urlSearchKey)) {
+      return
     }
-  }, [locationSearchParams, searchParams, performSearch, shouldExecute, markExecuted, reset])
+
+    // Only perform search if the URL carries the API parameters needed to search
+    const hasApiParams =
+      urlParams.tripType === 'multi-city'
+        ? !!urlParams.legs?.every(
+            leg =>
+              leg.originSkyId &&
+              leg.destinationSkyId &&
+              leg.originEntityId &&
+              leg.destinationEntityId
+          )
+        : urlParams.originSkyId &&
+          urlParams.destinationSkyId &&
+          urlParams.originEntityId &&
+          urlParams.destinationEntityId
+    if (hasApiParams) {
+      performSearch(urlParams, {
+        filters: parsedUrl.filters,
+        sortOption: parsedUrl.sortOption,
+        sortDirection: parsedUrl.sortDirection,
+        secondarySort: parsedUrl.secondarySort,
+      })
+      markExecuted(urlSearchKey)
+    }
+  }, [parsedUrl, urlSearchKey, contextSearchKey, performSearch, shouldExecute, markExecuted, reset])
+
+  // Mirror the current search, filters and sorting back into the URL
+  useEffect(() => {
+    if (!searchParams || isLoading) return
+    // The URL describes a different (or incomplete) search - don't overwrite it
+    if (urlSearchKey !== contextSearchKey && urlSearchParams.size > 0) return
+
+    const priceBounds =
+      flights.length > 0 ? calculatePriceRange(flights.map(f => f.price)) : filters.priceRange
+    const nextQuery = buildResultsQuery(
+      searchParams,
+      filters,
+      { option: sortOption, direction: sortDirection, secondary: secondarySort },
+      priceBounds
+    )
+    if (nextQuery !== urlSearchParams.toString()) {
+      setUrlSearchParams(nextQuery, { replace: true })
+    }
+  }, [
+    searchParams,
+    isLoading,
+    flights,
+    filters,
+    sortOption,
+    sortDirection,
+    secondarySort,
+    urlSearchKey,
+    contextSearchKey,
+    urlSearchParams,
+    setUrlSearchParams,
+  ])
 
   const handleSelectFlight = (flight: Flight) => {
     // Navigate to flight details page with flight object and search params
@@ -135,23 +198,38 @@ function Results() {
     })
   }
 
-  // Memoize current params to avoid unnecessary recalculations
-  const currentParams = useMemo(
-    () =>
-      searchParams || {
-        from: locationSearchParams.from,
-        to: locationSearchParams.to,
-        departure: locationSearchParams.departure,
-        return: locationSearchParams.return,
-        passengers: locationSearchParams.passengers,
-        cabinClass: locationSearchParams.cabinClass,
-        tripType: (locationSearchParams.return ? 'round-trip' : 'one-way') as TripType,
+  // Open the price alerts page prefilled with this route, targeting 10% below the cheapest fare
+  const handleCreatePriceAlert = () => {
+    if (!searchParams?.originSkyId || !searchParams.destinationSkyId) return
+    const cheapest = flights.length > 0 ? Math.min(...flights.map(f => f.price)) : 0
+    navigate('/alerts', {
+      state: {
+        priceWatch: {
+          from: searchParams.from,
+          to: searchParams.to,
+          originSkyId: searchParams.originSkyId,
+          destinationSkyId: searchParams.destinationSkyId,
+          originEntityId: searchParams.originEntityId,
+          destinationEntityId: searchParams.destinationEntityId,
+          windowStart: searchParams.departure,
+          windowEnd: searchParams.departure,
+          targetPrice: cheapest > 0 ? Math.floor(cheapest * 0.9) : undefined,
+          currency: searchParams.currency,
+        },
       },
-    [searchParams, locationSearchParams]
-  )
+    })
+  }
+
+  // Prefer the context search; fall back to the URL while the search is starting
+  const currentParams: Partial<FlightSearchParams> = searchParams || parsedUrl.searchParams || {}
 
+  // The price trend starts a week before departure (but not in the past)
+  const weekBeforeDeparture = searchParams?.departure ? addDays(searchParams.departure, -7) : ''
+  const trendFromDate = weekBeforeDeparture > getTodayDate() ? weekBeforeDeparture : getTodayDate()
+
+  // Bottom padding leaves room for the comparison tray pinned to the bottom of the screen
   return (
-    <div className="py-8 md:py-12">
+    <div className={`py-8 md:py-12 ${compareFlights.length > 0 ? 'pb-28 md:pb-28' : ''}`}>
       <div className="container mx-auto px-4 sm:px-6 lg:px-8 max-w-7xl">
         {/* Page Header */}
         <div className="mb-8">
@@ -160,8 +238,9 @@ function Results() {
               Flight Results
             </h1>
             <div className="flex items-center gap-2">
-              {/* Price Calendar Toggle */}
-              {searchParams?.originSkyId &&
+              {/* Price Calendar Toggle (single-route searches only) */}
+              {searchParams?.tripType !== 'multi-city' &&
+                searchParams?.originSkyId &&
                 searchParams?.destinationSkyId &&
                 searchParams?.departure && (
                   <button
@@ -175,6 +254,19 @@ function Results() {
                     </span>
                   </button>
                 )}
+              {/* Price Alert (single-route searches only) */}
+              {searchParams?.tripType !== 'multi-city' &&
+                searchParams?.originSkyId &&
+                searchParams?.destinationSkyId && (
+                  <button
+                    onClick={handleCreatePriceAlert}
+                    className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-text-dark dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-primary-blue focus:ring-offset-2 dark:focus:ring-offset-gray-900 transition-colors"
+                    aria-label="Create price alert for this route"
+                  >
+                    <Bell className="h-5 w-5" />
+                    <span className="hidden sm:inline">Price Alert</span>
+                  </button>
+                )}
               {/* Mobile Filter Toggle */}
               <button
                 onClick={() => setShowFilters(!showFilters)}
@@ -197,11 +289,19 @@ function Results() {
             ) : (
               <p className="mb-1">
                 {filteredFlights.length} flight{filteredFlights.length !== 1 ? 's' : ''} found
-                {currentParams.from && currentParams.to && (
+                {currentParams.legs && currentParams.legs.length > 0 ? (
                   <span>
                     {' '}
-                    from {currentParams.from} to {currentParams.to}
+                    for {[...currentParams.legs.map(leg => leg.from), currentParams.to].join(' → ')}
                   </span>
+                ) : (
+                  currentParams.from &&
+                  currentParams.to && (
+                    <span>
+                      {' '}
+                      from {currentParams.from} to {currentParams.to}
+                    </span>
+                  )
                 )}
               </p>
             )}
@@ -212,11 +312,7 @@ function Results() {
                   Departure: {formatDate(currentParams.departure)}
                   {currentParams.return && <> • Return: {formatDate(currentParams.return)}</>}
                   {currentParams.passengers && (
-                    <span>
-                      {' '}
-                      • {currentParams.passengers}{' '}
-                      {currentParams.passengers === '1' ? 'passenger' : 'passengers'}
-                    </span>
+                    <span> • {formatPassengers(getPassengerCounts(currentParams))}</span>
                   )}
                   {currentParams.cabinClass && (
                     <span>
@@ -236,43 +332,94 @@ function Results() {
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
           {/* Filters Panel - Desktop: Always visible, Mobile: Toggle */}
           <div className={`${showFilters ? 'block' : 'hidden'} lg:block lg:col-span-1`}>
-            <FiltersPanel clearFiltersOverride={handleClearFilters} />
+            <FiltersPanel />
           </div>
 
           {/* Results Section */}
           <div className="lg:col-span-3">
             {/* Price Calendar - Toggleable */}
             {showPriceCalendar &&
+              searchParams?.tripType !== 'multi-city' &&
               searchParams?.originSkyId &&
               searchParams?.destinationSkyId &&
               searchParams?.departure && (
-                <div className="mb-6">
+                <div className="mb-6 grid grid-cols-1 xl:grid-cols-2 gap-6">
                   <PriceCalendar
+                    key={`${searchParams.originSkyId}-${searchParams.destinationSkyId}-${searchParams.currency}`}
                     originSkyId={searchParams.originSkyId}
                     destinationSkyId={searchParams.destinationSkyId}
                     fromDate={searchParams.departure}
                     currency={searchParams.currency || 'USD'}
                     onDateSelect={handleCalendarDateSelect}
-                    selectedDate={selectedCalendarDate}
+                    selectedDate={searchParams.departure}
+                  />
+                  <PriceTrendChart
+                    originSkyId={searchParams.originSkyId}
+                    destinationSkyId={searchParams.destinationSkyId}
+                    fromDate={trendFromDate}
+                    currency={searchParams.currency || 'USD'}
+                    selectedDate={searchParams.departure}
+                    observations={priceObservations}
+                  />
+                </div>
+              )}
+
+            {/* Flexible-date matrix (searches made with flexible dates) */}
+            {searchParams?.flexibleDays &&
+              searchParams.tripType !== 'multi-city' &&
+              searchParams.originSkyId &&
+              searchParams.destinationSkyId && (
+                <div className="mb-6">
+                  <FlexibleDatesMatrix
+                    originSkyId={searchParams.originSkyId}
+                    destinationSkyId={searchParams.destinationSkyId}
+                    departure={searchParams.departure}
+                    returnDate={
+                      searchParams.tripType === 'round-trip' ? searchParams.return : undefined
+                    }
+                    flexibleDays={searchParams.flexibleDays}
+                    currency={searchParams.currency || 'USD'}
+                    onSelect={searchDates}
                   />
                 </div>
               )}
 
             {/* Sort Bar */}
             {!isLoading && filteredFlights.length > 0 && (
-              <SortBar activeSort={sortOption} onSortChange={setSortOption} />
+              <SortBar
+                activeSort={sortOption}
+                onSortChange={setSortOption}
+                direction={sortDirection}
+                onDirectionChange={setSortDirection}
+                secondarySort={secondarySort}
+                onSecondarySortChange={setSecondarySort}
+                bestScoring={bestScoring}
+                onBestScoringChange={setBestScoring}
+              />
             )}
 
             {/* Results List */}
             <div className="mt-4">
               <ResultsList
                 flights={filteredFlights}
+                bestScores={sortOption === 'best' ? bestScores : undefined}
                 isLoading={isLoading}
                 error={error}
                 onSelectFlight={handleSelectFlight}
+                comparedFlightIds={compareFlights.map(flight => flight.id)}
+                compareDisabled={isCompareFull}
+                onToggleCompare={toggleCompare}
+                isFlightSaved={searchParams ? flight => isSaved(flight, searchParams) : undefined}
+                onToggleSave={
+                  searchParams ? flight => toggleSaved(flight, searchParams) : undefined
+                }
+                passengers={passengerCounts}
+                priceDisplay={priceDisplay}
+                onPriceDisplayChange={setPriceDisplay}
                 onRetry={() => {
+                  // Retrying asks for current results rather than a cached response
                   if (searchParams) {
-                    performSearch(searchParams)
+                    performSearch(searchParams, undefined, { skipCache: true })
                   }
                 }}
               />
@@ -280,6 +427,8 @@ function Results() {
           </div>
         </div>
       </div>
+
+      <CompareTray onSelectFlight={handleSelectFlight} />
     </div>
   )
 }
@@ -0,0 +1,122 @@
+import { useMemo } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { Bookmark, Search } from 'lucide-react'
+import type { Flight, FlightSearchParams } from '../types/flight'
+import { useSavedTrips } from '../context/SavedTripsContext'
+import SavedFlightItem from '../features/saved/SavedFlightItem'
+import { groupSavedFlights } from '../utils/savedTrips'
+import { buildSearchQuery } from '../utils/searchUrl'
+import { formatDate } from '../utils/formatDate'
+import { formatPassengers, getPassengerCounts } from '../utils/passengers'
+
+/**
+ * Formats the route of a saved search (e.g., "JFK → LHR" or "JFK → LHR → CDG")
+ */
+function formatTripRoute(params: FlightSearchParams): string {
+  if (params.legs && params.legs.length > 0) {
+    return [...params.legs.map(leg => leg.from), params.to].join(' → ')
+  }
+  return `${params.from} → ${params.to}`
+}
+
+/**
+ * Saved trips page listing watched flights grouped by the search they came from
+ * Each flight keeps a note and can re-check its price against a fresh search
+ * @returns Saved trips page with one section per trip
+ */
+function SavedTrips() {
+  const navigate = useNavigate()
+  const { savedFlights, removeSaved, updateNote, recheckPrice } = useSavedTrips()
+  const trips = useMemo(() => groupSavedFlights(savedFlights), [savedFlights])
+
+  const handleSelectFlight = (flight: Flight, searchParams: FlightSearchParams) => {
+    navigate(`/flight/${flight.id}`, { state: { flight, searchParams } })
+  }
+
+  return (
+    <div className="py-8 md:py-12 bg-gray-50 dark:bg-gray-900 min-h-screen">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 max-w-5xl">
+        {/* Page Header */}
+        <div className="mb-8">
+          <div className="flex items-center gap-2 mb-2">
+            <Bookmark className="h-8 w-8 text-primary-blue dark:text-blue-400" />
+            <h1 className="text-3xl md:text-4xl font-bold text-text-dark dark:text-gray-100">
+              Saved Trips
+            </h1>
+          </div>
+          <p className="text-gray-600 dark:text-gray-400">
+            Flights you saved, kept on this device. Re-check a price to see how it has moved.
+          </p>
+        </div>
+
+        {trips.length === 0 ? (
+          <div className="text-center py-12 px-4">
+            <div className="mb-6 flex justify-center">
+              <div className="rounded-full bg-gray-100 dark:bg-gray-800 p-4">
+                <Bookmark
+                  className="h-12 w-12 text-gray-400 dark:text-gray-500"
+                  aria-hidden="true"
+                />
+              </div>
+            </div>
+            <h2 className="text-xl font-semibold text-text-dark dark:text-gray-200 mb-2">
+              No saved trips yet
+            </h2>
+            <p className="text-gray-600 dark:text-gray-400 mb-6">
+              Use the Save button on any flight to keep it here.
+            </p>
+            <Link
+              to="/"
+              className="inline-flex items-center gap-2 px-6 py-3 bg-primary-blue text-white font-medium rounded-lg hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-primary-blue focus:ring-offset-2 transition-colors"
+            >
+              <Search className="h-5 w-5" aria-hidden="true" />
+              Search flights
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-10">
+            {trips.map(trip => (
+              <section key={trip.tripKey} aria-label={formatTripRoute(trip.searchParams)}>
+                <div className="flex items-center justify-between flex-wrap gap-2 mb-4">
+                  <div>
+                    <h2 className="text-xl font-semibold text-text-dark dark:text-gray-100">
+                      {formatTripRoute(trip.searchParams)}
+                    </h2>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {formatDate(trip.searchParams.departure)}
+                      {trip.searchParams.tripType === 'round-trip' &&
+                        trip.searchParams.return &&
+                        ` - ${formatDate(trip.searchParams.return)}`}
+                      {' • '}
+                      {formatPassengers(getPassengerCounts(trip.searchParams))}
+                    </p>
+                  </div>
+                  <Link
+                    to={`/flights?${buildSearchQuery(trip.searchParams)}`}
+                    className="text-sm font-medium text-primary-blue dark:text-blue-400 hover:underline focus:outline-none focus:ring-2 focus:ring-primary-blue rounded"
+                  >
+                    Search again
+                  </Link>
+                </div>
+                <div className="space-y-6">
+                  {trip.flights.map(saved => (
+                    <SavedFlightItem
+                      key={saved.id}
+                      saved={saved}
+                      onSelect={flight => handleSelectFlight(flight, saved.searchParams)}
+                      onRemove={removeSaved}
+                      onNoteChange={updateNote}
+                      onRecheck={recheckPrice}
+                    />
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default SavedTrips
@@ -0,0 +1,62 @@
+import { useState } from 'react'
+import { Settings as SettingsIcon } from 'lucide-react'
+import toast from 'react-hot-toast'
+import type { TravelPreferences } from '../types/preferences'
+import { usePreferences } from '../context/PreferencesContext'
+import PreferencesForm from '../features/settings/PreferencesForm'
+import RequestCachePanel from '../features/settings/RequestCachePanel'
+
+/**
+ * Settings page for editing the traveller's preferences and managing cached API responses
+ * Preferences prefill new searches and pre-filter their results
+ * @returns Settings page with the preferences form and the response cache panel
+ */
+function Settings() {
+  const { preferences, updatePreferences, resetPreferences } = usePreferences()
+  // Remount the form after a reset so it shows the defaults
+  const [formKey, setFormKey] = useState(0)
+
+  const handleSubmit = (next: TravelPreferences) => {
+    updatePreferences(next)
+    toast.success('Preferences saved')
+  }
+
+  const handleReset = () => {
+    resetPreferences()
+    setFormKey(prev => prev + 1)
+    toast.success('Preferences reset to defaults')
+  }
+
+  return (
+    <div className="py-8 md:py-12 bg-gray-50 dark:bg-gray-900 min-h-screen">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 max-w-3xl">
+        {/* Page Header */}
+        <div className="mb-8">
+          <div className="flex items-center gap-2 mb-2">
+            <SettingsIcon className="h-8 w-8 text-primary-blue dark:text-blue-400" />
+            <h1 className="text-3xl md:text-4xl font-bold text-text-dark dark:text-gray-100">
+              Settings
+            </h1>
+          </div>
+          <p className="text-gray-600 dark:text-gray-400">
+            Your travel preferences, kept on this device. They prefill new searches and filter their
+            results.
+          </p>
+        </div>
+
+        <PreferencesForm
+          key={formKey}
+          initialValues={preferences}
+          onSubmit={handleSubmit}
+          onReset={handleReset}
+        />
+
+        <div className="mt-8">
+          <RequestCachePanel />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default Settings
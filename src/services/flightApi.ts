@@ -1,28 +1,58 @@
 import type {
+  FareBreakdown,
   Flight,
+  FlightLeg,
+  FlightSegment,
   FlightSearchParams,
+  Layover,
+  LegDirection,
   PriceCalendarData,
   PriceCalendarDay,
 } from '../types/flight'
 import type {
   Airport,
+  AirportRecord,
   SkyScrapperAirportResponse,
   SkyScrapperAirportItem,
   SkyScrapperNearbyResponse,
 } from '../types/airport'
 import type {
+  ApiRequestOptions,
   ApiResponse,
   RawFlightData,
+  RawLegData,
+  RawSegmentData,
   RawPriceCalendarItem,
   FlightDetailsResponse,
   PriceCalendarResponse,
 } from '../types/api'
 import { handleApiError } from '../utils/handleApiError'
 import { RAPID_API_KEY, RAPID_API_HOST, RAPID_API_BASE_URL } from '../utils/envConfig'
-import { apiRequestWithRetry } from '../utils/apiRetry'
+import { apiRequestWithRetry, isAbortError } from '../utils/apiRetry'
 import { logApiRequest, logApiResponse, logApiError, logger } from '../utils/logger'
 import { extractIATACode } from '../utils/formatAirport'
+import { formatDuration } from '../utils/parseDuration'
+import { getElapsedMinutes, toAirportDateTime } from '../utils/airportTime'
+import { getPassengerCounts, getPassengerRequestParams } from '../utils/passengers'
+import {
+  findAirportsWithinRadius,
+  haversineDistanceKm,
+  searchAirports,
+  searchMetroAreas,
+} from '../utils/airportSearch'
+import {
+  getAirportByIata,
+  getMetroAirports,
+  getMetroArea,
+  metroAreaToAirport,
+  toAirport,
+} from '../data/airports'
 import { withMockFallback, withFallback } from '../utils/withMockFallback'
+import { cachedRequest, getCacheKey } from '../utils/requestCache'
+import { coalesceRequest } from '../utils/inflightRequests'
+
+// Default radius for nearby airport lookups (km)
+export const DEFAULT_NEARBY_RADIUS_KM = 100
 
 /**
  * Converts Sky Scrapper airport item to our Airport interface
@@ -48,15 +78,48 @@ function convertSkyScrapperAirport(item: SkyScrapperAirportItem): Airport {
   }
 }
 
+/**
+ * Checks whether an API response carries data rather than an error
+ * Sky Scrapper reports some failures in a 200 response with `status: false`
+ */
+function isSuccessfulResponse(data: unknown): boolean {
+  return !(data && typeof data === 'object' && 'status' in data && data.status === false)
+}
+
+/**
+ * Checks whether an API response may be cached
+ * Failed responses and empty result sets (often transient, e.g., fares still being priced)
+ * are fetched again rather than reused until they expire
+ */
+function isCacheableResponse(data: unknown): boolean {
+  if (!isSuccessfulResponse(data)) return false
+
+  const payload = data && typeof data === 'object' && 'data' in data ? data.data : data
+  if (Array.isArray(payload)) return payload.length > 0
+  if (payload && typeof payload === 'object') {
+    const lists = ['data', 'flights', 'itineraries', 'calendar'] as const
+    const list = lists
+      .map(key => (key in payload ? (payload as Record<string, unknown>)[key] : undefined))
+      .find(Array.isArray)
+    return list ? list.length > 0 : true
+  }
+  return payload !== null && payload !== undefined
+}
+
 /**
  * Makes a request to the RapidAPI Sky-Scrapper API
+ * Responses are cached per endpoint and query (see utils/requestCache), so repeated requests
+ * don't use up the API quota, and identical concurrent requests share one fetch
  * @param endpoint - API endpoint path
  * @param params - Query parameters
+ * @param options - Abort signal (the shared fetch is aborted once every caller has aborted)
+ * and skipCache to fetch a current response, which is cached for later requests
  * @returns Promise with API response data
  */
 async function apiRequest<T>(
   endpoint: string,
-  params?: Record<string, string | number>
+  params?: Record<string, string | number>,
+  { signal, skipCache = false }: ApiRequestOptions = {}
 ): Promise<T> {
   // Check if API key exists before making request
   if (!RAPID_API_KEY) {
@@ -69,7 +132,35 @@ async function apiRequest<T>(
 
   // Ensure endpoint starts with / if not already present
   const apiEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`
-  const url = new URL(`${RAPID_API_BASE_URL}${apiEndpoint}`)
+
+  // Cache bypasses only share requests with other bypasses, which also skip the cache
+  const cacheKey = getCacheKey(apiEndpoint, params)
+  return coalesceRequest(
+    skipCache ? `refresh:${cacheKey}` : cacheKey,
+    sharedSignal =>
+      cachedRequest(
+        apiEndpoint,
+        params,
+        fetchSignal => fetchApi<T>(apiEndpoint, params, fetchSignal),
+        { isCacheable: isCacheableResponse, signal: sharedSignal, skipCache }
+      ),
+    signal
+  )
+}
+
+/**
+ * Sends a request to the API, with retries on server errors
+ * @param endpoint - API endpoint path starting with "/"
+ * @param params - Query parameters
+ * @param signal - Abort signal of the request
+ * @returns Promise with API response data
+ */
+async function fetchApi<T>(
+  endpoint: string,
+  params?: Record<string, string | number>,
+  signal?: AbortSignal
+): Promise<T> {
+  const url = new URL(`${RAPID_API_BASE_URL}${endpoint}`)
 
   // Add query parameters if provided
   if (params) {
@@ -88,26 +179,30 @@ async function apiRequest<T>(
 
   // Use retry logic for API requests
   try {
-    const data = await apiRequestWithRetry(async () => {
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: {
-          'x-rapidapi-key': RAPID_API_KEY,
-          'x-rapidapi-host': RAPID_API_HOST,
-        },
-      })
+    const data = await apiRequestWithRetry(
+      async requestSignal => {
+        const response = await fetch(url.toString(), {
+          method: 'GET',
+          signal: requestSignal,
+          headers: {
+            'x-rapidapi-key': RAPID_API_KEY,
+            'x-rapidapi-host': RAPID_API_HOST,
+          },
+        })
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}))
-        const error = new Error(
-          errorData.message || `API request failed: ${response.status} ${response.statusText}`
-        ) as Error & { status?: number }
-        error.status = response.status
-        throw error
-      }
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}))
+          const error = new Error(
+            errorData.message || `API request failed: ${response.status} ${response.statusText}`
+          ) as Error & { status?: number }
+          error.status = response.status
+          throw error
+        }
 
-      return await response.json()
-    })
+        return await response.json()
+      },
+      { signal }
+    )
 
     // Log successful API response (dev mode only)
     const responseTime = Date.now() - requestStartTime
@@ -119,6 +214,11 @@ async function apiRequest<T>(
 
     return data as T
   } catch (error) {
+    // Aborted on purpose, not an API error
+    if (isAbortError(error)) {
+      throw error
+    }
+
     // Log API error (dev mode only)
     logApiError(endpoint, error, params)
 
@@ -133,206 +233,63 @@ async function apiRequest<T>(
   }
 }
 
-/**
- * Searches for airports and cities based on query string
- * @param query - Search query (airport name, city, IATA code, etc.)
- * @returns Promise with array of matching airports
- */
 /**
  * Helper function to get mock airports and filter them by query
+ * Searches the bundled airport dataset, so any airport or multi-airport city in it can be
+ * autocompleted offline
  * Extracted to be reusable for both no-API-key scenario and API fallback
  */
 function getMockAirportsFiltered(query: string): Airport[] {
-  const mockAirports: Airport[] = [
-    {
-      iata: 'JFK',
-      skyId: 'JFK',
-      entityId: '95565058',
-      name: 'John F. Kennedy International',
-      city: 'New York',
-      country: 'United States',
-      entityType: 'AIRPORT',
-    },
-    {
-      iata: 'LAX',
-      skyId: 'LAX',
-      entityId: '95565060',
-      name: 'Los Angeles International',
-      city: 'Los Angeles',
-      country: 'United States',
-      entityType: 'AIRPORT',
-    },
-    {
-      iata: 'LHR',
-      skyId: 'LHR',
-      entityId: '95565059',
-      name: 'London Heathrow',
-      city: 'London',
-      country: 'United Kingdom',
-      entityType: 'AIRPORT',
-    },
-    {
-      iata: 'CDG',
-      skyId: 'CDG',
-      entityId: '95565061',
-      name: 'Charles de Gaulle',
-      city: 'Paris',
-      country: 'France',
-      entityType: 'AIRPORT',
-    },
-    {
-      iata: 'NRT',
-      skyId: 'NRT',
-      entityId: '95565062',
-      name: 'Narita International',
-      city: 'Tokyo',
-      country: 'Japan',
-      entityType: 'AIRPORT',
-    },
-    {
-      iata: 'DXB',
-      skyId: 'DXB',
-      entityId: '95565063',
-      name: 'Dubai International',
-      city: 'Dubai',
-      country: 'United Arab Emirates',
-      entityType: 'AIRPORT',
-    },
-    {
-      iata: 'SIN',
-      skyId: 'SIN',
-      entityId: '95565064',
-      name: 'Singapore Changi',
-      city: 'Singapore',
-      country: 'Singapore',
-      entityType: 'AIRPORT',
-    },
-    {
-      iata: 'FRA',
-      skyId: 'FRA',
-      entityId: '95565065',
-      name: 'Frankfurt Airport',
-      city: 'Frankfurt',
-      country: 'Germany',
-      entityType: 'AIRPORT',
-    },
-    {
-      iata: 'ORD',
-      skyId: 'ORD',
-      entityId: '95565066',
-      name: "Chicago O'Hare International",
-      city: 'Chicago',
-      country: 'United States',
-      entityType: 'AIRPORT',
-    },
-    {
-      iata: 'BCN',
-      skyId: 'BCN',
-      entityId: '95565067',
-      name: 'Barcelona El Prat',
-      city: 'Barcelona',
-      country: 'Spain',
-      entityType: 'AIRPORT',
-    },
-    {
-      iata: 'MIA',
-      skyId: 'MIA',
-      entityId: '95565068',
-      name: 'Miami International',
-      city: 'Miami',
-      country: 'United States',
-      entityType: 'AIRPORT',
-    },
-    {
-      iata: 'SFO',
-      skyId: 'SFO',
-      entityId: '95565069',
-      name: 'San Francisco International',
-      city: 'San Francisco',
-      country: 'United States',
-      entityType: 'AIRPORT',
-    },
-    {
-      iata: 'BOS',
-      skyId: 'BOS',
-      entityId: '95565070',
-      name: 'Boston Logan International',
-      city: 'Boston',
-      country: 'United States',
-      entityType: 'AIRPORT',
-    },
-    {
-      iata: 'FCO',
-      skyId: 'FCO',
-      entityId: '95565071',
-      name: 'Rome Fiumicino',
-      city: 'Rome',
-      country: 'Italy',
-      entityType: 'AIRPORT',
-    },
+  // Multi-airport cities are offered first as "all airports" CITY entities
+  const filtered = [
+    ...searchMetroAreas(query).map(metroAreaToAirport),
+    ...searchAirports(query).map(toAirport),
   ]
 
-  // Filter airports based on query
-  const queryLower = query.toLowerCase().trim()
-
-  // If query matches format like "City (IATA)", extract city and IATA
-  const iataMatch = query.match(/\(([A-Z]{3})\)/i)
-  const extractedIATA = iataMatch ? iataMatch[1].toUpperCase() : null
-  const cityName = query
-    .replace(/\([^)]*\)/g, '')
-    .trim()
-    .toLowerCase()
-
-  const filtered = mockAirports.filter(airport => {
-    // Priority 1: Match by IATA if extracted (exact match)
-    if (extractedIATA && airport.iata?.toUpperCase() === extractedIATA) {
-      return true
-    }
-
-    // Priority 2: Match by city name (exact or contains)
-    if (cityName && airport.city.toLowerCase().includes(cityName)) {
-      return true
-    }
-
-    // Priority 3: Match by city name from the full display format
-    if (queryLower.includes(airport.city.toLowerCase())) {
-      return true
-    }
-
-    // Priority 4: Match by airport name
-    if (airport.name.toLowerCase().includes(queryLower)) {
-      return true
-    }
-
-    // Priority 5: Match by IATA code in the query
-    if (airport.iata && queryLower.includes(airport.iata.toLowerCase())) {
-      return true
-    }
-
-    // Priority 6: Match by country
-    if (airport.country.toLowerCase().includes(queryLower)) {
-      return true
-    }
-
-    return false
-  })
-
   // Log mock airport search (dev mode only)
   logger.debug('searchAirport', 'Mock airport search', {
     query,
-    extractedIATA,
-    cityName,
     found: filtered.length,
   })
 
   return filtered
 }
 
+/**
+ * Fetches the airports and cities matching a query from the API
+ * @param query - Search query (airport name, city, IATA code, etc.)
+ * @param options - Abort signal and cache bypass
+ * @returns Matching Sky Scrapper items
+ * @throws Error if the request fails or returns no items
+ */
+async function fetchAirportItems(
+  query: string,
+  options: ApiRequestOptions = {}
+): Promise<SkyScrapperAirportItem[]> {
+  // Sky Scrapper API endpoint: api/v1/flights/searchAirport
+  const response = await apiRequest<SkyScrapperAirportResponse>(
+    '/v1/flights/searchAirport',
+    {
+      query: query.trim(),
+      locale: 'en-US', // Default locale
+    },
+    options
+  )
+
+  if (response.data && Array.isArray(response.data) && response.data.length > 0) {
+    return response.data
+  }
+
+  // If API returns empty data, throw so the caller falls back
+  throw new Error('Empty API response')
+}
+
 /**
  * Searches for airports and cities based on query string
  * Uses Sky Scrapper API /v1/flights/searchAirport endpoint
  * Falls back to mock data if API key is not configured or API fails
  * @param query - Search query (airport name, city, IATA code, etc.)
+ * @param options - Abort signal (e.g., to cancel when the query changes) and cache bypass
  * @returns Promise with array of matching airports (empty array if query is empty)
  * @example
  * ```typescript
@@ -340,37 +297,230 @@ function getMockAirportsFiltered(query: string): Airport[] {
  * // Returns airports matching "JFK" (John F. Kennedy International)
  * ```
  */
-export async function searchAirport(query: string): Promise<Airport[]> {
+export async function searchAirport(
+  query: string,
+  options: ApiRequestOptions = {}
+): Promise<Airport[]> {
   if (!query || query.trim().length === 0) {
     return []
   }
 
   return withMockFallback(
     async () => {
-      // Sky Scrapper API endpoint: api/v1/flights/searchAirport
-      const response = await apiRequest<SkyScrapperAirportResponse>('/v1/flights/searchAirport', {
-        query: query.trim(),
-        locale: 'en-US', // Default locale
-      })
-
       // Convert Sky Scrapper airport items to our Airport interface
-      if (response.data && Array.isArray(response.data) && response.data.length > 0) {
-        return response.data.map(convertSkyScrapperAirport)
-      }
-
-      // If API returns empty data, throw to trigger fallback
-      throw new Error('Empty API response')
+      const items = await fetchAirportItems(query, options)
+      return items.map(convertSkyScrapperAirport)
     },
     () => getMockAirportsFiltered(query),
-    'searchAirport'
+    'searchAirport',
+    options.signal
   )
 }
 
+/**
+ * Combines a legacy "HH:MM" time with its date so it can be zoned ("2025-05-01T22:15")
+ * Values that are already datetimes, or have no date, are returned unchanged
+ */
+function withDate(time?: string, date?: string): string | undefined {
+  return time && date && /^\d{2}:\d{2}/.test(time) ? `${date}T${time}` : time
+}
+
+/**
+ * Minutes between two local ISO datetimes at the same airport (used for layovers)
+ * @returns Minutes, or undefined if either value is missing or not a datetime
+ */
+function minutesBetween(start?: string, end?: string): number | undefined {
+  if (!start || !end) return undefined
+  const diff = (new Date(end).getTime() - new Date(start).getTime()) / 60000
+  return Number.isFinite(diff) && diff >= 0 ? Math.round(diff) : undefined
+}
+
+/**
+ * Reads a segment departure/arrival value, which may be an ISO string or an object
+ */
+function rawSegmentTime(value: RawSegmentData['departure']): string | undefined {
+  return typeof value === 'string' ? value : value?.time
+}
+
+/**
+ * Collapses a list of carrier names into a single label for an itinerary
+ * @returns The carrier name, "Multiple airlines" for mixed carriers, or '' if none
+ */
+function summarizeCarriers(names: (string | undefined)[]): string {
+  const unique = Array.from(new Set(names.filter((name): name is string => !!name)))
+  if (unique.length === 0) return ''
+  return unique.length === 1 ? unique[0] : 'Multiple airlines'
+}
+
+/**
+ * Reads the per-person base fare and taxes/fees of a raw flight
+ * Taxes and fees may come combined or separately; a missing base fare is derived from the price
+ * @param flightData - Raw flight from the API response
+ * @param price - Normalized per-person price
+ * @returns Fare breakdown, or undefined if the API returned neither part
+ */
+function getFareBreakdown(flightData: RawFlightData, price: number): FareBreakdown | undefined {
+  const toAmount = (value?: number | string) => {
+    const amount = parseFloat(String(value ?? ''))
+    return Number.isFinite(amount) && amount >= 0 ? amount : undefined
+  }
+  const taxes = toAmount(flightData.taxes)
+  const fees = toAmount(flightData.fees)
+  const taxesAndFees =
+    toAmount(flightData.taxesAndFees) ??
+    (taxes !== undefined || fees !== undefined ? (taxes ?? 0) + (fees ?? 0) : undefined)
+  const baseFare =
+    toAmount(flightData.baseFare) ??
+    (taxesAndFees !== undefined && price > taxesAndFees ? price - taxesAndFees : undefined)
+
+  if (baseFare === undefined && taxesAndFees === undefined) return undefined
+  return { baseFare, taxesAndFees }
+}
+
+/**
+ * Normalizes a raw segment to our FlightSegment interface
+ * @param segment - Raw segment from the API response
+ * @returns Normalized FlightSegment
+ */
+function normalizeRawSegment(segment: RawSegmentData): FlightSegment {
+  const marketingCarrier = segment.marketingCarrier?.name || segment.airline?.name || ''
+  const operatingCarrier = segment.operatingCarrier?.name
+  const carrierCode =
+    segment.marketingCarrier?.alternateId ||
+    segment.marketingCarrier?.displayCode ||
+    segment.airline?.code
+  const departureAirport =
+    segment.origin?.displayCode ||
+    segment.origin?.code ||
+    (typeof segment.departure === 'object' ? segment.departure.airport : undefined) ||
+    ''
+  const arrivalAirport =
+    segment.destination?.displayCode ||
+    segment.destination?.code ||
+    (typeof segment.arrival === 'object' ? segment.arrival.airport : undefined) ||
+    ''
+  // API times are local to each airport - attach the airport's UTC offset
+  const departureTime = toAirportDateTime(rawSegmentTime(segment.departure), departureAirport)
+  const arrivalTime = toAirportDateTime(rawSegmentTime(segment.arrival), arrivalAirport)
+  const durationMinutes =
+    segment.durationInMinutes ?? segment.duration ?? getElapsedMinutes(departureTime, arrivalTime)
+
+  // Prefix bare flight numbers ("1234") with the marketing carrier code ("AA1234")
+  let flightNumber = segment.flightNumber
+  if (flightNumber && carrierCode && /^\d+$/.test(flightNumber)) {
+    flightNumber = `${carrierCode}${flightNumber}`
+  }
+
+  return {
+    departureAirport,
+    arrivalAirport,
+    departureTime,
+    arrivalTime,
+    duration: durationMinutes ? formatDuration(durationMinutes) : undefined,
+    marketingCarrier,
+    operatingCarrier:
+      operatingCarrier && operatingCarrier !== marketingCarrier ? operatingCarrier : undefined,
+    flightNumber,
+    aircraft: segment.aircraft,
+    departureTerminal: segment.departureTerminal,
+    arrivalTerminal: segment.arrivalTerminal,
+  }
+}
+
+/**
+ * Derives layovers from consecutive segments of a leg
+ * @param segments - Raw segments in travel order
+ * @returns Layover airports with connection time and local arrival/onward departure times
+ * (duration is '' when times are unknown)
+ */
+function getLayoversFromSegments(segments: RawSegmentData[]): Layover[] {
+  return segments.slice(1).map((segment, index) => {
+    const previous = segments[index]
+    const minutes = minutesBetween(
+      rawSegmentTime(previous.arrival),
+      rawSegmentTime(segment.departure)
+    )
+    const onward = normalizeRawSegment(segment)
+    return {
+      airport: onward.departureAirport,
+      duration: minutes !== undefined ? formatDuration(minutes) : '',
+      arrivalTime: normalizeRawSegment(previous).arrivalTime || undefined,
+      departureTime: onward.departureTime || undefined,
+    }
+  })
+}
+
+/**
+ * What the caller already knows about a leg (from the search), used to fill gaps in API data
+ */
+interface LegContext {
+  from?: string
+  to?: string
+  date?: string // ISO date string (YYYY-MM-DD)
+  originSkyId?: string
+  destinationSkyId?: string
+  direction?: LegDirection
+}
+
+/**
+ * Normalizes a raw itinerary leg to our FlightLeg interface
+ * Falls back to the searched leg's airports and date when the API omits leg data
+ * @param rawLeg - Raw leg from the API response (may be undefined)
+ * @param context - The leg that was searched for
+ * @returns Normalized FlightLeg with its segments
+ */
+function normalizeRawLeg(rawLeg: RawLegData | undefined, context: LegContext): FlightLeg {
+  const segments = rawLeg?.segments?.map(normalizeRawSegment) ?? []
+  const firstSegment = segments[0]
+  const lastSegment = segments[segments.length - 1]
+  const departureAirport =
+    rawLeg?.origin?.displayCode ||
+    firstSegment?.departureAirport ||
+    context.originSkyId ||
+    extractIATACode(context.from || '')
+  const arrivalAirport =
+    rawLeg?.destination?.displayCode ||
+    lastSegment?.arrivalAirport ||
+    context.destinationSkyId ||
+    extractIATACode(context.to || '')
+  const departureTime =
+    toAirportDateTime(rawLeg?.departure, departureAirport) || firstSegment?.departureTime || ''
+  const arrivalTime =
+    toAirportDateTime(rawLeg?.arrival, arrivalAirport) || lastSegment?.arrivalTime || ''
+  const durationMinutes =
+    rawLeg?.durationInMinutes ?? rawLeg?.duration ?? getElapsedMinutes(departureTime, arrivalTime)
+  const marketingCarriers = rawLeg?.carriers?.marketing?.map(carrier => carrier.name) ?? []
+  const carrierNames = Array.from(
+    new Set(
+      (marketingCarriers.length > 0
+        ? marketingCarriers
+        : segments.map(segment => segment.marketingCarrier)
+      ).filter(Boolean)
+    )
+  )
+
+  return {
+    departureAirport,
+    arrivalAirport,
+    departureTime,
+    arrivalTime,
+    duration: durationMinutes ? formatDuration(durationMinutes) : '',
+    stops: rawLeg?.stopCount ?? Math.max(0, segments.length - 1),
+    airline: carrierNames.join(', '),
+    date: context.date || rawLeg?.departure?.split('T')[0],
+    originSkyId: context.originSkyId,
+    destinationSkyId: context.destinationSkyId,
+    direction: context.direction,
+    segments: segments.length > 0 ? segments : undefined,
+  }
+}
+
 /**
  * Normalizes a single raw flight object to our Flight interface
- * Handles different API response field names and calculates duration if needed
+ * Builds the Itinerary → Leg → Segment structure from `legs` (or top-level `segments`)
+ * and derives the summary fields from the first leg when the API omits them
  * @param flightData - Raw flight object from API
- * @param options - Optional parameters for normalization (default values, metadata)
+ * @param options - Optional parameters for normalization (default values, metadata, searched legs)
  * @returns Normalized Flight object
  */
 function normalizeFlightObject(
@@ -384,9 +534,44 @@ function normalizeFlightObject(
     departureDate?: string
     returnDate?: string
     cabinClass?: string
+    legs?: LegContext[]
   } = {}
 ): Flight {
   const index = options.index ?? 0
+
+  // Older single-leg shapes carry segments at the top level instead of inside legs
+  const rawLegs = flightData.legs || flightData.itinerary?.legs
+  const legSources: RawLegData[] =
+    rawLegs && rawLegs.length > 0
+      ? rawLegs
+      : flightData.segments && flightData.segments.length > 0
+        ? [{ segments: flightData.segments }]
+        : []
+  const legs = legSources.map((rawLeg, legIndex) =>
+    normalizeRawLeg(rawLeg, options.legs?.[legIndex] ?? {})
+  )
+  const outbound = legs[0]
+  const firstSegment = outbound?.segments?.[0]
+
+  const departureAirport =
+    flightData.departureAirport ||
+    flightData.departure?.airport ||
+    flightData.origin ||
+    outbound?.departureAirport ||
+    options.defaultFrom ||
+    ''
+  const arrivalAirport =
+    flightData.arrivalAirport ||
+    flightData.arrival?.airport ||
+    flightData.destination ||
+    outbound?.arrivalAirport ||
+    options.defaultTo ||
+    ''
+
+  const price = parseFloat(
+    String(flightData.price || flightData.amount || flightData.total || flightData.fare || 0)
+  )
+
   const normalized: Flight = {
     id:
       flightData.id ||
@@ -396,52 +581,51 @@ function normalizeFlightObject(
     airline:
       flightData.airline ||
       flightData.carrier?.name ||
-      flightData.carriers?.join(', ') ||
+      summarizeCarriers(flightData.carriers ?? []) ||
       flightData.marketingCarrier ||
+      summarizeCarriers(
+        legs.flatMap(leg => leg.segments?.map(segment => segment.marketingCarrier) ?? [leg.airline])
+      ) ||
       'Unknown Airline',
     departureTime:
-      flightData.departureTime ||
-      flightData.departure?.time ||
-      flightData.segments?.[0]?.departure?.time ||
-      flightData.outbound?.departureTime ||
-      '',
+      toAirportDateTime(
+        flightData.departureTime ||
+          withDate(flightData.departure?.time, flightData.departure?.date) ||
+          outbound?.departureTime ||
+          flightData.outbound?.departureTime,
+        departureAirport
+      ) || '',
     arrivalTime:
-      flightData.arrivalTime ||
-      flightData.arrival?.time ||
-      flightData.segments?.[flightData.segments?.length - 1]?.arrival?.time ||
-      flightData.outbound?.arrivalTime ||
-      '',
-    departureAirport:
-      flightData.departureAirport ||
-      flightData.departure?.airport ||
-      flightData.origin ||
-      flightData.segments?.[0]?.origin?.code ||
-      options.defaultFrom ||
-      '',
-    arrivalAirport:
-      flightData.arrivalAirport ||
-      flightData.arrival?.airport ||
-      flightData.destination ||
-      flightData.segments?.[flightData.segments?.length - 1]?.destination?.code ||
-      options.defaultTo ||
-      '',
+      toAirportDateTime(
+        flightData.arrivalTime ||
+          withDate(flightData.arrival?.time, flightData.arrival?.date) ||
+          outbound?.arrivalTime ||
+          flightData.outbound?.arrivalTime,
+        arrivalAirport
+      ) || '',
+    departureAirport,
+    arrivalAirport,
     duration:
       flightData.duration ||
       flightData.totalDuration ||
       flightData.journey?.duration ||
       flightData.time ||
+      outbound?.duration ||
       '',
-    stops:
-      flightData.stops ??
-      (flightData.segments ? Math.max(0, flightData.segments.length - 1) : 0) ??
-      flightData.stopsCount ??
-      0,
-    price: parseFloat(
-      String(flightData.price || flightData.amount || flightData.total || flightData.fare || 0)
-    ),
+    stops: flightData.stops ?? flightData.stopsCount ?? outbound?.stops ?? 0,
+    price,
+    fareBreakdown: getFareBreakdown(flightData, price),
     best: flightData.best || flightData.recommended || flightData.isBest || false,
-    aircraft: flightData.aircraft || flightData.equipment || flightData.aircraftType,
-    flightNumber: flightData.flightNumber || flightData.number || flightData.flightNo,
+    aircraft:
+      flightData.aircraft ||
+      flightData.equipment ||
+      flightData.aircraftType ||
+      firstSegment?.aircraft,
+    flightNumber:
+      flightData.flightNumber ||
+      flightData.number ||
+      flightData.flightNo ||
+      firstSegment?.flightNumber,
     cabinClass: flightData.cabinClass || options.cabinClass || 'economy',
     baggage: flightData.baggage || {
       carryOn: flightData.carryOn !== undefined ? flightData.carryOn : true,
@@ -453,29 +637,57 @@ function normalizeFlightObject(
     destinationSkyId: options.destinationSkyId,
     departureDate: options.departureDate,
     returnDate: options.returnDate,
+    legs: legs.length > 0 ? legs : undefined,
+  }
+
+  // Derive layovers across all legs from segment connection times
+  if (!normalized.layover) {
+    const layovers = legSources.flatMap(rawLeg => getLayoversFromSegments(rawLeg.segments ?? []))
+    normalized.layover = layovers.length > 0 ? layovers : undefined
   }
 
-  // Calculate duration if not provided but times are available
-  if (!normalized.duration && normalized.departureTime && normalized.arrivalTime) {
-    try {
-      const [depHour, depMin] = normalized.departureTime.split(':').map(Number)
-      const [arrHour, arrMin] = normalized.arrivalTime.split(':').map(Number)
-      const depMinutes = depHour * 60 + depMin
-      const arrMinutes = arrHour * 60 + arrMin
-      let durationMinutes = arrMinutes - depMinutes
-      if (durationMinutes < 0) durationMinutes += 24 * 60 // Handle next day arrival
-      const hours = Math.floor(durationMinutes / 60)
-      const minutes = durationMinutes % 60
-      normalized.duration = `${hours}h ${minutes}m`
-    } catch {
-      // If parsing fails, keep original duration or set default
-      normalized.duration = normalized.duration || ''
+  // Calculate duration if not provided - only from zoned times, since subtracting local
+  // clock times is wrong whenever the airports are in different time zones
+  if (!normalized.duration) {
+    const elapsedMinutes = getElapsedMinutes(normalized.departureTime, normalized.arrivalTime)
+    if (elapsedMinutes !== undefined) {
+      normalized.duration = formatDuration(elapsedMinutes)
     }
   }
 
   return normalized
 }
 
+/**
+ * Builds leg contexts for a one-way or round-trip search
+ * @param params - Flight search parameters
+ * @returns Outbound leg, plus the return leg for round trips
+ */
+function getSearchLegContexts(params: FlightSearchParams): LegContext[] {
+  const outbound: LegContext = {
+    from: params.from,
+    to: params.to,
+    date: params.departure,
+    originSkyId: params.originSkyId,
+    destinationSkyId: params.destinationSkyId,
+    direction: 'outbound',
+  }
+  if (params.tripType !== 'round-trip' || !params.return) {
+    return [outbound]
+  }
+  return [
+    outbound,
+    {
+      from: params.to,
+      to: params.from,
+      date: params.return,
+      originSkyId: params.destinationSkyId,
+      destinationSkyId: params.originSkyId,
+      direction: 'return',
+    },
+  ]
+}
+
 /**
  * Normalizes flight response from API to Flight[] array
  * Handles simplified response structure: data.data or data.flights
@@ -523,14 +735,21 @@ function normalizeFlightResponse(response: unknown): RawFlightData[] {
  * Helper function to get filtered mock flights for a search
  * @param params - Flight search parameters
  * @param fallbackId - ID prefix for fallback flights (default: 'mock')
+ * @param signal - Abort signal of the search
  * @returns Promise with filtered mock flights array
+ * @throws The abort reason if the search was aborted while the mock data loaded
  */
 async function getFilteredMockFlights(
   params: FlightSearchParams,
-  fallbackId: 'mock' | 'fallback' = 'mock'
+  fallbackId: 'mock' | 'fallback' = 'mock',
+  signal?: AbortSignal
 ): Promise<Flight[]> {
   // Import mock data dynamically to avoid circular dependencies
-  const { mockFlights } = await import('../data/flights')
+  const { mockFlights, generateMockRoundTripLegs, scheduleMockFlight } = await import(
+    '../data/flights'
+  )
+  signal?.throwIfAborted()
+  const returnDate = params.tripType === 'round-trip' && params.return ? params.return : undefined
 
   // Filter mock flights by origin and destination airports
   let filteredFlights = mockFlights
@@ -561,7 +780,8 @@ async function getFilteredMockFlights(
 
   // Return mock flights with API metadata
   return filteredFlights.map((flight, index) => ({
-    ...flight,
+    // Mock schedules are "HH:MM" - place them on the searched date in local airport time
+    ...(params.departure ? scheduleMockFlight(flight, params.departure) : flight),
     id: flight.id || `${fallbackId}-flight-${index}`,
     // Preserve original airport codes
     departureAirport: flight.departureAirport,
@@ -570,20 +790,449 @@ async function getFilteredMockFlights(
     originSkyId: params.originSkyId,
     destinationSkyId: params.destinationSkyId,
     departureDate: params.departure,
-    returnDate: params.tripType === 'round-trip' && params.return ? params.return : undefined,
+    returnDate,
+    // Round trips carry separate outbound and return legs
+    legs: returnDate ? generateMockRoundTripLegs(flight, params.departure, returnDate) : undefined,
+    isMock: true,
   }))
 }
 
+/**
+ * Helper function to get mock multi-city itineraries for a search
+ * @param params - Flight search parameters with legs
+ * @param fallbackId - ID prefix for fallback itineraries (default: 'mock')
+ * @param signal - Abort signal of the search
+ * @returns Promise with combined mock itineraries
+ * @throws The abort reason if the search was aborted while the mock data loaded
+ */
+async function getMockMultiCityFlights(
+  params: FlightSearchParams,
+  fallbackId: 'mock' | 'fallback' = 'mock',
+  signal?: AbortSignal
+): Promise<Flight[]> {
+  const { generateMockMultiCityFlights } = await import('../data/flights')
+  signal?.throwIfAborted()
+  const legs = params.legs || []
+
+  const itineraries = generateMockMultiCityFlights(
+    legs.map(leg => ({
+      origin: extractIATACode(leg.from || leg.originSkyId || ''),
+      destination: extractIATACode(leg.to || leg.destinationSkyId || ''),
+      date: leg.date,
+    }))
+  )
+
+  logger.debug('searchFlights', 'Generated mock multi-city itineraries', {
+    route: legs.map(leg => `${leg.from} -> ${leg.to}`).join(', '),
+    count: itineraries.length,
+  })
+
+  return itineraries.map((itinerary, index) => ({
+    ...itinerary,
+    id: itinerary.id || `${fallbackId}-itinerary-${index}`,
+    originSkyId: legs[0]?.originSkyId,
+    destinationSkyId: legs[legs.length - 1]?.destinationSkyId,
+    departureDate: legs[0]?.date,
+    legs: itinerary.legs?.map((leg, legIndex) => ({
+      ...leg,
+      originSkyId: legs[legIndex]?.originSkyId,
+      destinationSkyId: legs[legIndex]?.destinationSkyId,
+    })),
+    isMock: true,
+  }))
+}
+
+/**
+ * Searches for multi-city itineraries (tripType 'multi-city')
+ * Uses Sky Scrapper API /v2/flights/searchFlightsMultiStops endpoint
+ * Falls back to combined mock itineraries if API key is missing or the API fails
+ * @param params - Flight search parameters with at least two legs
+ * @param options - Abort signal and cache bypass
+ * @returns Promise with combined itineraries, each carrying its individual legs
+ */
+async function searchMultiCityFlights(
+  params: FlightSearchParams,
+  options: ApiRequestOptions = {}
+): Promise<Flight[]> {
+  const legs = params.legs || []
+  if (legs.length < 2) {
+    throw new Error('Multi-city search requires at least two legs')
+  }
+
+  const hasApiParams = legs.every(
+    leg => leg.originSkyId && leg.destinationSkyId && leg.originEntityId && leg.destinationEntityId
+  )
+  if (!hasApiParams) {
+    logger.debug('searchFlights', 'Missing multi-city API parameters, using mock data', params)
+    return getMockMultiCityFlights(params, 'mock', options.signal)
+  }
+
+  return withMockFallback(
+    async () => {
+      const requestParams: Record<string, string | number> = {
+        legs: JSON.stringify(
+          legs.map(leg => ({
+            origin: leg.originSkyId,
+            originEntityId: leg.originEntityId,
+            destination: leg.destinationSkyId,
+            destinationEntityId: leg.destinationEntityId,
+            date: leg.date,
+          }))
+        ),
+        ...getPassengerRequestParams(getPassengerCounts(params)),
+        cabinClass: params.cabinClass || 'economy',
+        sortBy: 'best',
+        currency: params.currency || 'USD',
+        market: params.market || 'en-US',
+        countryCode: params.countryCode || 'US',
+        locale: params.locale || 'en-US',
+      }
+
+      const response = await apiRequest<ApiResponse<RawFlightData[]>>(
+        '/v2/flights/searchFlightsMultiStops',
+        requestParams,
+        options
+      )
+
+      const rawFlights = normalizeFlightResponse(response)
+      if (rawFlights.length === 0) {
+        throw new Error('Empty API response')
+      }
+
+      return rawFlights.map((flight, index) => ({
+        ...normalizeFlightObject(flight, {
+          index,
+          defaultFrom: legs[0].from,
+          defaultTo: legs[legs.length - 1].to,
+          originSkyId: legs[0].originSkyId,
+          destinationSkyId: legs[legs.length - 1].destinationSkyId,
+          departureDate: legs[0].date,
+          cabinClass: params.cabinClass,
+        }),
+        legs: legs.map((leg, legIndex) => normalizeRawLeg(flight.legs?.[legIndex], leg)),
+      }))
+    },
+    () => getMockMultiCityFlights(params, 'fallback', options.signal),
+    'searchFlights',
+    options.signal
+  )
+}
+
+/**
+ * Checks whether a search origin/destination is a city, searched across its airports
+ * Searches without an entity type (e.g., from older links) are cities when their code is a
+ * bundled metro area
+ */
+function isCityEntity(
+  skyId?: string,
+  entityType?: FlightSearchParams['originEntityType']
+): boolean {
+  return entityType ? entityType === 'CITY' : !!getMetroArea(skyId)
+}
+
+/**
+ * Gets the skyId a Sky Scrapper item is searched with
+ */
+function getItemSkyId(item: SkyScrapperAirportItem): string {
+  return item.navigation.relevantFlightParams.skyId || item.skyId
+}
+
+/**
+ * Picks the airports of a city from searchAirport results
+ * Airports point to their city's place through relevantHotelParams, as the city itself does
+ * @param items - searchAirport results of the city
+ * @param citySkyId - skyId of the city (e.g., "LOND")
+ * @returns The city's airports, or an empty array if the city is not among the results
+ */
+function getCityAirportItems(
+  items: SkyScrapperAirportItem[],
+  citySkyId: string
+): SkyScrapperAirportItem[] {
+  const city = items.find(
+    item => item.navigation.entityType === 'CITY' && getItemSkyId(item) === citySkyId
+  )
+  const cityPlaceId = city?.navigation.relevantHotelParams?.entityId
+  if (!cityPlaceId) return []
+
+  return items.filter(
+    item =>
+      item.navigation.entityType === 'AIRPORT' &&
+      item.navigation.relevantHotelParams?.entityId === cityPlaceId
+  )
+}
+
+/**
+ * Resolves the member airports of a city origin or destination
+ * With an API key, members are looked up through the searchAirport endpoint so each search
+ * uses real skyIds/entityIds: bundled metro areas look up every member airport by IATA code,
+ * other cities (e.g., "LOND") find the airports belonging to the city. Mock mode uses the
+ * bundled metro areas
+ * @param skyId - skyId of the origin or destination
+ * @param entityType - Entity type of the origin or destination
+ * @param options - Abort signal and cache bypass of the search
+ * @returns Member airports, or null if the place is not a city or its airports could not be
+ * found (it is then searched as given)
+ * @throws The abort reason if the search is aborted
+ */
+async function resolveCityAirports(
+  skyId: string | undefined,
+  entityType: FlightSearchParams['originEntityType'],
+  options: ApiRequestOptions = {}
+): Promise<Airport[] | null> {
+  if (!skyId || !isCityEntity(skyId, entityType)) return null
+
+  if (!RAPID_API_KEY) {
+    const cityAirports = getMetroAirports(skyId).map(toAirport)
+    return cityAirports.length > 0 ? cityAirports : null
+  }
+
+  const metro = getMetroArea(skyId)
+  const lookups = await Promise.allSettled(
+    metro
+      ? metro.airports.map(async iata => {
+          const items = await fetchAirportItems(iata, options)
+          return items
+            .filter(item => item.navigation.entityType === 'AIRPORT' && getItemSkyId(item) === iata)
+            .slice(0, 1)
+        })
+      : [fetchAirportItems(skyId, options).then(items => getCityAirportItems(items, skyId))]
+  )
+  options.signal?.throwIfAborted()
+
+  const members = new Map<string, Airport>()
+  lookups.forEach(lookup => {
+    if (lookup.status === 'rejected') {
+      logger.warn('searchFlights', 'City airport lookup failed', { skyId, error: lookup.reason })
+      return
+    }
+    lookup.value.forEach(item => {
+      const airport = convertSkyScrapperAirport(item)
+      members.set(airport.skyId, airport)
+    })
+  })
+
+  if (members.size === 0) {
+    logger.warn('searchFlights', 'City airports not found, searching the city as given', {
+      skyId,
+    })
+    return null
+  }
+  return Array.from(members.values())
+}
+
+/**
+ * Resolves the airports to search from for a trip's origin
+ * City origins expand to their member airports (see resolveCityAirports); with
+ * nearbyRadiusKm set, the airports near them are added - from getNearByAirports with an API
+ * key (so every airport carries its real skyId/entityId), or from the bundled dataset in
+ * mock mode. Nearby airports are found around the airports' bundled locations
+ * If the nearby lookup fails, only the origin airports are searched
+ * @param params - Flight search parameters
+ * @param options - Abort signal and cache bypass of the search
+ * @returns Origin airports, or null to search the origin as given
+ * @throws The abort reason if the search is aborted
+ */
+async function resolveOriginAirports(
+  params: FlightSearchParams,
+  options: ApiRequestOptions = {}
+): Promise<Airport[] | null> {
+  const cityAirports = await resolveCityAirports(
+    params.originSkyId,
+    params.originEntityType,
+    options
+  )
+
+  const radiusKm = params.nearbyRadiusKm
+  if (!radiusKm || radiusKm <= 0) return cityAirports
+
+  // A single origin keeps the ids it was selected with
+  const origin = getAirportByIata(params.originSkyId || extractIATACode(params.from))
+  const baseAirports =
+    cityAirports ??
+    (origin
+      ? [
+          {
+            ...toAirport(origin),
+            skyId: params.originSkyId || origin.iata,
+            entityId: params.originEntityId || origin.entityId,
+          },
+        ]
+      : [])
+  const baseRecords = baseAirports
+    .map(airport => getAirportByIata(airport.iata || airport.skyId))
+    .filter((record): record is AirportRecord => !!record)
+  if (baseRecords.length === 0) return cityAirports
+
+  const withNearby = new Map<string, Airport>(
+    baseAirports.map(airport => [airport.iata || airport.skyId, airport])
+  )
+
+  if (!RAPID_API_KEY) {
+    baseRecords.forEach(base => {
+      findAirportsWithinRadius(base.latitude, base.longitude, radiusKm).forEach(({ airport }) => {
+        if (!withNearby.has(airport.iata)) withNearby.set(airport.iata, toAirport(airport))
+      })
+    })
+    return Array.from(withNearby.values())
+  }
+
+  const lookups = await Promise.allSettled(
+    baseRecords.map(base => fetchNearByAirports(base.latitude, base.longitude, radiusKm, options))
+  )
+  options.signal?.throwIfAborted()
+
+  lookups.forEach(lookup => {
+    if (lookup.status === 'rejected') {
+      logger.warn('searchFlights', 'Nearby airport lookup failed, searching the origin only', {
+        error: lookup.reason,
+      })
+      return
+    }
+    lookup.value
+      .filter(airport => airport.entityType !== 'CITY')
+      .forEach(airport => {
+        const key = airport.iata || airport.skyId
+        if (!withNearby.has(key)) withNearby.set(key, airport)
+      })
+  })
+  return Array.from(withNearby.values())
+}
+
+/**
+ * Searches every origin/destination airport pair of a city-level or nearby-airport search
+ * Per-airport searches run concurrently; results are merged, de-duplicated by itinerary id
+ * and tagged with the airports actually searched (searchOrigin/searchDestination)
+ * A side that cannot be expanded is searched as given
+ * @param params - Flight search parameters
+ * @param origins - Origin airports to search from, or null to use params as given
+ * @param destinations - Destination airports to search to, or null to use params as given
+ * @param options - Abort signal (cancels every airport pair's search) and cache bypass
+ * @returns Promise with merged flights from all airport pairs
+ * @throws The first search error if every airport pair's search fails, or the abort reason
+ */
+async function searchFlightsAcrossAirports(
+  params: FlightSearchParams,
+  origins: Airport[] | null,
+  destinations: Airport[] | null,
+  options: ApiRequestOptions = {}
+): Promise<Flight[]> {
+  const singleSearchParams: FlightSearchParams = { ...params, nearbyRadiusKm: undefined }
+  const originOptions: (Airport | null)[] = origins ?? [null]
+  const destinationOptions: (Airport | null)[] = destinations ?? [null]
+
+  const pairs = originOptions.flatMap(origin =>
+    destinationOptions
+      .filter(destination => !origin || !destination || origin.skyId !== destination.skyId)
+      .map(destination => ({ origin, destination }))
+  )
+
+  logger.debug('searchFlights', 'Searching across airports', {
+    origins: origins?.map(airport => airport.skyId),
+    destinations: destinations?.map(airport => airport.skyId),
+    pairs: pairs.length,
+  })
+
+  const results = await Promise.allSettled(
+    pairs.map(async ({ origin, destination }) => {
+      const flights = await searchRouteFlights(
+        {
+          ...singleSearchParams,
+          ...(origin && {
+            from: origin.iata || origin.skyId,
+            originSkyId: origin.skyId,
+            originEntityId: origin.entityId,
+            originEntityType: origin.entityType,
+          }),
+          ...(destination && {
+            to: destination.iata || destination.skyId,
+            destinationSkyId: destination.skyId,
+            destinationEntityId: destination.entityId,
+            destinationEntityType: destination.entityType,
+          }),
+        },
+        options
+      )
+      return flights.map(flight => ({
+        ...flight,
+        searchOrigin: origin ? origin.iata || origin.skyId : undefined,
+        searchDestination: destination ? destination.iata || destination.skyId : undefined,
+      }))
+    })
+  )
+
+  // Partial results of an aborted search are of no use to the caller
+  options.signal?.throwIfAborted()
+
+  const merged = new Map<string, Flight>()
+  results.forEach(result => {
+    if (result.status !== 'fulfilled') return
+    result.value.forEach(flight => {
+      if (!merged.has(flight.id)) merged.set(flight.id, flight)
+    })
+  })
+
+  const firstFailure = results.find(result => result.status === 'rejected')
+  if (merged.size === 0 && firstFailure) {
+    throw firstFailure.reason
+  }
+
+  return Array.from(merged.values())
+}
+
 /**
  * Searches for flights based on search parameters
+ * City origins and destinations (entityType 'CITY', or a bundled metro area code) are
+ * expanded to their member airports, and with nearbyRadiusKm set, airports within that
+ * radius of the origin are also searched
+ * @param params - Flight search parameters
+ * @param options - Abort signal (e.g., to cancel when a new search supersedes it) and cache
+ * bypass (for explicit re-checks that need current fares)
+ * @returns Promise with array of matching flights
+ * @throws The abort reason if the search is aborted
+ */
+export async function searchFlights(
+  params: FlightSearchParams,
+  options: ApiRequestOptions = {}
+): Promise<Flight[]> {
+  // Multi-city searches use a dedicated multi-leg endpoint
+  if (params.tripType === 'multi-city') {
+    return searchMultiCityFlights(params, options)
+  }
+
+  // City-level and nearby-airport searches fan out into one search per airport pair
+  const isCitySearch =
+    isCityEntity(params.originSkyId, params.originEntityType) ||
+    isCityEntity(params.destinationSkyId, params.destinationEntityType)
+  const includesNearby = !!params.nearbyRadiusKm && params.nearbyRadiusKm > 0
+  if (isCitySearch || includesNearby) {
+    const [origins, destinations] = await Promise.all([
+      resolveOriginAirports(params, options),
+      resolveCityAirports(params.destinationSkyId, params.destinationEntityType, options),
+    ])
+    if (origins || destinations) {
+      return searchFlightsAcrossAirports(params, origins, destinations, options)
+    }
+  }
+
+  return searchRouteFlights(params, options)
+}
+
+/**
+ * Searches for flights between an origin and a destination as given (without expanding
+ * cities or nearby airports)
  * @param params - Flight search parameters
+ * @param options - Abort signal and cache bypass
  * @returns Promise with array of matching flights
+ * @throws The abort reason if the search is aborted
  */
-export async function searchFlights(params: FlightSearchParams): Promise<Flight[]> {
+async function searchRouteFlights(
+  params: FlightSearchParams,
+  options: ApiRequestOptions = {}
+): Promise<Flight[]> {
   // If API key is not configured, return mock data for development
   if (!RAPID_API_KEY) {
     logger.debug('searchFlights', 'Using mock data (API key not configured)', params)
-    return getFilteredMockFlights(params, 'mock')
+    return getFilteredMockFlights(params, 'mock', options.signal)
   }
 
   // Check if we have skyId and entityId (required for API v2)
@@ -597,7 +1246,7 @@ export async function searchFlights(params: FlightSearchParams): Promise<Flight[
     // If we have basic from/to, use mock data instead of throwing error
     if (params.from && params.to) {
       logger.debug('searchFlights', 'Missing API parameters, using mock data', params)
-      return getFilteredMockFlights(params, 'mock')
+      return getFilteredMockFlights(params, 'mock', options.signal)
     }
 
     throw new Error(
@@ -612,7 +1261,7 @@ export async function searchFlights(params: FlightSearchParams): Promise<Flight[
     originEntityId: params.originEntityId,
     destinationEntityId: params.destinationEntityId,
     date: params.departure,
-    adults: params.adults || parseInt(params.passengers, 10) || 1,
+    ...getPassengerRequestParams(getPassengerCounts(params)),
     cabinClass: params.cabinClass || 'economy',
     sortBy: 'best', // Default sort
     currency: params.currency || 'USD',
@@ -636,7 +1285,8 @@ export async function searchFlights(params: FlightSearchParams): Promise<Flight[
   try {
     const response = await apiRequest<ApiResponse<RawFlightData[]>>(
       '/v2/flights/searchFlightsComplete',
-      requestParams
+      requestParams,
+      options
     )
 
     // Use simplified response parser (only checks data.data or data.flights)
@@ -661,153 +1311,36 @@ export async function searchFlights(params: FlightSearchParams): Promise<Flight[
         departureDate: params.departure,
         returnDate: params.tripType === 'round-trip' && params.return ? params.return : undefined,
         cabinClass: params.cabinClass,
+        legs: getSearchLegContexts(params),
       })
     )
 
     return flights
-  } catch {
+  } catch (error) {
+    // Aborted searches are not API failures
+    if (isAbortError(error)) {
+      throw error
+    }
+
     // Fallback to mock data on API error (403/429 or other errors)
     logger.warn('searchFlights', 'Using mock flight data as fallback')
-    return getFilteredMockFlights(params, 'fallback')
+    return getFilteredMockFlights(params, 'fallback', options.signal)
   }
 }
 
 /**
  * Helper function to get mock nearby airports based on coordinates
- * Returns popular airports near major cities based on approximate location
+ * Uses real distances to the bundled airport dataset
  * @param lat - Latitude coordinate
  * @param lng - Longitude coordinate
- * @returns Array of mock airports
+ * @param radiusKm - Search radius in kilometres
+ * @returns Airports within the radius, nearest first, with distanceKm set
  */
-function getMockNearbyAirports(lat: number, lng: number): Airport[] {
-  const mockAirports: Airport[] = [
-    // New York area airports
-    {
-      iata: 'JFK',
-      skyId: 'JFK',
-      entityId: '95565058',
-      name: 'John F. Kennedy International',
-      city: 'New York',
-      country: 'United States',
-      entityType: 'AIRPORT',
-    },
-    {
-      iata: 'LGA',
-      skyId: 'LGA',
-      entityId: '95565066',
-      name: 'LaGuardia Airport',
-      city: 'New York',
-      country: 'United States',
-      entityType: 'AIRPORT',
-    },
-    {
-      iata: 'EWR',
-      skyId: 'EWR',
-      entityId: '95565067',
-      name: 'Newark Liberty International',
-      city: 'Newark',
-      country: 'United States',
-      entityType: 'AIRPORT',
-    },
-    // Los Angeles area airports
-    {
-      iata: 'LAX',
-      skyId: 'LAX',
-      entityId: '95565060',
-      name: 'Los Angeles International',
-      city: 'Los Angeles',
-      country: 'United States',
-      entityType: 'AIRPORT',
-    },
-    {
-      iata: 'SNA',
-      skyId: 'SNA',
-      entityId: '95565068',
-      name: 'John Wayne Airport',
-      city: 'Santa Ana',
-      country: 'United States',
-      entityType: 'AIRPORT',
-    },
-    {
-      iata: 'BUR',
-      skyId: 'BUR',
-      entityId: '95565069',
-      name: 'Bob Hope Airport',
-      city: 'Burbank',
-      country: 'United States',
-      entityType: 'AIRPORT',
-    },
-    // London area airports
-    {
-      iata: 'LHR',
-      skyId: 'LHR',
-      entityId: '95565059',
-      name: 'London Heathrow',
-      city: 'London',
-      country: 'United Kingdom',
-      entityType: 'AIRPORT',
-    },
-    {
-      iata: 'LGW',
-      skyId: 'LGW',
-      entityId: '95565070',
-      name: 'London Gatwick',
-      city: 'London',
-      country: 'United Kingdom',
-      entityType: 'AIRPORT',
-    },
-    {
-      iata: 'STN',
-      skyId: 'STN',
-      entityId: '95565071',
-      name: 'London Stansted',
-      city: 'London',
-      country: 'United Kingdom',
-      entityType: 'AIRPORT',
-    },
-    // Paris area airports
-    {
-      iata: 'CDG',
-      skyId: 'CDG',
-      entityId: '95565061',
-      name: 'Charles de Gaulle',
-      city: 'Paris',
-      country: 'France',
-      entityType: 'AIRPORT',
-    },
-    {
-      iata: 'ORY',
-      skyId: 'ORY',
-      entityId: '95565072',
-      name: 'Paris Orly',
-      city: 'Paris',
-      country: 'France',
-      entityType: 'AIRPORT',
-    },
-  ]
-
-  // Filter based on approximate location (simplified matching)
-  // In a real implementation, you'd calculate distance based on lat/lng
-  // For now, return airports based on region
-  if (lat >= 40 && lat <= 42 && lng >= -75 && lng <= -73) {
-    // New York area
-    return mockAirports.filter(airport => ['JFK', 'LGA', 'EWR'].includes(airport.iata || ''))
-  }
-  if (lat >= 33 && lat <= 35 && lng >= -119 && lng <= -117) {
-    // Los Angeles area
-    return mockAirports.filter(airport => ['LAX', 'SNA', 'BUR'].includes(airport.iata || ''))
-  }
-  if (lat >= 51 && lat <= 52 && lng >= -1 && lng <= 1) {
-    // London area
-    return mockAirports.filter(airport => ['LHR', 'LGW', 'STN'].includes(airport.iata || ''))
-  }
-  if (lat >= 48 && lat <= 49 && lng >= 2 && lng <= 3) {
-    // Paris area
-    return mockAirports.filter(airport => ['CDG', 'ORY'].includes(airport.iata || ''))
-  }
-
-  // Default: return first 3 airports
-  return mockAirports.slice(0, 3)
+function getMockNearbyAirports(lat: number, lng: number, radiusKm: number): Airport[] {
+  return findAirportsWithinRadius(lat, lng, radiusKm).map(({ airport, distanceKm }) => ({
+    ...toAirport(airport),
+    distanceKm,
+  }))
 }
 
 /**
@@ -904,17 +1437,84 @@ function getMockPriceCalendar(
     minPrice,
     maxPrice,
     cheapestDate: cheapestDay?.date || fromDate,
+    isMock: true,
+  }
+}
+
+/**
+ * Fetches the airports near a location from the API
+ * Airports in the bundled dataset get their distance, and those outside the radius are dropped
+ * @param lat - Latitude coordinate
+ * @param lng - Longitude coordinate
+ * @param radiusKm - Search radius in kilometres
+ * @param options - Abort signal and cache bypass
+ * @returns Nearby airports with their API skyId/entityId, nearest first
+ * @throws Error if the request fails or returns no airports
+ */
+async function fetchNearByAirports(
+  lat: number,
+  lng: number,
+  radiusKm: number,
+  options: ApiRequestOptions = {}
+): Promise<Airport[]> {
+  // Sky Scrapper API endpoint: api/v1/flights/getNearByAirports
+  const response = await apiRequest<SkyScrapperNearbyResponse>(
+    '/v1/flights/getNearByAirports',
+    {
+      lat: lat.toString(),
+      lng: lng.toString(),
+      locale: 'en-US', // Default locale
+    },
+    options
+  )
+
+  // Extract airports from response (current + nearby)
+  const airports: Airport[] = []
+
+  if (response.data) {
+    if (response.data.current) {
+      airports.push(convertSkyScrapperAirport(response.data.current))
+    }
+    if (response.data.nearby && Array.isArray(response.data.nearby)) {
+      airports.push(...response.data.nearby.map(convertSkyScrapperAirport))
+    }
   }
+
+  // If API returns empty results, throw so the caller falls back
+  if (airports.length === 0) {
+    throw new Error('No airports returned from API')
+  }
+
+  // Add distances for airports in the bundled dataset, drop those outside the radius
+  return airports
+    .map(airport => {
+      const record = getAirportByIata(airport.iata || airport.skyId)
+      return record
+        ? {
+            ...airport,
+            distanceKm: haversineDistanceKm(lat, lng, record.latitude, record.longitude),
+          }
+        : airport
+    })
+    .filter(airport => airport.distanceKm === undefined || airport.distanceKm <= radiusKm)
+    .sort(
+      (a, b) =>
+        (a.distanceKm ?? Number.POSITIVE_INFINITY) - (b.distanceKm ?? Number.POSITIVE_INFINITY)
+    )
 }
 
 /**
  * Gets nearby airports based on latitude and longitude
  * Uses Sky Scrapper API /v1/flights/getNearByAirports endpoint
  * Supports browser geolocation and manual coordinates
- * Falls back to mock data if API fails or key is not configured
+ * Falls back to a distance-based lookup in the bundled airport dataset if API fails
+ * or key is not configured
  * @param lat - Latitude coordinate (-90 to 90)
  * @param lng - Longitude coordinate (-180 to 180)
- * @returns Promise with array of nearby airports (includes current location airport + nearby airports)
+ * @param radiusKm - Search radius in kilometres (default: 100)
+ * @param options - Abort signal and cache bypass
+ * @returns Promise with array of nearby airports, nearest first, with distanceKm set
+ * when the airport's location is known
  * @throws Error if lat/lng are invalid numbers or out of range
  * @example
  * ```typescript
@@ -922,7 +1522,12 @@ function getMockPriceCalendar(
  * // Returns JFK, LGA, EWR airports
  * ```
  */
-export async function getNearByAirports(lat: number, lng: number): Promise<Airport[]> {
+export async function getNearByAirports(
+  lat: number,
+  lng: number,
+  radiusKm = DEFAULT_NEARBY_RADIUS_KM,
+  options: ApiRequestOptions = {}
+): Promise<Airport[]> {
   if (typeof lat !== 'number' || typeof lng !== 'number') {
     throw new Error('Latitude and longitude must be valid numbers')
   }
@@ -936,38 +1541,10 @@ export async function getNearByAirports(lat: number, lng: number): Promise<Airpo
   }
 
   return withMockFallback(
-    async () => {
-      // Sky Scrapper API endpoint: api/v1/flights/getNearByAirports
-      const response = await apiRequest<SkyScrapperNearbyResponse>(
-        '/v1/flights/getNearByAirports',
-        {
-          lat: lat.toString(),
-          lng: lng.toString(),
-          locale: 'en-US', // Default locale
-        }
-      )
-
-      // Extract airports from response (current + nearby)
-      const airports: Airport[] = []
-
-      if (response.data) {
-        if (response.data.current) {
-          airports.push(convertSkyScrapperAirport(response.data.current))
-        }
-        if (response.data.nearby && Array.isArray(response.data.nearby)) {
-          airports.push(...response.data.nearby.map(convertSkyScrapperAirport))
-        }
-      }
-
-      // If API returns empty results, throw to trigger fallback
-      if (airports.length === 0) {
-        throw new Error('No airports returned from API')
-      }
-
-      return airports
-    },
-    () => getMockNearbyAirports(lat, lng),
-    'getNearByAirports'
+    () => fetchNearByAirports(lat, lng, radiusKm, options),
+    () => getMockNearbyAirports(lat, lng, radiusKm),
+    'getNearByAirports',
+    options.signal
   )
 }
 
@@ -977,9 +1554,11 @@ export async function getNearByAirports(lat: number, lng: number): Promise<Airpo
  * Supports one-way and round-trip flights (multiple legs)
  * Returns null if API key is not configured (no mock data for details)
  * @param legs - Array of flight legs with origin, destination, and date
- * @param params - Additional parameters including adults, currency, locale, cabin class, etc.
+ * @param params - Additional parameters including adults, childrens (children and infants with
+ * a seat), infants (on lap), currency, locale, cabin class, etc.
+ * @param options - Abort signal and cache bypass
  * @returns Promise with flight details or null if not found or API key missing
- * @throws Error if legs array is empty
+ * @throws Error if legs array is empty, or the abort reason if the request is aborted
  * @example
  * ```typescript
  * const details = await getFlightDetails([
@@ -999,63 +1578,95 @@ export async function getFlightDetails(
   }>,
   params: {
     adults?: number
+    childrens?: number
+    infants?: number
     currency?: string
     locale?: string
     market?: string
     cabinClass?: string
     countryCode?: string
-  } = {}
+  } = {},
+  options: ApiRequestOptions = {}
 ): Promise<Flight | null> {
   if (!legs || legs.length === 0) {
     throw new Error('At least one leg is required')
   }
 
-  return withFallback(async () => {
-    // Build query parameters for getFlightDetails endpoint
-    // Note: legs must be JSON stringified - apiRequest will URL encode it via url.searchParams.append
-    const queryParams: Record<string, string | number> = {
-      legs: JSON.stringify(legs), // JSON array as string
-      adults: params.adults || 1,
-      currency: params.currency || 'USD',
-      locale: params.locale || 'en-US',
-      market: params.market || 'en-US',
-      cabinClass: params.cabinClass || 'economy',
-      countryCode: params.countryCode || 'US',
-    }
+  return withFallback(
+    async () => {
+      // Build query parameters for getFlightDetails endpoint
+      // Note: legs must be JSON stringified - apiRequest will URL encode it via url.searchParams.append
+      const queryParams: Record<string, string | number> = {
+        legs: JSON.stringify(legs), // JSON array as string
+        adults: params.adults || 1,
+        currency: params.currency || 'USD',
+        locale: params.locale || 'en-US',
+        market: params.market || 'en-US',
+        cabinClass: params.cabinClass || 'economy',
+        countryCode: params.countryCode || 'US',
+      }
+      if (params.childrens) queryParams.childrens = params.childrens
+      if (params.infants) queryParams.infants = params.infants
+
+      // Make API request with properly encoded legs parameter
+      const response = await apiRequest<FlightDetailsResponse>(
+        '/v1/flights/getFlightDetails',
+        queryParams,
+        options
+      )
 
-    // Make API request with properly encoded legs parameter
-    const response = await apiRequest<FlightDetailsResponse>(
-      '/v1/flights/getFlightDetails',
-      queryParams
-    )
+      // Parse response - API returns flight details
+      if (response && typeof response === 'object') {
+        // Try to extract flight data from various possible response structures
+        let flightData: RawFlightData | null = null
+
+        if ('data' in response && response.data) {
+          flightData = response.data as RawFlightData
+        } else if (Array.isArray(response) && response.length > 0) {
+          flightData = response[0] as RawFlightData
+        } else if ('flight' in response || 'result' in response) {
+          flightData = (response.flight || response.result) as RawFlightData
+        } else {
+          flightData = response as RawFlightData
+        }
 
-    // Parse response - API returns flight details
-    if (response && typeof response === 'object') {
-      // Try to extract flight data from various possible response structures
-      let flightData: RawFlightData | null = null
-
-      if ('data' in response && response.data) {
-        flightData = response.data as RawFlightData
-      } else if (Array.isArray(response) && response.length > 0) {
-        flightData = response[0] as RawFlightData
-      } else if ('flight' in response || 'result' in response) {
-        flightData = (response.flight || response.result) as RawFlightData
-      } else {
-        flightData = response as RawFlightData
-      }
+        if (flightData) {
+          // A single leg or a there-and-back pair is a one-way/round trip; anything else is multi-city
+          const isRoundTrip =
+            legs.length === 2 &&
+            legs[1].origin === legs[0].destination &&
+            legs[1].destination === legs[0].origin
 
-      if (flightData) {
-        // Normalize to our Flight interface using centralized helper
-        return normalizeFlightObject(flightData, {
-          defaultFrom: legs[0]?.origin,
-          defaultTo: legs[legs.length - 1]?.destination,
-          cabinClass: params.cabinClass,
-        })
+          // Details responses may nest legs under data.itinerary or return them at the top level
+          if (!flightData.legs && !flightData.itinerary?.legs && response.legs) {
+            flightData = { ...flightData, legs: response.legs }
+          }
+
+          // Normalize to our Flight interface using centralized helper
+          return normalizeFlightObject(flightData, {
+            defaultFrom: legs[0]?.origin,
+            defaultTo: legs[legs.length - 1]?.destination,
+            cabinClass: params.cabinClass,
+            legs: legs.map((leg, legIndex) => ({
+              date: leg.date,
+              originSkyId: leg.origin,
+              destinationSkyId: leg.destination,
+              direction:
+                legs.length === 1 || isRoundTrip
+                  ? legIndex === 0
+                    ? 'outbound'
+                    : 'return'
+                  : undefined,
+            })),
+          })
+        }
       }
-    }
 
-    return null
-  }, 'getFlightDetails')
+      return null
+    },
+    'getFlightDetails',
+    options.signal
+  )
 }
 
 /**
@@ -1067,6 +1678,7 @@ export async function getFlightDetails(
  * @param destinationSkyId - Destination airport skyId (e.g., "LAX")
  * @param fromDate - Starting date for calendar in ISO format (YYYY-MM-DD)
  * @param currency - Currency code (default: 'USD')
+ * @param options - Abort signal and cache bypass (for explicit re-checks)
  * @returns Promise with price calendar data including cheapest/most expensive dates, or null if not available
  * @throws Error if origin, destination, or fromDate are missing
  * @example
@@ -1079,7 +1691,8 @@ export async function getPriceCalendar(
   originSkyId: string,
   destinationSkyId: string,
   fromDate: string,
-  currency = 'USD'
+  currency = 'USD',
+  options: ApiRequestOptions = {}
 ): Promise<PriceCalendarData | null> {
   if (!originSkyId || !destinationSkyId || !fromDate) {
     throw new Error('Origin, destination, and fromDate are required')
@@ -1098,7 +1711,7 @@ export async function getPriceCalendar(
       // Make API request
       const response = await apiRequest<
         ApiResponse<RawPriceCalendarItem[]> | PriceCalendarResponse | RawPriceCalendarItem[]
-      >('/v1/flights/getPriceCalendar', queryParams)
+      >('/v1/flights/getPriceCalendar', queryParams, options)
 
       // Parse response
       if (response && typeof response === 'object') {
@@ -1154,6 +1767,7 @@ export async function getPriceCalendar(
       throw new Error('Failed to parse price calendar response')
     },
     () => getMockPriceCalendar(originSkyId, destinationSkyId, fromDate, currency),
-    'getPriceCalendar'
+    'getPriceCalendar',
+    options.signal
   )
 }
@@ -0,0 +1,86 @@
+import type { PriceCalendarDay } from '../types/flight'
+import type { PriceWatch, PriceWatchPoint } from '../types/priceWatch'
+import { getPriceCalendar, searchFlights } from './flightApi'
+import { getTodayDate } from '../utils/formatDate'
+import { isApiConfigured } from '../utils/envConfig'
+
+/**
+ * Checks the current lowest fare of a watched route
+ * The price calendar finds the cheapest departure date in the window, then a live one-way
+ * search on that date confirms the bookable fare (calendar prices are indicative)
+ * Both requests bypass the response cache, so each check sees current fares
+ * Sample data (mock mode, or the API failing over to it) is never used
+ * @param watch - Price watch to check
+ * @returns New price point; price is null when no fares were found in the window
+ * @throws Error if the search fails or no live fares are available
+ * @example
+ * ```typescript
+ * const point = await checkPriceWatch(watch)
+ * // { checkedAt: 1735000000000, price: 389, date: "2025-05-03" }
+ * ```
+ */
+export async function checkPriceWatch(watch: PriceWatch): Promise<PriceWatchPoint> {
+  if (!isApiConfigured()) {
+    throw new Error('Price alerts need a RapidAPI key to check live fares')
+  }
+
+  // Past days of the window can no longer be booked
+  const today = getTodayDate()
+  const windowStart = watch.windowStart < today ? today : watch.windowStart
+
+  const calendar = await getPriceCalendar(
+    watch.originSkyId,
+    watch.destinationSkyId,
+    windowStart,
+    watch.currency,
+    { skipCache: true }
+  )
+  const liveCalendar = calendar && !calendar.isMock ? calendar : null
+  const cheapestDay = (liveCalendar?.calendar || [])
+    .filter(
+      day =>
+        !day.isUnavailable &&
+        day.price > 0 &&
+        day.date >= windowStart &&
+        day.date <= watch.windowEnd
+    )
+    .reduce<PriceCalendarDay | null>(
+      (cheapest, day) => (!cheapest || day.price < cheapest.price ? day : cheapest),
+      null
+    )
+
+  // Without calendar data, fall back to the first day of the window
+  const departure = cheapestDay?.date || windowStart
+  const flights = await searchFlights(
+    {
+      from: watch.from,
+      to: watch.to,
+      departure,
+      passengers: '1',
+      cabinClass: 'economy',
+      tripType: 'one-way',
+      originSkyId: watch.originSkyId,
+      destinationSkyId: watch.destinationSkyId,
+      originEntityId: watch.originEntityId,
+      destinationEntityId: watch.destinationEntityId,
+      currency: watch.currency,
+    },
+    { skipCache: true }
+  )
+  const liveFlights = flights.filter(flight => !flight.isMock)
+
+  // Both requests fell back to sample prices - recording them could raise a false alert
+  if (!liveCalendar && liveFlights.length === 0) {
+    throw new Error('Live fares are unavailable right now')
+  }
+
+  const lowestFare =
+    liveFlights.length > 0 ? Math.min(...liveFlights.map(flight => flight.price)) : null
+  const price = lowestFare ?? cheapestDay?.price ?? null
+
+  return {
+    checkedAt: Date.now(),
+    price,
+    date: price !== null ? departure : undefined,
+  }
+}
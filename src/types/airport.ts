@@ -10,6 +10,36 @@ export interface Airport {
   latitude?: number
   longitude?: number
   entityType?: 'AIRPORT' | 'CITY' // From API response
+  distanceKm?: number // Distance from the searched location (nearby lookups only)
+}
+
+/**
+ * Airport entry in the bundled offline dataset
+ */
+export interface AirportRecord {
+  iata: string
+  icao: string
+  name: string
+  city: string
+  country: string
+  countryCode: string
+  latitude: number
+  longitude: number
+  timeZone: string // IANA time zone (e.g., "America/New_York")
+  entityId: string
+}
+
+/**
+ * Metropolitan area grouping several bundled airports under a city code
+ * (e.g., LON covers LHR, LGW, STN, LTN and LCY)
+ */
+export interface MetroAreaRecord {
+  code: string // IATA metropolitan area code (e.g., "LON")
+  city: string
+  country: string
+  countryCode: string
+  entityId: string
+  airports: string[] // Member airport IATA codes, main airport first
 }
 
 /**
@@ -11,6 +11,14 @@ import type {
 } from './airport'
 import type { Flight, PriceCalendarData, PriceCalendarDay } from './flight'
 
+/**
+ * Options of an API request
+ */
+export interface ApiRequestOptions {
+  signal?: AbortSignal // Aborts the request (e.g., when superseded or unmounted)
+  skipCache?: boolean // Bypass cached responses, for explicit re-checks that need current fares
+}
+
 /**
  * Generic API response wrapper
  * Used by Sky Scrapper API for most endpoints
@@ -63,13 +71,7 @@ export interface RawFlightData {
   arrivalAirport?: string
   origin?: string
   destination?: string
-  segments?: Array<{
-    origin?: { code?: string; name?: string }
-    destination?: { code?: string; name?: string }
-    departure?: { time?: string; airport?: string }
-    arrival?: { time?: string; airport?: string }
-    airline?: { name?: string; code?: string }
-  }>
+  segments?: RawSegmentData[]
 
   // Duration fields
   duration?: string
@@ -84,6 +86,10 @@ export interface RawFlightData {
   amount?: number | string
   total?: number | string
   fare?: number | string
+  baseFare?: number | string
+  taxes?: number | string
+  fees?: number | string
+  taxesAndFees?: number | string
 
   // Stops fields
   stops?: number
@@ -118,6 +124,13 @@ export interface RawFlightData {
     checked?: number
   }
 
+  // Itinerary legs (multi-city and round-trip responses)
+  legs?: RawLegData[]
+  itinerary?: {
+    id?: string
+    legs?: RawLegData[]
+  }
+
   // Layover fields
   layover?: Array<{
     airport: string
@@ -129,6 +142,67 @@ export interface RawFlightData {
   }>
 }
 
+/**
+ * Raw carrier reference on a leg or segment
+ */
+export interface RawCarrierData {
+  id?: string | number
+  name?: string
+  alternateId?: string
+  displayCode?: string
+}
+
+/**
+ * Raw airport reference on a leg or segment
+ */
+export interface RawPlaceData {
+  id?: string
+  code?: string
+  displayCode?: string
+  name?: string
+  city?: string
+}
+
+/**
+ * Raw flight segment from API responses
+ * Search responses use ISO strings for departure/arrival, older shapes use objects
+ */
+export interface RawSegmentData {
+  id?: string
+  origin?: RawPlaceData
+  destination?: RawPlaceData
+  departure?: string | { time?: string; airport?: string }
+  arrival?: string | { time?: string; airport?: string }
+  durationInMinutes?: number
+  duration?: number
+  flightNumber?: string
+  airline?: { name?: string; code?: string }
+  marketingCarrier?: RawCarrierData
+  operatingCarrier?: RawCarrierData
+  aircraft?: string
+  departureTerminal?: string
+  arrivalTerminal?: string
+}
+
+/**
+ * Raw itinerary leg from API search and details responses
+ */
+export interface RawLegData {
+  id?: string
+  origin?: RawPlaceData
+  destination?: RawPlaceData
+  departure?: string
+  arrival?: string
+  durationInMinutes?: number
+  duration?: number
+  stopCount?: number
+  carriers?: {
+    marketing?: RawCarrierData[]
+    operating?: RawCarrierData[]
+  }
+  segments?: RawSegmentData[]
+}
+
 /**
  * Raw price calendar item from API
  */
@@ -164,16 +238,7 @@ export interface FlightDetailsResponse {
   data?: RawFlightData
   flight?: RawFlightData
   result?: RawFlightData
-  legs?: Array<{
-    id?: string
-    origin?: string
-    destination?: string
-    departure?: string
-    arrival?: string
-    duration?: string
-    segments?: RawFlightData[]
-    carriers?: string[]
-  }>
+  legs?: RawLegData[]
   price?: {
     total?: number | string
     raw?: number | string
@@ -1,15 +1,72 @@
-export type TripType = 'round-trip' | 'one-way'
+export type TripType = 'round-trip' | 'one-way' | 'multi-city'
 
+export type CabinClass = 'economy' | 'premium-economy' | 'business' | 'first'
+
+/**
+ * A single flight (take-off to landing) within a leg
+ */
+export interface FlightSegment {
+  departureAirport: string
+  arrivalAirport: string
+  departureTime: string // Local ISO datetime with UTC offset (e.g., "2025-05-01T22:15:00-04:00")
+  arrivalTime: string // Local ISO datetime with UTC offset
+  duration?: string
+  marketingCarrier: string
+  operatingCarrier?: string // Only set when a different airline operates the flight
+  flightNumber?: string
+  aircraft?: string
+  departureTerminal?: string
+  arrivalTerminal?: string
+}
+
+export type LegDirection = 'outbound' | 'return'
+
+/**
+ * One origin → destination journey of an itinerary (e.g., the outbound half of a round trip,
+ * or JFK → LHR within a multi-city trip), made up of one or more segments
+ */
+export interface FlightLeg {
+  departureAirport: string
+  arrivalAirport: string
+  departureTime: string // Local ISO datetime with UTC offset
+  arrivalTime: string // Local ISO datetime with UTC offset
+  duration: string
+  stops: number
+  airline: string
+  date?: string // ISO date string (YYYY-MM-DD)
+  originSkyId?: string
+  destinationSkyId?: string
+  direction?: LegDirection // Set for one-way and round-trip itineraries
+  segments?: FlightSegment[]
+}
+
+/**
+ * Per-person split of a fare into base fare and taxes/fees
+ * Either part may be missing depending on what the API returns
+ */
+export interface FareBreakdown {
+  baseFare?: number
+  taxesAndFees?: number
+}
+
+/**
+ * A bookable itinerary: Itinerary → Leg → Segment
+ * Top-level times, airports, duration and stops summarize the trip (the outbound leg for
+ * round trips) so single-route views keep working; `legs` holds every leg in travel order
+ */
 export interface Flight {
   id: string
   airline: string
+  // Local ISO datetimes with the airport's UTC offset (e.g., "2025-05-01T22:15:00-04:00");
+  // sources without a date may only provide "HH:MM"
   departureTime: string
   arrivalTime: string
   departureAirport: string
   arrivalAirport: string
   duration: string
   stops: number
-  price: number
+  price: number // Per person
+  fareBreakdown?: FareBreakdown // Split of the per-person price, when the API provides it
   best?: boolean
   aircraft?: string
   flightNumber?: string
@@ -18,15 +75,43 @@ export interface Flight {
     carryOn?: boolean
     checked?: number
   }
-  layover?: {
-    airport: string
-    duration: string
-  }[]
+  layover?: Layover[]
   // API Metadata for flight details lookup
   originSkyId?: string
   destinationSkyId?: string
   departureDate?: string // ISO date string (YYYY-MM-DD)
   returnDate?: string // ISO date string (YYYY-MM-DD) for round-trip flights
+  legs?: FlightLeg[] // Outbound/return legs, or one leg per flight for multi-city itineraries
+  // Airports actually searched when a city-level or nearby-airport search fans out (IATA)
+  searchOrigin?: string
+  searchDestination?: string
+  isMock?: boolean // Sample flight (no API key, or the API failed), not a bookable fare
+}
+
+export type Itinerary = Flight
+
+/**
+ * A single origin → destination leg of a multi-city search
+ */
+export interface SearchLeg {
+  from: string
+  to: string
+  date: string // ISO date string (YYYY-MM-DD)
+  originSkyId?: string
+  destinationSkyId?: string
+  originEntityId?: string
+  destinationEntityId?: string
+}
+
+/**
+ * Travellers in a search, by fare type
+ * FlightSearchParams.passengers holds their total
+ */
+export interface PassengerCounts {
+  adults: number
+  children: number
+  infantsInSeat: number
+  infantsOnLap: number
 }
 
 export interface FlightSearchParams {
@@ -43,11 +128,33 @@ export interface FlightSearchParams {
   destinationSkyId?: string
   originEntityId?: string
   destinationEntityId?: string
+  // CITY entities are searched across their member airports
+  originEntityType?: 'AIRPORT' | 'CITY'
+  destinationEntityType?: 'AIRPORT' | 'CITY'
   adults?: number
+  children?: number // Ages 2-11
+  infantsInSeat?: number // Under 2, with their own seat (priced like children)
+  infantsOnLap?: number // Under 2, on an adult's lap
   currency?: string
   market?: string
   countryCode?: string
   locale?: string
+  // Multi-city legs (tripType 'multi-city'); from/to/departure mirror the first and last legs
+  legs?: SearchLeg[]
+  // Also search from every airport within this radius (km) of the origin
+  nearbyRadiusKm?: number
+  // Show fares of the dates around departure and return (± days) next to the results
+  flexibleDays?: number
+}
+
+/**
+ * Connection between two flights of an itinerary
+ */
+export interface Layover {
+  airport: string // IATA code of the connection airport
+  duration: string // "Xh Ym"
+  arrivalTime?: string // Local arrival at the connection airport (zoned ISO), when known
+  departureTime?: string // Local onward departure from the connection airport (zoned ISO), when known
 }
 
 export interface FlightFilters {
@@ -57,12 +164,73 @@ export interface FlightFilters {
   }
   stops: number[]
   airlines: string[]
+  excludedAirlines: string[] // Airlines to avoid on any segment (marketing or operating carrier)
+  originAirports: string[] // Searched origin airports (city-level and nearby searches)
+  destinationAirports: string[] // Searched destination airports (city-level searches)
   departureTimes: string[]
   arrivalTimes: string[]
   duration: number
+  maxLayoverMinutes: number // 0 = any layover length
+  excludedLayoverAirports: string[] // Connection airports to avoid (IATA)
+  noOvernightLayovers: boolean
+}
+
+// departure/arrival sort by time, layover by total connection time
+export type SortOption = 'best' | 'cheapest' | 'fastest' | 'departure' | 'arrival' | 'layover'
+
+export type SortDirection = 'asc' | 'desc'
+
+// Whether prices are shown per person or for the whole party
+export type PriceDisplay = 'per-person' | 'total'
+
+/**
+ * One passenger type in a price breakdown (e.g., 2 adults at $300)
+ */
+export interface PriceBreakdownLine {
+  label: string
+  count: number
+  unitPrice: number | null // null when the airline prices it at booking (lap infants)
+  subtotal: number | null
+}
+
+/**
+ * Price of a flight for the whole party
+ */
+export interface PriceBreakdown {
+  lines: PriceBreakdownLine[]
+  baseFare?: number // Party total, when the API splits the fare
+  taxesAndFees?: number // Party total, when the API splits the fare
+  total: number
+}
+
+/**
+ * Relative importance of each factor in the "Best" score (0 = ignored)
+ */
+export interface BestScoreWeights {
+  price: number
+  duration: number
+  stops: number
+  layover: number
+  departureTime: number
 }
 
-export type SortOption = 'best' | 'cheapest' | 'fastest' | 'duration' | 'departure'
+/**
+ * User-tunable "Best" scoring model
+ */
+export interface BestScoringConfig {
+  weights: BestScoreWeights
+  preferredDepartureTimes: string[] // Time-of-day buckets (e.g., 'morning'); empty = no preference
+}
+
+/**
+ * Explainable "Best" score of a flight within a result set
+ */
+export interface FlightScore {
+  score: number // 0-1, higher is better
+  rank: number // 1 = best
+  reasons: string[] // Most important factors first (e.g., "12% cheaper than median")
+  summary: string // e.g., "Ranked 1st: 12% cheaper than median, non-stop"
+}
 
 // Price Calendar Types
 export interface PriceCalendarDay {
@@ -81,6 +249,22 @@ export interface PriceCalendarData {
   minPrice: number
   maxPrice: number
   cheapestDate: string // ISO date string
+  isMock?: boolean // Generated sample prices (no API key, or the API failed)
+}
+
+// Flexible-date matrix: estimated fare of each departure × return date combination
+export interface DatePriceCell {
+  departure: string // ISO date string (YYYY-MM-DD)
+  return?: string // ISO date string; undefined for one-way searches
+  price: number | null // null without fares for both dates, or if the return is not after departure
+  isCheapest: boolean
+}
+
+export interface DatePriceMatrix {
+  departureDates: string[]
+  returnDates: string[] // Empty for one-way searches
+  rows: DatePriceCell[][] // One row per departure date, one cell per return date (or one)
+  cheapest: DatePriceCell | null
 }
 
 // Deal and Destination Types
@@ -0,0 +1,25 @@
+import type { Airport } from './airport'
+import type { CabinClass } from './flight'
+
+/**
+ * Traveller preferences used to prefill searches and pre-filter results
+ */
+export interface TravelPreferences {
+  homeAirport: Airport | null // Default origin for new searches
+  currency: string // ISO 4217 code (e.g., "USD")
+  locale: string // BCP 47 tag with a region (e.g., "en-US"), also used as the API market
+  defaultCabinClass: CabinClass
+  preferredAirlines: string[] // Airline names, listed first in the filters
+  blockedAirlines: string[] // Airline names hidden from results
+  maxStops: number | null // null = any number of stops
+}
+
+/**
+ * Market fields of a search derived from the preferences
+ */
+export interface MarketParams {
+  currency: string
+  market: string
+  countryCode: string
+  locale: string
+}
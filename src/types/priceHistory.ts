@@ -0,0 +1,27 @@
+/**
+ * Lowest fare seen when a route was searched, recorded locally
+ */
+export interface PriceObservation {
+  observedAt: number // Timestamp (ms)
+  departure: string // Searched departure date (YYYY-MM-DD)
+  price: number // Lowest per-person fare of the results
+}
+
+/**
+ * Observations of every searched route, keyed by route (see getPriceHistoryRouteKey)
+ */
+export type PriceHistory = Record<string, PriceObservation[]>
+
+export type PriceTrendDirection = 'rising' | 'falling' | 'stable'
+
+export type PriceTrendConfidence = 'low' | 'medium' | 'high'
+
+/**
+ * Direction of a route's fares over its recorded observations
+ */
+export interface PriceTrend {
+  direction: PriceTrendDirection
+  confidence: PriceTrendConfidence
+  changePercent: number // Fitted change from the first to the last observation
+  sampleSize: number
+}
@@ -0,0 +1,44 @@
+/**
+ * One price check of a watched route
+ */
+export interface PriceWatchPoint {
+  checkedAt: number // Timestamp (ms)
+  price: number | null // Lowest fare in the date window, or null if nothing was found
+  date?: string // Departure date of the lowest fare (YYYY-MM-DD)
+}
+
+/**
+ * A watched route with a target price and date window
+ */
+export interface PriceWatch {
+  id: string
+  from: string // Display label (e.g., "New York (JFK)")
+  to: string
+  originSkyId: string
+  destinationSkyId: string
+  originEntityId?: string
+  destinationEntityId?: string
+  windowStart: string // Earliest departure date (YYYY-MM-DD)
+  windowEnd: string // Latest departure date (YYYY-MM-DD)
+  targetPrice: number
+  currency: string
+  notify: boolean // Also raise a browser notification when the target is met
+  createdAt: number // Timestamp (ms)
+  history: PriceWatchPoint[] // Oldest first
+  lastCheckedAt?: number // Timestamp (ms) of the last check attempt, successful or not
+  lastError?: string // Message of the last failed check, cleared on success
+}
+
+/**
+ * Fields the user provides when creating a watch
+ */
+export type PriceWatchInput = Omit<
+  PriceWatch,
+  'id' | 'createdAt' | 'history' | 'lastCheckedAt' | 'lastError'
+>
+
+/**
+ * pending: not checked yet; watching: above target; below-target: target met;
+ * unavailable: no fares found in the window; expired: the window has passed
+ */
+export type PriceWatchStatus = 'pending' | 'watching' | 'below-target' | 'unavailable' | 'expired'
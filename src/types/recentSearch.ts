@@ -0,0 +1,13 @@
+import type { Airport } from './airport'
+import type { FlightSearchParams } from './flight'
+
+/**
+ * A search submitted from the search form, kept for quick re-runs
+ */
+export interface RecentSearch {
+  id: string // Canonical search query (see getRecentSearchId)
+  params: FlightSearchParams
+  fromAirport: Airport | null // Selected origin (first leg origin for multi-city)
+  toAirport: Airport | null // Selected destination (last leg destination for multi-city)
+  searchedAt: number // Timestamp (ms)
+}
@@ -0,0 +1,31 @@
+import type { Flight, FlightSearchParams } from './flight'
+
+/**
+ * Result of re-running the search a saved flight came from
+ */
+export interface SavedFlightPriceCheck {
+  price: number | null // Current price, or null if the flight is no longer offered
+  checkedAt: number // Timestamp (ms)
+}
+
+/**
+ * A flight saved to the watchlist, with the search it came from
+ */
+export interface SavedFlight {
+  id: string // Unique per search + flight (see getSavedFlightId)
+  tripKey: string // Flights saved from the same search share a trip
+  flight: Flight
+  searchParams: FlightSearchParams
+  savedAt: number // Timestamp (ms)
+  note: string
+  priceCheck?: SavedFlightPriceCheck
+}
+
+/**
+ * Saved flights from the same search, grouped for display
+ */
+export interface SavedTrip {
+  tripKey: string
+  searchParams: FlightSearchParams
+  flights: SavedFlight[]
+}
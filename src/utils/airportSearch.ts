@@ -0,0 +1,220 @@
+import { airports, metroAreas } from '../data/airports'
+import type { AirportRecord, MetroAreaRecord } from '../types/airport'
+
+interface IndexedAirport {
+  record: AirportRecord
+  iata: string
+  icao: string
+  city: string
+  name: string
+  country: string
+  words: string[] // Individual words of city and name, for word-prefix and fuzzy matching
+}
+
+// Match scores - higher ranks first
+const SCORE = {
+  exactIata: 1000,
+  exactIcao: 900,
+  exactCity: 800,
+  cityPrefix: 700,
+  namePrefix: 650,
+  wordPrefix: 600,
+  iataPrefix: 550,
+  contains: 400,
+  country: 300,
+  fuzzy: 200,
+} as const
+
+let index: IndexedAirport[] | null = null
+
+/**
+ * Lowercases text and strips accents and punctuation ("Zürich-Flughafen" → "zurich flughafen")
+ */
+function normalizeText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+/**
+ * Builds the search index on first use
+ */
+function getIndex(): IndexedAirport[] {
+  if (!index) {
+    index = airports.map(record => {
+      const city = normalizeText(record.city)
+      const name = normalizeText(record.name)
+      return {
+        record,
+        iata: record.iata.toLowerCase(),
+        icao: record.icao.toLowerCase(),
+        city,
+        name,
+        country: normalizeText(record.country),
+        words: Array.from(new Set(`${city} ${name}`.split(' ').filter(Boolean))),
+      }
+    })
+  }
+  return index
+}
+
+/**
+ * Levenshtein edit distance, stopping early once it exceeds maxDistance
+ * @returns Distance, or maxDistance + 1 if the strings differ by more than maxDistance
+ */
+function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      rowMin = Math.min(rowMin, current[j])
+    }
+    if (rowMin > maxDistance) return maxDistance + 1
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Scores how well an airport matches a normalized query
+ * @returns Score (0 = no match)
+ */
+function scoreAirport(entry: IndexedAirport, query: string, iataHint: string | null): number {
+  if (iataHint && entry.iata === iataHint) return SCORE.exactIata
+  if (!query) return 0
+
+  if (entry.iata === query) return SCORE.exactIata
+  if (entry.icao === query) return SCORE.exactIcao
+  if (entry.city === query) return SCORE.exactCity
+  if (entry.city.startsWith(query)) return SCORE.cityPrefix
+  if (entry.name.startsWith(query)) return SCORE.namePrefix
+  if (entry.words.some(word => word.startsWith(query))) return SCORE.wordPrefix
+  if (query.length < 3 && entry.iata.startsWith(query)) return SCORE.iataPrefix
+  if (entry.city.includes(query) || entry.name.includes(query)) return SCORE.contains
+  if (entry.country.startsWith(query)) return SCORE.country
+
+  // Fuzzy: tolerate typos in city/name words, including partially typed words
+  if (query.length >= 4) {
+    const maxDistance = query.length >= 7 ? 2 : 1
+    const distance = Math.min(
+      ...entry.words.map(word =>
+        Math.min(
+          editDistance(query, word, maxDistance),
+          editDistance(query, word.slice(0, query.length), maxDistance)
+        )
+      )
+    )
+    if (distance <= maxDistance) return SCORE.fuzzy - distance * 50
+  }
+
+  return 0
+}
+
+/**
+ * Searches the bundled airport dataset
+ * Ranks exact IATA/ICAO codes first, then city and name prefixes, substrings, country
+ * matches and finally fuzzy (typo-tolerant) matches
+ * Accepts autocomplete display values such as "New York (JFK)"
+ * @param query - Free-text query (city, airport name, IATA/ICAO code or country)
+ * @param limit - Maximum number of results (default: 10)
+ * @returns Matching airports, best match first
+ * @example
+ * ```typescript
+ * searchAirports('lond') // LHR, LGW, STN, LTN, LCY
+ * searchAirports('frankfrt') // FRA (fuzzy)
+ * ```
+ */
+export function searchAirports(query: string, limit = 10): AirportRecord[] {
+  const iataMatch = query.match(/\(([A-Z]{3})\)/i)
+  const iataHint = iataMatch ? iataMatch[1].toLowerCase() : null
+  const normalizedQuery = normalizeText(query.replace(/\([^)]*\)/g, ' '))
+  if (!normalizedQuery && !iataHint) return []
+
+  return getIndex()
+    .map((entry, position) => ({
+      entry,
+      position,
+      score: scoreAirport(entry, normalizedQuery, iataHint),
+    }))
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score || a.position - b.position)
+    .slice(0, limit)
+    .map(result => result.entry.record)
+}
+
+/**
+ * Searches metropolitan areas (multi-airport cities) by city code or city name prefix
+ * A code in parentheses (e.g., "London (LON)") must match the city code exactly,
+ * so "London (LHR)" does not return the whole city
+ * @param query - Free-text query
+ * @returns Matching metro areas
+ */
+export function searchMetroAreas(query: string): MetroAreaRecord[] {
+  const codeMatch = query.match(/\(([A-Z]{3})\)/i)
+  if (codeMatch) {
+    const code = codeMatch[1].toUpperCase()
+    return metroAreas.filter(metro => metro.code === code)
+  }
+
+  const normalizedQuery = normalizeText(query)
+  if (normalizedQuery.length < 2) return []
+  return metroAreas.filter(
+    metro =>
+      metro.code.toLowerCase() === normalizedQuery ||
+      normalizeText(metro.city).startsWith(normalizedQuery)
+  )
+}
+
+const EARTH_RADIUS_KM = 6371
+
+/**
+ * Great-circle distance between two coordinates (haversine formula)
+ * @returns Distance in kilometres
+ */
+export function haversineDistanceKm(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+  const dLat = toRadians(lat2 - lat1)
+  const dLng = toRadians(lng2 - lng1)
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)))
+}
+
+/**
+ * Finds bundled airports within a radius of a location
+ * @param lat - Latitude of the location
+ * @param lng - Longitude of the location
+ * @param radiusKm - Search radius in kilometres
+ * @returns Airports within the radius with their distance, nearest first
+ * @example
+ * ```typescript
+ * findAirportsWithinRadius(51.5074, -0.1278, 60) // LCY, LHR, LGW, LTN, STN
+ * ```
+ */
+export function findAirportsWithinRadius(
+  lat: number,
+  lng: number,
+  radiusKm: number
+): { airport: AirportRecord; distanceKm: number }[] {
+  return airports
+    .map(airport => ({
+      airport,
+      distanceKm: haversineDistanceKm(lat, lng, airport.latitude, airport.longitude),
+    }))
+    .filter(result => result.distanceKm <= radiusKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+}
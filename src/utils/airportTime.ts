@@ -0,0 +1,193 @@
+import { getAirportByIata } from '../data/airports'
+
+// "YYYY-MM-DDTHH:MM[:SS]" with an optional trailing UTC offset
+const LOCAL_DATE_TIME = /^(\d{4}-\d{2}-\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?/
+const UTC_OFFSET = /(Z|[+-]\d{2}:?\d{2})$/
+
+/**
+ * Looks up the IANA time zone of an airport from the bundled dataset (works offline)
+ * @param iata - IATA airport code (e.g., "JFK")
+ * @returns IANA time zone (e.g., "America/New_York"), or undefined if unknown
+ */
+export function getAirportTimeZone(iata?: string): string | undefined {
+  return getAirportByIata(iata)?.timeZone
+}
+
+/**
+ * Gets a time zone's offset from UTC at a given instant (accounts for daylight saving time)
+ * @returns Offset in minutes (e.g., -240 for New York in summer)
+ */
+function getUtcOffsetMinutes(timeZone: string, instant: Date): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant)
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(part => part.type === type)?.value)
+  const wallClockAsUtc = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second')
+  )
+  return Math.round((wallClockAsUtc - instant.getTime()) / 60000)
+}
+
+/**
+ * Formats a UTC offset in minutes as "+HH:MM"/"-HH:MM"
+ */
+function formatUtcOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+'
+  const absolute = Math.abs(offsetMinutes)
+  const hours = String(Math.floor(absolute / 60)).padStart(2, '0')
+  const minutes = String(absolute % 60).padStart(2, '0')
+  return `${sign}${hours}:${minutes}`
+}
+
+/**
+ * Reads the UTC offset of a zoned datetime
+ * @returns Offset in minutes, or undefined if the value has no offset
+ */
+function parseUtcOffset(dateTime: string): number | undefined {
+  const match = dateTime.match(UTC_OFFSET)
+  if (!match) return undefined
+  if (match[1] === 'Z') return 0
+  const sign = match[1].startsWith('-') ? -1 : 1
+  const digits = match[1].slice(1).replace(':', '')
+  return sign * (parseInt(digits.slice(0, 2), 10) * 60 + parseInt(digits.slice(2), 10))
+}
+
+/**
+ * Checks whether a datetime carries a UTC offset (and so identifies an exact instant)
+ */
+export function isZonedDateTime(dateTime?: string): boolean {
+  return !!dateTime && LOCAL_DATE_TIME.test(dateTime) && UTC_OFFSET.test(dateTime)
+}
+
+/**
+ * Attaches the airport's UTC offset to a local datetime
+ * Values that already carry an offset, and non-datetime values (e.g., legacy "HH:MM"),
+ * are returned unchanged
+ * @param localDateTime - Local datetime at the airport (e.g., "2025-05-01T22:15:00")
+ * @param iata - IATA code of the airport the time is local to
+ * @returns Zoned ISO datetime (e.g., "2025-05-01T22:15:00-04:00"), or the local datetime
+ * without an offset if the airport's time zone is unknown
+ */
+export function toAirportDateTime(localDateTime: string | undefined, iata?: string): string {
+  if (!localDateTime) return ''
+  const match = localDateTime.match(LOCAL_DATE_TIME)
+  if (!match || UTC_OFFSET.test(localDateTime)) return localDateTime
+
+  const [, date, hours, minutes, seconds = '00'] = match
+  const local = `${date}T${hours}:${minutes}:${seconds}`
+  const timeZone = getAirportTimeZone(iata)
+  if (!timeZone) return local
+
+  // Read the wall-clock time as UTC, then correct by the zone's offset at that instant.
+  // The second lookup handles guesses that land on the other side of a DST change.
+  const wallClockAsUtc = Date.parse(`${local}Z`)
+  let offset = getUtcOffsetMinutes(timeZone, new Date(wallClockAsUtc))
+  offset = getUtcOffsetMinutes(timeZone, new Date(wallClockAsUtc - offset * 60000))
+
+  return `${local}${formatUtcOffset(offset)}`
+}
+
+/**
+ * Adds elapsed minutes to a zoned datetime and expresses the result in an airport's local time
+ * Used to derive arrival times from a departure time and flight duration
+ * @param dateTime - Zoned ISO datetime (e.g., departure)
+ * @param minutes - Elapsed minutes to add
+ * @param iata - IATA code of the airport to express the result in
+ * @returns Zoned ISO datetime, or '' if dateTime is not a zoned datetime
+ */
+export function addMinutesAtAirport(dateTime: string, minutes: number, iata?: string): string {
+  const start = Date.parse(dateTime)
+  if (!isZonedDateTime(dateTime) || Number.isNaN(start)) return ''
+
+  const instant = new Date(start + minutes * 60000)
+  const timeZone = getAirportTimeZone(iata)
+  // Without a known zone, keep the starting offset rather than guessing
+  const offset = timeZone ? getUtcOffsetMinutes(timeZone, instant) : (parseUtcOffset(dateTime) ?? 0)
+  const local = new Date(instant.getTime() + offset * 60000).toISOString().slice(0, 19)
+
+  return `${local}${formatUtcOffset(offset)}`
+}
+
+/**
+ * Gets the local wall-clock time of a datetime
+ * @param dateTime - ISO datetime or legacy "HH:MM" value
+ * @returns "HH:MM" as shown on airport departure boards
+ */
+export function formatLocalTime(dateTime: string): string {
+  if (!dateTime) return ''
+  const match = dateTime.match(/(?:T|^)(\d{2}:\d{2})/)
+  return match ? match[1] : dateTime
+}
+
+/**
+ * Gets the local hour (0-23) of a datetime, used for time-of-day filters
+ * @param dateTime - ISO datetime or legacy "HH:MM" value
+ * @returns Hour of the day, or NaN if it cannot be read
+ */
+export function getLocalHour(dateTime: string): number {
+  return parseInt(formatLocalTime(dateTime).split(':')[0], 10)
+}
+
+/**
+ * Gets the local calendar date of a datetime
+ * @param dateTime - ISO datetime
+ * @returns Date string (YYYY-MM-DD), or '' for values without a date (e.g., "HH:MM")
+ */
+export function getLocalDate(dateTime: string): string {
+  return dateTime.match(LOCAL_DATE_TIME)?.[1] ?? ''
+}
+
+/**
+ * Number of calendar days between the local departure date and the local arrival date
+ * @param departure - Departure datetime
+ * @param arrival - Arrival datetime
+ * @returns 1 for "+1" (next-day arrival), 2 for "+2", -1 when crossing the date line westward,
+ * 0 for same-day arrivals or when dates are unknown
+ */
+export function getDayOffset(departure: string, arrival: string): number {
+  const departureDate = getLocalDate(departure)
+  const arrivalDate = getLocalDate(arrival)
+  if (!departureDate || !arrivalDate) return 0
+  return Math.round((Date.parse(arrivalDate) - Date.parse(departureDate)) / 86400000)
+}
+
+/**
+ * Elapsed minutes between two zoned datetimes, independent of the airports' time zones
+ * @returns Minutes, or undefined if either value lacks a UTC offset or arrival precedes departure
+ */
+export function getElapsedMinutes(departure?: string, arrival?: string): number | undefined {
+  if (!isZonedDateTime(departure) || !isZonedDateTime(arrival)) return undefined
+  const diff = (Date.parse(arrival as string) - Date.parse(departure as string)) / 60000
+  return Number.isFinite(diff) && diff >= 0 ? Math.round(diff) : undefined
+}
+
+/**
+ * Gets a short time zone label for an airport-local datetime (e.g., "EDT", "GMT+9")
+ * @param dateTime - Zoned ISO datetime
+ * @param iata - IATA code of the airport the time is local to
+ * @returns Time zone abbreviation, or '' if unknown
+ */
+export function getTimeZoneLabel(dateTime: string, iata?: string): string {
+  const timeZone = getAirportTimeZone(iata)
+  const instant = Date.parse(dateTime)
+  if (!timeZone || !isZonedDateTime(dateTime) || Number.isNaN(instant)) return ''
+
+  return (
+    new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+      .formatToParts(new Date(instant))
+      .find(part => part.type === 'timeZoneName')?.value ?? ''
+  )
+}
@@ -8,18 +8,31 @@ interface RetryConfig {
   baseDelay?: number // Base delay in milliseconds
   maxDelay?: number // Maximum delay in milliseconds
   retryableStatusCodes?: number[] // HTTP status codes that should trigger retry
+  signal?: AbortSignal // Stops the request and any pending retry when aborted
 }
 
 /**
  * Default retry configuration
  */
-const DEFAULT_CONFIG: Required<RetryConfig> = {
+const DEFAULT_CONFIG: Required<Omit<RetryConfig, 'signal'>> = {
   maxRetries: 2,
   baseDelay: 1000, // 1 second base delay
   maxDelay: 10000, // 10 seconds max delay
   retryableStatusCodes: [500, 502, 503, 504], // Retry on server errors only (NOT 429 - rate limits should not retry immediately)
 }
 
+/**
+ * Checks if an error comes from an aborted request (AbortController)
+ * @param error - Caught error
+ * @returns true if the request was aborted, false otherwise
+ */
+export function isAbortError(error: unknown): boolean {
+  return (
+    (error instanceof DOMException || error instanceof Error) &&
+    (error.name === 'AbortError' || error.name === 'TimeoutError')
+  )
+}
+
 /**
  * Checks if an error is retryable based on status code
  * Client errors (400-403, 429) should NOT be retried
@@ -32,6 +45,11 @@ function isRetryableError(
   error: unknown,
   retryableStatusCodes: number[] = DEFAULT_CONFIG.retryableStatusCodes
 ): boolean {
+  // Aborted requests were cancelled on purpose
+  if (isAbortError(error)) {
+    return false
+  }
+
   // Network errors are always retryable
   if (error instanceof TypeError && error.message.includes('fetch')) {
     return true
@@ -76,17 +94,42 @@ function calculateDelay(attempt: number, baseDelay: number, maxDelay: number): n
   return Math.min(delay, maxDelay)
 }
 
+/**
+ * Waits before a retry, stopping early if the signal aborts
+ * @param delay - Delay in milliseconds
+ * @param signal - Abort signal of the request
+ * @returns Promise that resolves after the delay
+ * @throws The abort reason if the signal aborts while waiting
+ */
+function waitForRetry(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timeout)
+      reject(signal?.reason)
+    }
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, delay)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
 /**
  * Makes an API request with exponential retry logic
  * Retries on transient failures (network errors, rate limits, server errors)
- * Does NOT retry on client errors (400-403)
- * @param requestFn - Function that makes the API request and returns a Promise
- * @param config - Retry configuration
+ * Does NOT retry on client errors (400-403) or aborted requests
+ * @param requestFn - Function that makes the API request with the given signal and returns a Promise
+ * @param config - Retry configuration (including the abort signal)
  * @returns Promise with the result of the API request
  * @throws Error if all retries are exhausted
  */
 export async function apiRequestWithRetry<T>(
-  requestFn: () => Promise<T>,
+  requestFn: (signal?: AbortSignal) => Promise<T>,
   config: RetryConfig = {}
 ): Promise<T> {
   const {
@@ -94,13 +137,15 @@ export async function apiRequestWithRetry<T>(
     baseDelay = DEFAULT_CONFIG.baseDelay,
     maxDelay = DEFAULT_CONFIG.maxDelay,
     retryableStatusCodes = DEFAULT_CONFIG.retryableStatusCodes,
+    signal,
   } = config
 
   let lastError: unknown
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    signal?.throwIfAborted()
     try {
-      return await requestFn()
+      return await requestFn(signal)
     } catch (error) {
       lastError = error
 
@@ -132,7 +177,7 @@ export async function apiRequestWithRetry<T>(
       }
 
       // Wait before retrying
-      await new Promise(resolve => setTimeout(resolve, delay))
+      await waitForRetry(delay, signal)
     }
   }
 
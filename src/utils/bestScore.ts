@@ -0,0 +1,178 @@
+import type { BestScoreWeights, BestScoringConfig, Flight, FlightScore } from '../types/flight'
+import { getTotalLayoverMinutes } from './layovers'
+import { formatDuration, parseDuration } from './parseDuration'
+import { TIME_OF_DAY_OPTIONS, getTimeOfDay } from './timeOfDay'
+
+/**
+ * Default "Best" weights: price matters most, then total duration and stops
+ */
+export const DEFAULT_BEST_SCORING: BestScoringConfig = {
+  weights: {
+    price: 5,
+    duration: 3,
+    stops: 2,
+    layover: 1,
+    departureTime: 1,
+  },
+  preferredDepartureTimes: [],
+}
+
+// Factors shown in the summary of each flight's score
+const SUMMARY_REASONS = 2
+
+type ScoreFactor = keyof BestScoreWeights
+
+interface FactorResult {
+  factor: ScoreFactor
+  penalty: number // 0 (best in the result set) - 1 (worst)
+  reason: string | null
+}
+
+/**
+ * Scales a value to 0-1 within a range (0 when the range is empty)
+ */
+function normalize(value: number, min: number, max: number): number {
+  return max > min ? (value - min) / (max - min) : 0
+}
+
+/**
+ * Median of a non-empty list of numbers
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+/**
+ * Formats a rank as an ordinal ("1st", "2nd", "3rd", "11th")
+ */
+function formatOrdinal(rank: number): string {
+  const lastTwo = rank % 100
+  if (lastTwo >= 11 && lastTwo <= 13) return `${rank}th`
+  const suffixes: Record<number, string> = { 1: 'st', 2: 'nd', 3: 'rd' }
+  return `${rank}${suffixes[rank % 10] || 'th'}`
+}
+
+/**
+ * Scores flights for the "Best" sort
+ * Each factor is scaled against the rest of the result set (cheapest = 0, most expensive = 1)
+ * and combined as a weighted average; flights outside a preferred departure time are penalized
+ * @param flights - Result set to score
+ * @param config - Weights and departure-time preference (default: DEFAULT_BEST_SCORING)
+ * @returns Scores keyed by flight id, with rank and human-readable reasons
+ * @example
+ * ```typescript
+ * scoreFlights(flights).get(flights[0].id)?.summary
+ * // "Ranked 1st: 12% cheaper than median, non-stop"
+ * ```
+ */
+export function scoreFlights(
+  flights: Flight[],
+  config: BestScoringConfig = DEFAULT_BEST_SCORING
+): Map<string, FlightScore> {
+  const scores = new Map<string, FlightScore>()
+  if (flights.length === 0) return scores
+
+  const { weights, preferredDepartureTimes } = config
+  const prices = flights.map(flight => flight.price)
+  const durations = flights.map(flight => parseDuration(flight.duration)).filter(d => d > 0)
+  const layovers = flights.map(getTotalLayoverMinutes)
+  const minPrice = Math.min(...prices)
+  const maxPrice = Math.max(...prices)
+  const medianPrice = median(prices)
+  const minDuration = durations.length > 0 ? Math.min(...durations) : 0
+  const maxDuration = durations.length > 0 ? Math.max(...durations) : 0
+  const maxStops = Math.max(...flights.map(flight => flight.stops))
+  const maxLayover = Math.max(...layovers)
+  const totalWeight = Object.values(weights).reduce((sum, weight) => sum + weight, 0)
+
+  // Factors with the highest weight explain the score first
+  const factorOrder = (Object.keys(weights) as ScoreFactor[])
+    .filter(factor => weights[factor] > 0)
+    .sort((a, b) => weights[b] - weights[a])
+
+  const evaluate = (flight: Flight, layoverMinutes: number): Record<ScoreFactor, FactorResult> => {
+    const pricePercent = medianPrice > 0 ? Math.round((1 - flight.price / medianPrice) * 100) : 0
+    const duration = parseDuration(flight.duration)
+    const timeOfDay = getTimeOfDay(flight.departureTime)
+    const isPreferredTime = preferredDepartureTimes.includes(timeOfDay)
+    const timeLabel = TIME_OF_DAY_OPTIONS.find(option => option.value === timeOfDay)?.label
+
+    return {
+      price: {
+        factor: 'price',
+        penalty: normalize(flight.price, minPrice, maxPrice),
+        reason:
+          pricePercent > 0
+            ? `${pricePercent}% cheaper than median`
+            : pricePercent < 0
+              ? `${-pricePercent}% above median price`
+              : 'median price',
+      },
+      duration: {
+        factor: 'duration',
+        // Unknown durations sit in the middle of the range
+        penalty: duration > 0 ? normalize(duration, minDuration, maxDuration) : 0.5,
+        reason:
+          duration <= 0
+            ? null
+            : duration === minDuration
+              ? 'fastest option'
+              : `+${formatDuration(duration - minDuration)} vs fastest`,
+      },
+      stops: {
+        factor: 'stops',
+        penalty: maxStops > 0 ? flight.stops / maxStops : 0,
+        reason:
+          flight.stops === 0 ? 'non-stop' : `${flight.stops} stop${flight.stops > 1 ? 's' : ''}`,
+      },
+      layover: {
+        factor: 'layover',
+        penalty: maxLayover > 0 ? layoverMinutes / maxLayover : 0,
+        reason: layoverMinutes > 0 ? `${formatDuration(layoverMinutes)} of layovers` : null,
+      },
+      departureTime: {
+        factor: 'departureTime',
+        penalty: preferredDepartureTimes.length > 0 && !isPreferredTime ? 1 : 0,
+        reason:
+          preferredDepartureTimes.length === 0 || !timeLabel
+            ? null
+            : isPreferredTime
+              ? `${timeLabel.toLowerCase()} departure`
+              : `outside preferred departure time`,
+      },
+    }
+  }
+
+  const scored = flights.map((flight, index) => {
+    const factors = evaluate(flight, layovers[index])
+    const weightedPenalty = factorOrder.reduce(
+      (sum, factor) => sum + weights[factor] * factors[factor].penalty,
+      0
+    )
+    return {
+      flight,
+      score: totalWeight > 0 ? 1 - weightedPenalty / totalWeight : 1,
+      reasons: factorOrder
+        .map(factor => factors[factor].reason)
+        .filter((reason): reason is string => !!reason),
+    }
+  })
+
+  // Equal scores fall back to price so the ranking is deterministic
+  scored
+    .sort((a, b) => b.score - a.score || a.flight.price - b.flight.price)
+    .forEach(({ flight, score, reasons }, index) => {
+      const rank = index + 1
+      const summaryReasons = reasons.slice(0, SUMMARY_REASONS)
+      scores.set(flight.id, {
+        score,
+        rank,
+        reasons,
+        summary: `Ranked ${formatOrdinal(rank)}${summaryReasons.length > 0 ? `: ${summaryReasons.join(', ')}` : ''}`,
+      })
+    })
+
+  return scores
+}
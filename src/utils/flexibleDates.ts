@@ -0,0 +1,81 @@
+import type { DatePriceCell, DatePriceMatrix, PriceCalendarDay } from '../types/flight'
+import { addDays, getTodayDate } from './formatDate'
+
+// Days searched either side of the chosen dates when "flexible dates" is on
+export const FLEXIBLE_DAYS = 3
+
+/**
+ * Gets the dates around a date, skipping those before the earliest allowed day
+ * @param date - Chosen ISO date
+ * @param days - Days to add on either side
+ * @param earliest - First allowed ISO date (default: today)
+ * @returns Ascending ISO dates
+ * @example
+ * ```typescript
+ * getFlexibleDates("2025-05-10", 1) // ["2025-05-09", "2025-05-10", "2025-05-11"]
+ * ```
+ */
+export function getFlexibleDates(date: string, days: number, earliest = getTodayDate()): string[] {
+  const dates: string[] = []
+  for (let offset = -days; offset <= days; offset++) {
+    const day = addDays(date, offset)
+    if (day >= earliest) dates.push(day)
+  }
+  return dates
+}
+
+/**
+ * Indexes bookable calendar prices by date
+ */
+function getPricesByDate(calendar: PriceCalendarDay[]): Map<string, number> {
+  return new Map(
+    calendar.filter(day => !day.isUnavailable && day.price > 0).map(day => [day.date, day.price])
+  )
+}
+
+/**
+ * Builds the departure × return fare matrix of a flexible-date search
+ * Round-trip cells add up the one-way calendar fares of both directions, so they are estimates
+ * until the dates are searched; cells returning on or before the departure day have no price,
+ * as searches need the return after the departure
+ * @param departureDates - Departure dates (matrix rows)
+ * @param returnDates - Return dates (matrix columns); empty for one-way searches
+ * @param outbound - Price calendar from origin to destination
+ * @param inbound - Price calendar from destination to origin (round trips only)
+ * @returns Matrix with the cheapest cell flagged
+ */
+export function buildDatePriceMatrix(
+  departureDates: string[],
+  returnDates: string[],
+  outbound: PriceCalendarDay[],
+  inbound: PriceCalendarDay[] = []
+): DatePriceMatrix {
+  const outboundPrices = getPricesByDate(outbound)
+  const inboundPrices = getPricesByDate(inbound)
+
+  const rows: DatePriceCell[][] = departureDates.map(departure => {
+    const outboundPrice = outboundPrices.get(departure) ?? null
+    if (returnDates.length === 0) {
+      return [{ departure, price: outboundPrice, isCheapest: false }]
+    }
+    return returnDates.map(returnDate => {
+      const inboundPrice = inboundPrices.get(returnDate) ?? null
+      const price =
+        returnDate > departure && outboundPrice !== null && inboundPrice !== null
+          ? outboundPrice + inboundPrice
+          : null
+      return { departure, return: returnDate, price, isCheapest: false }
+    })
+  })
+
+  const cheapest = rows
+    .flat()
+    .reduce<DatePriceCell | null>(
+      (best, cell) =>
+        cell.price !== null && (best?.price == null || cell.price < best.price) ? cell : best,
+      null
+    )
+  if (cheapest) cheapest.isCheapest = true
+
+  return { departureDates, returnDates, rows, cheapest }
+}
@@ -61,3 +61,13 @@ export function extractIATACode(displayString: string): string {
   // Return original if no pattern matches
   return displayString
 }
+
+/**
+ * Formats a distance to an airport for display
+ * @param distanceKm - Distance in kilometres
+ * @returns Formatted string (e.g., "23 km away" or "<1 km away")
+ */
+export function formatDistance(distanceKm: number): string {
+  if (distanceKm < 1) return '<1 km away'
+  return `${Math.round(distanceKm)} km away`
+}
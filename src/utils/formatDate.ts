@@ -103,6 +103,30 @@ export function getFutureDate(daysToAdd = 0): string {
   return date.toISOString().split('T')[0]
 }
 
+/**
+ * Shifts an ISO date by a number of days
+ * @param date - ISO date string (YYYY-MM-DD format)
+ * @param days - Days to add (negative to go back)
+ * @returns Shifted ISO date string
+ */
+export function addDays(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`)
+  shifted.setUTCDate(shifted.getUTCDate() + days)
+  return shifted.toISOString().split('T')[0]
+}
+
+/**
+ * Counts the days from one ISO date to another
+ * @param from - Start ISO date
+ * @param to - End ISO date
+ * @returns Whole days between the dates (negative if to is before from)
+ */
+export function getDaysBetween(from: string, to: string): number {
+  return Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000)
+  )
+}
+
 /**
  * Gets the current year (useful for copyright notices)
  * @returns Current year as number
@@ -0,0 +1,22 @@
+import type { FlightLeg } from '../types/flight'
+
+/**
+ * Gets the display label for an itinerary leg
+ * @param leg - Itinerary leg
+ * @param index - Position of the leg in the itinerary (0-based)
+ * @returns "Outbound"/"Return" for one-way and round trips, "Flight N" for multi-city legs
+ */
+export function getLegLabel(leg: FlightLeg, index: number): string {
+  if (leg.direction === 'outbound') return 'Outbound'
+  if (leg.direction === 'return') return 'Return'
+  return `Flight ${index + 1}`
+}
+
+/**
+ * Formats a stop count as text
+ * @param stops - Number of stops
+ * @returns "Non-stop", "1 stop" or "N stops"
+ */
+export function formatStops(stops: number): string {
+  return stops === 0 ? 'Non-stop' : `${stops} stop${stops > 1 ? 's' : ''}`
+}
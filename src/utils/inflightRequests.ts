@@ -0,0 +1,87 @@
+import { logger } from './logger'
+
+/**
+ * Request shared by every caller asking for the same key while it runs
+ */
+interface InflightRequest {
+  promise: Promise<unknown>
+  controller: AbortController // Aborts the shared request
+  waiting: number // Callers still waiting for the result
+}
+
+const inflightRequests = new Map<string, InflightRequest>()
+
+/**
+ * Stops waiting for a shared request, aborting it once no caller is left
+ */
+function leaveRequest(key: string, request: InflightRequest, reason: unknown): void {
+  request.waiting -= 1
+  if (request.waiting > 0) return
+
+  if (inflightRequests.get(key) === request) {
+    inflightRequests.delete(key)
+  }
+  request.controller.abort(reason)
+}
+
+/**
+ * Coalesces identical concurrent requests into one
+ * The first caller of a key starts the request; callers asking for the same key before it
+ * settles get the same result. Aborting a caller's signal only rejects that caller - the
+ * request itself is aborted when every caller waiting for it has aborted
+ * @param key - Request identity (e.g., a cache key from getCacheKey)
+ * @param request - Starts the request with the shared abort signal
+ * @param signal - Abort signal of this caller
+ * @returns Promise with the shared result
+ * @throws The abort reason if the caller's signal aborts first, or whatever the request throws
+ * @example
+ * ```typescript
+ * const data = await coalesceRequest(key, shared => fetch(url, { signal: shared }), signal)
+ * ```
+ */
+export function coalesceRequest<T>(
+  key: string,
+  request: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason)
+  }
+
+  let inflight = inflightRequests.get(key)
+  if (inflight) {
+    logger.debug('inflightRequests', `Joining in-flight request: ${key}`)
+  } else {
+    const controller = new AbortController()
+    const started: InflightRequest = {
+      promise: request(controller.signal).finally(() => {
+        if (inflightRequests.get(key) === started) {
+          inflightRequests.delete(key)
+        }
+      }),
+      controller,
+      waiting: 0,
+    }
+    // Callers handle failures; this keeps a request every caller left from reporting an
+    // unhandled rejection
+    started.promise.catch(() => {})
+    inflightRequests.set(key, started)
+    inflight = started
+  }
+
+  const shared = inflight
+  const result = shared.promise as Promise<T>
+  shared.waiting += 1
+  if (!signal) {
+    return result
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      leaveRequest(key, shared, signal.reason)
+      reject(signal.reason)
+    }
+    signal.addEventListener('abort', onAbort, { once: true })
+    result.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
@@ -0,0 +1,57 @@
+import type { Flight, Layover } from '../types/flight'
+import { getLocalDate, getLocalHour } from './airportTime'
+import { parseDuration } from './parseDuration'
+
+// Layovers that start before this local hour are treated as overnight
+const OVERNIGHT_END_HOUR = 5
+
+/**
+ * Gets the length of a layover in minutes
+ * @param layover - Layover with an "Xh Ym" duration
+ * @returns Minutes, or 0 if the duration is unknown
+ */
+export function getLayoverMinutes(layover: Layover): number {
+  return parseDuration(layover.duration)
+}
+
+/**
+ * Gets the longest layover of a flight in minutes
+ * @param flight - Flight to inspect
+ * @returns Longest layover in minutes, or 0 for non-stop flights and unknown durations
+ */
+export function getLongestLayoverMinutes(flight: Flight): number {
+  return Math.max(0, ...(flight.layover || []).map(getLayoverMinutes))
+}
+
+/**
+ * Gets the total connection time of a flight in minutes
+ * @param flight - Flight to inspect
+ * @returns Sum of all layovers in minutes, or 0 for non-stop flights
+ */
+export function getTotalLayoverMinutes(flight: Flight): number {
+  return (flight.layover || []).reduce((sum, layover) => sum + getLayoverMinutes(layover), 0)
+}
+
+/**
+ * Checks whether a layover is overnight: it crosses local midnight at the connection
+ * airport, or starts in the small hours (before 5am)
+ * Layovers without local arrival/departure times are never treated as overnight
+ * @param layover - Layover to check
+ * @returns True if the layover is overnight
+ */
+export function isOvernightLayover(layover: Layover): boolean {
+  if (!layover.arrivalTime || !layover.departureTime) return false
+  const arrivalDate = getLocalDate(layover.arrivalTime)
+  const departureDate = getLocalDate(layover.departureTime)
+  if (arrivalDate && departureDate && arrivalDate !== departureDate) return true
+  return getLocalHour(layover.arrivalTime) < OVERNIGHT_END_HOUR
+}
+
+/**
+ * Checks whether any of a flight's layovers is overnight
+ * @param flight - Flight to inspect
+ * @returns True if the flight has at least one overnight layover
+ */
+export function hasOvernightLayover(flight: Flight): boolean {
+  return (flight.layover || []).some(isOvernightLayover)
+}
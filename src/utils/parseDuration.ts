@@ -10,3 +10,12 @@ export function parseDuration(duration: string): number {
   }
   return 0
 }
+
+/**
+ * Formats a duration in minutes as "Xh Ym" (the inverse of parseDuration)
+ * @param totalMinutes - Duration in minutes
+ * @returns Duration string (e.g., "5h 30m")
+ */
+export function formatDuration(totalMinutes: number): string {
+  return `${Math.floor(totalMinutes / 60)}h ${totalMinutes % 60}m`
+}
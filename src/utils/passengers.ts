@@ -0,0 +1,114 @@
+import type { FlightSearchParams, PassengerCounts } from '../types/flight'
+
+/**
+ * Airline limit on travellers in one booking
+ */
+export const MAX_PASSENGERS = 9
+
+/**
+ * A single adult, the default for new searches
+ */
+export const DEFAULT_PASSENGER_COUNTS: PassengerCounts = {
+  adults: 1,
+  children: 0,
+  infantsInSeat: 0,
+  infantsOnLap: 0,
+}
+
+/**
+ * Gets the travellers of a search
+ * Searches without a breakdown (older links and saved searches) count every passenger as an adult
+ * @param params - Search parameters
+ * @returns Passenger counts by fare type
+ */
+export function getPassengerCounts(
+  params: Partial<
+    Pick<
+      FlightSearchParams,
+      'passengers' | 'adults' | 'children' | 'infantsInSeat' | 'infantsOnLap'
+    >
+  >
+): PassengerCounts {
+  const children = params.children || 0
+  const infantsInSeat = params.infantsInSeat || 0
+  const infantsOnLap = params.infantsOnLap || 0
+  const total = parseInt(params.passengers || '1', 10) || 1
+
+  return {
+    adults: params.adults || Math.max(1, total - children - infantsInSeat - infantsOnLap),
+    children,
+    infantsInSeat,
+    infantsOnLap,
+  }
+}
+
+/**
+ * Gets the number of travellers
+ * @param counts - Passenger counts
+ * @returns Total travellers, lap infants included
+ */
+export function getTotalPassengers(counts: PassengerCounts): number {
+  return counts.adults + counts.children + counts.infantsInSeat + counts.infantsOnLap
+}
+
+/**
+ * Gets the number of travellers who pay a seat fare
+ * Lap infants have no seat; airlines charge them a separate fee or tax at booking
+ * @param counts - Passenger counts
+ * @returns Travellers with a seat
+ */
+export function getSeatedPassengers(counts: PassengerCounts): number {
+  return counts.adults + counts.children + counts.infantsInSeat
+}
+
+/**
+ * Gets the search fields for a passenger mix
+ * @param counts - Passenger counts
+ * @returns passengers (total), adults and the children/infant counts for FlightSearchParams
+ */
+export function toPassengerParams(
+  counts: PassengerCounts
+): Pick<
+  FlightSearchParams,
+  'passengers' | 'adults' | 'children' | 'infantsInSeat' | 'infantsOnLap'
+> {
+  return {
+    passengers: String(getTotalPassengers(counts)),
+    adults: counts.adults,
+    children: counts.children,
+    infantsInSeat: counts.infantsInSeat,
+    infantsOnLap: counts.infantsOnLap,
+  }
+}
+
+/**
+ * Gets the passenger fields of a Sky Scrapper API request
+ * The API only distinguishes children (`childrens`) and lap infants (`infants`), so infants
+ * with their own seat are sent as children
+ * @param counts - Passenger counts
+ * @returns adults, plus childrens and infants when there are any
+ */
+export function getPassengerRequestParams(counts: PassengerCounts): Record<string, number> {
+  const requestParams: Record<string, number> = { adults: counts.adults }
+  const childrens = counts.children + counts.infantsInSeat
+  if (childrens > 0) requestParams.childrens = childrens
+  if (counts.infantsOnLap > 0) requestParams.infants = counts.infantsOnLap
+  return requestParams
+}
+
+/**
+ * Formats a passenger mix for display
+ * @param counts - Passenger counts
+ * @returns Summary (e.g., "2 adults, 1 child, 1 infant")
+ */
+export function formatPassengers(counts: PassengerCounts): string {
+  const infants = counts.infantsInSeat + counts.infantsOnLap
+  return [
+    { count: counts.adults, singular: 'adult', plural: 'adults' },
+    { count: counts.children, singular: 'child', plural: 'children' },
+    { count: infants, singular: 'infant', plural: 'infants' },
+  ]
+    .filter(({ count }) => count > 0)
+    .map(({ count, singular, plural }) => `${count} ${count === 1 ? singular : plural}`)
+    .join(', ')
+}
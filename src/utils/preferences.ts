@@ -0,0 +1,130 @@
+import type { Flight, FlightFilters } from '../types/flight'
+import type { MarketParams, TravelPreferences } from '../types/preferences'
+
+/**
+ * Preferences used until the traveller changes them (the previous hardcoded defaults)
+ */
+export const DEFAULT_PREFERENCES: TravelPreferences = {
+  homeAirport: null,
+  currency: 'USD',
+  locale: 'en-US',
+  defaultCabinClass: 'economy',
+  preferredAirlines: [],
+  blockedAirlines: [],
+  maxStops: null,
+}
+
+/**
+ * Currencies offered on the settings page
+ */
+export const CURRENCY_OPTIONS = [
+  { value: 'USD', label: 'US Dollar (USD)' },
+  { value: 'EUR', label: 'Euro (EUR)' },
+  { value: 'GBP', label: 'British Pound (GBP)' },
+  { value: 'CAD', label: 'Canadian Dollar (CAD)' },
+  { value: 'AUD', label: 'Australian Dollar (AUD)' },
+  { value: 'JPY', label: 'Japanese Yen (JPY)' },
+  { value: 'INR', label: 'Indian Rupee (INR)' },
+]
+
+/**
+ * Locales (and API markets) offered on the settings page
+ */
+export const LOCALE_OPTIONS = [
+  { value: 'en-US', label: 'English (United States)' },
+  { value: 'en-GB', label: 'English (United Kingdom)' },
+  { value: 'en-CA', label: 'English (Canada)' },
+  { value: 'en-AU', label: 'English (Australia)' },
+  { value: 'en-IN', label: 'English (India)' },
+  { value: 'fr-FR', label: 'Français (France)' },
+  { value: 'de-DE', label: 'Deutsch (Deutschland)' },
+  { value: 'es-ES', label: 'Español (España)' },
+  { value: 'ja-JP', label: '日本語 (日本)' },
+]
+
+/**
+ * Gets the search market fields for the preferences
+ * @param preferences - Traveller preferences
+ * @returns Currency, market, country code and locale for FlightSearchParams
+ * @example
+ * ```typescript
+ * getMarketParams({ ...DEFAULT_PREFERENCES, currency: 'EUR', locale: 'fr-FR' })
+ * // { currency: 'EUR', market: 'fr-FR', countryCode: 'FR', locale: 'fr-FR' }
+ * ```
+ */
+export function getMarketParams(preferences: TravelPreferences): MarketParams {
+  const region = preferences.locale.split('-')[1]
+  return {
+    currency: preferences.currency,
+    market: preferences.locale,
+    countryCode: region ? region.toUpperCase() : 'US',
+    locale: preferences.locale,
+  }
+}
+
+/**
+ * Checks whether an airline is in a list of airline names (case-insensitive)
+ * @param airline - Airline name from a flight
+ * @param airlines - Airline names from the preferences
+ * @returns true if the airline is listed
+ */
+export function isAirlineListed(airline: string, airlines: string[]): boolean {
+  const name = airline.trim().toLowerCase()
+  return airlines.some(listed => listed.trim().toLowerCase() === name)
+}
+
+/**
+ * Gets every airline flying an itinerary
+ * Mixed-carrier itineraries are summarized as "Multiple airlines", so each segment's marketing
+ * and operating carrier is listed; legs or flights without segments fall back to their airline
+ * @param flight - Flight or itinerary
+ * @returns Airline names, without duplicates
+ */
+export function getFlightCarriers(flight: Flight): string[] {
+  const legs = flight.legs && flight.legs.length > 0 ? flight.legs : null
+  const carriers = legs
+    ? legs.flatMap(leg =>
+        leg.segments && leg.segments.length > 0
+          ? leg.segments.flatMap(segment => [segment.marketingCarrier, segment.operatingCarrier])
+          : [leg.airline]
+      )
+    : [flight.airline]
+  return Array.from(new Set(carriers.filter((carrier): carrier is string => !!carrier)))
+}
+
+/**
+ * Builds the filters that apply the preferences to a result set
+ * Itineraries with a blocked airline on any segment and flights over the stop limit are
+ * filtered out, unless that would leave nothing to show
+ * @param flights - Search results
+ * @param preferences - Traveller preferences
+ * @returns Stops and excluded airlines filters (empty when the preferences filter nothing)
+ */
+export function getPreferenceFilters(
+  flights: Flight[],
+  preferences: TravelPreferences
+): Partial<FlightFilters> {
+  const filters: Partial<FlightFilters> = {}
+
+  if (preferences.blockedAirlines.length > 0) {
+    const blockedCount = flights.filter(flight =>
+      getFlightCarriers(flight).some(carrier =>
+        isAirlineListed(carrier, preferences.blockedAirlines)
+      )
+    ).length
+    if (blockedCount > 0 && blockedCount < flights.length) {
+      filters.excludedAirlines = [...preferences.blockedAirlines].sort()
+    }
+  }
+
+  if (preferences.maxStops !== null) {
+    const maxStops = preferences.maxStops
+    const stops = Array.from(new Set(flights.map(flight => flight.stops)))
+    const allowed = stops.filter(count => count <= maxStops)
+    if (allowed.length > 0 && allowed.length < stops.length) {
+      filters.stops = allowed.sort((a, b) => a - b)
+    }
+  }
+
+  return filters
+}
@@ -0,0 +1,53 @@
+import type { Flight, PassengerCounts, PriceBreakdown, PriceDisplay } from '../types/flight'
+import { getSeatedPassengers } from './passengers'
+
+/**
+ * Gets the factor turning a per-person price into the displayed price
+ * Every flight of a search is multiplied by the same factor, so switching to totals keeps the
+ * "cheapest" order and only rescales the price filter
+ * @param display - Per-person or total pricing
+ * @param counts - Travellers searched for
+ * @returns Seated travellers for totals, otherwise 1
+ */
+export function getPriceMultiplier(display: PriceDisplay, counts?: PassengerCounts): number {
+  return display === 'total' && counts ? getSeatedPassengers(counts) : 1
+}
+
+/**
+ * Builds the party price of a flight by passenger type
+ * The per-person fare applies to every traveller with a seat (children and infants in seat
+ * included); lap infants have no seat and are priced by the airline at booking
+ * @param flight - Flight with a per-person price and optional fare breakdown
+ * @param counts - Travellers searched for
+ * @returns Lines per passenger type, base fare and taxes/fees (when known) and the total
+ * @example
+ * ```typescript
+ * // 2 adults, 1 child and 1 lap infant on a $300 fare
+ * getPriceBreakdown({ ...flight, price: 300 }, counts)
+ * // { lines: [Adults 2 × 300, Children 1 × 300, Infants on lap 1 × null], total: 900 }
+ * ```
+ */
+export function getPriceBreakdown(flight: Flight, counts: PassengerCounts): PriceBreakdown {
+  const seated = getSeatedPassengers(counts)
+  const toLine = (label: string, count: number, unitPrice: number | null) => ({
+    label,
+    count,
+    unitPrice,
+    subtotal: unitPrice === null ? null : unitPrice * count,
+  })
+  const lines = [
+    toLine('Adults', counts.adults, flight.price),
+    toLine('Children', counts.children, flight.price),
+    toLine('Infants in seat', counts.infantsInSeat, flight.price),
+    toLine('Infants on lap', counts.infantsOnLap, null),
+  ].filter(line => line.count > 0)
+
+  const { baseFare, taxesAndFees } = flight.fareBreakdown || {}
+
+  return {
+    lines,
+    baseFare: baseFare !== undefined ? baseFare * seated : undefined,
+    taxesAndFees: taxesAndFees !== undefined ? taxesAndFees * seated : undefined,
+    total: flight.price * seated,
+  }
+}
@@ -0,0 +1,81 @@
+import type { PriceCalendarDay } from '../types/flight'
+import { addDays } from './formatDate'
+
+// Number of colour steps of the price heatmap, from cheapest to most expensive
+export const PRICE_HEAT_LEVELS = 5
+
+/**
+ * Gets the month of an ISO date
+ * @param date - ISO date string (YYYY-MM-DD)
+ * @returns Month key (YYYY-MM)
+ */
+export function getMonthKey(date: string): string {
+  return date.slice(0, 7)
+}
+
+/**
+ * Moves a month key by a number of months
+ * @param month - Month key (YYYY-MM)
+ * @param months - Months to add (negative to go back)
+ * @returns Shifted month key
+ * @example
+ * ```typescript
+ * shiftMonth("2025-12", 1) // "2026-01"
+ * ```
+ */
+export function shiftMonth(month: string, months: number): string {
+  const [year, monthIndex] = month.split('-').map(Number)
+  const shifted = new Date(Date.UTC(year, monthIndex - 1 + months, 1))
+  return shifted.toISOString().slice(0, 7)
+}
+
+/**
+ * Gets the days of a month as a weekday-aligned grid starting on Sunday
+ * Cells before the 1st and after the last day are null so every week has seven cells
+ * @param month - Month key (YYYY-MM)
+ * @returns ISO dates and null padding, row by row
+ */
+export function getMonthGrid(month: string): (string | null)[] {
+  const firstDay = `${month}-01`
+  const leadingBlanks = new Date(`${firstDay}T00:00:00Z`).getUTCDay()
+  const cells: (string | null)[] = Array(leadingBlanks).fill(null)
+
+  for (let day = firstDay; getMonthKey(day) === month; day = addDays(day, 1)) {
+    cells.push(day)
+  }
+  while (cells.length % 7 !== 0) {
+    cells.push(null)
+  }
+  return cells
+}
+
+/**
+ * Finds the first day of a month that still needs calendar prices
+ * @param month - Month key (YYYY-MM)
+ * @param loadedDays - Calendar days loaded so far, keyed by date
+ * @param earliest - First bookable ISO date (earlier days are never fetched)
+ * @returns ISO date to load the next window from, or null when the month is complete
+ */
+export function getFirstMissingDate(
+  month: string,
+  loadedDays: Map<string, PriceCalendarDay>,
+  earliest: string
+): string | null {
+  const missing = getMonthGrid(month).find(
+    (date): date is string => date !== null && date >= earliest && !loadedDays.has(date)
+  )
+  return missing ?? null
+}
+
+/**
+ * Gets the heatmap step of a price between the cheapest and most expensive loaded prices
+ * @param price - Day price
+ * @param minPrice - Lowest loaded price
+ * @param maxPrice - Highest loaded price
+ * @returns Step from 0 (cheapest) to PRICE_HEAT_LEVELS - 1 (most expensive)
+ */
+export function getPriceHeatLevel(price: number, minPrice: number, maxPrice: number): number {
+  if (maxPrice <= minPrice) return 0
+  const ratio = (price - minPrice) / (maxPrice - minPrice)
+  return Math.min(PRICE_HEAT_LEVELS - 1, Math.max(0, Math.floor(ratio * PRICE_HEAT_LEVELS)))
+}
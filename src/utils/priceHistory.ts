@@ -0,0 +1,165 @@
+import type { FlightSearchParams } from '../types/flight'
+import type { PriceHistory, PriceObservation, PriceTrend } from '../types/priceHistory'
+import { getDaysBetween } from './formatDate'
+
+// Observations kept per route
+const MAX_OBSERVATIONS = 50
+
+// Routes kept in the history (least recently searched are dropped first)
+const MAX_ROUTES = 30
+
+// Repeated searches of the same date within this window replace the previous observation
+const OBSERVATION_MERGE_MS = 60 * 60 * 1000
+
+// Observations needed before a trend is reported
+export const MIN_TREND_OBSERVATIONS = 3
+
+// Fitted changes smaller than this (in percent) count as stable
+const STABLE_CHANGE_PERCENT = 3
+
+// Departures within this many days of the viewed one share its trend
+const TREND_DEPARTURE_BAND_DAYS = 3
+
+/**
+ * Gets the price history key of a search
+ * Fares depend on trip type, cabin and currency, so each combination has its own history
+ * @param params - Search parameters
+ * @returns Route key, or null for searches without a single origin and destination
+ */
+export function getPriceHistoryRouteKey(params: FlightSearchParams): string | null {
+  if (params.tripType === 'multi-city' || !params.originSkyId || !params.destinationSkyId) {
+    return null
+  }
+  return [
+    params.originSkyId,
+    params.destinationSkyId,
+    params.tripType,
+    params.cabinClass,
+    params.currency || 'USD',
+  ].join(':')
+}
+
+/**
+ * Adds an observation to a route's history
+ * A repeated search of the same date shortly after the last one replaces it, so refreshing
+ * results doesn't skew the trend; an observation already recorded (same observedAt) is ignored
+ * @param history - Price history of every route
+ * @param routeKey - Route key (see getPriceHistoryRouteKey)
+ * @param observation - New observation
+ * @returns New history, capped per route and in number of routes (the same history when the
+ * observation was already recorded)
+ */
+export function addPriceObservation(
+  history: PriceHistory,
+  routeKey: string,
+  observation: PriceObservation
+): PriceHistory {
+  const previous = history[routeKey] || []
+  if (previous.some(recorded => recorded.observedAt === observation.observedAt)) return history
+
+  const last = previous[previous.length - 1]
+  const isRepeat =
+    !!last &&
+    last.departure === observation.departure &&
+    observation.observedAt - last.observedAt < OBSERVATION_MERGE_MS
+  const observations = [...(isRepeat ? previous.slice(0, -1) : previous), observation].slice(
+    -MAX_OBSERVATIONS
+  )
+
+  const lastObservedAt = (key: string) => history[key][history[key].length - 1]?.observedAt ?? 0
+  const otherRoutes = Object.keys(history)
+    .filter(key => key !== routeKey)
+    .sort((a, b) => lastObservedAt(b) - lastObservedAt(a))
+    .slice(0, MAX_ROUTES - 1)
+
+  return Object.fromEntries([
+    ...otherRoutes.map(key => [key, history[key]] as const),
+    [routeKey, observations] as const,
+  ])
+}
+
+/**
+ * Gets the observations that bear on the fares of a departure date
+ * Fares of distant dates move independently (e.g., Christmas vs. February), so only searches
+ * departing within TREND_DEPARTURE_BAND_DAYS of the date are kept
+ * @param observations - Route observations
+ * @param departure - Departure date being viewed (YYYY-MM-DD)
+ * @returns Observations of nearby departures, in their original order
+ */
+export function getDepartureObservations(
+  observations: PriceObservation[],
+  departure: string
+): PriceObservation[] {
+  return observations.filter(
+    observation =>
+      Math.abs(getDaysBetween(departure, observation.departure)) <= TREND_DEPARTURE_BAND_DAYS
+  )
+}
+
+/**
+ * Estimates whether fares on a route are rising or falling
+ * Fits a least-squares line through the observed lowest fares over time; confidence grows
+ * with the number of observations and how well the line fits them
+ * Pass the observations of one departure (see getDepartureObservations), as fares of
+ * different dates don't follow one line
+ * @param observations - Route observations
+ * @returns Trend, or null with fewer than MIN_TREND_OBSERVATIONS observations
+ * @example
+ * ```typescript
+ * getPriceTrend(observations)
+ * // { direction: "rising", confidence: "medium", changePercent: 8.4, sampleSize: 6 }
+ * ```
+ */
+export function getPriceTrend(observations: PriceObservation[]): PriceTrend | null {
+  if (observations.length < MIN_TREND_OBSERVATIONS) return null
+
+  const points = [...observations].sort((a, b) => a.observedAt - b.observedAt)
+  const n = points.length
+  const start = points[0].observedAt
+  const xs = points.map(point => point.observedAt - start)
+  const ys = points.map(point => point.price)
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n
+
+  let covariance = 0
+  let varianceX = 0
+  let varianceY = 0
+  xs.forEach((x, index) => {
+    covariance += (x - meanX) * (ys[index] - meanY)
+    varianceX += (x - meanX) ** 2
+    varianceY += (ys[index] - meanY) ** 2
+  })
+
+  // All observations at the same moment (or the same price) carry no trend
+  const slope = varianceX > 0 ? covariance / varianceX : 0
+  const rSquared = varianceX > 0 && varianceY > 0 ? covariance ** 2 / (varianceX * varianceY) : 0
+  const changePercent = meanY > 0 ? ((slope * xs[n - 1]) / meanY) * 100 : 0
+
+  const direction =
+    Math.abs(changePercent) < STABLE_CHANGE_PERCENT
+      ? 'stable'
+      : changePercent > 0
+        ? 'rising'
+        : 'falling'
+  const confidence =
+    n >= 8 && rSquared >= 0.6 ? 'high' : n >= 5 && rSquared >= 0.3 ? 'medium' : 'low'
+
+  return {
+    direction,
+    confidence,
+    changePercent: Math.round(changePercent * 10) / 10,
+    sampleSize: n,
+  }
+}
+
+/**
+ * Gets the median of a list of prices
+ * @param prices - Prices in any order
+ * @returns Median, or 0 for an empty list
+ */
+export function getMedianPrice(prices: number[]): number {
+  if (prices.length === 0) return 0
+  const sorted = [...prices].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
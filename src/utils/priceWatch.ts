@@ -0,0 +1,76 @@
+import type { PriceWatch, PriceWatchPoint, PriceWatchStatus } from '../types/priceWatch'
+import { getTodayDate } from './formatDate'
+
+/**
+ * How often each watch is re-checked while the app is open
+ * Each check costs two API requests (price calendar and search), so a few watches stay well
+ * within the monthly RapidAPI quota
+ */
+export const PRICE_WATCH_CHECK_INTERVAL_MS = 12 * 60 * 60 * 1000
+
+// Checks kept per watch; older points are dropped
+const MAX_HISTORY_POINTS = 60
+
+/**
+ * Gets the most recent check of a watch
+ * @param watch - Price watch
+ * @returns Latest point, or undefined if never checked
+ */
+export function getLatestPricePoint(watch: PriceWatch): PriceWatchPoint | undefined {
+  return watch.history[watch.history.length - 1]
+}
+
+/**
+ * Gets the display status of a watch
+ * @param watch - Price watch
+ * @param today - Current date (YYYY-MM-DD, default: today)
+ * @returns Status derived from the date window and latest check
+ */
+export function getPriceWatchStatus(watch: PriceWatch, today = getTodayDate()): PriceWatchStatus {
+  if (watch.windowEnd < today) return 'expired'
+  const latest = getLatestPricePoint(watch)
+  if (!latest) return 'pending'
+  if (latest.price === null) return 'unavailable'
+  return latest.price <= watch.targetPrice ? 'below-target' : 'watching'
+}
+
+/**
+ * Checks whether a watch should be re-checked now
+ * Expired watches are never due
+ * @param watch - Price watch
+ * @param now - Current timestamp (ms, default: Date.now())
+ * @returns true if the watch was never checked or the check interval has elapsed
+ * since the last attempt (failed checks wait a full interval too)
+ */
+export function isPriceWatchDue(watch: PriceWatch, now = Date.now()): boolean {
+  if (getPriceWatchStatus(watch) === 'expired') return false
+  return !watch.lastCheckedAt || now - watch.lastCheckedAt >= PRICE_WATCH_CHECK_INTERVAL_MS
+}
+
+/**
+ * Checks whether a new price crosses the target (so an alert should be raised)
+ * Only the first check at or below target alerts; staying below target does not repeat it
+ * @param watch - Price watch before the new point is added
+ * @param point - New check
+ * @returns true if the price just dropped to or below the target
+ */
+export function hasReachedTarget(watch: PriceWatch, point: PriceWatchPoint): boolean {
+  if (point.price === null || point.price > watch.targetPrice) return false
+  const previous = getLatestPricePoint(watch)
+  return !previous || previous.price === null || previous.price > watch.targetPrice
+}
+
+/**
+ * Adds a check to a watch's history, dropping the oldest points beyond the limit
+ * @param watch - Price watch
+ * @param point - New check
+ * @returns Updated watch (the error of a previous failed check is cleared)
+ */
+export function addPricePoint(watch: PriceWatch, point: PriceWatchPoint): PriceWatch {
+  return {
+    ...watch,
+    history: [...watch.history, point].slice(-MAX_HISTORY_POINTS),
+    lastCheckedAt: point.checkedAt,
+    lastError: undefined,
+  }
+}
@@ -0,0 +1,89 @@
+import type { Airport } from '../types/airport'
+import type { FlightSearchParams } from '../types/flight'
+import type { RecentSearch } from '../types/recentSearch'
+import { buildSearchQuery } from './searchUrl'
+import { addDays, getDaysBetween, getFutureDate, getTodayDate } from './formatDate'
+
+// Number of searches kept in the history
+export const MAX_RECENT_SEARCHES = 6
+
+// Number of airports offered before the user types
+const MAX_RECENT_AIRPORTS = 5
+
+// Days ahead of today a stale search is moved to when re-run
+const DEFAULT_DEPARTURE_LEAD_DAYS = 7
+
+/**
+ * Gets the history id of a search
+ * Searches with the same parameters share an id, so re-running one moves it to the top
+ * @param params - Search parameters
+ * @returns Canonical search query string
+ */
+export function getRecentSearchId(params: FlightSearchParams): string {
+  return buildSearchQuery(params)
+}
+
+/**
+ * Adds a search to the top of the history, replacing duplicates and trimming old entries
+ * @param searches - Current history, newest first
+ * @param search - Search to add
+ * @returns Updated history, newest first
+ */
+export function addRecentSearch(searches: RecentSearch[], search: RecentSearch): RecentSearch[] {
+  return [search, ...searches.filter(entry => entry.id !== search.id)].slice(0, MAX_RECENT_SEARCHES)
+}
+
+/**
+ * Gets the distinct airports used in recent searches
+ * @param searches - History, newest first
+ * @returns Airports, most recently used first
+ */
+export function getRecentAirports(searches: RecentSearch[]): Airport[] {
+  const airports = new Map<string, Airport>()
+
+  searches
+    .flatMap(search => [search.fromAirport, search.toAirport])
+    .forEach(airport => {
+      if (airport?.skyId && !airports.has(airport.skyId)) {
+        airports.set(airport.skyId, airport)
+      }
+    })
+
+  return Array.from(airports.values()).slice(0, MAX_RECENT_AIRPORTS)
+}
+
+/**
+ * Checks whether a stored search departs before today and can no longer be searched as is
+ * @param params - Stored search parameters
+ * @returns true if the dates need refreshing
+ */
+export function hasPastDates(params: FlightSearchParams): boolean {
+  return Boolean(params.departure) && params.departure < getTodayDate()
+}
+
+/**
+ * Moves the dates of a stale search to the default departure date
+ * Every date shifts by the same number of days, so the trip length and the gaps between
+ * multi-city legs are kept
+ * @param params - Stored search parameters
+ * @returns Parameters with future dates (unchanged if the search is not in the past)
+ * @example
+ * ```typescript
+ * // Today is 2025-03-01
+ * refreshSearchDates({ ...params, departure: '2025-02-10', return: '2025-02-17' })
+ * // { ...params, departure: '2025-03-08', return: '2025-03-15' }
+ * ```
+ */
+export function refreshSearchDates(params: FlightSearchParams): FlightSearchParams {
+  if (!hasPastDates(params)) return params
+
+  const departure = getFutureDate(DEFAULT_DEPARTURE_LEAD_DAYS)
+  const offsetDays = getDaysBetween(params.departure, departure)
+
+  return {
+    ...params,
+    departure,
+    return: params.return ? addDays(params.return, offsetDays) : params.return,
+    legs: params.legs?.map(leg => ({ ...leg, date: addDays(leg.date, offsetDays) })),
+  }
+}
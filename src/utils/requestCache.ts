@@ -0,0 +1,302 @@
+import { logger } from './logger'
+
+/**
+ * How long responses of an endpoint are used
+ * Fresh responses are returned as is; stale ones are returned while a background request
+ * refreshes them (stale-while-revalidate); older ones are fetched again
+ */
+interface CachePolicy {
+  ttlMs: number // Time a response stays fresh
+  staleMs: number // Extra time a response may be served stale
+}
+
+/**
+ * Cached API response
+ */
+export interface CacheEntry<T = unknown> {
+  key: string // Endpoint and normalized query (see getCacheKey)
+  endpoint: string
+  data: T
+  storedAt: number // Timestamp (ms)
+  freshUntil: number // Timestamp (ms)
+  staleUntil: number // Timestamp (ms)
+}
+
+/**
+ * Options of a request run through the cache
+ */
+interface CachedRequestOptions<T> {
+  isCacheable?: (data: T) => boolean // Whether a response may be stored (default: always)
+  signal?: AbortSignal // Abort signal of the caller, passed to the fetcher
+  skipCache?: boolean // Fetch even when a cached response exists
+}
+
+/**
+ * Cached response details for inspection (without the response itself)
+ */
+export interface CacheEntrySummary {
+  key: string
+  endpoint: string
+  storedAt: number
+  freshUntil: number
+  staleUntil: number
+  sizeBytes: number // Approximate size of the JSON response
+}
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+// Cached endpoints; airports barely change, calendar fares move within hours and live fares
+// within minutes. Endpoints not listed here are never cached
+const CACHE_POLICIES: Record<string, CachePolicy> = {
+  '/v1/flights/searchAirport': { ttlMs: 7 * DAY, staleMs: 23 * DAY },
+  '/v1/flights/getNearByAirports': { ttlMs: 7 * DAY, staleMs: 23 * DAY },
+  '/v1/flights/getPriceCalendar': { ttlMs: 6 * HOUR, staleMs: 18 * HOUR },
+  '/v2/flights/searchFlightsComplete': { ttlMs: 10 * MINUTE, staleMs: 50 * MINUTE },
+  '/v2/flights/searchFlightsMultiStops': { ttlMs: 10 * MINUTE, staleMs: 50 * MINUTE },
+  '/v1/flights/getFlightDetails': { ttlMs: 10 * MINUTE, staleMs: 20 * MINUTE },
+}
+
+// Query parameters whose case doesn't change the response (free-text searches)
+const CASE_INSENSITIVE_PARAMS = ['query']
+
+// Responses kept in memory (the oldest are evicted first; IndexedDB keeps them all)
+const MAX_MEMORY_ENTRIES = 200
+
+const DB_NAME = 'flight-picker-cache'
+const DB_VERSION = 1
+const STORE_NAME = 'responses'
+
+const memoryCache = new Map<string, CacheEntry>()
+// Keys being refreshed in the background, so a stale entry is only revalidated once at a time
+const revalidating = new Set<string>()
+let databasePromise: Promise<IDBDatabase | null> | null = null
+
+/**
+ * Opens the IndexedDB database once
+ * Resolves to null where IndexedDB is unavailable (private mode, SSR), leaving a memory cache
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!databasePromise) {
+    databasePromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null)
+        return
+      }
+      try {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'key' })
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+          logger.warn('requestCache', 'Failed to open IndexedDB, caching in memory only', {
+            error: request.error,
+          })
+          resolve(null)
+        }
+      } catch (error) {
+        logger.warn('requestCache', 'IndexedDB is unavailable, caching in memory only', { error })
+        resolve(null)
+      }
+    })
+  }
+  return databasePromise
+}
+
+/**
+ * Runs a request against the response store
+ * Failures are logged and resolve to undefined - the cache must never break an API call
+ */
+async function runStoreRequest<T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> {
+  const database = await openDatabase()
+  if (!database) return undefined
+
+  return new Promise(resolve => {
+    try {
+      const request = createRequest(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        logger.warn('requestCache', 'IndexedDB request failed', { error: request.error })
+        resolve(undefined)
+      }
+    } catch (error) {
+      logger.warn('requestCache', 'IndexedDB request failed', { error })
+      resolve(undefined)
+    }
+  })
+}
+
+/**
+ * Keeps an entry in memory, evicting the oldest entries above the limit
+ */
+function rememberEntry(entry: CacheEntry): void {
+  memoryCache.delete(entry.key)
+  memoryCache.set(entry.key, entry)
+  while (memoryCache.size > MAX_MEMORY_ENTRIES) {
+    const oldestKey = memoryCache.keys().next().value
+    if (oldestKey === undefined) break
+    memoryCache.delete(oldestKey)
+  }
+}
+
+/**
+ * Reads an entry from memory, then IndexedDB
+ * Entries past their stale time are deleted rather than returned
+ */
+async function readEntry<T>(key: string): Promise<CacheEntry<T> | undefined> {
+  const entry =
+    memoryCache.get(key) ??
+    (await runStoreRequest<CacheEntry | undefined>('readonly', store => store.get(key)))
+  if (!entry) return undefined
+
+  if (Date.now() >= entry.staleUntil) {
+    memoryCache.delete(key)
+    runStoreRequest('readwrite', store => store.delete(key))
+    return undefined
+  }
+  rememberEntry(entry)
+  return entry as CacheEntry<T>
+}
+
+/**
+ * Stores a response in memory and (in the background) in IndexedDB
+ */
+function writeEntry(entry: CacheEntry): void {
+  rememberEntry(entry)
+  runStoreRequest('readwrite', store => store.put(entry))
+}
+
+/**
+ * Builds the cache key of a request
+ * Parameters are sorted and empty values dropped, so equivalent requests share an entry
+ * @param endpoint - API endpoint path
+ * @param params - Query parameters
+ * @returns Cache key (e.g., "/v1/flights/searchAirport?locale=en-US&query=london")
+ */
+export function getCacheKey(
+  endpoint: string,
+  params: Record<string, string | number> = {}
+): string {
+  const query = Object.entries(params)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([key, value]) => {
+      const text = String(value).trim()
+      return [key, CASE_INSENSITIVE_PARAMS.includes(key) ? text.toLowerCase() : text]
+    })
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&')
+  return query ? `${endpoint}?${query}` : endpoint
+}
+
+/**
+ * Runs a request through the response cache
+ * Fresh responses are returned without a request; stale ones are returned immediately while
+ * the request refreshes them in the background; missing or expired ones are fetched
+ * Endpoints without a cache policy always call the fetcher
+ * @param endpoint - API endpoint path
+ * @param params - Query parameters (used for the cache key)
+ * @param fetcher - Makes the actual request; background revalidations get no signal, as they
+ * outlive the caller
+ * @param options - Which responses may be stored, the caller's abort signal, and skipCache to
+ * fetch even when a response is cached (the fetched one still replaces it)
+ * @returns Cached or fetched response
+ * @throws Whatever the fetcher throws when nothing usable is cached, or the abort reason
+ * @example
+ * ```typescript
+ * const data = await cachedRequest('/v1/flights/searchAirport', { query }, () => fetchAirports(query))
+ * ```
+ */
+export async function cachedRequest<T>(
+  endpoint: string,
+  params: Record<string, string | number> | undefined,
+  fetcher: (signal?: AbortSignal) => Promise<T>,
+  { isCacheable = () => true, signal, skipCache = false }: CachedRequestOptions<T> = {}
+): Promise<T> {
+  const policy = CACHE_POLICIES[endpoint]
+  if (!policy) return fetcher(signal)
+
+  const key = getCacheKey(endpoint, params)
+  const fetchAndStore = async (fetchSignal?: AbortSignal) => {
+    const data = await fetcher(fetchSignal)
+    if (isCacheable(data)) {
+      const storedAt = Date.now()
+      writeEntry({
+        key,
+        endpoint,
+        data,
+        storedAt,
+        freshUntil: storedAt + policy.ttlMs,
+        staleUntil: storedAt + policy.ttlMs + policy.staleMs,
+      })
+    }
+    return data
+  }
+
+  if (skipCache) {
+    logger.debug('requestCache', `Bypassing cache: ${key}`)
+    return fetchAndStore(signal)
+  }
+
+  const entry = await readEntry<T>(key)
+  signal?.throwIfAborted()
+  if (entry && Date.now() < entry.freshUntil) {
+    logger.debug('requestCache', `Fresh hit: ${key}`)
+    return entry.data
+  }
+
+  if (entry) {
+    logger.debug('requestCache', `Stale hit, revalidating: ${key}`)
+    if (!revalidating.has(key)) {
+      revalidating.add(key)
+      fetchAndStore()
+        .catch(error => logger.warn('requestCache', `Revalidation failed: ${key}`, { error }))
+        .finally(() => revalidating.delete(key))
+    }
+    return entry.data
+  }
+
+  return fetchAndStore(signal)
+}
+
+/**
+ * Lists the cached responses, dropping those past their stale time
+ * @returns Cached responses (memory and IndexedDB), newest first
+ */
+export async function getCacheEntries(): Promise<CacheEntrySummary[]> {
+  const stored = (await runStoreRequest<CacheEntry[]>('readonly', store => store.getAll())) || []
+  const entries = new Map<string, CacheEntry>(stored.map(entry => [entry.key, entry]))
+  memoryCache.forEach((entry, key) => entries.set(key, entry))
+
+  const now = Date.now()
+  const summaries: CacheEntrySummary[] = []
+  entries.forEach(entry => {
+    if (now >= entry.staleUntil) {
+      memoryCache.delete(entry.key)
+      runStoreRequest('readwrite', store => store.delete(entry.key))
+      return
+    }
+    summaries.push({
+      key: entry.key,
+      endpoint: entry.endpoint,
+      storedAt: entry.storedAt,
+      freshUntil: entry.freshUntil,
+      staleUntil: entry.staleUntil,
+      sizeBytes: JSON.stringify(entry.data ?? null).length,
+    })
+  })
+  return summaries.sort((a, b) => b.storedAt - a.storedAt)
+}
+
+/**
+ * Deletes every cached response from memory and IndexedDB
+ */
+export async function clearRequestCache(): Promise<void> {
+  memoryCache.clear()
+  await runStoreRequest('readwrite', store => store.clear())
+}
@@ -0,0 +1,68 @@
+import type { Flight, FlightSearchParams } from '../types/flight'
+import type { SavedFlight, SavedTrip } from '../types/savedTrip'
+import { buildSearchQuery } from './searchUrl'
+
+/**
+ * Gets the key shared by all flights saved from the same search
+ * @param params - Search the flight came from
+ * @returns Canonical search query string
+ */
+export function getTripKey(params: FlightSearchParams): string {
+  return buildSearchQuery(params)
+}
+
+/**
+ * Gets the watchlist id of a flight
+ * Flight ids are only unique within a search, so the search is part of the id
+ * @param flight - Saved flight
+ * @param params - Search the flight came from
+ * @returns Id unique across searches
+ */
+export function getSavedFlightId(flight: Flight, params: FlightSearchParams): string {
+  return `${getTripKey(params)}#${flight.id}`
+}
+
+/**
+ * Groups saved flights by the search they came from
+ * Trips are ordered by their most recently saved flight; flights by save time
+ * @param savedFlights - Saved flights
+ * @returns Trips, newest first
+ */
+export function groupSavedFlights(savedFlights: SavedFlight[]): SavedTrip[] {
+  const trips = new Map<string, SavedTrip>()
+  const newestFirst = [...savedFlights].sort((a, b) => b.savedAt - a.savedAt)
+
+  newestFirst.forEach(saved => {
+    const trip = trips.get(saved.tripKey)
+    if (trip) {
+      trip.flights.push(saved)
+    } else {
+      trips.set(saved.tripKey, {
+        tripKey: saved.tripKey,
+        searchParams: saved.searchParams,
+        flights: [saved],
+      })
+    }
+  })
+
+  return Array.from(trips.values())
+}
+
+/**
+ * Finds a saved flight in fresh search results
+ * Matches by id first, then by airline and schedule since providers may reissue ids
+ * @param flight - Saved flight
+ * @param results - Flights returned by re-running the search
+ * @returns Matching flight, or undefined if it is no longer offered
+ */
+export function findSavedFlightInResults(flight: Flight, results: Flight[]): Flight | undefined {
+  return (
+    results.find(result => result.id === flight.id) ||
+    results.find(
+      result =>
+        result.airline === flight.airline &&
+        result.departureTime === flight.departureTime &&
+        result.arrivalTime === flight.arrivalTime
+    )
+  )
+}
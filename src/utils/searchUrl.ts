@@ -0,0 +1,385 @@
+import type {
+  CabinClass,
+  FlightFilters,
+  FlightSearchParams,
+  SearchLeg,
+  SortDirection,
+  SortOption,
+  TripType,
+} from '../types/flight'
+import { SORT_OPTIONS } from './sortFlights'
+import { DEFAULT_PASSENGER_COUNTS, MAX_PASSENGERS, toPassengerParams } from './passengers'
+import { validatePassengers } from './validation/searchValidation'
+import { FLEXIBLE_DAYS } from './flexibleDates'
+
+/**
+ * Query string keys for search parameters
+ * Order here determines the order of keys in generated URLs
+ */
+const SEARCH_KEYS = [
+  'from',
+  'to',
+  'originSkyId',
+  'originEntityId',
+  'destinationSkyId',
+  'destinationEntityId',
+  'originEntityType',
+  'destinationEntityType',
+  'departure',
+  'return',
+  'passengers',
+  'children',
+  'infantsInSeat',
+  'infantsOnLap',
+  'cabinClass',
+  'tripType',
+  'currency',
+  'market',
+  'countryCode',
+  'locale',
+  'nearbyRadiusKm',
+  'flexibleDays',
+] as const
+
+/**
+ * Query string keys for filters and sorting
+ */
+const FILTER_KEYS = {
+  minPrice: 'minPrice',
+  maxPrice: 'maxPrice',
+  stops: 'stops',
+  airlines: 'airlines',
+  excludedAirlines: 'avoidAirlines',
+  originAirports: 'origins',
+  destinationAirports: 'destinations',
+  departureTimes: 'dep',
+  arrivalTimes: 'arr',
+  duration: 'maxDuration',
+  maxLayoverMinutes: 'maxLayover',
+  excludedLayoverAirports: 'avoid',
+  noOvernightLayovers: 'noOvernight',
+  sort: 'sort',
+  sortDirection: 'sortDir',
+  secondarySort: 'thenBy',
+} as const
+
+const TRIP_TYPES: TripType[] = ['round-trip', 'one-way', 'multi-city']
+const CABIN_CLASSES: CabinClass[] = ['economy', 'premium-economy', 'business', 'first']
+const ENTITY_TYPES = ['AIRPORT', 'CITY'] as const
+// Sort values from older links that have since been renamed
+const LEGACY_SORT_OPTIONS: Record<string, SortOption> = { duration: 'fastest' }
+
+/**
+ * Parsed representation of a /flights URL
+ */
+export interface ParsedSearchUrl {
+  searchParams: FlightSearchParams | null
+  filters: Partial<FlightFilters>
+  sortOption: SortOption | null
+  sortDirection: SortDirection | null
+  secondarySort: SortOption | null
+}
+
+/**
+ * Splits a comma-separated query value into a list, dropping empty entries
+ */
+function parseList(value: string | null): string[] {
+  if (!value) return []
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Parses a non-negative integer from a query value
+ * @returns The number, or undefined if missing or invalid
+ */
+function parseNonNegativeInt(value: string | null): number | undefined {
+  if (value === null || value === '') return undefined
+  const num = parseInt(value, 10)
+  return Number.isNaN(num) || num < 0 ? undefined : num
+}
+
+/**
+ * Parses an origin/destination entity type query value
+ * @returns The entity type, or undefined if missing or unknown
+ */
+function parseEntityType(value?: string): FlightSearchParams['originEntityType'] {
+  return ENTITY_TYPES.find(type => type === value?.toUpperCase())
+}
+
+/**
+ * Parses a sort option query value, mapping renamed options from older links
+ * @returns The sort option, or null if missing or unknown
+ */
+function parseSortOption(value: string | null): SortOption | null {
+  if (!value) return null
+  if (SORT_OPTIONS.includes(value as SortOption)) return value as SortOption
+  return LEGACY_SORT_OPTIONS[value] ?? null
+}
+
+/**
+ * Parses the JSON-encoded multi-city legs query value
+ * @returns Valid legs, or an empty array if the value is missing or malformed
+ */
+function parseLegs(value: string | null): SearchLeg[] {
+  if (!value) return []
+  try {
+    const parsed: unknown = JSON.parse(value)
+    if (!Array.isArray(parsed)) return []
+    return parsed
+      .filter(
+        (leg): leg is SearchLeg =>
+          !!leg &&
+          typeof leg === 'object' &&
+          typeof leg.from === 'string' &&
+          typeof leg.to === 'string' &&
+          typeof leg.date === 'string'
+      )
+      .map(leg => ({
+        from: leg.from,
+        to: leg.to,
+        date: leg.date,
+        originSkyId: leg.originSkyId,
+        destinationSkyId: leg.destinationSkyId,
+        originEntityId: leg.originEntityId,
+        destinationEntityId: leg.destinationEntityId,
+      }))
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Serializes flight search parameters into a query string
+ * Only search fields are included - use buildResultsQuery to add filters and sorting
+ * @param params - Flight search parameters
+ * @returns Query string without leading "?" (e.g., "from=JFK&to=LAX&departure=2025-05-01")
+ */
+export function buildSearchQuery(params: FlightSearchParams): string {
+  const query = new URLSearchParams()
+
+  SEARCH_KEYS.forEach(key => {
+    const value = params[key]
+    if (value === undefined || value === null || value === '') return
+    // Return date only makes sense for round trips
+    if (key === 'return' && params.tripType !== 'round-trip') return
+    // Passenger breakdown is only written for children and infants (adults are the rest)
+    if (value === 0) return
+    query.set(key, String(value))
+  })
+
+  // Multi-city legs are stored as a single JSON-encoded value
+  if (params.tripType === 'multi-city' && params.legs && params.legs.length > 0) {
+    query.set('legs', JSON.stringify(params.legs))
+  }
+
+  return query.toString()
+}
+
+/**
+ * Serializes search parameters, active filters and sorting into a query string
+ * Filters and sorting equal to their defaults are omitted to keep URLs short
+ * @param params - Flight search parameters
+ * @param filters - Current filter state
+ * @param sort - Current sort option, direction and tie-break option
+ * @param priceBounds - Price range of the current result set (treated as "no price filter")
+ * @returns Query string without leading "?"
+ */
+export function buildResultsQuery(
+  params: FlightSearchParams,
+  filters: FlightFilters,
+  sort: { option: SortOption; direction: SortDirection; secondary: SortOption | null },
+  priceBounds: { min: number; max: number }
+): string {
+  const query = new URLSearchParams(buildSearchQuery(params))
+
+  if (filters.priceRange.min > priceBounds.min) {
+    query.set(FILTER_KEYS.minPrice, String(filters.priceRange.min))
+  }
+  if (filters.priceRange.max < priceBounds.max) {
+    query.set(FILTER_KEYS.maxPrice, String(filters.priceRange.max))
+  }
+  if (filters.stops.length > 0) {
+    query.set(FILTER_KEYS.stops, [...filters.stops].sort((a, b) => a - b).join(','))
+  }
+  if (filters.airlines.length > 0) {
+    query.set(FILTER_KEYS.airlines, filters.airlines.join(','))
+  }
+  if (filters.excludedAirlines.length > 0) {
+    query.set(FILTER_KEYS.excludedAirlines, filters.excludedAirlines.join(','))
+  }
+  if (filters.originAirports.length > 0) {
+    query.set(FILTER_KEYS.originAirports, filters.originAirports.join(','))
+  }
+  if (filters.destinationAirports.length > 0) {
+    query.set(FILTER_KEYS.destinationAirports, filters.destinationAirports.join(','))
+  }
+  if (filters.departureTimes.length > 0) {
+    query.set(FILTER_KEYS.departureTimes, filters.departureTimes.join(','))
+  }
+  if (filters.arrivalTimes.length > 0) {
+    query.set(FILTER_KEYS.arrivalTimes, filters.arrivalTimes.join(','))
+  }
+  if (filters.duration > 0) {
+    query.set(FILTER_KEYS.duration, String(filters.duration))
+  }
+  if (filters.maxLayoverMinutes > 0) {
+    query.set(FILTER_KEYS.maxLayoverMinutes, String(filters.maxLayoverMinutes))
+  }
+  if (filters.excludedLayoverAirports.length > 0) {
+    query.set(FILTER_KEYS.excludedLayoverAirports, filters.excludedLayoverAirports.join(','))
+  }
+  if (filters.noOvernightLayovers) {
+    query.set(FILTER_KEYS.noOvernightLayovers, '1')
+  }
+  if (sort.option !== 'best') {
+    query.set(FILTER_KEYS.sort, sort.option)
+  }
+  if (sort.direction === 'desc') {
+    query.set(FILTER_KEYS.sortDirection, 'desc')
+  }
+  if (sort.secondary && sort.secondary !== sort.option) {
+    query.set(FILTER_KEYS.secondarySort, sort.secondary)
+  }
+
+  return query.toString()
+}
+
+/**
+ * Parses a /flights query string back into search parameters, filters and sorting
+ * Unknown or malformed values are ignored rather than rejected
+ * @param search - Query string (with or without leading "?") or URLSearchParams
+ * @returns Parsed search params (null if origin, destination or departure is missing),
+ * partial filters and sorting
+ */
+export function parseSearchQuery(search: string | URLSearchParams): ParsedSearchUrl {
+  const query = typeof search === 'string' ? new URLSearchParams(search) : search
+  const get = (key: string) => query.get(key)?.trim() || undefined
+
+  // Search parameters
+  let searchParams: FlightSearchParams | null = null
+  const from = get('from')
+  const to = get('to')
+  const departure = get('departure')
+
+  if (from && to && departure) {
+    const returnDate = get('return')
+    const rawTripType = get('tripType') as TripType | undefined
+    const tripType =
+      rawTripType && TRIP_TYPES.includes(rawTripType)
+        ? rawTripType
+        : returnDate
+          ? 'round-trip'
+          : 'one-way'
+    const rawCabinClass = get('cabinClass') as CabinClass | undefined
+    const passengers = parseNonNegativeInt(get('passengers') ?? null)
+    const validPassengers =
+      passengers && passengers >= 1 && passengers <= MAX_PASSENGERS ? passengers : 1
+    // Children and infants are part of the total; a breakdown that breaks the booking rules
+    // is dropped and everyone counts as an adult
+    const children = parseNonNegativeInt(get('children') ?? null) || 0
+    const infantsInSeat = parseNonNegativeInt(get('infantsInSeat') ?? null) || 0
+    const infantsOnLap = parseNonNegativeInt(get('infantsOnLap') ?? null) || 0
+    const passengerCounts = {
+      adults: validPassengers - children - infantsInSeat - infantsOnLap,
+      children,
+      infantsInSeat,
+      infantsOnLap,
+    }
+    const validCounts = validatePassengers(passengerCounts)
+      ? { ...DEFAULT_PASSENGER_COUNTS, adults: validPassengers }
+      : passengerCounts
+
+    const legs = tripType === 'multi-city' ? parseLegs(query.get('legs')) : []
+
+    searchParams = {
+      from,
+      to,
+      departure,
+      return: tripType === 'round-trip' ? returnDate : undefined,
+      ...toPassengerParams(validCounts),
+      cabinClass:
+        rawCabinClass && CABIN_CLASSES.includes(rawCabinClass) ? rawCabinClass : 'economy',
+      tripType,
+      originSkyId: get('originSkyId'),
+      destinationSkyId: get('destinationSkyId'),
+      originEntityId: get('originEntityId'),
+      destinationEntityId: get('destinationEntityId'),
+      originEntityType: parseEntityType(get('originEntityType')),
+      destinationEntityType: parseEntityType(get('destinationEntityType')),
+      currency: get('currency'),
+      market: get('market'),
+      countryCode: get('countryCode'),
+      locale: get('locale'),
+      legs: legs.length > 0 ? legs : undefined,
+      nearbyRadiusKm:
+        tripType === 'multi-city'
+          ? undefined
+          : parseNonNegativeInt(get('nearbyRadiusKm') ?? null) || undefined,
+      flexibleDays:
+        tripType === 'multi-city'
+          ? undefined
+          : Math.min(parseNonNegativeInt(get('flexibleDays') ?? null) || 0, FLEXIBLE_DAYS) ||
+            undefined,
+    }
+
+    // A multi-city search without at least two valid legs cannot be run
+    if (tripType === 'multi-city' && legs.length < 2) {
+      searchParams = null
+    }
+  }
+
+  // Filters
+  const filters: Partial<FlightFilters> = {}
+  const minPrice = parseNonNegativeInt(query.get(FILTER_KEYS.minPrice))
+  const maxPrice = parseNonNegativeInt(query.get(FILTER_KEYS.maxPrice))
+  if (minPrice !== undefined || maxPrice !== undefined) {
+    filters.priceRange = {
+      min: minPrice ?? 0,
+      max: maxPrice ?? Number.MAX_SAFE_INTEGER,
+    }
+  }
+
+  const stops = parseList(query.get(FILTER_KEYS.stops))
+    .map(value => parseNonNegativeInt(value))
+    .filter((value): value is number => value !== undefined)
+  if (stops.length > 0) filters.stops = stops
+
+  const airlines = parseList(query.get(FILTER_KEYS.airlines))
+  if (airlines.length > 0) filters.airlines = airlines
+
+  const excludedAirlines = parseList(query.get(FILTER_KEYS.excludedAirlines))
+  if (excludedAirlines.length > 0) filters.excludedAirlines = excludedAirlines
+
+  const originAirports = parseList(query.get(FILTER_KEYS.originAirports))
+  if (originAirports.length > 0) filters.originAirports = originAirports
+
+  const destinationAirports = parseList(query.get(FILTER_KEYS.destinationAirports))
+  if (destinationAirports.length > 0) filters.destinationAirports = destinationAirports
+
+  const departureTimes = parseList(query.get(FILTER_KEYS.departureTimes))
+  if (departureTimes.length > 0) filters.departureTimes = departureTimes
+
+  const arrivalTimes = parseList(query.get(FILTER_KEYS.arrivalTimes))
+  if (arrivalTimes.length > 0) filters.arrivalTimes = arrivalTimes
+
+  const duration = parseNonNegativeInt(query.get(FILTER_KEYS.duration))
+  if (duration) filters.duration = duration
+
+  const maxLayoverMinutes = parseNonNegativeInt(query.get(FILTER_KEYS.maxLayoverMinutes))
+  if (maxLayoverMinutes) filters.maxLayoverMinutes = maxLayoverMinutes
+
+  const excludedLayoverAirports = parseList(query.get(FILTER_KEYS.excludedLayoverAirports))
+  if (excludedLayoverAirports.length > 0) filters.excludedLayoverAirports = excludedLayoverAirports
+
+  if (query.get(FILTER_KEYS.noOvernightLayovers) === '1') filters.noOvernightLayovers = true
+
+  // Sorting
+  const sortOption = parseSortOption(query.get(FILTER_KEYS.sort))
+  const sortDirection = query.get(FILTER_KEYS.sortDirection) === 'desc' ? 'desc' : null
+  const secondarySort = parseSortOption(query.get(FILTER_KEYS.secondarySort))
+
+  return { searchParams, filters, sortOption, sortDirection, secondarySort }
+}
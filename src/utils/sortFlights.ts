@@ -0,0 +1,97 @@
+import type { Flight, FlightScore, SortDirection, SortOption } from '../types/flight'
+import { isZonedDateTime } from './airportTime'
+import { getTotalLayoverMinutes } from './layovers'
+import { parseDuration } from './parseDuration'
+
+type FlightComparator = (a: Flight, b: Flight) => number
+
+/**
+ * Converts a departure/arrival time to a sortable number
+ * Zoned datetimes compare by instant; legacy "HH:MM" times by minutes after midnight
+ */
+function getTimeValue(dateTime: string): number {
+  if (isZonedDateTime(dateTime)) return Date.parse(dateTime)
+  const [hours, minutes] = dateTime.split(':').map(Number)
+  return (hours || 0) * 60 + (minutes || 0)
+}
+
+// Ascending comparators for each sort option
+const COMPARATORS: Record<SortOption, FlightComparator> = {
+  // Best (without scores): prioritize non-stop flights marked as best, then by price
+  best: (a, b) => {
+    if (a.best && !b.best) return -1
+    if (!a.best && b.best) return 1
+    if (a.stops === 0 && b.stops > 0) return -1
+    if (a.stops > 0 && b.stops === 0) return 1
+    return a.price - b.price
+  },
+  cheapest: (a, b) => a.price - b.price,
+  fastest: (a, b) => parseDuration(a.duration) - parseDuration(b.duration),
+  departure: (a, b) => getTimeValue(a.departureTime) - getTimeValue(b.departureTime),
+  arrival: (a, b) => getTimeValue(a.arrivalTime) - getTimeValue(b.arrivalTime),
+  layover: (a, b) => getTotalLayoverMinutes(a) - getTotalLayoverMinutes(b),
+}
+
+/**
+ * All sort options, in display order
+ */
+export const SORT_OPTIONS: SortOption[] = [
+  'best',
+  'cheapest',
+  'fastest',
+  'departure',
+  'arrival',
+  'layover',
+]
+
+/**
+ * Display labels for each sort option and its directions
+ */
+export const SORT_OPTION_LABELS: Record<SortOption, { label: string; asc: string; desc: string }> =
+  {
+    best: { label: 'Best', asc: 'Best first', desc: 'Best first' },
+    cheapest: { label: 'Cheapest', asc: 'Lowest price first', desc: 'Highest price first' },
+    fastest: { label: 'Fastest', asc: 'Shortest first', desc: 'Longest first' },
+    departure: { label: 'Departure', asc: 'Earliest first', desc: 'Latest first' },
+    arrival: { label: 'Arrival', asc: 'Earliest first', desc: 'Latest first' },
+    layover: { label: 'Layover', asc: 'Shortest first', desc: 'Longest first' },
+  }
+
+/**
+ * Sorts flights by a primary option and direction, with an optional ascending tie-break key
+ * "Best" has no meaningful reverse order, so it always sorts best first
+ * When scores are provided, "Best" follows their ranking (see scoreFlights)
+ * Remaining ties keep their original order
+ * @param flights - Flights to sort (not mutated)
+ * @param option - Primary sort option
+ * @param direction - Primary sort direction (default: 'asc')
+ * @param secondary - Tie-break sort option, or null for none
+ * @param bestScores - "Best" scores keyed by flight id (optional)
+ * @returns New sorted array
+ * @example
+ * ```typescript
+ * sortFlights(flights, 'cheapest', 'asc', 'fastest') // cheapest, then fastest among equal prices
+ * sortFlights(flights, 'departure', 'desc') // latest departure first
+ * ```
+ */
+export function sortFlights(
+  flights: Flight[],
+  option: SortOption,
+  direction: SortDirection = 'asc',
+  secondary: SortOption | null = null,
+  bestScores?: Map<string, FlightScore>
+): Flight[] {
+  const getComparator = (sort: SortOption): FlightComparator => {
+    if (sort === 'best' && bestScores) {
+      // Unscored flights go last
+      const getRank = (flight: Flight) => bestScores.get(flight.id)?.rank ?? Number.MAX_SAFE_INTEGER
+      return (a, b) => getRank(a) - getRank(b)
+    }
+    return COMPARATORS[sort] || COMPARATORS.best
+  }
+  const primary = getComparator(option)
+  const sign = direction === 'desc' && option !== 'best' ? -1 : 1
+  const tieBreak = secondary && secondary !== option ? getComparator(secondary) : null
+
+  return [...flights].sort((a, b) => sign * primary(a, b) || (tieBreak ? tieBreak(a, b) : 0))
+}
@@ -0,0 +1,99 @@
+import { useEffect, useRef, useState } from 'react'
+import type { Dispatch, SetStateAction } from 'react'
+import { logger } from './logger'
+
+// Namespace for every key this app writes to localStorage
+const STORAGE_PREFIX = 'flight-picker:'
+
+/**
+ * Gets the namespaced localStorage key for an app key
+ * Useful for matching `storage` events from other tabs
+ * @param key - App key (e.g., 'saved-trips')
+ * @returns Namespaced key (e.g., 'flight-picker:saved-trips')
+ */
+export function getStorageKey(key: string): string {
+  return `${STORAGE_PREFIX}${key}`
+}
+
+/**
+ * Reads a JSON value from localStorage
+ * Falls back when storage is unavailable (private mode, SSR) or the value is corrupt
+ * @param key - App key
+ * @param fallback - Value returned when nothing usable is stored
+ * @returns Stored value or the fallback
+ */
+export function readStorage<T>(key: string, fallback: T): T {
+  try {
+    const raw = window.localStorage.getItem(getStorageKey(key))
+    return raw === null ? fallback : (JSON.parse(raw) as T)
+  } catch (error) {
+    logger.warn('storage', `Failed to read "${key}" from localStorage`, error)
+    return fallback
+  }
+}
+
+/**
+ * Writes a JSON value to localStorage
+ * Failures (quota exceeded, storage disabled) are logged and otherwise ignored
+ * @param key - App key
+ * @param value - JSON-serializable value
+ */
+export function writeStorage<T>(key: string, value: T): void {
+  try {
+    window.localStorage.setItem(getStorageKey(key), JSON.stringify(value))
+  } catch (error) {
+    logger.warn('storage', `Failed to write "${key}" to localStorage`, error)
+  }
+}
+
+/**
+ * State persisted to localStorage and kept in sync across tabs
+ * The state is written from an effect whenever it changes (state updaters stay pure), and
+ * values stored by other tabs replace it
+ * @param key - App key (expected not to change)
+ * @param fallback - Value used when nothing usable is stored
+ * @param parse - Turns a stored value into state (e.g., filling fields added since it was
+ * saved); default: used as is
+ * @returns State and its setter, like useState
+ * @example
+ * ```typescript
+ * const [savedFlights, setSavedFlights] = usePersistentState<SavedFlight[]>('saved-trips', [])
+ * ```
+ */
+export function usePersistentState<T>(
+  key: string,
+  fallback: T,
+  parse: (stored: T) => T = stored => stored
+): [T, Dispatch<SetStateAction<T>>] {
+  const [value, setValue] = useState<T>(() => parse(readStorage(key, fallback)))
+  // Value last read from or written to storage, so it isn't written back
+  const storedRef = useRef(value)
+
+  // Latest fallback and parse for the storage listener, which is only added once
+  const readRef = useRef(() => parse(readStorage(key, fallback)))
+
+  useEffect(() => {
+    readRef.current = () => parse(readStorage(key, fallback))
+  })
+
+  useEffect(() => {
+    if (value === storedRef.current) return
+    storedRef.current = value
+    writeStorage(key, value)
+  }, [key, value])
+
+  // Keep tabs in sync
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === getStorageKey(key)) {
+        const stored = readRef.current()
+        storedRef.current = stored
+        setValue(stored)
+      }
+    }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [key])
+
+  return [value, setValue]
+}
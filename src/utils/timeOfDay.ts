@@ -0,0 +1,27 @@
+import { getLocalHour } from './airportTime'
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night'
+
+/**
+ * Time-of-day buckets used by the departure/arrival time filters, in display order
+ * Hours are local to the airport
+ */
+export const TIME_OF_DAY_OPTIONS: { value: TimeOfDay; label: string; hours: string }[] = [
+  { value: 'morning', label: 'Morning', hours: '6am - 12pm' },
+  { value: 'afternoon', label: 'Afternoon', hours: '12pm - 6pm' },
+  { value: 'evening', label: 'Evening', hours: '6pm - 12am' },
+  { value: 'night', label: 'Night', hours: '12am - 6am' },
+]
+
+/**
+ * Gets the time-of-day bucket of a datetime in its airport's local time
+ * @param dateTime - Zoned ISO datetime or legacy "HH:MM" time
+ * @returns Bucket: morning (6-12), afternoon (12-18), evening (18-24) or night (0-6)
+ */
+export function getTimeOfDay(dateTime: string): TimeOfDay {
+  const hour = getLocalHour(dateTime)
+  if (hour >= 6 && hour < 12) return 'morning'
+  if (hour >= 12 && hour < 18) return 'afternoon'
+  if (hour >= 18) return 'evening'
+  return 'night'
+}
@@ -1,4 +1,6 @@
 import { z } from 'zod'
+import type { PassengerCounts } from '../../types/flight'
+import { MAX_PASSENGERS, getPassengerCounts, getTotalPassengers } from '../passengers'
 
 /**
  * Validation schema for flight search parameters
@@ -18,14 +20,52 @@ export const searchValidationSchema = z.object({
       message: 'Number of passengers must be between 1 and 9',
     }
   ),
+  adults: z.number().int().min(1).optional(),
+  children: z.number().int().min(0).optional(),
+  infantsInSeat: z.number().int().min(0).optional(),
+  infantsOnLap: z.number().int().min(0).optional(),
   cabinClass: z.enum(['economy', 'premium-economy', 'business', 'first'], {
     message: 'Invalid cabin class selected',
   }),
-  tripType: z.enum(['one-way', 'round-trip'], {
+  tripType: z.enum(['one-way', 'round-trip', 'multi-city'], {
     message: 'Invalid trip type selected',
   }),
 })
 
+/**
+ * Validation schema for the passenger mix of a search
+ * Enforces airline booking rules: at least one adult, at most 9 travellers in total and
+ * no more infants than adults (every infant must travel with an adult)
+ */
+export const passengerCountsSchema = z
+  .object({
+    adults: z.number().int().min(1, 'At least one adult is required'),
+    children: z.number().int().min(0),
+    infantsInSeat: z.number().int().min(0),
+    infantsOnLap: z.number().int().min(0),
+  })
+  .refine(counts => getTotalPassengers(counts) <= MAX_PASSENGERS, {
+    message: `A booking can include at most ${MAX_PASSENGERS} travellers`,
+  })
+  .refine(counts => counts.infantsInSeat + counts.infantsOnLap <= counts.adults, {
+    message: 'Each infant must travel with an adult',
+  })
+
+/**
+ * Validates a passenger mix against airline booking rules
+ * @param counts - Passenger counts
+ * @returns Error message if invalid, undefined if valid
+ * @example
+ * ```typescript
+ * validatePassengers({ adults: 1, children: 0, infantsInSeat: 1, infantsOnLap: 1 })
+ * // "Each infant must travel with an adult"
+ * ```
+ */
+export function validatePassengers(counts: PassengerCounts): string | undefined {
+  const result = passengerCountsSchema.safeParse(counts)
+  return result.success ? undefined : result.error.issues[0]?.message
+}
+
 /**
  * Validates flight search parameters
  * @param data - Search form data to validate
@@ -150,6 +190,18 @@ export function validateFlightSearch(data: unknown) {
     }
   }
 
+  // Check passenger mix
+  const passengerError = validatePassengers(getPassengerCounts(validated))
+  if (passengerError) {
+    return {
+      success: false,
+      errors: {
+        ...schemaResult.errors,
+        passengers: passengerError,
+      },
+    }
+  }
+
   // Check airports
   const airportError = validateAirports(validated.from, validated.to)
   if (airportError) {
@@ -1,14 +1,18 @@
 import { RAPID_API_KEY } from './envConfig'
 import { logger } from './logger'
+import { isAbortError } from './apiRetry'
 
 /**
  * Generic wrapper for API calls with automatic mock data fallback
  * Handles missing API keys, API failures, and provides consistent fallback behavior
+ * Aborted requests are rethrown rather than answered with mock data
  *
  * @param apiCall - Function that makes the actual API call
  * @param getMockData - Function that returns mock data (can be async)
  * @param context - Context string for logging (e.g., "searchFlights", "getPriceCalendar")
+ * @param signal - Abort signal of the request, also checked around the mock data
  * @returns Promise with API data or mock data
+ * @throws The abort reason if the request is aborted
  *
  * @example
  * ```typescript
@@ -22,12 +26,21 @@ import { logger } from './logger'
 export async function withMockFallback<T>(
   apiCall: () => Promise<T>,
   getMockData: () => T | Promise<T>,
-  context: string
+  context: string,
+  signal?: AbortSignal
 ): Promise<T> {
+  // Mock data doesn't observe the signal, so an aborted request must not resolve with it
+  const getMockDataUnlessAborted = async () => {
+    signal?.throwIfAborted()
+    const data = await getMockData()
+    signal?.throwIfAborted()
+    return data
+  }
+
   // If API key is not configured, return mock data immediately
   if (!RAPID_API_KEY) {
     logger.debug(context, 'Using mock data (API key not configured)')
-    return getMockData()
+    return getMockDataUnlessAborted()
   }
 
   try {
@@ -35,25 +48,32 @@ export async function withMockFallback<T>(
     const result = await apiCall()
     return result
   } catch (error) {
+    // The caller cancelled the request and no longer wants any data
+    if (isAbortError(error)) {
+      throw error
+    }
+
     // Check if this is due to missing API key (expected in development)
     if (error instanceof Error && error.name === 'NoApiKeyError') {
       logger.debug(context, 'API key not configured, using mock data')
-      return getMockData()
+      return getMockDataUnlessAborted()
     }
 
     // For any other API error, fall back to mock data
     logger.warn(context, 'API call failed, falling back to mock data', { error })
-    return getMockData()
+    return getMockDataUnlessAborted()
   }
 }
 
 /**
  * Simplified version that wraps API call with context-sensitive logging
- * Returns null on failure if no mock data is provided
+ * Returns null on failure if no mock data is provided; aborted requests are rethrown
  *
  * @param apiCall - Function that makes the actual API call
  * @param context - Context string for logging
+ * @param signal - Abort signal of the request
  * @returns Promise with API data or null
+ * @throws The abort reason if the request is aborted
  *
  * @example
  * ```typescript
@@ -65,8 +85,11 @@ export async function withMockFallback<T>(
  */
 export async function withFallback<T>(
   apiCall: () => Promise<T>,
-  context: string
+  context: string,
+  signal?: AbortSignal
 ): Promise<T | null> {
+  signal?.throwIfAborted()
+
   // If API key is not configured, return null
   if (!RAPID_API_KEY) {
     logger.debug(context, 'API key not configured')
@@ -76,6 +99,9 @@ export async function withFallback<T>(
   try {
     return await apiCall()
   } catch (error) {
+    if (isAbortError(error)) {
+      throw error
+    }
     logger.error(context, 'API call failed', error)
     return null
   }